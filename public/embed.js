@@ -5,6 +5,12 @@
  * Usage:
  * <div data-wai-project="YOUR_PROJECT_SLUG"></div>
  * <script src="https://your-domain.com/embed.js" async></script>
+ *
+ * Viewer ID: inside the iframe our cookie is third-party and often blocked,
+ * so this script keeps the viewer ID first-party on the host page (wai_vid
+ * cookie + localStorage) and passes it to the iframe as ?wai_vid=. It's
+ * exposed as window.wai.viewerId for conversion calls from the page, and the
+ * cookie lets the site's backend send it to conversion webhooks.
  */
 (function() {
   'use strict';
@@ -27,6 +33,44 @@
   dnsPrefetch.href = BASE_URL;
   document.head.appendChild(dnsPrefetch);
 
+  var VIEWER_ID_PATTERN = /^wai_[a-z0-9]{8,32}$/;
+
+  function readCookie(name) {
+    var match = document.cookie.match(new RegExp('(?:^|; )' + name + '=([^;]*)'));
+    return match ? decodeURIComponent(match[1]) : null;
+  }
+
+  function getViewerId() {
+    var id = readCookie('wai_vid');
+    try {
+      if (!id || !VIEWER_ID_PATTERN.test(id)) id = localStorage.getItem('wai_vid');
+    } catch (e) {}
+    if (!id || !VIEWER_ID_PATTERN.test(id)) {
+      var chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
+      id = 'wai_';
+      for (var i = 0; i < 16; i++) {
+        id += chars.charAt(Math.floor(Math.random() * chars.length));
+      }
+    }
+    // Re-persist on every load so the cookie's year keeps rolling
+    try {
+      localStorage.setItem('wai_vid', id);
+    } catch (e) {}
+    document.cookie = 'wai_vid=' + id + '; max-age=31536000; path=/; SameSite=Lax' +
+      (location.protocol === 'https:' ? '; Secure' : '');
+    return id;
+  }
+
+  // Minted even on pages without a player (e.g. a thank-you page), so
+  // conversions there resolve to the same viewer
+  // window.wai is shared with track.js: a command queue until track.js
+  // loads and takes it over
+  var viewerId = getViewerId();
+  window.wai = window.wai || function() {
+    (window.wai.q = window.wai.q || []).push(arguments);
+  };
+  window.wai.viewerId = viewerId;
+
   var containers = document.querySelectorAll('[data-wai-project]');
   if (!containers.length) return;
 
@@ -35,7 +79,20 @@
     if (!slug) return;
 
     var iframe = document.createElement('iframe');
-    iframe.src = BASE_URL + '/e/' + slug;
+    // Forward the host page's query string so ?wai_variant= (QA) and
+    // project assignment rules (e.g. ?industry=saas) reach the player,
+    // plus the first-party viewer ID and the host page's referrer host for
+    // audience targeting (inside the iframe the Referer is the host page)
+    var query = window.location.search;
+    query += (query ? '&' : '?') + 'wai_vid=' + viewerId;
+    var referrerHost = '';
+    try {
+      if (document.referrer) referrerHost = new URL(document.referrer).hostname;
+    } catch (e) {}
+    if (referrerHost) {
+      query += (query ? '&' : '?') + 'wai_ref=' + encodeURIComponent(referrerHost);
+    }
+    iframe.src = BASE_URL + '/e/' + slug + query;
     iframe.setAttribute('frameborder', '0');
     iframe.setAttribute('allow', 'autoplay; fullscreen');
     iframe.setAttribute('allowfullscreen', '');
@@ -48,4 +105,17 @@
 
     container.appendChild(iframe);
   });
+
+  // Viewers in a project's holdout bucket get no video — collapse the
+  // iframe instead of leaving an empty black box on the page
+  window.addEventListener('message', function(event) {
+    if (event.origin !== BASE_URL) return;
+    if (!event.data || event.data.type !== 'wai:holdout') return;
+    var frames = document.querySelectorAll('iframe');
+    for (var i = 0; i < frames.length; i++) {
+      if (frames[i].contentWindow === event.source) {
+        frames[i].style.display = 'none';
+      }
+    }
+  });
 })();
@@ -0,0 +1,110 @@
+/**
+ * webinar.ai Conversion Tracker
+ * Lightweight script for thank-you and checkout pages. Reports conversions
+ * for the viewer who watched the embed, so custom metrics fire without
+ * hand-written fetch calls.
+ *
+ * Usage:
+ * <script>window.wai=window.wai||function(){(wai.q=wai.q||[]).push(arguments)};</script>
+ * <script src="https://your-domain.com/track.js" data-wai-project-id="YOUR_PROJECT_ID" async></script>
+ *
+ * On load it posts the page URL, which records every URL-rule metric the
+ * URL matches. Any metric can also be recorded explicitly by name:
+ *   wai('convert', 'Purchase', { value: 49, metadata: { order_id: 'A-1001' } });
+ * Calls made before the script loads are queued by the stub above.
+ *
+ * The viewer ID is the one embed.js keeps first-party on the site (wai_vid
+ * cookie + localStorage), so conversions land on the variant they saw.
+ */
+(function() {
+  'use strict';
+
+  var script = document.currentScript;
+  if (!script || !script.src) return;
+  var BASE_URL = new URL(script.src).origin;
+  var projectId = script.getAttribute('data-wai-project-id');
+  if (!projectId) return;
+
+  var VIEWER_ID_PATTERN = /^wai_[a-z0-9]{8,32}$/;
+
+  function readCookie(name) {
+    var match = document.cookie.match(new RegExp('(?:^|; )' + name + '=([^;]*)'));
+    return match ? decodeURIComponent(match[1]) : null;
+  }
+
+  // Same ID and storage as embed.js — minted here too when this page is
+  // the first one with our scripts the viewer hits
+  function getViewerId() {
+    var id = readCookie('wai_vid');
+    try {
+      if (!id || !VIEWER_ID_PATTERN.test(id)) id = localStorage.getItem('wai_vid');
+    } catch (e) {}
+    if (!id || !VIEWER_ID_PATTERN.test(id)) {
+      var chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
+      id = 'wai_';
+      for (var i = 0; i < 16; i++) {
+        id += chars.charAt(Math.floor(Math.random() * chars.length));
+      }
+    }
+    try {
+      localStorage.setItem('wai_vid', id);
+    } catch (e) {}
+    document.cookie = 'wai_vid=' + id + '; max-age=31536000; path=/; SameSite=Lax' +
+      (location.protocol === 'https:' ? '; Secure' : '');
+    return id;
+  }
+
+  function getSessionId() {
+    try {
+      var id = sessionStorage.getItem('wai_sid');
+      if (!id) {
+        id = 'sid_' + Math.random().toString(36).slice(2, 14);
+        sessionStorage.setItem('wai_sid', id);
+      }
+      return id;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  var viewerId = getViewerId();
+  var sessionId = getSessionId();
+
+  function send(payload) {
+    payload.projectId = projectId;
+    payload.viewerId = viewerId;
+    payload.sessionId = sessionId;
+    payload.pageUrl = window.location.href;
+    var body = JSON.stringify(payload);
+    var url = BASE_URL + '/api/track/conversion';
+    try {
+      if (navigator.sendBeacon && navigator.sendBeacon(url, body)) return;
+      fetch(url, { method: 'POST', body: body, keepalive: true });
+    } catch (e) {
+      // Tracking should never break the host page
+    }
+  }
+
+  function wai(command, metricName, options) {
+    if (command !== 'convert' || !metricName) return;
+    var payload = { metric: String(metricName) };
+    // Order total etc. — validated server-side, summed by revenue metrics
+    if (options && options.value !== undefined) payload.value = options.value;
+    // Order ID etc. — lets a metric with a dedup field ignore reloads
+    if (options && options.metadata && typeof options.metadata === 'object') {
+      payload.metadata = options.metadata;
+    }
+    send(payload);
+  }
+
+  var queued = (window.wai && window.wai.q) || [];
+  wai.viewerId = viewerId;
+  window.wai = wai;
+
+  // URL-rule metrics
+  send({});
+
+  for (var i = 0; i < queued.length; i++) {
+    wai.apply(null, queued[i]);
+  }
+})();
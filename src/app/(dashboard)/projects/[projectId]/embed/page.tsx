@@ -7,11 +7,18 @@
  *     1. Iframe embed (works everywhere, just paste into HTML)
  *     2. Direct link (shareable URL for testing)
  *     3. Live preview (iframe preview right in the dashboard)
+ *   plus the conversion tracking snippet (public/track.js) for thank-you
+ *   and checkout pages.
+ *
+ *   Also shows which publish run is live, whether a republish is rendering
+ *   behind it, and a rollback button when a previous run is kept, plus QA
+ *   links and personalization rules (AssignmentOverrides), audience
+ *   pools (AudiencePools) and outgoing webhooks (OutgoingWebhooks).
  */
 
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useParams } from "next/navigation";
 import Link from "next/link";
 import { createClient } from "@/lib/supabase/client";
@@ -24,9 +31,13 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { toast } from "sonner";
+import { AssignmentOverrides } from "@/components/project/AssignmentOverrides";
+import { AudiencePools } from "@/components/project/AudiencePools";
+import { OutgoingWebhooks } from "@/components/project/OutgoingWebhooks";
 import type { Database } from "@/lib/supabase/types";
 
 type Project = Database["public"]["Tables"]["projects"]["Row"];
+type PublishRun = Database["public"]["Tables"]["publish_runs"]["Row"];
 
 function CopyIcon() {
   return (
@@ -39,20 +50,46 @@ function CopyIcon() {
 export default function EmbedPage() {
   const { projectId } = useParams<{ projectId: string }>();
   const [project, setProject] = useState<Project | null>(null);
+  const [runs, setRuns] = useState<PublishRun[]>([]);
+  const [rollingBack, setRollingBack] = useState(false);
   const supabase = createClient();
 
-  useEffect(() => {
-    async function load() {
-      const { data } = await supabase
-        .from("projects")
+  const load = useCallback(async () => {
+    const [projectRes, runsRes] = await Promise.all([
+      supabase.from("projects").select("*").eq("id", projectId).single(),
+      supabase
+        .from("publish_runs")
         .select("*")
-        .eq("id", projectId)
-        .single();
-      setProject(data as Project | null);
-    }
-    load();
+        .eq("project_id", projectId)
+        .order("created_at", { ascending: false }),
+    ]);
+    setProject(projectRes.data as Project | null);
+    setRuns((runsRes.data as PublishRun[]) || []);
   }, [projectId, supabase]);
 
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function handleRollback() {
+    setRollingBack(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/rollback`, {
+        method: "POST",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error || "Rollback failed");
+      }
+      toast.success("Previous version is live again");
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Rollback failed");
+    } finally {
+      setRollingBack(false);
+    }
+  }
+
   if (!project) return null;
 
   const appUrl = typeof window !== "undefined" ? window.location.origin : "";
@@ -70,6 +107,14 @@ export default function EmbedPage() {
 
   const directUrl = `${appUrl}/e/${project.slug}`;
 
+  const trackingCode = `<!-- webinar.ai Conversion Tracking -->
+<script>window.wai=window.wai||function(){(wai.q=wai.q||[]).push(arguments)};</script>
+<script src="${appUrl}/track.js" data-wai-project-id="${project.id}" async></script>`;
+
+  const liveRun = runs.find((r) => r.status === "live");
+  const buildingRun = runs.find((r) => r.status === "building");
+  const previousRun = runs.find((r) => r.status === "archived");
+
   function copyToClipboard(text: string, label: string) {
     navigator.clipboard.writeText(text);
     toast.success(`${label} copied to clipboard`);
@@ -94,7 +139,7 @@ export default function EmbedPage() {
         </Link>
       </div>
 
-      {project.status !== "ready" && project.status !== "processing" ? (
+      {!project.live_run_id && project.status !== "processing" ? (
         <Card className="border-border bg-card">
           <CardContent className="py-12 text-center">
             <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-2xl bg-muted">
@@ -112,6 +157,37 @@ export default function EmbedPage() {
         </Card>
       ) : (
         <>
+          {liveRun && (
+            <Card className="border-border bg-card">
+              <CardHeader>
+                <CardTitle className="text-[15px] font-medium text-foreground">
+                  Published Version
+                </CardTitle>
+                <CardDescription>
+                  {buildingRun
+                    ? "A new version is rendering — this one keeps serving until it's ready"
+                    : "What your embeds are serving right now"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <RunRow run={liveRun} label="Live" />
+                {previousRun && (
+                  <div className="flex items-center justify-between gap-3">
+                    <RunRow run={previousRun} label="Previous" />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRollback}
+                      disabled={rollingBack}
+                    >
+                      {rollingBack ? "Rolling back..." : "Roll back"}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           <Card className="border-border bg-card">
             <CardHeader>
               <CardTitle className="text-[15px] font-medium text-foreground">
@@ -165,6 +241,43 @@ export default function EmbedPage() {
             </CardContent>
           </Card>
 
+          <Card className="border-border bg-card">
+            <CardHeader>
+              <CardTitle className="text-[15px] font-medium text-foreground">
+                Conversion Tracking
+              </CardTitle>
+              <CardDescription>
+                Add this to thank-you and checkout pages. URL-rule metrics
+                fire automatically; record any metric by name with{" "}
+                <code className="text-primary">
+                  wai(&apos;convert&apos;, &apos;Purchase&apos;, {"{ value: 49 }"})
+                </code>
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="relative">
+                <pre className="overflow-x-auto rounded-xl bg-background p-4 text-[13px] leading-relaxed text-foreground/70 border border-border">
+                  <code>{trackingCode}</code>
+                </pre>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="absolute right-3 top-3"
+                  onClick={() => copyToClipboard(trackingCode, "Tracking code")}
+                >
+                  <CopyIcon />
+                  Copy
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <AssignmentOverrides projectId={projectId} directUrl={directUrl} />
+
+          <AudiencePools projectId={projectId} />
+
+          <OutgoingWebhooks projectId={projectId} />
+
           <Card className="border-border bg-card">
             <CardHeader>
               <CardTitle className="text-[15px] font-medium text-foreground">
@@ -187,3 +300,28 @@ export default function EmbedPage() {
     </div>
   );
 }
+
+function RunRow({ run, label }: { run: PublishRun; label: string }) {
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <span
+        className={`rounded-md px-2 py-0.5 text-xs font-medium ${
+          run.status === "live"
+            ? "bg-emerald-500/10 text-emerald-400"
+            : "bg-muted text-muted-foreground"
+        }`}
+      >
+        {label}
+      </span>
+      <span className="text-foreground/80">
+        {run.variant_count} variants
+        {run.design_mode === "fractional" ? " (fractional)" : ""}
+      </span>
+      {run.published_at && (
+        <span className="text-muted-foreground">
+          published {new Date(run.published_at).toLocaleString()}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@
  *   - Analytics summary (when data exists)
  *   - Top performer card (for multi-variant projects)
  *   - Expandable segment sections with preview
+ *   - Loudness warning when segments play at noticeably different volumes
  *   - Variant grid with inline naming and performance data
  *   - Processing progress (when active)
  */
@@ -18,6 +19,10 @@ import { createClient } from "@/lib/supabase/client";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAnalytics } from "@/hooks/use-analytics";
 import { LayoutSwitcher } from "@/components/project/layouts/LayoutSwitcher";
+import type { SlotGroup } from "@/components/project/layouts/types";
+import { slotSegments } from "@/lib/variant/combinations";
+import { projectSlots } from "@/lib/variant/slots";
+import { loudnessMismatch } from "@/lib/video/loudness";
 import type { Database } from "@/lib/supabase/types";
 
 type Project = Database["public"]["Tables"]["projects"]["Row"];
@@ -42,7 +47,7 @@ export default function ProjectDetailPage() {
   });
 
   const load = useCallback(async () => {
-    const [projectRes, segmentsRes, variantsRes] = await Promise.all([
+    const [projectRes, segmentsRes, variantsRes, runsRes] = await Promise.all([
       supabase.from("projects").select("*").eq("id", projectId).single(),
       supabase
         .from("segments")
@@ -55,10 +60,23 @@ export default function ProjectDetailPage() {
         .select("*")
         .eq("project_id", projectId)
         .order("variant_code"),
+      supabase
+        .from("publish_runs")
+        .select("status, variant_ids")
+        .eq("project_id", projectId)
+        .in("status", ["building", "live"]),
     ]);
+    // Show the run being built (with its progress and failures) if there is
+    // one, otherwise the live run — never the archived run's variants
+    const runs = runsRes.data || [];
+    const currentRun =
+      runs.find((r) => r.status === "building") ?? runs.find((r) => r.status === "live");
+    const currentIds = new Set(currentRun?.variant_ids ?? []);
     setProject(projectRes.data as Project | null);
     setSegments((segmentsRes.data as Segment[]) || []);
-    setVariants((variantsRes.data as Variant[]) || []);
+    setVariants(
+      ((variantsRes.data as Variant[]) || []).filter((v) => currentIds.has(v.id))
+    );
     setLoading(false);
   }, [projectId, supabase]);
 
@@ -100,9 +118,15 @@ export default function ProjectDetailPage() {
     return <p className="text-muted-foreground">Project not found.</p>;
   }
 
-  const hooks = segments.filter((s) => s.type === "hook");
-  const bodies = segments.filter((s) => s.type === "body");
-  const ctas = segments.filter((s) => s.type === "cta");
+  const slots = projectSlots(project);
+  const slotGroups: SlotGroup[] = slotSegments(slots, segments).map((group, i) => ({
+    slot: slots[i],
+    index: i,
+    segments: group,
+  }));
+  const hasRequiredSegments = slotGroups.every(
+    (g) => !g.slot.required || g.segments.length > 0
+  );
   const renderedVariants = variants.filter((v) => v.status === "rendered");
   const activeVariants = renderedVariants.filter((v) => v.weight > 0);
   const failedVariants = variants.filter((v) => v.status === "failed");
@@ -111,9 +135,10 @@ export default function ProjectDetailPage() {
     project.status !== "processing" &&
     (failedVariants.length > 0 || failedSegments.length > 0);
   const isSplitTest = activeVariants.length > 1;
+  const mismatch = loudnessMismatch(segments);
 
   // Find best-performing segments from analytics
-  const bestSegmentIds = getBestSegmentIds(analytics, variants, segments);
+  const bestSegmentIds = getBestSegmentIds(analytics, variants, slotGroups);
 
   return (
     <LayoutSwitcher
@@ -122,15 +147,15 @@ export default function ProjectDetailPage() {
       variants={variants}
       analytics={analytics}
       projectId={projectId}
-      hooks={hooks}
-      bodies={bodies}
-      ctas={ctas}
+      slotGroups={slotGroups}
+      hasRequiredSegments={hasRequiredSegments}
       renderedVariants={renderedVariants}
       activeVariants={activeVariants}
       failedSegments={failedSegments}
       failedVariants={failedVariants}
       isSplitTest={isSplitTest}
       hasFailures={hasFailures}
+      loudnessMismatch={mismatch}
       bestSegmentIds={bestSegmentIds}
       selectedVariantId={selectedVariantId}
       onRefresh={load}
@@ -142,8 +167,8 @@ export default function ProjectDetailPage() {
 // ─── Helpers ───────────────────────────────────────────────
 
 /**
- * Determine the best-performing segment for each type based on analytics.
- * Looks at which hook/body/cta appears in the top-performing variant.
+ * Determine the best-performing segment for each slot based on analytics.
+ * Looks at which segment of each slot appears in the top-performing variant.
  */
 function getBestSegmentIds(
   analytics:
@@ -151,13 +176,9 @@ function getBestSegmentIds(
     | undefined
     | null,
   variants: Variant[],
-  segments: Segment[]
-): { hook: string | null; body: string | null; cta: string | null } {
-  const result = {
-    hook: null as string | null,
-    body: null as string | null,
-    cta: null as string | null,
-  };
+  slotGroups: SlotGroup[]
+): Record<string, string | null> {
+  const result: Record<string, string | null> = {};
 
   if (!analytics?.variants || analytics.variants.length < 2) return result;
 
@@ -176,14 +197,12 @@ function getBestSegmentIds(
   const bestVariant = variants.find((v) => v.id === bestVariantId);
   if (!bestVariant) return result;
 
-  // Only mark as "best" if there are multiple segments of that type
-  const hookCount = segments.filter((s) => s.type === "hook").length;
-  const bodyCount = segments.filter((s) => s.type === "body").length;
-  const ctaCount = segments.filter((s) => s.type === "cta").length;
-
-  if (hookCount > 1) result.hook = bestVariant.hook_segment_id;
-  if (bodyCount > 1) result.body = bestVariant.body_segment_id;
-  if (ctaCount > 1) result.cta = bestVariant.cta_segment_id;
+  // Only mark as "best" if there are multiple segments in that slot
+  for (const { slot, segments } of slotGroups) {
+    if (segments.length < 2) continue;
+    result[slot.key] =
+      bestVariant.segment_ids.find((id) => segments.some((s) => s.id === id)) ?? null;
+  }
 
   return result;
 }
@@ -6,6 +6,10 @@
  *   deploying the embed code. Two viewing modes:
  *     1. Smart Player — The dual-video player that end-users will see
  *     2. Simple Player — Standard HTML5 video with native controls
+ *
+ *   Dual Clutch plays the manifest composed from the variant's segment HLS
+ *   packages (/api/compose/...). Composed variants have no MP4, so only the
+ *   HLS-capable modes (Dual Clutch, AI Smart Sync) can play them.
  */
 
 "use client";
@@ -25,9 +29,12 @@ import { EmbedPlayer } from "@/components/player/EmbedPlayer";
 import { SmartSyncPlayer } from "@/components/player/SmartSyncPlayer";
 import { DualClutchPlayer } from "@/components/player/DualClutchPlayer";
 import { storageUrl } from "@/lib/storage/urls";
-import { variantPosterKey } from "@/lib/storage/keys";
+import { segmentPosterKey, variantPosterKey } from "@/lib/storage/keys";
+import { composedManifestPath, playlistDurationMs } from "@/lib/video/composed-manifest";
+import { DEFAULT_SLOTS, projectSlots } from "@/lib/variant/slots";
+import { hasOverlaps } from "@/lib/video/transitions";
 import { formatDuration, formatFileSize } from "@/lib/utils/format";
-import type { Database } from "@/lib/supabase/types";
+import type { Database, SegmentPlaylist } from "@/lib/supabase/types";
 
 type Variant = Database["public"]["Tables"]["variants"]["Row"];
 
@@ -35,6 +42,10 @@ export default function PreviewPage() {
   const { projectId } = useParams<{ projectId: string }>();
   const [variants, setVariants] = useState<Variant[]>([]);
   const [selectedId, setSelectedId] = useState<string>("");
+  // Packaged segments' playlists, by segment ID
+  const [playlists, setPlaylists] = useState<Map<string, SegmentPlaylist>>(new Map());
+  // Label of the slot each segment fills, by segment ID
+  const [slotLabels, setSlotLabels] = useState<Map<string, string>>(new Map());
   const [playerMode, setPlayerMode] = useState<"dualclutch" | "smartsync" | "smart" | "simple">("dualclutch");
   const supabase = useMemo(() => createClient(), []);
 
@@ -50,11 +61,60 @@ export default function PreviewPage() {
         setVariants(data as Variant[]);
         setSelectedId((data as Variant[])[0].id);
       }
+
+      const [{ data: segments }, { data: project }] = await Promise.all([
+        supabase.from("segments").select("id, type, hls_playlist").eq("project_id", projectId),
+        supabase.from("projects").select("slots").eq("id", projectId).single(),
+      ]);
+      const slots = project ? projectSlots(project) : DEFAULT_SLOTS;
+      setPlaylists(
+        new Map(
+          (segments || [])
+            .filter((s) => s.hls_playlist)
+            .map((s) => [s.id, s.hls_playlist as SegmentPlaylist])
+        )
+      );
+      setSlotLabels(
+        new Map(
+          (segments || []).map((s) => [
+            s.id,
+            slots.find((slot) => slot.key === s.type)?.label ?? s.type,
+          ])
+        )
+      );
     }
     load();
   }, [projectId, supabase]);
 
   const selected = variants.find((v) => v.id === selectedId);
+  const posterUrl = selected
+    ? storageUrl(
+        selected.composed
+          ? segmentPosterKey(projectId, selected.hook_segment_id)
+          : variantPosterKey(projectId, selected.id)
+      )
+    : undefined;
+
+  // The composed manifest plays once all of the variant's segments are packaged
+  const segmentPlaylists = selected
+    ? selected.segment_ids.map((id) => playlists.get(id))
+    : [];
+  const composedUrl =
+    selected && segmentPlaylists.every(Boolean)
+      ? composedManifestPath(
+          projectId,
+          selected.segment_ids,
+          selected.composed ? selected.id : undefined
+        )
+      : null;
+  // A composed manifest joins segments with cuts — a variant rendered with
+  // overlapping transitions plays its own HLS package instead
+  const overlapped = !!selected && !selected.composed && hasOverlaps(selected.transitions);
+  const dualClutchUrl = overlapped
+    ? selected.hls_master_manifest_key
+      ? storageUrl(selected.hls_master_manifest_key)
+      : null
+    : composedUrl;
 
   return (
     <div className="space-y-6">
@@ -93,12 +153,32 @@ export default function PreviewPage() {
           <div className="lg:col-span-2 space-y-3">
             <Card className="border-border bg-card overflow-hidden">
               <CardContent className="p-0">
-                {selected && playerMode === "dualclutch" && selected.dual_clutch_manifest_key && selected.video_storage_key ? (
+                {selected && playerMode === "dualclutch" && dualClutchUrl ? (
                   <div key={`${selected.id}-dualclutch`}>
+                    <DualClutchPlayer
+                      manifestUrl={dualClutchUrl}
+                      mp4FallbackUrl={
+                        selected.video_storage_key ? storageUrl(selected.video_storage_key) : dualClutchUrl
+                      }
+                      posterUrl={posterUrl}
+                      variantId={selected.id}
+                      projectSlug="preview"
+                      segmentDurationsMs={
+                        segmentPlaylists.every(Boolean)
+                          ? segmentPlaylists.map((p) => playlistDurationMs(p!))
+                          : undefined
+                      }
+                      segmentLabels={selected.segment_ids.map((id) => slotLabels.get(id) ?? "")}
+                      transitions={overlapped ? selected.transitions : undefined}
+                    />
+                  </div>
+                ) : selected && playerMode === "dualclutch" && selected.dual_clutch_manifest_key && selected.video_storage_key ? (
+                  // Packaged per variant before segments were packaged once
+                  <div key={`${selected.id}-dualclutch-legacy`}>
                     <DualClutchPlayer
                       manifestUrl={storageUrl(selected.dual_clutch_manifest_key)}
                       mp4FallbackUrl={storageUrl(selected.video_storage_key)}
-                      posterUrl={storageUrl(variantPosterKey(projectId, selected.id))}
+                      posterUrl={posterUrl}
                       variantId={selected.id}
                       projectSlug="preview"
                     />
@@ -110,22 +190,28 @@ export default function PreviewPage() {
                       controls
                       preload="auto"
                       className="aspect-video w-full bg-black"
-                      poster={storageUrl(variantPosterKey(projectId, selected.id))}
+                      poster={posterUrl}
                       src={storageUrl(selected.video_storage_key)}
                     />
                     <div className="px-5 py-2 text-xs text-amber-500/80">
-                      Dual Clutch manifest not yet generated. Re-process this project to enable.
+                      This variant&apos;s segments have no HLS packages yet. Re-upload them to enable Dual Clutch.
                     </div>
                   </div>
-                ) : selected && playerMode === "smartsync" && selected.hook_clip_storage_key && selected.video_storage_key ? (
+                ) : selected && playerMode === "smartsync" && selected.hook_clip_storage_key && (selected.video_storage_key || (selected.composed && composedUrl)) ? (
                   <div key={`${selected.id}-smartsync`}>
                     <SmartSyncPlayer
                       hookClipUrl={storageUrl(selected.hook_clip_storage_key)}
-                      fullVideoUrl={storageUrl(selected.video_storage_key)}
+                      fullVideoUrl={selected.video_storage_key ? storageUrl(selected.video_storage_key) : composedUrl!}
+                      hlsManifestUrl={selected.composed ? composedUrl! : undefined}
                       hookEndTimeMs={selected.hook_end_time_ms || 0}
-                      posterUrl={storageUrl(variantPosterKey(projectId, selected.id))}
+                      posterUrl={posterUrl}
                       variantId={selected.id}
                       projectSlug="preview"
+                      captionsUrl={
+                        selected.captions_storage_key
+                          ? storageUrl(selected.captions_storage_key)
+                          : undefined
+                      }
                     />
                   </div>
                 ) : selected && playerMode === "smart" && selected.hook_clip_storage_key && selected.video_storage_key ? (
@@ -134,7 +220,7 @@ export default function PreviewPage() {
                       hookClipUrl={storageUrl(selected.hook_clip_storage_key)}
                       fullVideoUrl={storageUrl(selected.video_storage_key)}
                       hookEndTimeMs={selected.hook_end_time_ms || 0}
-                      posterUrl={storageUrl(variantPosterKey(projectId, selected.id))}
+                      posterUrl={posterUrl}
                       variantId={selected.id}
                       projectSlug="preview"
                     />
@@ -145,9 +231,16 @@ export default function PreviewPage() {
                     controls
                     preload="auto"
                     className="aspect-video w-full bg-black"
-                    poster={storageUrl(variantPosterKey(projectId, selected.id))}
+                    poster={posterUrl}
                     src={storageUrl(selected.video_storage_key)}
                   />
+                ) : selected?.composed ? (
+                  <div
+                    key={`${selected.id}-composed`}
+                    className="flex aspect-video w-full items-center justify-center bg-black px-6 text-center text-sm text-muted-foreground"
+                  >
+                    Composed variants have no MP4 of their own — preview them in Dual Clutch or AI Smart Sync.
+                  </div>
                 ) : null}
                 <div className="px-5 py-4">
                   <div className="flex items-center justify-between">
@@ -1,21 +1,47 @@
 /**
  * projects/[projectId]/upload/page.tsx — Segment upload page
  *
- * Three-column layout for uploading video segments (hooks, bodies, CTAs).
- * Shows variant combination count, combination grid with deselection,
- * and a "Start Processing" button when ready.
+ * One uploader column per project slot (hooks, bodies, CTAs by default),
+ * with a slot editor above them to rename, reorder, add and remove slots,
+ * the transitions between slots, and the project's loudness target below it.
+ * Shows variant combination count, combination grid with deselection and
+ * the full/fractional design toggle, a test-duration planner next to the
+ * grid, and a "Start Processing" button when ready. Deselected combos are
+ * saved on the project as they change, so the grid reloads with them still
+ * unchecked. A checkbox next to the button switches the project to dynamic
+ * composition (variants composed on request instead of rendered).
  */
 
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import { createClient } from "@/lib/supabase/client";
 import { SegmentUploader } from "@/components/upload/SegmentUploader";
-import { CombinationGrid, comboKey } from "@/components/upload/CombinationGrid";
+import { CombinationGrid } from "@/components/upload/CombinationGrid";
+import { SampleSizePlanner } from "@/components/upload/SampleSizePlanner";
+import { SlotEditor } from "@/components/upload/SlotEditor";
+import { LoudnessSettings } from "@/components/upload/LoudnessSettings";
+import { TransitionEditor } from "@/components/upload/TransitionEditor";
 import { Button } from "@/components/ui/button";
-import type { Database, SegmentType } from "@/lib/supabase/types";
+import { slotColor } from "@/components/project/slot-colors";
+import {
+  fractionalVariantCount,
+  sanitizeExclusions,
+  slotLevelCounts,
+  slotSegments,
+  variantCount,
+} from "@/lib/variant/combinations";
+import { DEFAULT_SLOTS, projectSlots } from "@/lib/variant/slots";
+import { DEFAULT_LOUDNESS_TARGET } from "@/lib/video/loudness";
+import type {
+  CompositionMode,
+  Database,
+  DesignMode,
+  ProjectTransitions,
+  SegmentSlot,
+} from "@/lib/supabase/types";
 
 type Segment = Database["public"]["Tables"]["segments"]["Row"];
 
@@ -23,7 +49,14 @@ export default function UploadPage() {
   const { projectId } = useParams<{ projectId: string }>();
   const router = useRouter();
   const [segments, setSegments] = useState<Segment[]>([]);
+  const [slots, setSlots] = useState<SegmentSlot[]>(DEFAULT_SLOTS);
   const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [design, setDesign] = useState<DesignMode>("full");
+  const [composition, setComposition] = useState<CompositionMode>("render");
+  const [transitions, setTransitions] = useState<ProjectTransitions>({});
+  const [loudnessTarget, setLoudnessTarget] = useState<number | null>(DEFAULT_LOUDNESS_TARGET);
+  // Last exclusion list saved on the project (null until loaded)
+  const savedExclusions = useRef<string | null>(null);
   const [processing, setProcessing] = useState(false);
   const [processError, setProcessError] = useState<string | null>(null);
   const supabase = createClient();
@@ -42,22 +75,55 @@ export default function UploadPage() {
     loadSegments();
   }, [loadSegments]);
 
-  const segmentsByType = (type: SegmentType) =>
-    segments.filter((s) => s.type === type);
+  // Start from the design and exclusions saved on the project
+  useEffect(() => {
+    supabase
+      .from("projects")
+      .select("design_mode, excluded_combinations, composition_mode, slots, transitions, loudness_target_lufs")
+      .eq("id", projectId)
+      .single()
+      .then(({ data }) => {
+        if (data) setSlots(projectSlots(data));
+        if (data?.design_mode) setDesign(data.design_mode);
+        if (data?.composition_mode) setComposition(data.composition_mode);
+        if (data?.transitions) setTransitions(data.transitions);
+        if (data) setLoudnessTarget(data.loudness_target_lufs);
+        const saved = data?.excluded_combinations ?? [];
+        savedExclusions.current = JSON.stringify([...saved].sort());
+        setExcluded(new Set(saved));
+      });
+  }, [projectId, supabase]);
 
-  const hooks = segmentsByType("hook");
-  const bodies = segmentsByType("body");
-  const ctas = segmentsByType("cta");
-  const totalCombinations =
-    Math.max(hooks.length, 0) *
-    Math.max(bodies.length, 0) *
-    Math.max(ctas.length, 0);
-  const activeCombinations = totalCombinations - excluded.size;
-  const canProcess =
-    hooks.length > 0 &&
-    bodies.length > 0 &&
-    ctas.length > 0 &&
-    activeCombinations > 0;
+  // Save exclusions as they change (skips the initial load)
+  useEffect(() => {
+    const serialized = JSON.stringify(Array.from(excluded).sort());
+    if (savedExclusions.current === null || serialized === savedExclusions.current) {
+      return;
+    }
+    savedExclusions.current = serialized;
+    fetch(`/api/projects/${projectId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ excludedCombinations: Array.from(excluded) }),
+    }).catch(() => {});
+  }, [excluded, projectId]);
+
+  const groups = slotSegments(slots, segments);
+  const hasRequiredSegments = slots.every(
+    (slot, i) => !slot.required || groups[i].length > 0
+  );
+  const levelCounts = slotLevelCounts(slots, segments);
+  const totalCombinations = hasRequiredSegments ? variantCount(levelCounts) : 0;
+  // Saved keys can refer to deleted segments — only count current combos
+  const excludedCount = sanitizeExclusions(Array.from(excluded), slots, segments).length;
+  const activeCombinations =
+    design === "fractional"
+      ? fractionalVariantCount(levelCounts)
+      : totalCombinations - excludedCount;
+  const canProcess = hasRequiredSegments && activeCombinations > 0;
+  const segmentCounts = Object.fromEntries(
+    slots.map((slot, i) => [slot.key, groups[i].length])
+  );
 
   const handleToggleCombo = useCallback((key: string) => {
     setExcluded((prev) => {
@@ -76,29 +142,13 @@ export default function UploadPage() {
     setProcessError(null);
 
     try {
-      // Build excluded combinations list
-      const excludedCombinations: string[] = [];
-      for (const h of hooks) {
-        for (const b of bodies) {
-          for (const c of ctas) {
-            const key = comboKey(h.id, b.id, c.id);
-            if (excluded.has(key)) {
-              // Build the variant code format the process API expects
-              const hookIdx = hooks.indexOf(h) + 1;
-              const bodyIdx = bodies.indexOf(b) + 1;
-              const ctaIdx = ctas.indexOf(c) + 1;
-              excludedCombinations.push(`h${hookIdx}-b${bodyIdx}-c${ctaIdx}`);
-            }
-          }
-        }
-      }
-
       const res = await fetch(`/api/projects/${projectId}/process`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          excludedCombinations:
-            excludedCombinations.length > 0 ? excludedCombinations : undefined,
+          design,
+          excludedCombinations: Array.from(excluded),
+          composition,
         }),
       });
 
@@ -114,7 +164,7 @@ export default function UploadPage() {
       );
       setProcessing(false);
     }
-  }, [hooks, bodies, ctas, excluded, projectId, router]);
+  }, [excluded, design, composition, projectId, router]);
 
   return (
     <div className="space-y-6">
@@ -155,58 +205,84 @@ export default function UploadPage() {
               {activeCombinations}
             </span>{" "}
             variant{activeCombinations !== 1 ? "s" : ""} will be generated from{" "}
-            <span className="font-medium text-sky-400">
-              {hooks.length} hook{hooks.length !== 1 ? "s" : ""}
-            </span>
-            {" × "}
-            <span className="font-medium text-emerald-400">
-              {bodies.length} bod{bodies.length !== 1 ? "ies" : "y"}
-            </span>
-            {" × "}
-            <span className="font-medium text-violet-400">
-              {ctas.length} CTA{ctas.length !== 1 ? "s" : ""}
-            </span>
-            {excluded.size > 0 && (
-              <span className="text-white/30">
-                {" "}
-                ({excluded.size} excluded)
+            {slots.map((slot, i) => (
+              <span key={slot.key}>
+                {i > 0 && " × "}
+                <span className={`font-medium ${slotColor(i).text}`}>
+                  {groups[i].length} {slot.label}
+                  {!slot.required && " (optional)"}
+                </span>
               </span>
+            ))}
+            {design === "fractional" ? (
+              <span className="text-white/30"> (fractional design)</span>
+            ) : (
+              excludedCount > 0 && (
+                <span className="text-white/30">
+                  {" "}
+                  ({excludedCount} excluded)
+                </span>
+              )
             )}
           </p>
         </div>
       )}
 
-      {/* Segment uploaders */}
+      {/* Slot structure */}
+      <SlotEditor
+        projectId={projectId}
+        slots={slots}
+        segmentCounts={segmentCounts}
+        onSaved={setSlots}
+      />
+
+      {/* Transitions between slots */}
+      <TransitionEditor
+        projectId={projectId}
+        slots={slots}
+        transitions={transitions}
+        composition={composition}
+        onSaved={setTransitions}
+      />
+
+      {/* Loudness target */}
+      <LoudnessSettings
+        projectId={projectId}
+        targetLufs={loudnessTarget}
+        normalizedCount={segments.filter((s) => s.status === "normalized").length}
+        onSaved={(target) => {
+          setLoudnessTarget(target);
+          loadSegments();
+        }}
+      />
+
+      {/* Segment uploaders, one per slot */}
       <div className="grid gap-4 lg:grid-cols-3">
-        <SegmentUploader
-          projectId={projectId}
-          type="hook"
-          segments={segmentsByType("hook")}
-          onUploadComplete={loadSegments}
-        />
-        <SegmentUploader
-          projectId={projectId}
-          type="body"
-          segments={segmentsByType("body")}
-          onUploadComplete={loadSegments}
-        />
-        <SegmentUploader
-          projectId={projectId}
-          type="cta"
-          segments={segmentsByType("cta")}
-          onUploadComplete={loadSegments}
-        />
+        {slots.map((slot, i) => (
+          <SegmentUploader
+            key={slot.key}
+            projectId={projectId}
+            slot={slot}
+            slotIndex={i}
+            segments={groups[i]}
+            onUploadComplete={loadSegments}
+          />
+        ))}
       </div>
 
-      {/* Combination grid */}
+      {/* Combination grid + duration planner */}
       {totalCombinations > 1 && (
-        <CombinationGrid
-          hooks={hooks}
-          bodies={bodies}
-          ctas={ctas}
-          excluded={excluded}
-          onToggle={handleToggleCombo}
-        />
+        <div className="grid gap-4 lg:grid-cols-[1fr_300px]">
+          <CombinationGrid
+            slots={slots}
+            segments={segments}
+            excluded={excluded}
+            onToggle={handleToggleCombo}
+            design={design}
+            onDesignChange={setDesign}
+          />
+          <SampleSizePlanner projectId={projectId} variantCount={activeCombinations} />
+        </div>
       )}
 
       {/* Start Processing button */}
@@ -224,9 +300,19 @@ export default function UploadPage() {
               </h4>
               <p className="mt-0.5 text-xs text-white/40">
                 {activeCombinations} variant
-                {activeCombinations !== 1 ? "s" : ""} will be normalized and
-                rendered.
+                {activeCombinations !== 1 ? "s" : ""}{" "}
+                {composition === "dynamic"
+                  ? `will be composed on the fly from ${groups.flat().length} normalized segments — no per-variant render.`
+                  : "will be normalized and rendered."}
               </p>
+              <label className="mt-2 flex cursor-pointer items-center gap-2 text-xs text-white/60">
+                <input
+                  type="checkbox"
+                  checked={composition === "dynamic"}
+                  onChange={(e) => setComposition(e.target.checked ? "dynamic" : "render")}
+                />
+                Compose variants on request instead of rendering each one
+              </label>
             </div>
             <Button onClick={handleProcess} disabled={processing}>
               {processing ? (
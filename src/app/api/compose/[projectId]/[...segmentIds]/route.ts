@@ -0,0 +1,127 @@
+/**
+ * /api/compose/[projectId]/[...segmentIds] — Composed HLS manifest
+ *
+ * PURPOSE:
+ *   Serves the HLS manifest for one combination of segments (one per
+ *   project slot, in playback order), built on the fly from the segments'
+ *   HLS packages. No per-variant file exists, so a combination is playable
+ *   the moment its segments are packaged — the embed page and API hand
+ *   this URL to the player at assignment time.
+ *
+ * HOW IT WORKS:
+ *   1. Loads the segments, which must belong to the project, form a valid
+ *      combination of its slots (in slot order, every required slot
+ *      filled — see isCombination) and have an HLS package
+ *   2. Chains their stored playlists with #EXT-X-DISCONTINUITY
+ *      (lib/video/composed-manifest.ts), pointing at the packages' public
+ *      URLs
+ *
+ * PINNED VARIANTS:
+ *   ?variant=<id> (what the embed hands out for a composed variant) uses
+ *   the packages that variant was staged with (variants.composed_parts)
+ *   instead of the segments' current ones. A re-normalized segment then
+ *   reaches viewers only when a run with a new variant is published, and
+ *   rolling back brings the old packages back. Without the parameter (the
+ *   dashboard preview of a combination) the current packages are used.
+ *
+ * CACHING:
+ *   Packages are versioned per normalization (segments.hls_prefix), so a
+ *   cached manifest never points at replaced files. A pinned variant's
+ *   manifest never changes; otherwise the short max-age bounds how long a
+ *   re-uploaded segment takes to reach the preview.
+ *
+ * PUBLIC ENDPOINT:
+ *   No authentication — hls.js fetches it from embeds on any site (CORS *).
+ *   It only reveals segment files that are already public on the CDN.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { publicUrl } from "@/lib/storage/urls";
+import { buildComposedManifest } from "@/lib/video/composed-manifest";
+import { isCombination } from "@/lib/variant/combinations";
+import { projectSlots, MAX_SLOTS } from "@/lib/variant/slots";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ projectId: string; segmentIds: string[] }> }
+) {
+  try {
+    const { projectId, segmentIds } = await params;
+    if (segmentIds.length === 0 || segmentIds.length > MAX_SLOTS) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    const admin = createAdminClient();
+
+    const [{ data: project }, { data: segments, error }] = await Promise.all([
+      admin.from("projects").select("slots").eq("id", projectId).single(),
+      admin
+        .from("segments")
+        .select("id, type, hls_prefix, hls_playlist")
+        .eq("project_id", projectId)
+        .in("id", segmentIds),
+    ]);
+    if (
+      !project ||
+      error ||
+      !segments ||
+      !isCombination(segmentIds, projectSlots(project), segments)
+    ) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const variantId = req.nextUrl.searchParams.get("variant");
+    if (variantId) {
+      const { data: variant } = await admin
+        .from("variants")
+        .select("segment_ids, composed_parts")
+        .eq("id", variantId)
+        .eq("project_id", projectId)
+        .eq("composed", true)
+        .maybeSingle();
+      if (
+        !variant?.composed_parts ||
+        variant.segment_ids.join("/") !== segmentIds.join("/")
+      ) {
+        return NextResponse.json({ error: "Not found" }, { status: 404 });
+      }
+
+      const manifest = buildComposedManifest(
+        variant.composed_parts.map((part) => ({
+          baseUrl: publicUrl(part.hlsPrefix),
+          playlist: part.playlist,
+        }))
+      );
+      return new NextResponse(manifest, {
+        headers: {
+          "Content-Type": "application/vnd.apple.mpegurl",
+          "Cache-Control": "public, max-age=3600, s-maxage=86400",
+          "Access-Control-Allow-Origin": "*",
+        },
+      });
+    }
+
+    const parts = [];
+    for (const id of segmentIds) {
+      const segment = segments.find((s) => s.id === id);
+      if (!segment?.hls_prefix || !segment.hls_playlist) {
+        return NextResponse.json({ error: "Not found" }, { status: 404 });
+      }
+      parts.push({ baseUrl: publicUrl(segment.hls_prefix), playlist: segment.hls_playlist });
+    }
+
+    return new NextResponse(buildComposedManifest(parts), {
+      headers: {
+        "Content-Type": "application/vnd.apple.mpegurl",
+        "Cache-Control": "public, max-age=60, s-maxage=300",
+        "Access-Control-Allow-Origin": "*",
+      },
+    });
+  } catch (error) {
+    console.error("Compose API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
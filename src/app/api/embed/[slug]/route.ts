@@ -8,11 +8,17 @@
  *   load — it must be fast.
  *
  * HOW IT WORKS:
- *   1. Looks up the project by slug
- *   2. Gets all rendered variants
- *   3. Reads/creates a viewer ID cookie (anonymous, for consistent assignment)
- *   4. Uses deterministic hashing to assign a variant (same viewer = same variant)
- *   5. Returns the assigned variant's video URLs and timing data
+ *   1. Reads/creates a viewer ID (anonymous, for consistent assignment):
+ *      embed.js's first-party ?wai_vid= if given, else the cookie
+ *   2. Resolves the viewer's variant through the shared assignment service —
+ *      the same persisted assignment the /e/[slug] page uses. Query
+ *      parameters (?wai_variant=, assignment rules) are honored too, and
+ *      the request is matched against the project's audiences
+ *   3. Returns the assigned variant's video URLs and timing data, or
+ *      { holdout: true } for a viewer in the project's holdout bucket.
+ *      A composed variant's fullVideoUrl and hlsManifestUrl are its
+ *      composed manifest (/api/compose/...) — there is no MP4 of it.
+ *      captionsUrl is the variant's WebVTT captions, or null
  *
  * CORS:
  *   This endpoint allows cross-origin requests (Access-Control-Allow-Origin: *)
@@ -25,9 +31,16 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
-import { assignVariantWeighted, generateViewerId } from "@/lib/variant/assignment";
+import {
+  generateViewerId,
+  parseViewerId,
+  VIEWER_ID_PARAM,
+} from "@/lib/variant/assignment";
+import { assignEmbedVariant } from "@/lib/variant/assignment-service";
+import { buildViewerContext } from "@/lib/variant/audience";
 import { publicUrl } from "@/lib/storage/urls";
-import { variantPosterKey } from "@/lib/storage/keys";
+import { segmentPosterKey, variantPosterKey } from "@/lib/storage/keys";
+import { composedManifestPath } from "@/lib/video/composed-manifest";
 
 export const runtime = "nodejs"; // Use edge in production for global low latency
 
@@ -39,73 +52,84 @@ export async function GET(
     const { slug } = await params;
     const admin = createAdminClient();
 
-    // Get project by slug
-    const { data: project, error } = await admin
-      .from("projects")
-      .select("id, slug, status")
-      .eq("slug", slug)
-      .single();
-
-    if (error || !project || project.status !== "ready") {
-      return NextResponse.json(
-        { error: "Project not found or not ready" },
-        { status: 404 }
-      );
-    }
-
-    // Get rendered variants with weights
-    const { data: variants } = await admin
-      .from("variants")
-      .select(
-        "id, variant_code, weight, video_storage_key, hook_clip_storage_key, hook_end_time_ms, video_duration_ms"
-      )
-      .eq("project_id", project.id)
-      .eq("status", "rendered")
-      .order("variant_code");
-
-    if (!variants || variants.length === 0) {
-      return NextResponse.json(
-        { error: "No rendered variants" },
-        { status: 404 }
-      );
-    }
-
-    // Get or create viewer ID from cookie
-    let viewerId = req.cookies.get("wai_vid")?.value;
+    // Get or create viewer ID — embed.js's first-party ID wins over the
+    // cookie, which cross-origin embeds often can't keep
+    let viewerId =
+      parseViewerId(req.nextUrl.searchParams.get(VIEWER_ID_PARAM)) ??
+      req.cookies.get("wai_vid")?.value;
     if (!viewerId) {
       viewerId = generateViewerId();
     }
 
-    // Weight-aware variant assignment (skips disabled variants)
-    const assignedId = assignVariantWeighted(viewerId, project.id, variants);
-
-    if (!assignedId) {
-      return NextResponse.json(
-        { error: "No active variants available" },
-        { status: 404 }
-      );
+    const query = Object.fromEntries(req.nextUrl.searchParams);
+    const assignment = await assignEmbedVariant(
+      admin,
+      slug,
+      viewerId,
+      query,
+      buildViewerContext({
+        params: query,
+        referer: req.headers.get("referer"),
+        userAgent: req.headers.get("user-agent") || "",
+        headers: req.headers,
+      })
+    );
+    if (!assignment.ok) {
+      const message = {
+        project_not_ready: "Project not found or not ready",
+        no_variants: "No rendered variants",
+        all_disabled: "No active variants available",
+      }[assignment.reason];
+      return NextResponse.json({ error: message }, { status: 404 });
     }
-
-    const variant = variants.find((v) => v.id === assignedId)!;
-
-    if (!variant.hook_clip_storage_key || !variant.video_storage_key) {
-      return NextResponse.json(
-        { error: "Variant files not ready" },
-        { status: 404 }
-      );
+    const { projectId, variant, forced, audienceId } = assignment;
+
+    let response: NextResponse;
+    if (!variant) {
+      // Held-out viewer — the "no video" control. The player renders
+      // nothing and reports a holdout exposure instead of playing.
+      response = NextResponse.json({ projectId, holdout: true, viewerId });
+    } else {
+      if (!variant.hook_clip_storage_key || (!variant.video_storage_key && !variant.composed)) {
+        return NextResponse.json(
+          { error: "Variant files not ready" },
+          { status: 404 }
+        );
+      }
+
+      // Absolute: embed players on other sites fetch it cross-origin
+      const composedUrl = variant.composed
+        ? `${req.nextUrl.origin}${composedManifestPath(projectId, variant.segment_ids, variant.id)}`
+        : null;
+
+      response = NextResponse.json({
+        projectId,
+        holdout: false,
+        variantId: variant.id,
+        variantCode: variant.variant_code,
+        hookClipUrl: publicUrl(variant.hook_clip_storage_key),
+        fullVideoUrl: composedUrl ?? publicUrl(variant.video_storage_key!),
+        hlsManifestUrl:
+          composedUrl ??
+          (variant.hls_status === "ready" && variant.hls_master_manifest_key
+            ? publicUrl(variant.hls_master_manifest_key)
+            : null),
+        posterUrl: publicUrl(
+          variant.composed
+            ? segmentPosterKey(projectId, variant.hook_segment_id)
+            : variantPosterKey(projectId, variant.id)
+        ),
+        captionsUrl: variant.captions_storage_key
+          ? publicUrl(variant.captions_storage_key)
+          : null,
+        hookEndTimeMs: variant.hook_end_time_ms,
+        totalDurationMs: variant.video_duration_ms,
+        forced,
+        audienceId,
+        viewerId,
+      });
     }
 
-    const response = NextResponse.json({
-      projectId: project.id,
-      variantId: variant.id,
-      variantCode: variant.variant_code,
-      hookClipUrl: publicUrl(variant.hook_clip_storage_key),
-      fullVideoUrl: publicUrl(variant.video_storage_key),
-      posterUrl: publicUrl(variantPosterKey(project.id, variant.id)),
-      hookEndTimeMs: variant.hook_end_time_ms,
-      totalDurationMs: variant.video_duration_ms,
-    });
-
     // Set viewer ID cookie
     response.cookies.set("wai_vid", viewerId, {
       httpOnly: true,
@@ -117,8 +141,9 @@ export async function GET(
 
     // CORS headers for cross-domain embed
     // Note: Cannot use Allow-Credentials with Allow-Origin: * (browsers reject it).
-    // The wai_vid cookie works within same-site context; cross-origin embeds
-    // will get a new viewer ID each session (acceptable for A/B testing).
+    // The wai_vid cookie only works within same-site context, so
+    // cross-origin callers pass embed.js's first-party ID as ?wai_vid= and
+    // send the returned viewerId with their tracking events.
     response.headers.set("Access-Control-Allow-Origin", "*");
     response.headers.set(
       "Access-Control-Allow-Methods",
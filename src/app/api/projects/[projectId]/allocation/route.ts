@@ -0,0 +1,180 @@
+/**
+ * /api/projects/[projectId]/allocation — Traffic allocation settings
+ *
+ * GET: Current allocation mode, bandit reward metric, control, and
+ *      per-variant weights
+ * PATCH: Switch between "uniform" and "bandit" mode, change the reward
+ *        metric, or designate the control
+ *
+ * Switching to bandit mode enqueues an immediate weight recompute so the
+ * dashboard doesn't wait for the next scheduled sweep. Switching back to
+ * uniform resets every active variant to weight 1 (disabled variants stay 0).
+ *
+ * The control is a variant (controlVariantId) or a "no video" holdout
+ * bucket, optionally pinned to a traffic share (controlShare). A holdout
+ * always needs a share. Analytics lift is reported against the control.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { enqueueBanditUpdate } from "@/lib/queue/jobs";
+import { errorResponse, handleApiError } from "@/lib/utils/errors";
+import { z } from "zod";
+import type { Database } from "@/lib/supabase/types";
+
+const updateAllocationSchema = z
+  .object({
+    mode: z.enum(["uniform", "bandit"]).optional(),
+    metricId: z.string().uuid().nullable().optional(),
+    controlType: z.enum(["variant", "holdout"]).optional(),
+    controlVariantId: z.string().uuid().nullable().optional(),
+    controlShare: z.number().min(0.01).max(0.5).nullable().optional(),
+  })
+  .strict();
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select(
+        "id, user_id, allocation_mode, bandit_metric_id, bandit_updated_at, control_type, control_variant_id, control_share"
+      )
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    const { data: variants } = await admin
+      .from("variants")
+      .select("id, variant_code, weight")
+      .eq("project_id", projectId)
+      .eq("status", "rendered")
+      .order("variant_code");
+
+    return NextResponse.json({
+      mode: project.allocation_mode,
+      metricId: project.bandit_metric_id,
+      updatedAt: project.bandit_updated_at,
+      control: {
+        type: project.control_type,
+        variantId: project.control_variant_id,
+        share: project.control_share === null ? null : Number(project.control_share),
+      },
+      variants: variants || [],
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id, allocation_mode, control_type, control_share")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    const parsed = updateAllocationSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return errorResponse(`Invalid fields: ${parsed.error.message}`, 400);
+    }
+    const { mode, metricId, controlType, controlVariantId, controlShare } =
+      parsed.data;
+
+    // Reward metric must belong to this project
+    if (metricId) {
+      const { data: metric } = await admin
+        .from("custom_metrics")
+        .select("id")
+        .eq("id", metricId)
+        .eq("project_id", projectId)
+        .single();
+      if (!metric) return errorResponse("Metric not found", 404);
+    }
+
+    // Control variant must be one of this project's live variants
+    if (controlVariantId) {
+      const { data: variant } = await admin
+        .from("variants")
+        .select("id")
+        .eq("id", controlVariantId)
+        .eq("project_id", projectId)
+        .eq("status", "rendered")
+        .maybeSingle();
+      if (!variant) return errorResponse("Variant not found", 404);
+    }
+
+    const nextControlType = controlType ?? project.control_type;
+    const nextControlShare =
+      controlShare !== undefined ? controlShare : project.control_share;
+    if (nextControlType === "holdout" && nextControlShare === null) {
+      return errorResponse("A holdout needs a traffic share");
+    }
+
+    const updates: Database["public"]["Tables"]["projects"]["Update"] = {};
+    if (mode) updates.allocation_mode = mode;
+    if (metricId !== undefined) updates.bandit_metric_id = metricId;
+    if (controlType) updates.control_type = controlType;
+    if (controlVariantId !== undefined) updates.control_variant_id = controlVariantId;
+    if (controlShare !== undefined) updates.control_share = controlShare;
+
+    if (Object.keys(updates).length === 0) {
+      return errorResponse("No valid fields to update");
+    }
+
+    const { error } = await admin
+      .from("projects")
+      .update(updates)
+      .eq("id", projectId);
+
+    if (error) return errorResponse(error.message, 500);
+
+    const nextMode = mode ?? project.allocation_mode;
+
+    if (mode === "uniform" && project.allocation_mode === "bandit") {
+      // Back to an even split — leave disabled variants disabled
+      await admin
+        .from("variants")
+        .update({ weight: 1 })
+        .eq("project_id", projectId)
+        .gt("weight", 0);
+    } else if (nextMode === "bandit") {
+      // Best-effort: recompute now rather than waiting for the next sweep
+      await enqueueBanditUpdate({ projectId }).catch((err) => {
+        console.error("Failed to enqueue bandit update:", err);
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
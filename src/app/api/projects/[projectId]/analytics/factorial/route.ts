@@ -0,0 +1,144 @@
+/**
+ * /api/projects/[projectId]/analytics/factorial — Factorial analysis endpoint
+ *
+ * Returns the main effect of every segment in every slot (hook, body, CTA
+ * by default; with 95% confidence intervals) and the two-way interaction
+ * terms, estimated from per-viewer
+ * conversion counts across the live run's rendered variants. Projects rendered with a
+ * fractional design get main effects only. See lib/analytics/factorial.ts
+ * for the model.
+ *
+ * Query params:
+ *   ?startDate=ISO  — Filter events after this date
+ *   ?endDate=ISO    — Filter events before this date
+ *   ?metricId=UUID  — Analyze a custom metric instead of completion
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { errorResponse, handleApiError } from "@/lib/utils/errors";
+import {
+  analyzeFactorial,
+  SKIPPED_LEVEL_ID,
+  type FactorialFactorInput,
+} from "@/lib/analytics/factorial";
+import { projectSlots } from "@/lib/variant/slots";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id, live_run_id, slots")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Project not found", 404);
+
+    // Nothing published yet
+    if (!project.live_run_id) {
+      return NextResponse.json({ metricId: null, analysis: null });
+    }
+
+    const url = new URL(req.url);
+    const startDate = url.searchParams.get("startDate") || null;
+    const endDate = url.searchParams.get("endDate") || null;
+    let metricId = url.searchParams.get("metricId") || null;
+
+    if (metricId) {
+      const { data: metric } = await admin
+        .from("custom_metrics")
+        .select("id")
+        .eq("id", metricId)
+        .eq("project_id", projectId)
+        .maybeSingle();
+      if (!metric) metricId = null;
+    }
+
+    // The live run's design, not the project's (a republish may be
+    // rendering with a different one)
+    const [runRes, variantsRes, segmentsRes, statsRes] = await Promise.all([
+      admin
+        .from("publish_runs")
+        .select("design_mode")
+        .eq("id", project.live_run_id)
+        .single(),
+      admin
+        .from("variants")
+        .select("id, segment_ids")
+        .eq("project_id", projectId)
+        .eq("status", "rendered"),
+      admin
+        .from("segments")
+        .select("id, type, label, sort_order")
+        .eq("project_id", projectId)
+        .order("sort_order"),
+      admin.rpc("get_variant_conversion_stats", {
+        p_project_id: projectId,
+        p_metric_id: metricId,
+        p_start_date: startDate,
+        p_end_date: endDate,
+      }),
+    ]);
+
+    if (statsRes.error) {
+      console.error("Factorial stats error:", statsRes.error);
+      return errorResponse("Failed to fetch analytics", 500);
+    }
+
+    const variants = variantsRes.data || [];
+    const segments = segmentsRes.data || [];
+
+    // Only segments that appear in a rendered variant are factor levels;
+    // an optional slot some variant skips gets a "skipped" level too
+    const slots = projectSlots(project);
+    const used = new Set(variants.flatMap((v) => v.segment_ids));
+    const typeOf = new Map(segments.map((s) => [s.id, s.type]));
+    const factors: FactorialFactorInput[] = slots.map((slot) => ({
+      type: slot.key,
+      label: slot.label,
+      levels: segments
+        .filter((s) => s.type === slot.key && used.has(s.id))
+        .map((s) => ({ id: s.id, label: s.label })),
+    }));
+    for (const factor of factors) {
+      const skipped = variants.some(
+        (v) => !v.segment_ids.some((id) => typeOf.get(id) === factor.type)
+      );
+      if (skipped) factor.levels.push({ id: SKIPPED_LEVEL_ID, label: "Skipped" });
+    }
+
+    const statsByVariant = new Map(
+      (statsRes.data || []).map((row) => [row.variant_id, row])
+    );
+    const cells = variants.map((v) => {
+      const row = statsByVariant.get(v.id);
+      return {
+        levels: Object.fromEntries(
+          v.segment_ids.map((id) => [typeOf.get(id) ?? "", id])
+        ),
+        trials: Number(row?.trials) || 0,
+        successes: Number(row?.successes) || 0,
+      };
+    });
+
+    return NextResponse.json({
+      metricId,
+      analysis: analyzeFactorial(factors, cells, runRes.data?.design_mode),
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
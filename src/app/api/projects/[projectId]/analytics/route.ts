@@ -4,16 +4,251 @@
  * Returns variant-level and segment-level aggregated analytics data
  * using Postgres RPC functions for efficient server-side aggregation.
  *
+ * Each variant also carries Bayesian significance stats (credible interval,
+ * P(beat control), P(best), minimum-sample guard) for completion rate and,
+ * when ?metricId is given, for that custom metric. topPerformer is the
+ * variant most likely to be best on the selected metric — not the one with
+ * the highest raw rate. See lib/analytics/bayesian.ts.
+ *
+ * P(beat control) and lift are measured against the project's designated
+ * control (projects.control_*). With a holdout control, custom-metric
+ * stats compare against the held-out viewers (returned as `holdout`);
+ * completion has no holdout baseline, since those viewers saw no video.
+ *
+ * Next to those, each variant gets a fixed-horizon and an always-valid
+ * (mSPRT) p-value against the same control, and summary.sequential says
+ * whether the selected metric's sequential boundary has been crossed.
+ * Until it has, the result is "not yet conclusive" no matter how far ahead
+ * a variant looks. See lib/analytics/sequential.ts.
+ *
+ * With ?metricId, each variant (and the holdout, and each segment when
+ * ?segmentType is given) also carries `value`: conversions, converters,
+ * revenue, revenue per view, revenue per viewer and average order value
+ * for that metric, and summary.metric describes it (value type, currency).
+ * See lib/analytics/revenue.ts.
+ *
+ * When the project has audiences (lib/variant/audience.ts), `audiences`
+ * breaks views down per audience — plus "Everyone else" for viewers who
+ * matched none — with each audience's variants and its best completer.
+ *
  * Query params:
  *   ?startDate=ISO  — Filter events after this date
  *   ?endDate=ISO    — Filter events before this date
- *   ?segmentType=hook|body|cta — Include segment-level analytics
+ *   ?segmentType=KEY — Include segment-level analytics for one of the
+ *                      project's slots (hook|body|cta by default)
+ *   ?metricId=UUID  — Custom metric to compute significance stats for
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { errorResponse, handleApiError } from "@/lib/utils/errors";
+import { projectSlots } from "@/lib/variant/slots";
+import {
+  computeBayesianStats,
+  HOLDOUT_ARM_ID,
+  MIN_SAMPLE_SIZE,
+  WINNER_PROBABILITY,
+  type BayesianVariantStats,
+} from "@/lib/analytics/bayesian";
+import {
+  computeSequentialStats,
+  type SequentialSummary,
+  type SequentialVariantStats,
+} from "@/lib/analytics/sequential";
+import {
+  addTotals,
+  EMPTY_TOTALS,
+  metricValues,
+  type MetricTotals,
+} from "@/lib/analytics/revenue";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, MetricValueType } from "@/lib/supabase/types";
+
+type VariantSignificance = BayesianVariantStats & {
+  sequential: SequentialVariantStats | null;
+};
+
+interface AudienceVariantRow {
+  variantId: string;
+  variantCode: string;
+  viewers: number;
+  plays: number;
+  completions: number;
+  completionRate: number;
+}
+
+interface AudienceBreakdown {
+  /** null for viewers who matched no audience */
+  id: string | null;
+  name: string;
+  viewers: number;
+  plays: number;
+  completions: number;
+  completionRate: number;
+  topVariantCode: string | null;
+  variants: AudienceVariantRow[];
+}
+
+function rate(completions: number, plays: number): number {
+  return plays > 0 ? Math.round((completions / plays) * 10000) / 100 : 0;
+}
+
+/**
+ * Per-audience breakdown, in the audiences' match order with "Everyone
+ * else" last. Null when the project has no audiences; empty on RPC
+ * failure. Viewers are summed across variants — each viewer sticks to one
+ * variant, so that's a distinct count.
+ */
+async function loadAudienceBreakdown(
+  admin: SupabaseClient<Database>,
+  projectId: string,
+  startDate: string | null,
+  endDate: string | null
+): Promise<AudienceBreakdown[] | null> {
+  const { data: audiences } = await admin
+    .from("audiences")
+    .select("id, name")
+    .eq("project_id", projectId)
+    .order("sort_order")
+    .order("created_at");
+  if (!audiences || audiences.length === 0) return null;
+
+  const { data, error } = await admin.rpc("get_audience_analytics", {
+    p_project_id: projectId,
+    p_start_date: startDate,
+    p_end_date: endDate,
+  });
+  if (error) {
+    console.error("Audience analytics error:", error);
+    return [];
+  }
+
+  const groups = [
+    ...audiences.map((a) => ({ id: a.id as string | null, name: a.name })),
+    { id: null, name: "Everyone else" },
+  ];
+  return groups.map(({ id, name }) => {
+    const variants = (data || [])
+      .filter((row) => row.audience_id === id)
+      .map((row) => {
+        const plays = Number(row.play_count) || 0;
+        const completions = Number(row.complete_count) || 0;
+        return {
+          variantId: row.variant_id,
+          variantCode: row.variant_code,
+          viewers: Number(row.unique_viewers) || 0,
+          plays,
+          completions,
+          completionRate: rate(completions, plays),
+        };
+      });
+
+    let viewers = 0;
+    let plays = 0;
+    let completions = 0;
+    let top: AudienceVariantRow | null = null;
+    for (const v of variants) {
+      viewers += v.viewers;
+      plays += v.plays;
+      completions += v.completions;
+      if (v.plays > 0 && (!top || v.completionRate > top.completionRate)) top = v;
+    }
+
+    return {
+      id,
+      name,
+      viewers,
+      plays,
+      completions,
+      completionRate: rate(completions, plays),
+      topVariantCode: top?.variantCode ?? null,
+      variants,
+    };
+  });
+}
+
+/**
+ * Per-variant value totals for a metric, keyed by variant ID
+ * (HOLDOUT_ARM_ID for the holdout). Empty on RPC failure.
+ */
+async function loadMetricTotals(
+  admin: SupabaseClient<Database>,
+  projectId: string,
+  metricId: string,
+  startDate: string | null,
+  endDate: string | null
+): Promise<Map<string, MetricTotals>> {
+  const totals = new Map<string, MetricTotals>();
+  const { data, error } = await admin.rpc("get_metric_value_stats", {
+    p_project_id: projectId,
+    p_metric_id: metricId,
+    p_start_date: startDate,
+    p_end_date: endDate,
+  });
+  if (error) {
+    console.error("Metric value stats error:", error);
+    return totals;
+  }
+  for (const row of data || []) {
+    totals.set(row.variant_id ?? HOLDOUT_ARM_ID, {
+      conversions: Number(row.conversions) || 0,
+      converters: Number(row.converters) || 0,
+      revenue: Number(row.revenue) || 0,
+      valuedConversions: Number(row.valued_conversions) || 0,
+    });
+  }
+  return totals;
+}
+
+/**
+ * Load per-viewer conversion counts and run them through the Bayesian model
+ * and the sequential test. Returns variantId → stats (HOLDOUT_ARM_ID for
+ * the holdout bucket) and the sequential summary; empty on RPC failure —
+ * stats are non-essential. See computeBayesianStats() for `controlId`.
+ */
+async function loadSignificance(
+  admin: SupabaseClient<Database>,
+  projectId: string,
+  metricId: string | null,
+  startDate: string | null,
+  endDate: string | null,
+  controlId: string | null | undefined
+): Promise<{
+  stats: Map<string, VariantSignificance>;
+  sequential: SequentialSummary | null;
+}> {
+  const { data, error } = await admin.rpc("get_variant_conversion_stats", {
+    p_project_id: projectId,
+    p_metric_id: metricId,
+    p_start_date: startDate,
+    p_end_date: endDate,
+  });
+
+  if (error) {
+    console.error("Conversion stats error:", error);
+    return { stats: new Map(), sequential: null };
+  }
+
+  const arms = (data || []).map((row) => ({
+    variantId: row.variant_id ?? HOLDOUT_ARM_ID,
+    trials: Number(row.trials) || 0,
+    successes: Number(row.successes) || 0,
+    // The holdout is a baseline, never a candidate winner
+    active: row.variant_id !== null && Number(row.weight) > 0,
+  }));
+  const bayesian = computeBayesianStats(arms, controlId);
+  const sequential = computeSequentialStats(arms, controlId);
+
+  const stats = new Map<string, VariantSignificance>();
+  for (const [variantId, b] of Array.from(bayesian)) {
+    stats.set(variantId, {
+      ...b,
+      sequential: sequential.variants.get(variantId) ?? null,
+    });
+  }
+  return { stats, sequential: sequential.summary };
+}
 
 export async function GET(
   req: NextRequest,
@@ -37,7 +272,7 @@ export async function GET(
     // Verify project belongs to user
     const { data: project } = await admin
       .from("projects")
-      .select("id, user_id")
+      .select("id, user_id, control_type, control_variant_id, control_share, slots")
       .eq("id", projectId)
       .single();
 
@@ -50,6 +285,25 @@ export async function GET(
     const startDate = url.searchParams.get("startDate") || null;
     const endDate = url.searchParams.get("endDate") || null;
     const segmentType = url.searchParams.get("segmentType") || null;
+    let metricId = url.searchParams.get("metricId") || null;
+
+    // Custom metric must belong to this project
+    let selectedMetric: {
+      id: string;
+      name: string;
+      value_type: MetricValueType;
+      currency: string | null;
+    } | null = null;
+    if (metricId) {
+      const { data: metric } = await admin
+        .from("custom_metrics")
+        .select("id, name, value_type, currency")
+        .eq("id", metricId)
+        .eq("project_id", projectId)
+        .maybeSingle();
+      selectedMetric = metric;
+      if (!metric) metricId = null;
+    }
 
     // Fetch variant analytics
     const { data: variantAnalytics, error: variantError } = await admin.rpc(
@@ -82,7 +336,7 @@ export async function GET(
 
     // Optionally fetch segment analytics
     let segmentAnalytics = null;
-    if (segmentType && ["hook", "body", "cta"].includes(segmentType)) {
+    if (segmentType && projectSlots(project).some((slot) => slot.key === segmentType)) {
       const { data, error } = await admin.rpc("get_segment_analytics", {
         p_project_id: projectId,
         p_segment_type: segmentType,
@@ -108,10 +362,92 @@ export async function GET(
         ? Math.round((totalCompletions / totalViews) * 10000) / 100
         : 0;
 
-    // Find top performer
-    let topPerformer: (typeof variants)[number] | null = null;
-    for (const v of variants) {
-      if (!topPerformer || (v.completion_rate || 0) > (topPerformer.completion_rate || 0)) {
+    // Bayesian significance — completion always, custom metric if selected.
+    // An unset control variant falls back to the first active variant.
+    const isHoldout = project.control_type === "holdout";
+    const controlVariantId = isHoldout
+      ? null
+      : (project.control_variant_id ?? undefined);
+    const [completion, metric, audiences, metricTotals] = await Promise.all([
+      loadSignificance(admin, projectId, null, startDate, endDate, controlVariantId),
+      metricId
+        ? loadSignificance(
+            admin,
+            projectId,
+            metricId,
+            startDate,
+            endDate,
+            isHoldout ? HOLDOUT_ARM_ID : controlVariantId
+          )
+        : Promise.resolve(null),
+      loadAudienceBreakdown(admin, projectId, startDate, endDate),
+      metricId
+        ? loadMetricTotals(admin, projectId, metricId, startDate, endDate)
+        : Promise.resolve(null),
+    ]);
+    const completionStats = completion.stats;
+    const metricStats = metric?.stats ?? null;
+
+    const variantsWithStats = variants.map((v) => ({
+      ...v,
+      stats: {
+        completion: completionStats.get(v.variant_id) ?? null,
+        metric: metricStats?.get(v.variant_id) ?? null,
+      },
+      value: metricTotals
+        ? metricValues(
+            metricTotals.get(v.variant_id) ?? EMPTY_TOTALS,
+            v.total_views || 0,
+            v.unique_viewers || 0
+          )
+        : null,
+    }));
+
+    // Segment value figures: the segment's variants' totals over the
+    // segment's own traffic
+    if (segmentAnalytics && metricTotals) {
+      const { data: segmentVariants } = await admin
+        .from("variants")
+        .select("id, segment_ids")
+        .eq("project_id", projectId)
+        .eq("status", "rendered");
+      segmentAnalytics = segmentAnalytics.map((seg) => {
+        let totals = EMPTY_TOTALS;
+        for (const v of segmentVariants || []) {
+          if (v.segment_ids.includes(seg.segment_id)) {
+            totals = addTotals(totals, metricTotals.get(v.id) ?? EMPTY_TOTALS);
+          }
+        }
+        return {
+          ...seg,
+          value: metricValues(totals, seg.total_views || 0, seg.unique_viewers || 0),
+        };
+      });
+    }
+
+    // Top performer = highest P(best) on the selected metric, preferring
+    // variants that pass the minimum-sample guard (3 views shouldn't lead).
+    // Falls back to raw completion rate only if stats are unavailable.
+    const primaryStats = metricStats ?? completionStats;
+    const rank = (variantId: string) => {
+      const stats = primaryStats.get(variantId);
+      return [stats?.sufficientSample ? 1 : 0, stats?.probBest ?? -1];
+    };
+    let topPerformer: (typeof variantsWithStats)[number] | null = null;
+    for (const v of variantsWithStats) {
+      if (!topPerformer) {
+        topPerformer = v;
+        continue;
+      }
+      const [sufficient, prob] = rank(v.variant_id);
+      const [topSufficient, topProb] = rank(topPerformer.variant_id);
+      if (
+        sufficient > topSufficient ||
+        (sufficient === topSufficient && prob > topProb) ||
+        (sufficient === topSufficient &&
+          prob === topProb &&
+          (v.completion_rate || 0) > (topPerformer.completion_rate || 0))
+      ) {
         topPerformer = v;
       }
     }
@@ -122,8 +458,42 @@ export async function GET(
         totalCompletions,
         overallCompletionRate,
         topPerformer,
+        metricId,
+        metric: selectedMetric
+          ? {
+              id: selectedMetric.id,
+              name: selectedMetric.name,
+              valueType: selectedMetric.value_type,
+              currency: selectedMetric.currency,
+            }
+          : null,
+        minSampleSize: MIN_SAMPLE_SIZE,
+        winnerProbability: WINNER_PROBABILITY,
+        // Sequential verdict on the selected metric (completion by default)
+        sequential: metric ? metric.sequential : completion.sequential,
+        control: {
+          type: project.control_type,
+          variantId: project.control_variant_id,
+          share: project.control_share === null ? null : Number(project.control_share),
+        },
       },
-      variants: variantAnalytics || [],
+      variants: variantsWithStats,
+      // Completion isn't measured for held-out viewers — only their count
+      holdout: isHoldout
+        ? {
+            viewers: completionStats.get(HOLDOUT_ARM_ID)?.trials ?? 0,
+            metric: metricStats?.get(HOLDOUT_ARM_ID) ?? null,
+            // Held-out viewers have no plays, so per-view is always null
+            value: metricTotals
+              ? metricValues(
+                  metricTotals.get(HOLDOUT_ARM_ID) ?? EMPTY_TOTALS,
+                  0,
+                  completionStats.get(HOLDOUT_ARM_ID)?.trials ?? 0
+                )
+              : null,
+          }
+        : null,
+      audiences,
       dailyViews: dailyViews || [],
       segmentAnalytics,
     });
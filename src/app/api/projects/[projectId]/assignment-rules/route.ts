@@ -0,0 +1,125 @@
+/**
+ * /api/projects/[projectId]/assignment-rules — Personalization rules CRUD
+ *
+ * GET: List the project's rules
+ * POST: Create a rule mapping a URL parameter value to a hook
+ *
+ * A rule like industry=saas → "SaaS hook" makes /e/[slug]?industry=saas
+ * serve one of that hook's variants (see lib/variant/assignment-service.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { errorResponse, handleApiError } from "@/lib/utils/errors";
+import { FORCE_VARIANT_PARAM, VIEWER_ID_PARAM } from "@/lib/variant/assignment";
+import { REFERRER_PARAM } from "@/lib/variant/audience";
+import { projectSlots } from "@/lib/variant/slots";
+import { z } from "zod";
+
+const RESERVED_PARAMS = [FORCE_VARIANT_PARAM, VIEWER_ID_PARAM, REFERRER_PARAM, "turbo"];
+
+const createRuleSchema = z
+  .object({
+    paramName: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z0-9_-]{1,40}$/, "letters, digits, _ and - only")
+      .refine((name) => !RESERVED_PARAMS.includes(name.toLowerCase()), "reserved parameter"),
+    paramValue: z.string().trim().min(1).max(200),
+    hookSegmentId: z.string().uuid(),
+  })
+  .strict();
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    const { data: rules } = await admin
+      .from("assignment_rules")
+      .select("*")
+      .eq("project_id", projectId)
+      .order("created_at");
+
+    return NextResponse.json({ rules: rules || [] });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id, slots")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    const parsed = createRuleSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return errorResponse(`Invalid fields: ${parsed.error.message}`, 400);
+    }
+    const { paramName, paramValue, hookSegmentId } = parsed.data;
+
+    const { data: hook } = await admin
+      .from("segments")
+      .select("id")
+      .eq("id", hookSegmentId)
+      .eq("project_id", projectId)
+      .eq("type", projectSlots(project)[0].key)
+      .maybeSingle();
+    if (!hook) return errorResponse("Hook not found", 404);
+
+    const { data: rule, error } = await admin
+      .from("assignment_rules")
+      .insert({
+        project_id: projectId,
+        param_name: paramName,
+        param_value: paramValue.toLowerCase(),
+        hook_segment_id: hookSegmentId,
+      })
+      .select()
+      .single();
+
+    if (error?.code === "23505") {
+      return errorResponse(`A rule for ${paramName}=${paramValue} already exists`, 409);
+    }
+    if (error) return errorResponse(error.message, 500);
+
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * /api/projects/[projectId]/audiences/[audienceId] — Single audience operations
+ *
+ * DELETE: Remove an audience. Its viewers fall back to the project's
+ *         normal assignment; past views keep no audience (SET NULL).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { errorResponse, handleApiError } from "@/lib/utils/errors";
+
+export async function DELETE(
+  _req: NextRequest,
+  {
+    params,
+  }: { params: Promise<{ projectId: string; audienceId: string }> }
+) {
+  try {
+    const { projectId, audienceId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    const { error } = await admin
+      .from("audiences")
+      .delete()
+      .eq("id", audienceId)
+      .eq("project_id", projectId);
+
+    if (error) return errorResponse(error.message, 500);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * /api/projects/[projectId]/audiences — Audience pools CRUD
+ *
+ * GET: List the project's audiences in match order
+ * POST: Create an audience (criteria + the variants its viewers can get)
+ *
+ * Viewers matching an audience — say utm_source=google on mobile — are
+ * only bucketed among its variants (see lib/variant/audience.ts). The
+ * pool is stored as combination keys so it survives a republish.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { errorResponse, handleApiError } from "@/lib/utils/errors";
+import { combinationKey } from "@/lib/variant/combinations";
+import { z } from "zod";
+
+const criterion = z.string().trim().min(1).max(200).nullish();
+
+const createAudienceSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    referrerDomain: criterion,
+    utmSource: criterion,
+    utmMedium: criterion,
+    utmCampaign: criterion,
+    device: z.enum(["mobile", "desktop"]).nullish(),
+    country: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z]{2}$/, "two-letter country code")
+      .nullish(),
+    variantIds: z.array(z.string().uuid()).min(1).max(500),
+  })
+  .strict();
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    const { data: audiences } = await admin
+      .from("audiences")
+      .select("*")
+      .eq("project_id", projectId)
+      .order("sort_order")
+      .order("created_at");
+
+    return NextResponse.json({ audiences: audiences || [] });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    const parsed = createAudienceSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return errorResponse(`Invalid fields: ${parsed.error.message}`, 400);
+    }
+    const { name, variantIds, ...criteria } = parsed.data;
+
+    const referrerDomain = criteria.referrerDomain
+      ? criteria.referrerDomain
+          .toLowerCase()
+          .replace(/^https?:\/\//, "")
+          .replace(/\/.*$/, "")
+          .replace(/^www\./, "")
+      : null;
+    const row = {
+      referrer_domain: referrerDomain || null,
+      utm_source: criteria.utmSource || null,
+      utm_medium: criteria.utmMedium || null,
+      utm_campaign: criteria.utmCampaign || null,
+      device: criteria.device || null,
+      country: criteria.country ? criteria.country.toUpperCase() : null,
+    };
+    if (Object.values(row).every((value) => value === null)) {
+      return errorResponse("Set at least one audience criterion", 400);
+    }
+
+    const { data: variants } = await admin
+      .from("variants")
+      .select("id, segment_ids")
+      .eq("project_id", projectId)
+      .eq("status", "rendered")
+      .in("id", variantIds);
+    if (!variants || variants.length !== new Set(variantIds).size) {
+      return errorResponse("Variant not found", 404);
+    }
+
+    const { data: last } = await admin
+      .from("audiences")
+      .select("sort_order")
+      .eq("project_id", projectId)
+      .order("sort_order", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data: audience, error } = await admin
+      .from("audiences")
+      .insert({
+        project_id: projectId,
+        name,
+        sort_order: last ? last.sort_order + 1 : 0,
+        ...row,
+        variant_keys: variants.map((v) => combinationKey(v.segment_ids)),
+      })
+      .select()
+      .single();
+
+    if (error) return errorResponse(error.message, 500);
+
+    return NextResponse.json({ audience }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * /api/projects/[projectId]/experiments/[experimentId] — End an experiment
+ *
+ * PATCH: { action: "stop" } ends an open experiment and leaves traffic
+ *        allocation as it is.
+ *        { action: "conclude", winnerVariantId? } ends it now and promotes
+ *        the winner — the given live variant, or the current leader on the
+ *        experiment's metric — to 100% of traffic.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  concludeExperiment,
+  experimentLeader,
+  loadExperimentStats,
+  stopExperiment,
+} from "@/lib/variant/experiment";
+import { errorResponse, handleApiError } from "@/lib/utils/errors";
+import { z } from "zod";
+
+const endExperimentSchema = z
+  .object({
+    action: z.enum(["stop", "conclude"]),
+    winnerVariantId: z.string().uuid().optional(),
+  })
+  .strict();
+
+export async function PATCH(
+  req: NextRequest,
+  {
+    params,
+  }: { params: Promise<{ projectId: string; experimentId: string }> }
+) {
+  try {
+    const { projectId, experimentId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    const parsed = endExperimentSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return errorResponse(`Invalid fields: ${parsed.error.message}`, 400);
+    }
+    const { action, winnerVariantId } = parsed.data;
+
+    const { data: experiment } = await admin
+      .from("experiments")
+      .select("*")
+      .eq("id", experimentId)
+      .eq("project_id", projectId)
+      .maybeSingle();
+    if (!experiment) return errorResponse("Experiment not found", 404);
+
+    if (action === "stop") {
+      const stopped = await stopExperiment(admin, experiment);
+      if (!stopped) return errorResponse("Experiment has already ended", 409);
+      return NextResponse.json({ success: true });
+    }
+
+    let winner: string | null;
+    if (winnerVariantId) {
+      const { data: variant } = await admin
+        .from("variants")
+        .select("id")
+        .eq("id", winnerVariantId)
+        .eq("project_id", projectId)
+        .eq("status", "rendered")
+        .maybeSingle();
+      if (!variant) return errorResponse("Variant not found", 404);
+      winner = variant.id;
+    } else {
+      winner = experimentLeader((await loadExperimentStats(admin, experiment)).bayesian);
+    }
+
+    const concluded = await concludeExperiment(admin, experiment, "manual", winner);
+    if (!concluded) return errorResponse("Experiment has already ended", 409);
+
+    return NextResponse.json({ success: true, winnerVariantId: winner });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * /api/projects/[projectId]/experiments — Experiment lifecycle
+ *
+ * GET: The project's experiments, newest first, with the winner's code
+ * POST: Schedule an experiment — start time, optional stop time and/or
+ *       per-variant sample-size target, auto-conclude on a clear winner,
+ *       and the metric that decides it (null = completion)
+ *
+ * Only one experiment can be open (scheduled or running) at a time. The
+ * worker's experiment sweep starts and concludes experiments (see
+ * lib/variant/experiment.ts); creating one also enqueues an immediate
+ * check so a test that starts now doesn't wait for the next sweep.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { enqueueExperimentCheck } from "@/lib/queue/jobs";
+import { errorResponse, handleApiError } from "@/lib/utils/errors";
+import { z } from "zod";
+
+const createExperimentSchema = z
+  .object({
+    startsAt: z.iso.datetime({ offset: true }).optional(),
+    endsAt: z.iso.datetime({ offset: true }).nullable().optional(),
+    targetSampleSize: z.number().int().min(10).max(10_000_000).nullable().optional(),
+    autoConclude: z.boolean().optional(),
+    metricId: z.string().uuid().nullable().optional(),
+  })
+  .strict();
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    const { data: experiments } = await admin
+      .from("experiments")
+      .select("*")
+      .eq("project_id", projectId)
+      .order("created_at", { ascending: false })
+      .limit(20);
+
+    const winnerIds = (experiments || [])
+      .map((e) => e.winner_variant_id)
+      .filter((id): id is string => id !== null);
+    const codes = new Map<string, string>();
+    if (winnerIds.length > 0) {
+      const { data: winners } = await admin
+        .from("variants")
+        .select("id, variant_code")
+        .in("id", winnerIds);
+      for (const v of winners || []) codes.set(v.id, v.variant_code);
+    }
+
+    return NextResponse.json({
+      experiments: (experiments || []).map((e) => ({
+        ...e,
+        winner_code: e.winner_variant_id ? (codes.get(e.winner_variant_id) ?? null) : null,
+      })),
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    const parsed = createExperimentSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return errorResponse(`Invalid fields: ${parsed.error.message}`, 400);
+    }
+    const { startsAt, endsAt, targetSampleSize, autoConclude, metricId } = parsed.data;
+
+    const start = startsAt ?? new Date().toISOString();
+    if (endsAt && Date.parse(endsAt) <= Date.parse(start)) {
+      return errorResponse("Stop time must be after the start time");
+    }
+    if (!endsAt && !targetSampleSize && autoConclude === false) {
+      return errorResponse(
+        "Set a stop time, a sample size target, or turn on auto-conclude"
+      );
+    }
+
+    // Deciding metric must belong to this project
+    if (metricId) {
+      const { data: metric } = await admin
+        .from("custom_metrics")
+        .select("id")
+        .eq("id", metricId)
+        .eq("project_id", projectId)
+        .single();
+      if (!metric) return errorResponse("Metric not found", 404);
+    }
+
+    const { data: experiment, error } = await admin
+      .from("experiments")
+      .insert({
+        project_id: projectId,
+        starts_at: start,
+        ends_at: endsAt ?? null,
+        target_sample_size: targetSampleSize ?? null,
+        auto_conclude: autoConclude ?? true,
+        metric_id: metricId ?? null,
+      })
+      .select()
+      .single();
+
+    if (error?.code === "23505") {
+      return errorResponse("An experiment is already scheduled or running", 409);
+    }
+    if (error) return errorResponse(error.message, 500);
+
+    // Best-effort: start now rather than waiting for the next sweep
+    await enqueueExperimentCheck({ experimentId: experiment.id }).catch((err) => {
+      console.error("Failed to enqueue experiment check:", err);
+    });
+
+    return NextResponse.json({ experiment }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -1,7 +1,13 @@
 /**
  * /api/projects/[projectId]/metrics/[metricId] — Single metric operations
  *
- * PATCH: Update metric name, pattern, etc.
+ * PATCH: Update metric name, pattern, value type, currency, dedup and
+ *        attribution settings, etc. Dedup and window changes apply to
+ *        conversions recorded from then on. Webhook signing:
+ *          signing_enabled: true   → creates a secret if there is none
+ *          signing_enabled: false  → removes it (unsigned calls accepted)
+ *          rotate_signing_secret   → replaces it; the old one stops working
+ *                                    immediately
  * DELETE: Remove metric and its events
  */
 
@@ -9,6 +15,13 @@ import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { errorResponse, handleApiError } from "@/lib/utils/errors";
+import {
+  DEFAULT_CURRENCY,
+  METRIC_VALUE_TYPES,
+  parseCurrency,
+} from "@/lib/analytics/revenue";
+import { isAttributionWindow, isIdempotencyField } from "@/lib/analytics/conversions";
+import { generateSigningSecret } from "@/lib/analytics/webhook-signature";
 
 export async function PATCH(
   req: NextRequest,
@@ -44,18 +57,70 @@ export async function PATCH(
       updates.match_type = body.match_type;
     if (typeof body.description === "string")
       updates.description = body.description;
+    if (typeof body.value_type === "string") {
+      if (!METRIC_VALUE_TYPES.includes(body.value_type)) {
+        return errorResponse("Invalid value type");
+      }
+      updates.value_type = body.value_type;
+      // Only revenue metrics carry a currency (the table enforces it)
+      if (body.value_type === "revenue") {
+        const currency = body.currency ? parseCurrency(body.currency) : DEFAULT_CURRENCY;
+        if (!currency) return errorResponse("Currency must be a three-letter code");
+        updates.currency = currency;
+      } else {
+        updates.currency = null;
+      }
+    }
+
+    if (body.idempotency_field !== undefined) {
+      if (body.idempotency_field !== null && body.idempotency_field !== "" &&
+          !isIdempotencyField(body.idempotency_field)) {
+        return errorResponse("Dedup field must be a metadata key like order_id");
+      }
+      updates.idempotency_field = body.idempotency_field || null;
+    }
+    if (typeof body.count_once === "boolean") updates.count_once = body.count_once;
+    if (body.attribution_window_hours !== undefined) {
+      if (body.attribution_window_hours !== null &&
+          !isAttributionWindow(body.attribution_window_hours)) {
+        return errorResponse("Attribution window must be 1 to 8760 hours");
+      }
+      updates.attribution_window_hours = body.attribution_window_hours;
+    }
 
-    if (Object.keys(updates).length === 0) {
+    if (body.rotate_signing_secret === true) {
+      updates.signing_secret = generateSigningSecret();
+    } else if (body.signing_enabled === false) {
+      updates.signing_secret = null;
+    }
+    const enableSigning =
+      body.signing_enabled === true && body.rotate_signing_secret !== true;
+
+    if (Object.keys(updates).length === 0 && !enableSigning) {
       return errorResponse("No valid fields to update");
     }
 
-    const { error } = await admin
-      .from("custom_metrics")
-      .update(updates)
-      .eq("id", metricId)
-      .eq("project_id", projectId);
+    if (Object.keys(updates).length > 0) {
+      const { error } = await admin
+        .from("custom_metrics")
+        .update(updates)
+        .eq("id", metricId)
+        .eq("project_id", projectId);
 
-    if (error) return errorResponse(error.message, 500);
+      if (error) return errorResponse(error.message, 500);
+    }
+
+    // Enabling keeps an existing secret, so saving the form never rotates it
+    if (enableSigning) {
+      const { error } = await admin
+        .from("custom_metrics")
+        .update({ signing_secret: generateSigningSecret() })
+        .eq("id", metricId)
+        .eq("project_id", projectId)
+        .is("signing_secret", null);
+
+      if (error) return errorResponse(error.message, 500);
+    }
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -2,7 +2,15 @@
  * /api/projects/[projectId]/metrics — Custom metrics CRUD
  *
  * GET: List all custom metrics for a project
- * POST: Create a new custom metric (url_rule or webhook)
+ * POST: Create a new custom metric (url_rule or webhook), counted as
+ *       conversions, unique converting viewers, or revenue (with a currency).
+ *       Optional dedup (idempotency_field, count_once) and attribution
+ *       window (attribution_window_hours) — see lib/analytics/conversions.ts.
+ *       signing_enabled: true gives a webhook metric a signing secret, after
+ *       which its webhook only accepts signed calls
+ *
+ * event_count counts every stored conversion; unattributed_count is the
+ * share of those outside the window or without a known exposure.
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -10,6 +18,14 @@ import { createClient } from "@/lib/supabase/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { errorResponse, handleApiError } from "@/lib/utils/errors";
 import { randomUUID } from "crypto";
+import {
+  DEFAULT_CURRENCY,
+  METRIC_VALUE_TYPES,
+  parseCurrency,
+} from "@/lib/analytics/revenue";
+import { isAttributionWindow, isIdempotencyField } from "@/lib/analytics/conversions";
+import { generateSigningSecret } from "@/lib/analytics/webhook-signature";
+import type { MetricValueType } from "@/lib/supabase/types";
 
 export async function GET(
   _req: NextRequest,
@@ -42,11 +58,18 @@ export async function GET(
     // Add event counts for each metric
     const metricsWithCounts = await Promise.all(
       (metrics || []).map(async (m) => {
-        const { count } = await admin
-          .from("custom_metric_events")
-          .select("*", { count: "exact", head: true })
-          .eq("metric_id", m.id);
-        return { ...m, event_count: count || 0 };
+        const [{ count }, { count: unattributed }] = await Promise.all([
+          admin
+            .from("custom_metric_events")
+            .select("*", { count: "exact", head: true })
+            .eq("metric_id", m.id),
+          admin
+            .from("custom_metric_events")
+            .select("*", { count: "exact", head: true })
+            .eq("metric_id", m.id)
+            .eq("attributed", false),
+        ]);
+        return { ...m, event_count: count || 0, unattributed_count: unattributed || 0 };
       })
     );
 
@@ -79,20 +102,53 @@ export async function POST(
       return errorResponse("Not found", 404);
 
     const body = await req.json();
-    const { name, metric_type, url_pattern, match_type, description } = body;
+    const {
+      name,
+      metric_type,
+      url_pattern,
+      match_type,
+      description,
+      value_type,
+      currency,
+      idempotency_field,
+      count_once,
+      attribution_window_hours,
+      signing_enabled,
+    } = body;
 
     if (!name) return errorResponse("Name is required");
+    if (value_type !== undefined && !METRIC_VALUE_TYPES.includes(value_type)) {
+      return errorResponse("Invalid value type");
+    }
+    const isRevenue = value_type === "revenue";
+    const currencyCode = currency ? parseCurrency(currency) : DEFAULT_CURRENCY;
+    if (isRevenue && !currencyCode) {
+      return errorResponse("Currency must be a three-letter code");
+    }
+    if (idempotency_field && !isIdempotencyField(idempotency_field)) {
+      return errorResponse("Dedup field must be a metadata key like order_id");
+    }
+    if (attribution_window_hours != null && !isAttributionWindow(attribution_window_hours)) {
+      return errorResponse("Attribution window must be 1 to 8760 hours");
+    }
 
     const insert = {
       project_id: projectId,
       name: name as string,
       metric_type: (metric_type || "url_rule") as "url_rule" | "webhook",
       description: (description as string) || null,
+      value_type: (value_type || "count") as MetricValueType,
+      currency: isRevenue ? currencyCode : null,
+      idempotency_field: (idempotency_field as string | undefined) || null,
+      count_once: count_once === true,
+      attribution_window_hours: (attribution_window_hours as number | undefined) ?? null,
       url_pattern: metric_type === "webhook" ? null : (url_pattern as string) || null,
       match_type: metric_type === "webhook" ? null : ((match_type as string) || "contains") as "contains" | "exact" | "regex",
       webhook_key: metric_type === "webhook"
         ? randomUUID().replace(/-/g, "").slice(0, 24)
         : null,
+      signing_secret:
+        metric_type === "webhook" && signing_enabled === true ? generateSigningSecret() : null,
     };
 
     const { data: metric, error } = await admin
@@ -5,40 +5,82 @@
  *   This is the "big red button" that kicks off the entire video processing
  *   pipeline. When a user clicks "Process All Variants" in the dashboard,
  *   this endpoint:
- *     1. Validates the project has at least one hook, body, and CTA
- *     2. Generates all variant combinations (hook × body × cta)
- *     3. Creates variant records in the database (status: pending)
- *     4. Updates the project status to "processing"
- *     5. Enqueues normalization jobs for all segments
+ *     1. Validates the project has a segment for every required slot
+ *        (projects.slots — hook, body and CTA by default)
+ *     2. Generates variant combinations (one segment per slot) — all of them,
+ *        or a fractional subset when the request (or the project's saved
+ *        design_mode) asks for { design: "fractional" }. In the full design,
+ *        combos in excludedCombinations (request body, else the project's
+ *        saved list) are skipped so they're never rendered
+ *     3. Diffs the combinations against the live run (lib/variant/
+ *        rerender-plan.ts): unchanged variants are carried over with their
+ *        IDs, new or changed combinations get variant records (pending)
+ *     4. Creates a new publish run listing both, and updates the project
+ *        status to "processing" — or publishes right away if nothing needs
+ *        rendering
+ *     5. Enqueues normalization jobs for segments that need it
  *
  *   From there, the video-processor worker takes over:
- *     - Normalizes all segments
+ *     - Normalizes all segments (and packages each one as HLS)
  *     - Automatically enqueues render jobs when normalization completes
  *     - Renders all variants and extracts hook clips
- *     - Marks the project as "ready" when all variants are done
+ *     - Publishes the run (publish_run RPC) when all its variants are done,
+ *       which marks the project "ready"
+ *
+ * DYNAMIC COMPOSITION:
+ *   { composition: "dynamic" } (saved as projects.composition_mode) skips
+ *   rendering: a variant whose segments are packaged is staged as soon as
+ *   they are, and served from a manifest composed on request
+ *   (lib/variant/compose.ts). Switching back to "render" re-renders the
+ *   live run's composed variants rather than carrying them over.
+ *
+ * REPUBLISHING:
+ *   Re-processing a ready project never touches the live run — embeds keep
+ *   serving projects.live_run_id until the new run is published, then swap
+ *   atomically. The previous live run stays archived for rollback. Only a
+ *   still-building run from an earlier request is discarded here (minus the
+ *   variants it shared with the live run).
  *
  * ARCHITECTURE:
  *   Dashboard → POST /api/projects/[id]/process
- *     → creates variant records + enqueues normalize jobs
+ *     → creates publish run + variant records + enqueues normalize jobs
  *     → video-processor worker picks up jobs from Redis
  *     → worker normalizes → stitches → extracts hooks → uploads to R2
- *     → project status becomes "ready" → embed player can serve variants
+ *     → run goes live → embed player serves its variants
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
-import { generateCombinations } from "@/lib/variant/combinations";
+import {
+  generateCombinations,
+  excludeCombinations,
+  sanitizeExclusions,
+  slotSegments,
+} from "@/lib/variant/combinations";
+import { projectSlots, slotCodePrefixes } from "@/lib/variant/slots";
+import { planRerender } from "@/lib/variant/rerender-plan";
+import { variantTransitions } from "@/lib/video/transitions";
+import { stageComposedVariants } from "@/lib/variant/compose";
 import { enqueueNormalize, enqueueRender } from "@/lib/queue/jobs";
+import { deleteByPrefix, downloadToBuffer, uploadFromBuffer } from "@/lib/storage/r2";
+import { variantPrefix } from "@/lib/storage/keys";
 import { handleApiError, errorResponse } from "@/lib/utils/errors";
 import { logActivity } from "@/lib/activity/log";
 import type { Database } from "@/lib/supabase/types";
+import { z } from "zod";
 
 type Project = Database["public"]["Tables"]["projects"]["Row"];
 type Segment = Database["public"]["Tables"]["segments"]["Row"];
 type Variant = Database["public"]["Tables"]["variants"]["Row"];
 
+const processSchema = z.object({
+  design: z.enum(["full", "fractional"]).optional(),
+  excludedCombinations: z.array(z.string().max(120)).max(5000).optional(),
+  composition: z.enum(["render", "dynamic"]).optional(),
+});
+
 export async function POST(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: Promise<{ projectId: string }> }
 ) {
   try {
@@ -62,6 +104,14 @@ export async function POST(
       return errorResponse("Project is already processing");
     }
 
+    // Body is optional — reprocess buttons POST without one
+    const parsed = processSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return errorResponse(`Invalid fields: ${parsed.error.message}`, 400);
+    }
+    const design = parsed.data.design ?? typedProject.design_mode;
+    const composition = parsed.data.composition ?? typedProject.composition_mode;
+
     // Reset any previously-failed segments so they can be re-processed
     await admin
       .from("segments")
@@ -69,16 +119,12 @@ export async function POST(
       .eq("project_id", projectId)
       .eq("status", "failed");
 
-    // Delete old variants and processing jobs from prior runs
-    await admin.from("variants").delete().eq("project_id", projectId);
-    await admin.from("processing_jobs").delete().eq("project_id", projectId);
-
     // Get all segments ready for processing
     const { data: segments, error: segError } = await admin
       .from("segments")
       .select("*")
       .eq("project_id", projectId)
-      .in("status", ["uploaded", "normalized"]);
+      .in("status", ["uploaded", "normalized", "stale"]);
 
     if (segError || !segments) {
       return errorResponse("Failed to fetch segments");
@@ -86,53 +132,184 @@ export async function POST(
 
     const typedSegments = segments as Segment[];
 
-    // Validate we have at least one of each type
-    const hooks = typedSegments.filter((s) => s.type === "hook");
-    const bodies = typedSegments.filter((s) => s.type === "body");
-    const ctas = typedSegments.filter((s) => s.type === "cta");
+    // Validate every required slot has at least one segment
+    const slots = projectSlots(typedProject);
+    const groups = slotSegments(slots, typedSegments);
+    const missing = slots.filter((slot, i) => slot.required && groups[i].length === 0);
 
-    if (!hooks.length || !bodies.length || !ctas.length) {
+    if (missing.length > 0) {
       return errorResponse(
-        `Need at least one of each segment type. Got: ${hooks.length} hooks, ${bodies.length} bodies, ${ctas.length} CTAs`
+        `Need at least one segment for every required slot. Missing: ${missing
+          .map((slot) => slot.label)
+          .join(", ")}`
+      );
+    }
+
+    const segmentInputs = typedSegments.map((s) => ({
+      id: s.id,
+      type: s.type,
+      label: s.label,
+      sort_order: s.sort_order,
+    }));
+
+    // Exclusions from the request replace the saved list; stale or malformed
+    // keys (deleted segments) are dropped before saving
+    const exclusions = sanitizeExclusions(
+      parsed.data.excludedCombinations ?? typedProject.excluded_combinations ?? [],
+      slots,
+      segmentInputs
+    );
+
+    // Generate variant combinations (full or fractional) and create records.
+    // A fractional design's subset is fixed, so exclusions only apply to full.
+    const generated = generateCombinations(slots, segmentInputs, design);
+    const combinations =
+      design === "full" ? excludeCombinations(generated, exclusions) : generated;
+
+    if (combinations.length === 0) {
+      return errorResponse("Every combination is excluded — select at least one", 400);
+    }
+
+    // Discard an unfinished run from an earlier request and old processing
+    // jobs (only once the request is known to be valid). The live and
+    // archived runs are left alone — embeds keep serving the live one.
+    const { data: runs } = await admin
+      .from("publish_runs")
+      .select("id, status, variant_ids")
+      .eq("project_id", projectId);
+    const staleRuns = (runs || []).filter((r) => r.status === "building");
+    if (staleRuns.length > 0) {
+      // Variants the stale run carried over from the live run stay
+      const kept = new Set(
+        (runs || []).filter((r) => r.status !== "building").flatMap((r) => r.variant_ids)
       );
+      const staleVariantIds = staleRuns
+        .flatMap((r) => r.variant_ids)
+        .filter((id) => !kept.has(id));
+      await admin
+        .from("publish_runs")
+        .delete()
+        .in("id", staleRuns.map((r) => r.id));
+      if (staleVariantIds.length > 0) {
+        await admin.from("variants").delete().in("id", staleVariantIds);
+        for (const id of staleVariantIds) {
+          await deleteByPrefix(variantPrefix(projectId, id)).catch(() => {});
+        }
+      }
     }
+    await admin.from("processing_jobs").delete().eq("project_id", projectId);
 
-    // Generate all variant combinations and create records
-    const combinations = generateCombinations(
-      typedSegments.map((s) => ({
-        id: s.id,
-        type: s.type,
-        label: s.label,
-        sort_order: s.sort_order,
-      }))
+    // Diff against the live run: unchanged combinations keep their variant
+    // (and its analytics); only new or changed ones are rendered
+    const liveRun = (runs || []).find((r) => r.status === "live");
+    const { data: liveVariants } = liveRun
+      ? await admin
+          .from("variants")
+          .select("*")
+          .in("id", liveRun.variant_ids)
+          .eq("status", "rendered")
+      : { data: [] };
+    const plan = planRerender(
+      combinations,
+      ((liveVariants || []) as Variant[]).filter(
+        (v) => composition === "dynamic" || !v.composed
+      ),
+      typedSegments,
+      typedProject.transitions
     );
 
-    // Create variant records
-    const variantInserts = combinations.map((combo) => ({
+    // Create variant records for what needs rendering
+    const variantInserts = plan.toRender.map((combo) => ({
       project_id: projectId,
-      hook_segment_id: combo.hook.id,
-      body_segment_id: combo.body.id,
-      cta_segment_id: combo.cta.id,
+      hook_segment_id: combo.segments[0].id,
+      segment_ids: combo.segments.map((s) => s.id),
       variant_code: combo.variantCode,
       status: "pending" as const,
     }));
 
-    const { error: variantError } = await admin
-      .from("variants")
-      .insert(variantInserts);
+    const { data: newVariants, error: variantError } = variantInserts.length
+      ? await admin.from("variants").insert(variantInserts).select("id")
+      : { data: [], error: null };
 
-    if (variantError) {
-      return errorResponse(`Failed to create variants: ${variantError.message}`);
+    if (variantError || !newVariants) {
+      return errorResponse(`Failed to create variants: ${variantError?.message}`);
+    }
+    const newVariantIds = newVariants.map((v) => v.id);
+
+    // Codes are positional — keep carried variants in step with the new layout
+    for (const { variant, variantCode } of plan.carried) {
+      if (variant.variant_code !== variantCode) {
+        await admin
+          .from("variants")
+          .update({ variant_code: variantCode })
+          .eq("id", variant.id);
+      }
+    }
+
+    const { data: run, error: runError } = await admin
+      .from("publish_runs")
+      .insert({
+        project_id: projectId,
+        design_mode: design,
+        variant_count: combinations.length,
+        variant_ids: [...plan.carried.map((c) => c.variant.id), ...newVariantIds],
+      })
+      .select("id")
+      .single();
+
+    if (runError || !run) {
+      if (newVariantIds.length > 0) {
+        await admin.from("variants").delete().in("id", newVariantIds);
+      }
+      return errorResponse(`Failed to create publish run: ${runError?.message}`);
+    }
+
+    // design_mode tells analytics which design ran
+    await admin
+      .from("projects")
+      .update({
+        design_mode: design,
+        excluded_combinations: exclusions,
+        composition_mode: composition,
+      })
+      .eq("id", projectId);
+
+    // Nothing to render (e.g. a combination was only deselected) — publish
+    // the new set straight away
+    if (plan.toRender.length === 0) {
+      const publishError = await publishRun(admin, projectId, run.id);
+      if (publishError) {
+        return errorResponse(`Failed to publish: ${publishError}`, 500);
+      }
+
+      await logActivity({
+        supabase: admin,
+        projectId,
+        eventType: "project_ready",
+        title: "All variants ready",
+        detail: `${combinations.length} variants published (no re-render needed)`,
+        metadata: { runId: run.id, variantCount: combinations.length, reusedCount: plan.carried.length },
+      });
+
+      return NextResponse.json({
+        message: "Published without re-rendering",
+        runId: run.id,
+        segmentsToNormalize: 0,
+        variantsToRender: 0,
+        variantsReused: plan.carried.length,
+      });
     }
 
-    // Update project status
     await admin
       .from("projects")
       .update({ status: "processing" })
       .eq("id", projectId);
 
-    // Enqueue normalization jobs for segments that aren't already normalized
-    const toNormalize = typedSegments.filter((s) => s.status === "uploaded");
+    // Enqueue normalization jobs for segments that aren't already normalized,
+    // or were normalized for a loudness target that has since changed
+    const toNormalize = typedSegments.filter(
+      (s) => s.status === "uploaded" || s.status === "stale"
+    );
     for (const seg of toNormalize) {
       await admin
         .from("segments")
@@ -147,40 +324,57 @@ export async function POST(
         status: "queued",
       });
 
-      if (!seg.original_storage_key) {
+      // The upload is deleted after the first normalization; from then on
+      // the segment is re-normalized from its normalized file
+      const sourceKey = seg.original_storage_key ?? seg.normalized_storage_key;
+      if (!sourceKey) {
         return errorResponse(`Segment ${seg.label || seg.id} is missing its uploaded file`);
       }
 
       await enqueueNormalize({
         projectId,
         segmentId: seg.id,
-        originalStorageKey: seg.original_storage_key,
+        originalStorageKey: sourceKey,
+        renormalize: !seg.original_storage_key,
       });
     }
 
     // If all segments are already normalized, enqueue render jobs directly
     // (normally the worker does this after the last normalize job completes,
     // but on retry all segments may already be normalized)
+    let composedCount = 0;
     if (toNormalize.length === 0) {
       const segmentMap = new Map(typedSegments.map((s) => [s.id, s]));
-      const { data: newVariants } = await admin
+      const { data: pendingVariants } = await admin
         .from("variants")
         .select("*")
-        .eq("project_id", projectId)
+        .in("id", newVariantIds)
         .eq("status", "pending");
 
-      if (newVariants) {
-        const typedVariants = newVariants as Variant[];
+      if (pendingVariants) {
+        let typedVariants = pendingVariants as Variant[];
+
+        // Dynamic composition: packaged combinations need no render job
+        if (composition === "dynamic") {
+          const composed = new Set(
+            await stageComposedVariants(
+              admin,
+              { download: downloadToBuffer, upload: uploadFromBuffer },
+              typedVariants,
+              segmentMap
+            )
+          );
+          composedCount = composed.size;
+          typedVariants = typedVariants.filter((v) => !composed.has(v.id));
+        }
+
         for (const v of typedVariants) {
-          const hook = segmentMap.get(v.hook_segment_id);
-          const body = segmentMap.get(v.body_segment_id);
-          const cta = segmentMap.get(v.cta_segment_id);
+          const parts = v.segment_ids.map((id) => segmentMap.get(id));
+          const hook = parts[0];
 
           if (
-            !hook?.normalized_storage_key ||
-            !body?.normalized_storage_key ||
-            !cta?.normalized_storage_key ||
-            !hook.normalized_duration_ms
+            !parts.every((part) => part?.normalized_storage_key) ||
+            !hook?.normalized_duration_ms
           ) {
             continue;
           }
@@ -195,39 +389,94 @@ export async function POST(
           await enqueueRender({
             projectId,
             variantId: v.id,
-            hookSegmentId: v.hook_segment_id,
-            bodySegmentId: v.body_segment_id,
-            ctaSegmentId: v.cta_segment_id,
-            hookNormalizedKey: hook.normalized_storage_key,
-            bodyNormalizedKey: body.normalized_storage_key,
-            ctaNormalizedKey: cta.normalized_storage_key,
+            segmentIds: v.segment_ids,
+            normalizedKeys: parts.map((part) => part!.normalized_storage_key!),
+            captionKeys: parts.map((part) => part!.captions_storage_key),
+            transitions: variantTransitions(
+              typedProject.transitions,
+              parts.map((part) => part!.type)
+            ),
             hookDurationMs: hook.normalized_duration_ms,
           });
         }
       }
+
+      // Every new combination was composed — nothing left for the worker
+      if (composedCount === newVariantIds.length) {
+        const publishError = await publishRun(admin, projectId, run.id);
+        if (publishError) {
+          return errorResponse(`Failed to publish: ${publishError}`, 500);
+        }
+
+        await logActivity({
+          supabase: admin,
+          projectId,
+          eventType: "project_ready",
+          title: "All variants ready",
+          detail: `${combinations.length} variants published (${composedCount} composed, no render needed)`,
+          metadata: { runId: run.id, variantCount: combinations.length, composedCount },
+        });
+
+        return NextResponse.json({
+          message: "Published without rendering",
+          runId: run.id,
+          segmentsToNormalize: 0,
+          variantsToRender: 0,
+          variantsComposed: composedCount,
+          variantsReused: plan.carried.length,
+        });
+      }
     }
 
+    const prefixes = slotCodePrefixes(slots);
+    const layout = groups
+      .map((group, i) => `${group.length}${prefixes[i].toUpperCase()}`)
+      .join(" \u00d7 ");
+
     await logActivity({
       supabase: admin,
       projectId,
       eventType: wasReady ? "processing_restarted" : "processing_started",
       title: wasReady ? "Reprocessing started" : "Processing started",
-      detail: `${combinations.length} variants from ${hooks.length}H \u00d7 ${bodies.length}B \u00d7 ${ctas.length}C`,
+      detail: `${combinations.length} variants from ${layout}${design === "fractional" ? " (fractional design)" : ""}${plan.carried.length > 0 ? `, ${plan.toRender.length} to render` : ""}`,
       metadata: {
+        runId: run.id,
         variantCount: combinations.length,
+        renderCount: plan.toRender.length,
+        reusedCount: plan.carried.length,
+        design,
+        excludedCount: generated.length - combinations.length,
         segmentsToNormalize: toNormalize.length,
-        hookCount: hooks.length,
-        bodyCount: bodies.length,
-        ctaCount: ctas.length,
+        slotCounts: Object.fromEntries(slots.map((slot, i) => [slot.key, groups[i].length])),
       },
     });
 
     return NextResponse.json({
       message: "Processing started",
+      runId: run.id,
       segmentsToNormalize: toNormalize.length,
-      variantsToRender: combinations.length,
+      variantsToRender: plan.toRender.length - composedCount,
+      variantsComposed: composedCount,
+      variantsReused: plan.carried.length,
     });
   } catch (error) {
     return handleApiError(error);
   }
 }
+
+/** Make the run live and delete the files of variants it pruned */
+async function publishRun(
+  admin: ReturnType<typeof createAdminClient>,
+  projectId: string,
+  runId: string
+): Promise<string | null> {
+  const { data: prunedVariantIds, error } = await admin.rpc("publish_run", {
+    p_project_id: projectId,
+    p_run_id: runId,
+  });
+  if (error) return error.message;
+  for (const id of prunedVariantIds || []) {
+    await deleteByPrefix(variantPrefix(projectId, id)).catch(() => {});
+  }
+  return null;
+}
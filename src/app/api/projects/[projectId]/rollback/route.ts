@@ -0,0 +1,79 @@
+/**
+ * /api/projects/[projectId]/rollback — Roll back to the previous publish run
+ *
+ * POST: Make the archived (previously live) run live again. The current live
+ * run becomes the archived one, so a second rollback undoes the first.
+ *
+ * Uses the same publish_run RPC as the worker, so the swap is atomic —
+ * embeds go straight from one set of rendered variants to the other. Viewers
+ * assigned to a variant that's no longer live are re-bucketed on their next
+ * load. Allowed while a republish is rendering; when that run finishes it
+ * is published as usual.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { deleteByPrefix } from "@/lib/storage/r2";
+import { variantPrefix } from "@/lib/storage/keys";
+import { logActivity } from "@/lib/activity/log";
+import { errorResponse, handleApiError } from "@/lib/utils/errors";
+
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id, live_run_id")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Project not found", 404);
+
+    const { data: previous } = await admin
+      .from("publish_runs")
+      .select("id, variant_count")
+      .eq("project_id", projectId)
+      .eq("status", "archived")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (!previous) {
+      return errorResponse("No previous version to roll back to", 400);
+    }
+
+    const { data: prunedVariantIds, error } = await admin.rpc("publish_run", {
+      p_project_id: projectId,
+      p_run_id: previous.id,
+    });
+    if (error) return errorResponse(error.message, 500);
+
+    for (const variantId of prunedVariantIds || []) {
+      await deleteByPrefix(variantPrefix(projectId, variantId)).catch(() => {});
+    }
+
+    await logActivity({
+      supabase: admin,
+      projectId,
+      eventType: "run_rolled_back",
+      title: "Rolled back to previous version",
+      detail: `${previous.variant_count} variants live again`,
+      metadata: { runId: previous.id, replacedRunId: project.live_run_id },
+    });
+
+    return NextResponse.json({ success: true, liveRunId: previous.id });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
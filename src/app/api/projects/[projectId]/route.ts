@@ -1,7 +1,187 @@
 import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { deleteByPrefix } from "@/lib/storage/r2";
 import { handleApiError, errorResponse } from "@/lib/utils/errors";
+import { isCombination, sanitizeExclusions } from "@/lib/variant/combinations";
+import { projectSlots, validateSlots, MAX_SLOTS } from "@/lib/variant/slots";
+import { MAX_LOUDNESS_TARGET, MIN_LOUDNESS_TARGET } from "@/lib/video/loudness";
+import { sanitizeTransitions, validateTransitions } from "@/lib/video/transitions";
+import { z } from "zod";
+
+const slotSchema = z
+  .object({
+    key: z.string().min(1).max(24),
+    label: z.string().min(1).max(40),
+    required: z.boolean(),
+  })
+  .strict();
+
+const transitionSchema = z
+  .object({
+    type: z.enum(["cut", "crossfade", "fade_black", "j_cut", "l_cut"]),
+    durationMs: z.number().int().min(0),
+  })
+  .strict();
+
+const updateProjectSchema = z
+  .object({
+    excludedCombinations: z.array(z.string().max(400)).max(5000).optional(),
+    slots: z.array(slotSchema).min(1).max(MAX_SLOTS).optional(),
+    loudnessTargetLufs: z
+      .number()
+      .min(MIN_LOUDNESS_TARGET)
+      .max(MAX_LOUDNESS_TARGET)
+      .nullable()
+      .optional(),
+    transitions: z.record(z.string(), transitionSchema).optional(),
+  })
+  .strict();
+
+/**
+ * PATCH: Save project settings edited before processing.
+ * slots — the ordered segment slots (lib/variant/slots.ts). A slot that
+ * still has segments can't be removed, and the change is refused if a
+ * rendered variant would no longer fit (e.g. a new required slot), so live
+ * embeds keep playing until the project is reprocessed.
+ * excludedCombinations — combos unchecked in the CombinationGrid, as
+ * "segmentId|segmentId|..." keys in slot order. Keys that don't match this
+ * project's slots and segments are dropped.
+ * transitions — how each segment boundary is crossed, keyed by the slot it
+ * leads into (lib/video/transitions.ts). Takes effect for variants rendered
+ * from then on; the next processing run re-renders the ones it changes.
+ * Transitions into slots that no longer exist are dropped.
+ * loudnessTargetLufs — integrated loudness segments are normalized to
+ * (lib/video/loudness.ts), or null for no loudness normalization. A new
+ * target marks the normalized segments "stale", so the next processing run
+ * re-normalizes them and re-renders their variants.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id, status, slots, excluded_combinations, loudness_target_lufs, transitions")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    const parsed = updateProjectSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return errorResponse(`Invalid fields: ${parsed.error.message}`, 400);
+    }
+
+    if (
+      parsed.data.excludedCombinations === undefined &&
+      parsed.data.slots === undefined &&
+      parsed.data.loudnessTargetLufs === undefined &&
+      parsed.data.transitions === undefined
+    ) {
+      return errorResponse("No valid fields to update");
+    }
+
+    const { data: segmentRows } = await admin
+      .from("segments")
+      .select("id, type, label, sort_order")
+      .eq("project_id", projectId);
+    const segments = segmentRows || [];
+
+    const slots = parsed.data.slots ?? projectSlots(project);
+    if (parsed.data.slots) {
+      const invalid = validateSlots(slots);
+      if (invalid) return errorResponse(invalid, 400);
+      if (project.status === "processing") {
+        return errorResponse("Slots can't change while the project is processing", 409);
+      }
+
+      const keys = new Set(slots.map((s) => s.key));
+      const orphaned = projectSlots(project).find(
+        (s) => !keys.has(s.key) && segments.some((seg) => seg.type === s.key)
+      );
+      if (orphaned) {
+        return errorResponse(
+          `Remove the ${orphaned.label} segments before removing that slot`,
+          409
+        );
+      }
+
+      const { data: rendered } = await admin
+        .from("variants")
+        .select("segment_ids")
+        .eq("project_id", projectId)
+        .eq("status", "rendered");
+      if ((rendered || []).some((v) => !isCombination(v.segment_ids, slots, segments))) {
+        return errorResponse(
+          "This change doesn't fit the rendered variants — add new slots as optional, or keep the existing order",
+          409
+        );
+      }
+    }
+
+    if (parsed.data.transitions) {
+      const invalid = validateTransitions(parsed.data.transitions, slots);
+      if (invalid) return errorResponse(invalid, 400);
+    }
+    const transitions = sanitizeTransitions(
+      parsed.data.transitions ?? project.transitions,
+      slots
+    );
+
+    const { loudnessTargetLufs } = parsed.data;
+    const loudnessChanged =
+      loudnessTargetLufs !== undefined && loudnessTargetLufs !== project.loudness_target_lufs;
+    if (loudnessChanged && project.status === "processing") {
+      return errorResponse("The loudness target can't change while the project is processing", 409);
+    }
+
+    const excluded = sanitizeExclusions(
+      parsed.data.excludedCombinations ?? project.excluded_combinations,
+      slots,
+      segments
+    );
+
+    const { error } = await admin
+      .from("projects")
+      .update({
+        excluded_combinations: excluded,
+        ...(parsed.data.slots ? { slots } : {}),
+        transitions,
+        ...(loudnessChanged ? { loudness_target_lufs: loudnessTargetLufs } : {}),
+      })
+      .eq("id", projectId);
+
+    if (error) return errorResponse(error.message, 500);
+
+    if (loudnessChanged) {
+      await admin
+        .from("segments")
+        .update({ status: "stale" })
+        .eq("project_id", projectId)
+        .eq("status", "normalized");
+    }
+
+    return NextResponse.json({
+      excludedCombinations: excluded,
+      slots,
+      transitions,
+      loudnessTargetLufs: loudnessChanged ? loudnessTargetLufs : project.loudness_target_lufs,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
 
 export async function DELETE(
   _req: NextRequest,
@@ -0,0 +1,112 @@
+/**
+ * /api/projects/[projectId]/sample-size — Test duration planner
+ *
+ * GET: How many viewers and days a test with these settings needs, plus
+ *      the project's recent traffic to prefill the planner with.
+ *
+ * Query params:
+ *   ?variantCount=N   — Variants the test will run (selected combinations)
+ *   ?baselineRate=0.3 — Baseline completion/conversion rate (0–1).
+ *                       Defaults to the project's recent completion rate.
+ *   ?mde=0.1          — Minimum detectable effect, relative (0.1 = +10%)
+ *   ?dailyViews=N     — Expected plays per day. Defaults to the average
+ *                       over the last HISTORY_DAYS days of get_daily_views.
+ *
+ * `plan` is null when there's nothing to plan (fewer than 2 variants, no
+ * baseline rate yet). See lib/analytics/planner.ts for the math.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { planSampleSize } from "@/lib/analytics/planner";
+import { errorResponse, handleApiError } from "@/lib/utils/errors";
+import { z } from "zod";
+
+/** Traffic history window used for the defaults */
+const HISTORY_DAYS = 28;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const plannerQuerySchema = z.object({
+  variantCount: z.coerce.number().int().min(1).max(10_000),
+  baselineRate: z.coerce.number().gt(0).lt(1).optional(),
+  mde: z.coerce.number().gt(0).max(10),
+  dailyViews: z.coerce.number().min(0).optional(),
+});
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    const parsed = plannerQuerySchema.safeParse(
+      Object.fromEntries(req.nextUrl.searchParams)
+    );
+    if (!parsed.success) {
+      return errorResponse(`Invalid fields: ${parsed.error.message}`, 400);
+    }
+    const { variantCount, baselineRate, mde, dailyViews } = parsed.data;
+
+    // Recent traffic: average plays per day since the first day with data
+    // in the window (a project live for 3 days isn't averaged over 28)
+    const since = new Date(Date.now() - HISTORY_DAYS * DAY_MS);
+    const { data: daily, error } = await admin.rpc("get_daily_views", {
+      p_project_id: projectId,
+      p_start_date: since.toISOString(),
+    });
+    if (error) console.error("Daily views error:", error);
+
+    let plays = 0;
+    let completions = 0;
+    let firstDay: number | null = null;
+    for (const row of daily || []) {
+      plays += Number(row.views) || 0;
+      completions += Number(row.completions) || 0;
+      const day = Date.parse(row.day);
+      if (firstDay === null || day < firstDay) firstDay = day;
+    }
+    const days =
+      firstDay === null
+        ? 0
+        : Math.min(HISTORY_DAYS, Math.floor((Date.now() - firstDay) / DAY_MS) + 1);
+
+    const history = {
+      days,
+      dailyViews: days > 0 ? Math.round(plays / days) : 0,
+      completionRate: plays > 0 ? Math.round((completions / plays) * 10000) / 10000 : null,
+    };
+
+    const baseline = baselineRate ?? history.completionRate;
+    const plan =
+      baseline === null || baseline <= 0 || baseline >= 1
+        ? null
+        : planSampleSize({
+            variantCount,
+            baselineRate: baseline,
+            mde,
+            dailyViews: dailyViews ?? history.dailyViews,
+          });
+
+    return NextResponse.json({ history, plan });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
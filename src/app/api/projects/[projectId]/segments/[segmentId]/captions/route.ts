@@ -0,0 +1,124 @@
+/**
+ * /api/projects/[projectId]/segments/[segmentId]/captions — Segment captions
+ *
+ * PUT: Upload or replace the segment's captions. The body is the raw SRT
+ *      or WebVTT file; it's parsed and validated (lib/video/captions.ts)
+ *      and stored as WebVTT, so bad timing is reported here rather than
+ *      when a variant renders.
+ * DELETE: Remove the segment's captions.
+ *
+ * Both bump segments.captions_updated_at: variants rendered before that
+ * are re-rendered on the next processing run, which recomposes their
+ * captions with the new cues.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { deleteObject, uploadFromBuffer } from "@/lib/storage/r2";
+import { segmentCaptionsKey } from "@/lib/storage/keys";
+import { errorResponse, handleApiError } from "@/lib/utils/errors";
+import { MAX_CAPTIONS_BYTES, parseCaptions, toWebVtt } from "@/lib/video/captions";
+
+type RouteContext = { params: Promise<{ projectId: string; segmentId: string }> };
+
+/** The segment, if it exists and the signed-in user owns its project */
+async function ownedSegment(projectId: string, segmentId: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: errorResponse("Unauthorized", 401) };
+
+  const admin = createAdminClient();
+  const { data: project } = await admin
+    .from("projects")
+    .select("id, user_id")
+    .eq("id", projectId)
+    .single();
+  if (!project || project.user_id !== user.id) {
+    return { error: errorResponse("Not found", 404) };
+  }
+
+  const { data: segment } = await admin
+    .from("segments")
+    .select("id, captions_storage_key")
+    .eq("id", segmentId)
+    .eq("project_id", projectId)
+    .maybeSingle();
+  if (!segment) return { error: errorResponse("Segment not found", 404) };
+
+  return { admin, segment };
+}
+
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { projectId, segmentId } = await params;
+    const owned = await ownedSegment(projectId, segmentId);
+    if ("error" in owned) return owned.error;
+    const { admin } = owned;
+
+    const content = await req.text();
+    if (Buffer.byteLength(content) > MAX_CAPTIONS_BYTES) {
+      return errorResponse(`Captions file is larger than ${MAX_CAPTIONS_BYTES / 1024}KB`, 413);
+    }
+
+    let webVtt: string;
+    try {
+      webVtt = toWebVtt(parseCaptions(content));
+    } catch (err) {
+      return errorResponse(
+        `Invalid captions: ${err instanceof Error ? err.message : "unreadable file"}`,
+        400
+      );
+    }
+
+    const key = segmentCaptionsKey(projectId, segmentId);
+    await uploadFromBuffer(key, Buffer.from(webVtt), "text/vtt");
+
+    const { data: segment, error } = await admin
+      .from("segments")
+      .update({
+        captions_storage_key: key,
+        captions_updated_at: new Date().toISOString(),
+      })
+      .eq("id", segmentId)
+      .select()
+      .single();
+    if (error) return errorResponse(error.message, 500);
+
+    return NextResponse.json(segment);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { projectId, segmentId } = await params;
+    const owned = await ownedSegment(projectId, segmentId);
+    if ("error" in owned) return owned.error;
+    const { admin, segment: existing } = owned;
+
+    if (!existing.captions_storage_key) {
+      return errorResponse("Segment has no captions", 404);
+    }
+
+    const { data: segment, error } = await admin
+      .from("segments")
+      .update({
+        captions_storage_key: null,
+        captions_updated_at: new Date().toISOString(),
+      })
+      .eq("id", segmentId)
+      .select()
+      .single();
+    if (error) return errorResponse(error.message, 500);
+
+    await deleteObject(existing.captions_storage_key).catch(() => {});
+
+    return NextResponse.json(segment);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
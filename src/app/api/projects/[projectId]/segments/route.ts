@@ -4,11 +4,11 @@
  * PURPOSE:
  *   Manages video segment records and initiates the upload flow.
  *
- *   GET: Lists all segments for a project (hooks, bodies, CTAs)
+ *   GET: Lists all segments for a project (every slot: hooks, bodies, CTAs, ...)
  *
  *   POST: Creates a new segment record AND returns a presigned upload URL.
  *   The upload flow works like this:
- *     1. Client sends POST with metadata (type, label, filename, size)
+ *     1. Client sends POST with metadata (type = slot key, label, filename, size)
  *     2. Server creates the segment record in the database (status: "uploading")
  *     3. Server generates a presigned PUT URL for Cloudflare R2
  *     4. Server returns both the segment record AND the upload URL
@@ -26,11 +26,12 @@ import { getPresignedUploadUrl } from "@/lib/storage/r2";
 import { originalSegmentKey } from "@/lib/storage/keys";
 import { handleApiError, errorResponse } from "@/lib/utils/errors";
 import { logActivity } from "@/lib/activity/log";
+import { projectSlots, SLOT_KEY_PATTERN } from "@/lib/variant/slots";
 import { z } from "zod";
 import { randomUUID } from "crypto";
 
 const createSegmentSchema = z.object({
-  type: z.enum(["hook", "body", "cta"]),
+  type: z.string().regex(SLOT_KEY_PATTERN),
   label: z.string().min(1).max(100),
   filename: z.string().min(1),
   size: z.number().positive(),
@@ -72,7 +73,7 @@ export async function POST(
     // Verify project exists and belongs to user
     const { data: project, error: projectError } = await supabase
       .from("projects")
-      .select("id")
+      .select("id, slots")
       .eq("id", projectId)
       .single();
 
@@ -80,6 +81,9 @@ export async function POST(
       return errorResponse("Project not found", 404);
     }
 
+    const slot = projectSlots(project).find((s) => s.key === parsed.type);
+    if (!slot) return errorResponse(`Unknown slot "${parsed.type}"`, 400);
+
     // Get sort order (next in sequence for this type)
     const { count } = await supabase
       .from("segments")
@@ -119,7 +123,7 @@ export async function POST(
       supabase,
       projectId,
       eventType: "segment_uploaded",
-      title: `New ${parsed.type} added`,
+      title: `New ${slot.label} added`,
       detail: parsed.label,
       metadata: { segmentId, type: parsed.type, label: parsed.label },
     });
@@ -2,12 +2,20 @@
  * /api/projects/[projectId]/variants/[variantId] — Variant management
  *
  * PATCH: Update variant custom_name and/or weight
+ *
+ * In bandit allocation mode, a variant turned back on (weight 0 → > 0)
+ * starts at an even share of the active variants — what the bandit gives
+ * an arm it knows nothing about — rather than the requested weight, which
+ * would sit next to bandit-set weights that sum to 1. A recompute is
+ * queued so it gets its real share right away.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { errorResponse, handleApiError } from "@/lib/utils/errors";
+import { enqueueBanditUpdate } from "@/lib/queue/jobs";
+import { MIN_BANDIT_WEIGHT } from "@/lib/variant/bandit";
 
 export async function PATCH(
   req: NextRequest,
@@ -33,7 +41,7 @@ export async function PATCH(
     // Verify project belongs to user
     const { data: project } = await admin
       .from("projects")
-      .select("id, user_id")
+      .select("id, user_id, allocation_mode")
       .eq("id", projectId)
       .single();
 
@@ -44,7 +52,7 @@ export async function PATCH(
     // Verify variant belongs to project
     const { data: variant } = await admin
       .from("variants")
-      .select("id")
+      .select("id, weight")
       .eq("id", variantId)
       .eq("project_id", projectId)
       .single();
@@ -60,7 +68,22 @@ export async function PATCH(
       updates.custom_name = body.custom_name;
     }
 
-    if (typeof body.weight === "number") {
+    const reenabledInBandit =
+      project.allocation_mode === "bandit" &&
+      typeof body.weight === "number" &&
+      body.weight > 0 &&
+      Number(variant.weight) === 0;
+
+    if (reenabledInBandit) {
+      const { count } = await admin
+        .from("variants")
+        .select("id", { count: "exact", head: true })
+        .eq("project_id", projectId)
+        .eq("status", "rendered")
+        .gt("weight", 0);
+      const share = 1 / ((count ?? 0) + 1);
+      updates.weight = Math.max(MIN_BANDIT_WEIGHT, Math.round(share * 10000) / 10000);
+    } else if (typeof body.weight === "number") {
       updates.weight = body.weight;
     }
 
@@ -77,6 +100,13 @@ export async function PATCH(
       return errorResponse(error.message, 500);
     }
 
+    if (reenabledInBandit) {
+      // Best-effort: recompute now rather than waiting for the next sweep
+      await enqueueBanditUpdate({ projectId }).catch((err) => {
+        console.error("Failed to enqueue bandit update:", err);
+      });
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     return handleApiError(error);
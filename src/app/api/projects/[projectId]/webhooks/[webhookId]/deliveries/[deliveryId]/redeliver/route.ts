@@ -0,0 +1,70 @@
+/**
+ * /api/projects/[projectId]/webhooks/[webhookId]/deliveries/[deliveryId]/redeliver
+ *
+ * POST: Send a logged delivery again — same payload and delivery ID, so a
+ *       receiver that already processed it can dedupe. The row goes back
+ *       to "pending" and gets a fresh set of retries; its attempt count
+ *       keeps growing.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { errorResponse, handleApiError } from "@/lib/utils/errors";
+import { enqueueWebhookDelivery } from "@/lib/queue/jobs";
+
+export async function POST(
+  _req: NextRequest,
+  {
+    params,
+  }: {
+    params: Promise<{ projectId: string; webhookId: string; deliveryId: string }>;
+  }
+) {
+  try {
+    const { projectId, webhookId, deliveryId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    const { data: subscription } = await admin
+      .from("webhook_subscriptions")
+      .select("active")
+      .eq("id", webhookId)
+      .eq("project_id", projectId)
+      .single();
+    if (!subscription) return errorResponse("Not found", 404);
+    if (!subscription.active) {
+      return errorResponse("Enable the webhook before redelivering", 409);
+    }
+
+    const { data: delivery, error } = await admin
+      .from("webhook_deliveries")
+      .update({ status: "pending", error: null })
+      .eq("id", deliveryId)
+      .eq("subscription_id", webhookId)
+      .select("id")
+      .maybeSingle();
+
+    if (error) return errorResponse(error.message, 500);
+    if (!delivery) return errorResponse("Not found", 404);
+
+    await enqueueWebhookDelivery({ deliveryId: delivery.id });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * /api/projects/[projectId]/webhooks/[webhookId]/deliveries — Delivery log
+ *
+ * GET: The subscription's most recent deliveries, newest first, with the
+ *      outcome of each one's latest attempt
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { errorResponse, handleApiError } from "@/lib/utils/errors";
+
+const DELIVERY_LIMIT = 50;
+
+export async function GET(
+  _req: NextRequest,
+  {
+    params,
+  }: { params: Promise<{ projectId: string; webhookId: string }> }
+) {
+  try {
+    const { projectId, webhookId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    const { data: deliveries } = await admin
+      .from("webhook_deliveries")
+      .select("*")
+      .eq("subscription_id", webhookId)
+      .eq("project_id", projectId)
+      .order("created_at", { ascending: false })
+      .limit(DELIVERY_LIMIT);
+
+    return NextResponse.json({ deliveries: deliveries || [] });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * /api/projects/[projectId]/webhooks/[webhookId] — Single subscription
+ *
+ * PATCH: Change URL (https, public address — lib/webhooks/url-guard.ts),
+ *        event types, description or active; rotateSecret
+ *        replaces the signing secret (the old one stops verifying at once)
+ * DELETE: Remove the subscription and its delivery log
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { errorResponse, handleApiError } from "@/lib/utils/errors";
+import { generateSigningSecret } from "@/lib/analytics/webhook-signature";
+import { isWebhookEventType } from "@/lib/webhooks/events";
+import { assertPublicWebhookUrl, WebhookUrlError } from "@/lib/webhooks/url-guard";
+import type { Database } from "@/lib/supabase/types";
+import { z } from "zod";
+
+const updateWebhookSchema = z
+  .object({
+    url: z
+      .string()
+      .trim()
+      .max(2000)
+      .url()
+      .regex(/^https:\/\//i, "https URL")
+      .optional(),
+    eventTypes: z
+      .array(z.string().refine(isWebhookEventType, "unknown event type"))
+      .min(1)
+      .max(50)
+      .optional(),
+    description: z.string().trim().max(200).nullish(),
+    active: z.boolean().optional(),
+    rotateSecret: z.literal(true).optional(),
+  })
+  .strict();
+
+export async function PATCH(
+  req: NextRequest,
+  {
+    params,
+  }: { params: Promise<{ projectId: string; webhookId: string }> }
+) {
+  try {
+    const { projectId, webhookId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    const parsed = updateWebhookSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return errorResponse(`Invalid fields: ${parsed.error.message}`, 400);
+    }
+    const { url, eventTypes, description, active, rotateSecret } = parsed.data;
+
+    if (url !== undefined) {
+      try {
+        await assertPublicWebhookUrl(url);
+      } catch (err) {
+        if (err instanceof WebhookUrlError) return errorResponse(err.message, 400);
+        throw err;
+      }
+    }
+
+    const updates: Database["public"]["Tables"]["webhook_subscriptions"]["Update"] = {};
+    if (url !== undefined) updates.url = url;
+    if (eventTypes !== undefined) updates.event_types = Array.from(new Set(eventTypes));
+    if (description !== undefined) updates.description = description || null;
+    if (active !== undefined) updates.active = active;
+    if (rotateSecret) updates.secret = generateSigningSecret();
+
+    if (Object.keys(updates).length === 0) {
+      return errorResponse("No valid fields to update");
+    }
+
+    const { data: webhook, error } = await admin
+      .from("webhook_subscriptions")
+      .update(updates)
+      .eq("id", webhookId)
+      .eq("project_id", projectId)
+      .select()
+      .maybeSingle();
+
+    if (error) return errorResponse(error.message, 500);
+    if (!webhook) return errorResponse("Not found", 404);
+
+    return NextResponse.json({ webhook });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function DELETE(
+  _req: NextRequest,
+  {
+    params,
+  }: { params: Promise<{ projectId: string; webhookId: string }> }
+) {
+  try {
+    const { projectId, webhookId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    // Cascades to webhook_deliveries; queued jobs for it fail harmlessly
+    const { error } = await admin
+      .from("webhook_subscriptions")
+      .delete()
+      .eq("id", webhookId)
+      .eq("project_id", projectId);
+
+    if (error) return errorResponse(error.message, 500);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
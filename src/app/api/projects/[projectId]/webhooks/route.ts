@@ -0,0 +1,140 @@
+/**
+ * /api/projects/[projectId]/webhooks — Outgoing webhook subscriptions
+ *
+ * GET: List the project's subscriptions (with their signing secrets)
+ * POST: Subscribe a URL to event types; a signing secret is generated.
+ *       The URL must be https and resolve to a public address
+ *       (lib/webhooks/url-guard.ts)
+ *
+ * Events are dispatched by lib/webhooks/dispatch.ts and delivered by the
+ * worker's "webhook" queue, signed with the subscription's secret.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { errorResponse, handleApiError } from "@/lib/utils/errors";
+import { generateSigningSecret } from "@/lib/analytics/webhook-signature";
+import { isWebhookEventType } from "@/lib/webhooks/events";
+import { assertPublicWebhookUrl, WebhookUrlError } from "@/lib/webhooks/url-guard";
+import { z } from "zod";
+
+/** At most this many subscriptions per project */
+const MAX_SUBSCRIPTIONS = 10;
+
+const webhookUrl = z
+  .string()
+  .trim()
+  .max(2000)
+  .url()
+  .regex(/^https:\/\//i, "https URL");
+
+const webhookEventTypes = z
+  .array(z.string().refine(isWebhookEventType, "unknown event type"))
+  .min(1)
+  .max(50);
+
+const createWebhookSchema = z
+  .object({
+    url: webhookUrl,
+    eventTypes: webhookEventTypes,
+    description: z.string().trim().max(200).nullish(),
+  })
+  .strict();
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    const { data: webhooks } = await admin
+      .from("webhook_subscriptions")
+      .select("*")
+      .eq("project_id", projectId)
+      .order("created_at");
+
+    return NextResponse.json({ webhooks: webhooks || [] });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return errorResponse("Unauthorized", 401);
+
+    const admin = createAdminClient();
+    const { data: project } = await admin
+      .from("projects")
+      .select("id, user_id")
+      .eq("id", projectId)
+      .single();
+    if (!project || project.user_id !== user.id)
+      return errorResponse("Not found", 404);
+
+    const parsed = createWebhookSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return errorResponse(`Invalid fields: ${parsed.error.message}`, 400);
+    }
+    const { url, eventTypes, description } = parsed.data;
+
+    try {
+      await assertPublicWebhookUrl(url);
+    } catch (err) {
+      if (err instanceof WebhookUrlError) return errorResponse(err.message, 400);
+      throw err;
+    }
+
+    const { count } = await admin
+      .from("webhook_subscriptions")
+      .select("*", { count: "exact", head: true })
+      .eq("project_id", projectId);
+    if ((count ?? 0) >= MAX_SUBSCRIPTIONS) {
+      return errorResponse(`A project can have at most ${MAX_SUBSCRIPTIONS} webhooks`, 400);
+    }
+
+    const { data: webhook, error } = await admin
+      .from("webhook_subscriptions")
+      .insert({
+        project_id: projectId,
+        url,
+        event_types: Array.from(new Set(eventTypes)),
+        secret: generateSigningSecret(),
+        description: description || null,
+      })
+      .select()
+      .single();
+
+    if (error) return errorResponse(error.message, 500);
+
+    return NextResponse.json({ webhook }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -1,20 +1,36 @@
 /**
- * /api/track/conversion — URL rule conversion tracking
+ * /api/track/conversion — Conversion tracking from the customer's site
  *
- * Client-side script calls this when a viewer visits a URL that matches
- * a custom metric's URL pattern. Checks all metrics for the project
- * and records conversions for matching rules.
+ * public/track.js calls this on every page it's installed on, and for
+ * explicit wai('convert', metricName, { value }) calls:
+ *   - Without `metric`: records every URL-rule metric the page URL matches
+ *   - With `metric`: records the project's metric of that name (any type,
+ *     matched case-insensitively)
+ * A numeric `value` (e.g. an order total) is stored on the event for
+ * revenue metrics; `metadata` (e.g. { order_id }) is stored alongside the
+ * page URL and is where a metric's dedup field is read from.
+ *
+ * Attribution windows and dedup are applied per metric by
+ * recordConversion() (lib/analytics/conversions.ts).
+ *
+ * Metrics with a signing secret are skipped: they only accept signed
+ * server-side calls to their webhook, and a browser can't hold the secret.
+ *
+ * viewerId is the first-party ID embed.js and track.js share on the host
+ * site — the same ID the iframe assigned and tracked the viewer under.
  *
  * PUBLIC ROUTE — no auth required.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
+import { parseConversionValue } from "@/lib/analytics/revenue";
+import { CONVERSION_METRIC_COLUMNS, recordConversion } from "@/lib/analytics/conversions";
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { projectId, viewerId, sessionId, pageUrl } = body;
+    const { projectId, viewerId, sessionId, pageUrl, metric: metricName, value } = body;
 
     if (!projectId || !viewerId || !pageUrl) {
       return corsResponse({ ok: true });
@@ -22,32 +38,26 @@ export async function POST(req: NextRequest) {
 
     const admin = createAdminClient();
 
-    // Get URL rule metrics for this project
-    const { data: metrics } = await admin
+    // Explicit conversions name any metric; page views match URL rules
+    let query = admin
       .from("custom_metrics")
-      .select("id, url_pattern, match_type")
+      .select(`${CONVERSION_METRIC_COLUMNS}, url_pattern, match_type`)
       .eq("project_id", projectId)
-      .eq("metric_type", "url_rule");
+      .is("signing_secret", null);
+    if (typeof metricName !== "string") {
+      query = query.eq("metric_type", "url_rule");
+    }
+    const { data: metrics } = await query;
 
     if (!metrics || metrics.length === 0) {
       return corsResponse({ ok: true });
     }
 
-    // Find the viewer's variant
-    let variantId: string | null = null;
-    const { data: recentEvent } = await admin
-      .from("view_events")
-      .select("variant_id")
-      .eq("project_id", projectId)
-      .eq("viewer_id", viewerId)
-      .order("created_at", { ascending: false })
-      .limit(1)
-      .single();
-
-    variantId = recentEvent?.variant_id || null;
-
-    // Check each metric against the page URL
+    // Check each metric against the metric name or the page URL
     const matchingMetrics = metrics.filter((m) => {
+      if (typeof metricName === "string") {
+        return m.name.trim().toLowerCase() === metricName.trim().toLowerCase();
+      }
       if (!m.url_pattern) return false;
 
       switch (m.match_type) {
@@ -65,19 +75,20 @@ export async function POST(req: NextRequest) {
       }
     });
 
-    if (matchingMetrics.length > 0) {
-      // Insert conversion events for all matching metrics
-      const events = matchingMetrics.map((m) => ({
-        metric_id: m.id,
-        project_id: projectId,
-        variant_id: variantId,
-        viewer_id: viewerId,
-        session_id: sessionId || null,
-        metadata: { page_url: pageUrl },
-      }));
-
-      await admin.from("custom_metric_events").insert(events);
-    }
+    const extra =
+      body.metadata && typeof body.metadata === "object" && !Array.isArray(body.metadata)
+        ? body.metadata
+        : {};
+    await Promise.all(
+      matchingMetrics.map((m) =>
+        recordConversion(admin, m, {
+          viewerId,
+          sessionId: sessionId || null,
+          metadata: { ...extra, page_url: pageUrl },
+          value: parseConversionValue(value),
+        })
+      )
+    );
 
     return corsResponse({ ok: true });
   } catch {
@@ -6,11 +6,22 @@
  *   progress_50, progress_75, complete). Writes events to the view_events
  *   table for analytics aggregation.
  *
+ *   Held-out viewers (the "no video" control) send a single "holdout"
+ *   event with a projectId instead of a variantId; it's stored with a
+ *   NULL variant_id and counts the holdout bucket's exposures.
+ *
  * DESIGN PRINCIPLES:
  *   - NEVER fails: Returns 200 even on errors. Tracking must never break
  *     the viewer's experience.
  *   - CORS enabled: Called from third-party websites via the embed player
- *   - Receives: event, variantId, viewerId, sessionId, timestamp
+ *   - Receives: event, variantId (or projectId for "holdout"), viewerId,
+ *     sessionId, timestamp, forced, audienceId
+ *   - forced: the view was forced via ?wai_variant= (QA). Stored as
+ *     is_forced so the analytics RPCs can leave it out
+ *   - audienceId: the audience pool the variant was served from. Stored
+ *     only if it belongs to the event's project; powers the per-audience
+ *     analytics breakdown
+ *   - country_code comes from the CDN geo header, not the client
  *   - Sent via: navigator.sendBeacon (reliable even on page close)
  *
  * PUBLIC ROUTE:
@@ -19,6 +30,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
+import { countryFromHeaders } from "@/lib/variant/audience";
 
 const VALID_EVENTS = new Set([
   "play",
@@ -26,14 +38,15 @@ const VALID_EVENTS = new Set([
   "progress_50",
   "progress_75",
   "complete",
+  "holdout",
 ]);
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { event, variantId, viewerId, sessionId, timestamp } = body;
+    const { event, variantId, projectId, viewerId, sessionId, timestamp } = body;
 
-    if (!event || !variantId) {
+    if (!event || (!variantId && event !== "holdout")) {
       return NextResponse.json({ error: "Missing fields" }, { status: 400 });
     }
 
@@ -42,29 +55,60 @@ export async function POST(req: NextRequest) {
       return corsResponse({ ok: true });
     }
 
-    // Look up project_id from the variant
     const admin = createAdminClient();
-    const { data: variant } = await admin
-      .from("variants")
-      .select("project_id")
-      .eq("id", variantId)
-      .single();
+    let eventProjectId: string | null = null;
+    if (event === "holdout") {
+      // Holdout exposures carry the project, not a variant
+      if (projectId) {
+        const { data: project } = await admin
+          .from("projects")
+          .select("id")
+          .eq("id", projectId)
+          .maybeSingle();
+        eventProjectId = project?.id ?? null;
+      }
+    } else {
+      // Look up project_id from the variant
+      const { data: variant } = await admin
+        .from("variants")
+        .select("project_id")
+        .eq("id", variantId)
+        .single();
+      eventProjectId = variant?.project_id ?? null;
+    }
 
-    if (!variant) {
-      // Variant not found — still return 200 to not break the player
+    if (!eventProjectId) {
+      // Variant or project not found — still return 200 to not break the player
       return corsResponse({ ok: true });
     }
 
-    // Insert event into view_events
+    // Ignore audience IDs from other projects (or made up)
+    let audienceId: string | null = null;
+    if (typeof body.audienceId === "string" && body.audienceId) {
+      const { data: audience } = await admin
+        .from("audiences")
+        .select("id")
+        .eq("id", body.audienceId)
+        .eq("project_id", eventProjectId)
+        .maybeSingle();
+      audienceId = audience?.id ?? null;
+    }
+
+    // Insert event into view_events. The embed iframe is same-origin with
+    // this endpoint, so the wai_vid cookie identifies the viewer when the
+    // player doesn't send one.
     await admin.from("view_events").insert({
-      project_id: variant.project_id,
-      variant_id: variantId,
-      viewer_id: viewerId || "anonymous",
+      project_id: eventProjectId,
+      variant_id: event === "holdout" ? null : variantId,
+      viewer_id: viewerId || req.cookies.get("wai_vid")?.value || "anonymous",
       session_id: sessionId || "unknown",
       event_type: event,
       timestamp_ms: timestamp || Date.now(),
       referrer: body.referrer || null,
       user_agent: body.userAgent || null,
+      country_code: countryFromHeaders(req.headers),
+      is_forced: body.forced === true,
+      audience_id: audienceId,
     });
 
     return corsResponse({ ok: true });
@@ -2,13 +2,44 @@
  * /api/webhook/[webhookKey] — External conversion webhook
  *
  * External systems POST to this endpoint to record a conversion event.
- * Looks up the metric by webhook key, finds the viewer's variant, and records.
+ * Looks up the metric by webhook key and records through recordConversion()
+ * (lib/analytics/conversions.ts), which attributes the conversion to the
+ * viewer's variant and applies the metric's attribution window and dedup.
  *
- * PUBLIC ROUTE — no auth required.
+ * The viewer ID is the one embed.js keeps on the customer's site — readable
+ * there as the first-party `wai_vid` cookie or `window.wai.viewerId` — so
+ * the body may name it viewerId, viewer_id or wai_vid.
+ *
+ * An optional numeric `value` (e.g. the order total) is stored with the
+ * conversion; revenue metrics sum it. A metric with a dedup field reads it
+ * from `metadata` (e.g. { "order_id": "A-1001" }), so retried deliveries
+ * count once.
+ *
+ * Responds { ok: true, result } where result is "recorded", "unattributed"
+ * (stored, but outside the window or without a known exposure) or
+ * "duplicate" (already recorded; nothing stored). A body that is JSON but
+ * not an object (null, a number, an array) gets 400 and records nothing.
+ *
+ * Signing: once a metric has a signing secret, calls must carry a valid
+ * X-Wai-Signature header (lib/analytics/webhook-signature.ts). Unsigned,
+ * stale, forged or replayed calls get 401 and record nothing.
+ *
+ * PUBLIC ROUTE — no user auth; signed when the metric requires it.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
+import { parseConversionValue } from "@/lib/analytics/revenue";
+import {
+  CONVERSION_METRIC_COLUMNS,
+  UNKNOWN_VIEWER,
+  recordConversion,
+} from "@/lib/analytics/conversions";
+import {
+  SIGNATURE_HEADER,
+  claimSignature,
+  verifySignature,
+} from "@/lib/analytics/webhook-signature";
 
 export async function POST(
   req: NextRequest,
@@ -21,7 +52,7 @@ export async function POST(
     // Look up metric by webhook key
     const { data: metric } = await admin
       .from("custom_metrics")
-      .select("id, project_id")
+      .select(`${CONVERSION_METRIC_COLUMNS}, signing_secret`)
       .eq("webhook_key", webhookKey)
       .single();
 
@@ -29,36 +60,44 @@ export async function POST(
       return NextResponse.json({ error: "Invalid webhook key" }, { status: 404 });
     }
 
-    const body = await req.json().catch(() => ({}));
-    const viewerId = body.viewerId || body.viewer_id || "unknown";
-    const sessionId = body.sessionId || body.session_id || null;
+    // The signature covers the exact bytes sent, so read the raw body
+    const rawBody = await req.text();
 
-    // Try to find the viewer's variant from recent view_events
-    let variantId: string | null = null;
-    if (viewerId !== "unknown") {
-      const { data: recentEvent } = await admin
-        .from("view_events")
-        .select("variant_id")
-        .eq("project_id", metric.project_id)
-        .eq("viewer_id", viewerId)
-        .order("created_at", { ascending: false })
-        .limit(1)
-        .single();
+    if (metric.signing_secret) {
+      const check = verifySignature(
+        metric.signing_secret,
+        req.headers.get(SIGNATURE_HEADER),
+        rawBody
+      );
+      if (!check.ok) {
+        return NextResponse.json({ error: check.reason }, { status: 401 });
+      }
+      if (!(await claimSignature(admin, metric.id, check.signature))) {
+        return NextResponse.json({ error: "Signature already used" }, { status: 401 });
+      }
+    }
 
-      variantId = recentEvent?.variant_id || null;
+    let body;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      body = {};
     }
+    // null, numbers, strings and arrays parse fine but carry no fields
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      return NextResponse.json({ error: "Body must be a JSON object" }, { status: 400 });
+    }
+    const viewerId = body.viewerId || body.viewer_id || body.wai_vid || UNKNOWN_VIEWER;
+    const sessionId = body.sessionId || body.session_id || null;
 
-    // Record conversion event
-    await admin.from("custom_metric_events").insert({
-      metric_id: metric.id,
-      project_id: metric.project_id,
-      variant_id: variantId,
-      viewer_id: viewerId,
-      session_id: sessionId,
+    const result = await recordConversion(admin, metric, {
+      viewerId,
+      sessionId,
       metadata: body.metadata || {},
+      value: parseConversionValue(body.value),
     });
 
-    const response = NextResponse.json({ ok: true });
+    const response = NextResponse.json({ ok: true, result });
     response.headers.set("Access-Control-Allow-Origin", "*");
     return response;
   } catch {
@@ -72,7 +111,7 @@ export async function OPTIONS() {
     headers: {
       "Access-Control-Allow-Origin": "*",
       "Access-Control-Allow-Methods": "POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type",
+      "Access-Control-Allow-Headers": "Content-Type, X-Wai-Signature",
     },
   });
 }
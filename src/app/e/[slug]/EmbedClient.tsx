@@ -32,6 +32,15 @@ interface EmbedData {
   totalDurationMs: number;
   microSegmentUrl?: string;
   hlsManifestUrl?: string;
+  /** The variant's WebVTT captions, if any of its segments has captions */
+  captionsUrl?: string;
+  /** Served via ?wai_variant= — tracked events are excluded from analytics */
+  forced?: boolean;
+  /** Audience whose pool served this variant — sent with tracked events */
+  audienceId?: string | null;
+  /** Viewer the variant was assigned to — the iframe's cookie is third-party
+   *  on host sites, so events carry the ID explicitly */
+  viewerId?: string | null;
 }
 
 interface EmbedClientProps {
@@ -131,8 +140,12 @@ export function EmbedClient({ data, slug }: EmbedClientProps) {
             posterUrl={data.posterUrl}
             variantId={data.variantId}
             projectSlug={slug}
+            forced={data.forced}
+            audienceId={data.audienceId}
+            viewerId={data.viewerId}
             microSegmentUrl={turboEnabled ? data.microSegmentUrl : undefined}
             hlsManifestUrl={data.hlsManifestUrl}
+            captionsUrl={data.captionsUrl}
           />
         ) : (
           <SmartSyncPlayer
@@ -142,8 +155,12 @@ export function EmbedClient({ data, slug }: EmbedClientProps) {
             posterUrl={data.posterUrl}
             variantId={data.variantId}
             projectSlug={slug}
+            forced={data.forced}
+            audienceId={data.audienceId}
+            viewerId={data.viewerId}
             hookPreloaded={!!hookBlobUrl}
             hlsManifestUrl={data.hlsManifestUrl}
+            captionsUrl={data.captionsUrl}
           />
         )}
       </div>
@@ -0,0 +1,49 @@
+/**
+ * HoldoutClient.tsx — Empty embed for held-out viewers
+ *
+ * PURPOSE:
+ *   Viewers in a project's holdout bucket are the "no video" control. They
+ *   get this instead of a player: nothing is rendered, one "holdout" event
+ *   is tracked so the analytics know the viewer was exposed to the test,
+ *   and the host page is told so embed.js can collapse the iframe.
+ */
+
+"use client";
+
+import { useEffect } from "react";
+
+interface HoldoutClientProps {
+  projectId: string;
+  slug: string;
+  viewerId: string;
+}
+
+export function HoldoutClient({ projectId, slug, viewerId }: HoldoutClientProps) {
+  useEffect(() => {
+    try {
+      const body = JSON.stringify({
+        event: "holdout",
+        projectId,
+        projectSlug: slug,
+        viewerId,
+        timestamp: Date.now(),
+      });
+      if (navigator.sendBeacon) {
+        navigator.sendBeacon("/api/track", body);
+      } else {
+        fetch("/api/track", {
+          method: "POST",
+          body,
+          headers: { "Content-Type": "application/json" },
+          keepalive: true,
+        });
+      }
+    } catch {
+      // Tracking should never break the host page
+    }
+
+    window.parent?.postMessage({ type: "wai:holdout", slug }, "*");
+  }, [projectId, slug, viewerId]);
+
+  return null;
+}
@@ -8,10 +8,18 @@
  *   arrives — no black flash, no waiting for a client-side API call.
  *
  * HOW IT WORKS:
- *   1. Reads the viewer ID from the wai_vid cookie (set by middleware)
- *   2. Fetches the project + rendered variants from Supabase
- *   3. Assigns a variant via deterministic hashing
- *   4. Passes all data (including posterUrl) to the EmbedClient component
+ *   1. Reads the viewer ID from the wai_vid cookie (set by middleware —
+ *      to embed.js's first-party ID when the iframe URL carries ?wai_vid=)
+ *   2. Resolves the viewer's variant through the shared assignment service
+ *      (persisted, so the page, embed API and preload hints always agree).
+ *      Query parameters are passed along for ?wai_variant= QA overrides and
+ *      project assignment rules; referrer, UTM parameters, device and
+ *      country for audience pools
+ *   3. Passes all data (including posterUrl) to the EmbedClient component,
+ *      or renders the empty HoldoutClient for a viewer in the holdout bucket.
+ *      A composed variant (dynamic composition) has no rendered files: it
+ *      plays the composed manifest for its hook/body/CTA, with the hook
+ *      segment as hook clip and poster
  *
  * PUBLIC PAGE:
  *   No authentication required. Excluded from the auth middleware via
@@ -20,17 +28,24 @@
 
 import { cookies, headers } from "next/headers";
 import { createAdminClient } from "@/lib/supabase/admin";
-import { assignVariant, generateViewerId } from "@/lib/variant/assignment";
+import { generateViewerId } from "@/lib/variant/assignment";
+import { assignEmbedVariant } from "@/lib/variant/assignment-service";
+import { buildViewerContext, isMobileUserAgent } from "@/lib/variant/audience";
 import { publicUrl } from "@/lib/storage/urls";
-import { variantPosterKey } from "@/lib/storage/keys";
+import { segmentPosterKey, variantPosterKey } from "@/lib/storage/keys";
+import { composedManifestPath } from "@/lib/video/composed-manifest";
 import { EmbedClient } from "./EmbedClient";
+import { HoldoutClient } from "./HoldoutClient";
 
 export default async function EmbedPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ slug: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
 }) {
   const { slug } = await params;
+  const query = await searchParams;
 
   try {
     const cookieStore = await cookies();
@@ -42,52 +57,64 @@ export default async function EmbedPage({
     }
 
     const admin = createAdminClient();
+    const headerStore = await headers();
+    const userAgent = headerStore.get("user-agent") || "";
 
-    // Get project by slug
-    const { data: project, error } = await admin
-      .from("projects")
-      .select("id, slug, status")
-      .eq("slug", slug)
-      .single();
-
-    if (error || !project || project.status !== "ready") {
+    // Resolve (or create) this viewer's persisted variant assignment
+    const overrideParams = Object.fromEntries(
+      Object.entries(query).map(([key, value]) => [
+        key,
+        Array.isArray(value) ? value[0] : value,
+      ])
+    );
+    const assignment = await assignEmbedVariant(
+      admin,
+      slug,
+      viewerId,
+      overrideParams,
+      buildViewerContext({
+        params: overrideParams,
+        referer: headerStore.get("referer"),
+        userAgent,
+        headers: headerStore,
+      })
+    );
+    if (!assignment.ok) {
       return <EmbedError message="Video not available" />;
     }
+    const { projectId, variant, forced, audienceId } = assignment;
 
-    // Detect mobile from User-Agent for 720p serving
-    const headerStore = await headers();
-    const userAgent = headerStore.get("user-agent") || "";
-    const isMobile = /iPhone|iPad|iPod|Android|webOS|BlackBerry|IEMobile|Opera Mini/i.test(userAgent);
-
-    // Get rendered variants
-    const { data: variants } = await admin
-      .from("variants")
-      .select(
-        "id, variant_code, video_storage_key, hook_clip_storage_key, hook_end_time_ms, video_duration_ms, micro_segment_storage_key, video_720p_storage_key, hls_master_manifest_key, hls_status"
-      )
-      .eq("project_id", project.id)
-      .eq("status", "rendered")
-      .order("variant_code");
-
-    if (!variants || variants.length === 0) {
-      return <EmbedError message="Video not available" />;
+    // Held-out viewer (the project's "no video" control): render nothing
+    if (!variant) {
+      return <HoldoutClient projectId={projectId} slug={slug} viewerId={viewerId} />;
     }
 
-    // Deterministic variant assignment (same viewer → same variant)
-    const variantIndex = assignVariant(viewerId, project.id, variants.length);
-    const variant = variants[variantIndex];
+    // Detect mobile from User-Agent for 720p serving
+    const isMobile = isMobileUserAgent(userAgent);
 
-    if (!variant.hook_clip_storage_key || !variant.video_storage_key) {
+    if (!variant.hook_clip_storage_key || (!variant.video_storage_key && !variant.composed)) {
       return <EmbedError message="Video not available" />;
     }
 
     const hookUrl = publicUrl(variant.hook_clip_storage_key);
-    const poster = publicUrl(variantPosterKey(project.id, variant.id));
+    const poster = publicUrl(
+      variant.composed
+        ? segmentPosterKey(projectId, variant.hook_segment_id)
+        : variantPosterKey(projectId, variant.id)
+    );
 
-    // Mobile gets 720p if available, otherwise falls back to 1080p
-    const fullVideoUrl = isMobile && variant.video_720p_storage_key
-      ? publicUrl(variant.video_720p_storage_key)
-      : publicUrl(variant.video_storage_key);
+    // Composed on request from the segments' HLS packages (same origin)
+    const composedUrl = variant.composed
+      ? composedManifestPath(projectId, variant.segment_ids, variant.id)
+      : undefined;
+
+    // Mobile gets 720p if available, otherwise falls back to 1080p. A
+    // composed variant has no MP4 to fall back to.
+    const fullVideoUrl = composedUrl
+      ? composedUrl
+      : isMobile && variant.video_720p_storage_key
+        ? publicUrl(variant.video_720p_storage_key)
+        : publicUrl(variant.video_storage_key!);
 
     // Micro-segment URL for turbo start (toggle via ?turbo=1 in embed URL)
     const microSegmentUrl = variant.micro_segment_storage_key
@@ -96,9 +123,14 @@ export default async function EmbedPage({
 
     // HLS manifest URL for adaptive streaming (only when packaging is complete)
     const hlsManifestUrl =
-      variant.hls_status === "ready" && variant.hls_master_manifest_key
+      composedUrl ??
+      (variant.hls_status === "ready" && variant.hls_master_manifest_key
         ? publicUrl(variant.hls_master_manifest_key)
-        : undefined;
+        : undefined);
+
+    const captionsUrl = variant.captions_storage_key
+      ? publicUrl(variant.captions_storage_key)
+      : undefined;
 
     return (
       <>
@@ -109,7 +141,7 @@ export default async function EmbedPage({
 
         <EmbedClient
           data={{
-            projectId: project.id,
+            projectId,
             variantId: variant.id,
             variantCode: variant.variant_code,
             hookClipUrl: hookUrl,
@@ -119,6 +151,10 @@ export default async function EmbedPage({
             totalDurationMs: variant.video_duration_ms ?? 0,
             microSegmentUrl,
             hlsManifestUrl,
+            captionsUrl,
+            forced,
+            audienceId,
+            viewerId,
           }}
           slug={slug}
         />
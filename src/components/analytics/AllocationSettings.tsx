@@ -0,0 +1,221 @@
+/**
+ * AllocationSettings — Traffic allocation mode toggle for split tests
+ *
+ * Switches a project between an even split and Thompson-sampling bandit
+ * allocation, picks the bandit's reward (completion or a custom metric),
+ * and shows each variant's current traffic share. Also designates the
+ * control — a variant or a "no video" holdout — and its fixed traffic share.
+ */
+
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+interface AllocationData {
+  mode: "uniform" | "bandit";
+  metricId: string | null;
+  updatedAt: string | null;
+  control: {
+    type: "variant" | "holdout";
+    variantId: string | null;
+    share: number | null;
+  };
+  variants: { id: string; variant_code: string; weight: number }[];
+}
+
+type AllocationUpdate = {
+  mode?: "uniform" | "bandit";
+  metricId?: string | null;
+  controlType?: "variant" | "holdout";
+  controlVariantId?: string | null;
+  controlShare?: number | null;
+};
+
+/** Fixed control traffic shares offered in the picker */
+const CONTROL_SHARES = [0.05, 0.1, 0.2, 0.3, 0.5];
+
+interface AllocationSettingsProps {
+  projectId: string;
+  metrics: { id: string; name: string }[];
+}
+
+function useAllocation(projectId: string) {
+  return useQuery<AllocationData>({
+    queryKey: ["allocation", projectId],
+    queryFn: async () => {
+      const res = await fetch(`/api/projects/${projectId}/allocation`);
+      if (!res.ok) throw new Error("Failed to fetch allocation");
+      return res.json();
+    },
+    refetchInterval: 60_000,
+  });
+}
+
+export function AllocationSettings({
+  projectId,
+  metrics,
+}: AllocationSettingsProps) {
+  const queryClient = useQueryClient();
+  const { data } = useAllocation(projectId);
+
+  const updateMutation = useMutation({
+    mutationFn: async (body: AllocationUpdate) => {
+      const res = await fetch(`/api/projects/${projectId}/allocation`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) throw new Error("Failed to update allocation");
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["allocation", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["analytics", projectId] });
+    },
+  });
+
+  if (!data) return null;
+
+  const isBandit = data.mode === "bandit";
+  const active = data.variants.filter((v) => v.weight > 0);
+  const totalWeight = active.reduce((s, v) => s + v.weight, 0);
+  const { control } = data;
+  const isHoldout = control.type === "holdout";
+
+  function handleControlChange(value: string) {
+    if (value === "holdout") {
+      updateMutation.mutate({
+        controlType: "holdout",
+        controlShare: control.share ?? 0.1,
+      });
+    } else {
+      updateMutation.mutate({
+        controlType: "variant",
+        controlVariantId: value || null,
+      });
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/[0.02] p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-[11px] font-medium uppercase tracking-wider text-white/30">
+            Traffic Allocation
+          </h4>
+          <p className="mt-1 text-xs text-white/40">
+            {isBandit
+              ? "Auto-optimizing — traffic shifts toward likely winners"
+              : "Even split across all active variants"}
+          </p>
+        </div>
+        <div className="flex rounded-lg border border-white/10 p-0.5">
+          {(["uniform", "bandit"] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => updateMutation.mutate({ mode })}
+              disabled={updateMutation.isPending || data.mode === mode}
+              className={`rounded-md px-3 py-1.5 text-xs font-medium transition-colors ${
+                data.mode === mode
+                  ? "bg-white/10 text-white/80"
+                  : "text-white/30 hover:text-white/50"
+              }`}
+            >
+              {mode === "uniform" ? "Even" : "Auto-optimize"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <span className="text-[11px] text-white/30">Control</span>
+        <select
+          value={isHoldout ? "holdout" : (control.variantId ?? "")}
+          onChange={(e) => handleControlChange(e.target.value)}
+          disabled={updateMutation.isPending}
+          className="rounded-md border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/70 focus:outline-none"
+        >
+          <option value="">First variant</option>
+          {data.variants.map((v) => (
+            <option key={v.id} value={v.id}>
+              {v.variant_code}
+            </option>
+          ))}
+          <option value="holdout">Holdout (no video)</option>
+        </select>
+        <span className="text-[11px] text-white/30">gets</span>
+        <select
+          value={control.share ?? ""}
+          onChange={(e) =>
+            updateMutation.mutate({
+              controlShare: e.target.value ? Number(e.target.value) : null,
+            })
+          }
+          disabled={updateMutation.isPending}
+          className="rounded-md border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/70 focus:outline-none"
+        >
+          {!isHoldout && <option value="">its normal share</option>}
+          {CONTROL_SHARES.map((share) => (
+            <option key={share} value={share}>
+              {Math.round(share * 100)}% of traffic
+            </option>
+          ))}
+        </select>
+        {isHoldout && (
+          <span className="text-[10px] text-white/20">
+            Held-out viewers see nothing — lift is measured on custom metrics
+          </span>
+        )}
+      </div>
+
+      {isBandit && (
+        <div className="mt-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="text-[11px] text-white/30">Optimize for</span>
+            <select
+              value={data.metricId ?? ""}
+              onChange={(e) =>
+                updateMutation.mutate({ metricId: e.target.value || null })
+              }
+              className="rounded-md border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/70 focus:outline-none"
+            >
+              <option value="">Completion</option>
+              {metrics.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.name}
+                </option>
+              ))}
+            </select>
+            {data.updatedAt && (
+              <span className="ml-auto text-[10px] text-white/20">
+                Updated {new Date(data.updatedAt).toLocaleTimeString()}
+              </span>
+            )}
+          </div>
+
+          <div className="space-y-1.5">
+            {active.map((v) => {
+              const share = totalWeight > 0 ? (v.weight / totalWeight) * 100 : 0;
+              return (
+                <div key={v.id} className="flex items-center gap-3">
+                  <span className="w-20 truncate font-mono text-[11px] text-white/40">
+                    {v.variant_code}
+                  </span>
+                  <div className="flex-1 h-1.5 rounded-full bg-white/5 overflow-hidden">
+                    <div
+                      className="h-full rounded-full bg-primary/50 transition-all duration-500"
+                      style={{ width: `${Math.max(share, 1)}%` }}
+                    />
+                  </div>
+                  <span className="w-12 text-right font-mono text-[11px] tabular-nums text-white/40">
+                    {share.toFixed(1)}%
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,13 @@
 /**
  * AnalyticsDashboard — Full analytics view for a project
  *
- * Shows metric cards, area chart, variant table, and segment comparison.
+ * Shows metric cards, area chart, variant table (with Bayesian significance
+ * on completion or a chosen custom metric, plus its conversions or revenue
+ * per view/viewer and order value), a sequential-test verdict that
+ * stays "not yet conclusive" until the always-valid boundary is crossed,
+ * traffic allocation, experiment lifecycle, a per-audience breakdown when
+ * the project has audiences, segment comparison, and the factorial (main
+ * effect + interaction) analysis.
  * Adapts between split test mode (multi-variant) and single video mode.
  */
 
@@ -15,15 +21,26 @@ import { MetricCard } from "./MetricCard";
 import { AnalyticsChart } from "./AnalyticsChart";
 import { AnalyticsTable } from "./AnalyticsTable";
 import { SegmentComparison } from "./SegmentComparison";
+import { FactorialAnalysis } from "./FactorialAnalysis";
 import { CustomMetricsConfig } from "./CustomMetricsConfig";
+import { AllocationSettings } from "./AllocationSettings";
+import { ExperimentSettings } from "./ExperimentSettings";
+import { AudienceBreakdown } from "./AudienceBreakdown";
+import type { SegmentSlot } from "@/lib/supabase/types";
 
 interface AnalyticsDashboardProps {
   projectId: string;
   isSplitTest: boolean;
+  /** The project's slots — one segment comparison tab each */
+  slots: SegmentSlot[];
 }
 
 type ChartMetric = "views" | "completions";
-type SegmentTab = "hook" | "body" | "cta" | null;
+/** A slot key, or the factorial tab */
+type SegmentTab = string | null;
+
+/** Can't collide with a slot key (those start with a letter) */
+const FACTORIAL_TAB = "_factorial";
 
 interface CustomMetricSummary {
   id: string;
@@ -47,12 +64,14 @@ function useCustomMetricsSummary(projectId: string) {
 export function AnalyticsDashboard({
   projectId,
   isSplitTest,
+  slots,
 }: AnalyticsDashboardProps) {
   const [startDate, setStartDate] = useState<string | null>(null);
   const [endDate, setEndDate] = useState<string | null>(null);
   const [chartMetric, setChartMetric] = useState<ChartMetric>("views");
   const [segmentTab, setSegmentTab] = useState<SegmentTab>(null);
   const [metricsConfigOpen, setMetricsConfigOpen] = useState(false);
+  const [significanceMetricId, setSignificanceMetricId] = useState<string | null>(null);
 
   const { data: customMetricsData } = useCustomMetricsSummary(projectId);
   const customMetrics = customMetricsData?.metrics || [];
@@ -61,6 +80,7 @@ export function AnalyticsDashboard({
     projectId,
     startDate,
     endDate,
+    metricId: significanceMetricId,
   });
 
   if (isLoading) {
@@ -109,6 +129,12 @@ export function AnalyticsDashboard({
   const { summary, variants, dailyViews } = analytics;
   const variantCodes = variants.map((v) => v.variant_code);
 
+  // Variants past the sequential boundary on the selected metric
+  const sequential = summary.sequential;
+  const conclusiveVariants = variants.filter(
+    (v) => (v.stats?.metric ?? v.stats?.completion)?.sequential?.significant
+  );
+
   // Progress funnel: play → 25% → 50% → 75% → complete
   const totalPlays = variants.reduce((s, v) => s + (v.play_count || 0), 0);
   const total25 = variants.reduce(
@@ -152,6 +178,32 @@ export function AnalyticsDashboard({
         </div>
       </div>
 
+      {/* Sequential verdict (split test only) */}
+      {isSplitTest && variants.length > 1 && sequential && sequential.comparisons > 0 && (
+        <div
+          className={`rounded-xl border px-4 py-3 ${
+            sequential.conclusive
+              ? "border-emerald-400/20 bg-emerald-400/5"
+              : "border-white/10 bg-white/[0.02]"
+          }`}
+        >
+          <p
+            className={`text-xs font-medium ${
+              sequential.conclusive ? "text-emerald-400" : "text-white/60"
+            }`}
+          >
+            {sequential.conclusive ? "Conclusive" : "Not yet conclusive"}
+          </p>
+          <p className="mt-0.5 text-[11px] text-white/30">
+            {sequential.conclusive
+              ? `${conclusiveVariants
+                  .map((v) => v.custom_name || v.variant_code)
+                  .join(", ")} crossed the sequential boundary against the control — safe to act on, however often you check.`
+              : `No variant has crossed the sequential boundary (always-valid p ≤ ${sequential.boundary}). Leads can still reverse — keep the test running.`}
+          </p>
+        </div>
+      )}
+
       {/* Metric cards */}
       <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
         <MetricCard
@@ -220,42 +272,101 @@ export function AnalyticsDashboard({
 
       {/* Variant table (split test only) */}
       {isSplitTest && variants.length > 1 && (
-        <AnalyticsTable variants={variants} />
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-[11px] text-white/25">
+              A winner is declared at {Math.round(summary.winnerProbability * 100)}%
+              {" "}P(best), once every active variant has {summary.minSampleSize}+ viewers
+            </p>
+            {customMetrics.length > 0 && (
+              <div className="flex items-center gap-2">
+                <span className="text-[11px] text-white/30">Significance on</span>
+                <select
+                  value={significanceMetricId ?? ""}
+                  onChange={(e) => setSignificanceMetricId(e.target.value || null)}
+                  className="rounded-md border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/70 focus:outline-none"
+                >
+                  <option value="">Completion</option>
+                  {customMetrics.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      {m.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+          <AnalyticsTable
+            variants={variants}
+            holdout={analytics.holdout}
+            metric={summary.metric}
+          />
+        </div>
+      )}
+
+      {/* Traffic allocation (split test only) */}
+      {isSplitTest && variants.length > 1 && (
+        <AllocationSettings projectId={projectId} metrics={customMetrics} />
+      )}
+
+      {/* Experiment lifecycle (split test only) */}
+      {isSplitTest && variants.length > 1 && (
+        <ExperimentSettings projectId={projectId} metrics={customMetrics} />
+      )}
+
+      {/* Per-audience results (projects with audiences) */}
+      {isSplitTest && analytics.audiences && analytics.audiences.length > 0 && (
+        <AudienceBreakdown audiences={analytics.audiences} />
       )}
 
       {/* Segment comparison tabs */}
       {isSplitTest && (
         <div className="space-y-4">
           <div className="flex items-center gap-1.5">
-            {(["hook", "body", "cta"] as const).map((type) => (
+            {[
+              ...slots.map((slot) => ({ tab: slot.key, label: slot.label })),
+              { tab: FACTORIAL_TAB, label: "Factorial" },
+            ].map(({ tab, label }) => (
               <button
-                key={type}
+                key={tab}
                 onClick={() =>
-                  setSegmentTab(segmentTab === type ? null : type)
+                  setSegmentTab(segmentTab === tab ? null : tab)
                 }
                 className={`rounded-md px-3 py-1.5 text-xs font-medium transition-colors ${
-                  segmentTab === type
+                  segmentTab === tab
                     ? "bg-white/10 text-white/80"
                     : "text-white/30 hover:bg-white/5 hover:text-white/50"
                 }`}
               >
-                {type === "hook"
-                  ? "Hooks"
-                  : type === "body"
-                    ? "Bodies"
-                    : "CTAs"}
+                {label}
               </button>
             ))}
           </div>
 
-          {segmentTab && (
-            <SegmentComparison
+          {segmentTab === FACTORIAL_TAB && (
+            <FactorialAnalysis
               projectId={projectId}
-              segmentType={segmentTab}
+              slots={slots}
               startDate={startDate}
               endDate={endDate}
+              metricId={significanceMetricId}
             />
           )}
+
+          {slots.map(
+            (slot, i) =>
+              segmentTab === slot.key && (
+                <SegmentComparison
+                  key={slot.key}
+                  projectId={projectId}
+                  slot={slot}
+                  slotIndex={i}
+                  startDate={startDate}
+                  endDate={endDate}
+                  metricId={significanceMetricId}
+                />
+              )
+          )}
         </div>
       )}
 
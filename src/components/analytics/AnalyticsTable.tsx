@@ -1,16 +1,36 @@
 /**
  * AnalyticsTable — Sortable variant analytics table
  *
- * Shows per-variant metrics with progress funnel visualization.
+ * Shows per-variant metrics with progress funnel visualization, plus
+ * Bayesian significance columns (95% credible interval, lift and
+ * P(beat control) against the project's control, P(best)) for completion
+ * or the selected custom metric, and the always-valid (sequential) p-value
+ * vs control — hover it for the fixed-horizon p-value. Variants below the
+ * minimum sample size are dimmed — their numbers aren't trustworthy yet.
+ * A holdout control gets its own row at the bottom.
+ *
+ * With a custom metric selected, value columns follow the funnel:
+ * conversions (count metrics), converting viewers (unique metrics), or
+ * revenue, revenue per view, revenue per viewer and average order value
+ * (revenue metrics).
  */
 
 "use client";
 
 import { useState } from "react";
-import type { VariantAnalytics } from "@/hooks/use-analytics";
+import type {
+  AnalyticsData,
+  AnalyticsSummary,
+  VariantAnalytics,
+  VariantSignificance,
+} from "@/hooks/use-analytics";
+import { formatMoney, type MetricValues } from "@/lib/analytics/revenue";
 
 interface AnalyticsTableProps {
   variants: VariantAnalytics[];
+  holdout?: AnalyticsData["holdout"];
+  /** Selected custom metric — adds its value columns */
+  metric?: AnalyticsSummary["metric"];
 }
 
 type SortKey =
@@ -20,9 +40,17 @@ type SortKey =
   | "progress_25_count"
   | "progress_50_count"
   | "progress_75_count"
-  | "complete_count";
+  | "complete_count"
+  | "lift"
+  | "prob_beat_control"
+  | "prob_best"
+  | ValueKey;
+
+type SignificanceKey = "lift" | "prob_beat_control" | "prob_best";
+type ValueKey = Exclude<keyof MetricValues, "valuedConversions">;
+type CountKey = Exclude<SortKey, SignificanceKey | ValueKey>;
 
-const columns: { key: SortKey; label: string; short: string }[] = [
+const columns: { key: CountKey; label: string; short: string }[] = [
   { key: "total_views", label: "Views", short: "Views" },
   { key: "unique_viewers", label: "Unique", short: "Uniq" },
   { key: "progress_25_count", label: "25%", short: "25%" },
@@ -32,12 +60,95 @@ const columns: { key: SortKey; label: string; short: string }[] = [
   { key: "completion_rate", label: "Rate", short: "Rate" },
 ];
 
-export function AnalyticsTable({ variants }: AnalyticsTableProps) {
+const significanceColumns: {
+  key: SignificanceKey;
+  label: string;
+  short: string;
+}[] = [
+  { key: "lift", label: "Lift vs control", short: "Lift" },
+  { key: "prob_beat_control", label: "P(beat control)", short: "vs Ctrl" },
+  { key: "prob_best", label: "P(best)", short: "P(best)" },
+];
+
+const MONEY_KEYS: ValueKey[] = [
+  "revenue",
+  "revenuePerView",
+  "revenuePerViewer",
+  "averageOrderValue",
+];
+
+const VALUE_KEYS: ValueKey[] = ["conversions", "converters", ...MONEY_KEYS];
+
+function isValueKey(key: SortKey): key is ValueKey {
+  return (VALUE_KEYS as SortKey[]).includes(key);
+}
+
+function valueColumns(
+  metric: AnalyticsSummary["metric"] | undefined
+): { key: ValueKey; label: string; short: string }[] {
+  if (!metric) return [];
+  if (metric.valueType === "revenue") {
+    return [
+      { key: "revenue", label: `${metric.name} revenue`, short: "Revenue" },
+      { key: "revenuePerView", label: "Revenue per view", short: "Rev/view" },
+      { key: "revenuePerViewer", label: "Revenue per viewer", short: "Rev/viewer" },
+      { key: "averageOrderValue", label: "Average order value", short: "AOV" },
+    ];
+  }
+  if (metric.valueType === "unique") {
+    return [{ key: "converters", label: `Viewers who converted (${metric.name})`, short: "Conv." }];
+  }
+  return [{ key: "conversions", label: `${metric.name} conversions`, short: "Conv." }];
+}
+
+function formatValue(
+  values: MetricValues | null | undefined,
+  key: ValueKey,
+  currency: string | null
+): string {
+  const value = values ? values[key] : null;
+  if (value === null) return "—";
+  return MONEY_KEYS.includes(key) ? formatMoney(value, currency) : value.toLocaleString();
+}
+
+/** Metric stats when a custom metric is selected, otherwise completion */
+function significanceOf(v: VariantAnalytics): VariantSignificance | null {
+  return v.stats?.metric ?? v.stats?.completion ?? null;
+}
+
+function sortValue(v: VariantAnalytics, key: SortKey): number {
+  if (key === "lift") return significanceOf(v)?.lift ?? -Infinity;
+  if (key === "prob_beat_control") return significanceOf(v)?.probBeatControl ?? -1;
+  if (key === "prob_best") return significanceOf(v)?.probBest ?? -1;
+  if (isValueKey(key)) return v.value?.[key] ?? -Infinity;
+  return v[key] || 0;
+}
+
+function formatProbability(p: number | null | undefined): string {
+  return p === null || p === undefined ? "—" : `${(p * 100).toFixed(1)}%`;
+}
+
+function formatLift(lift: number | null | undefined): string {
+  if (lift === null || lift === undefined) return "—";
+  return `${lift > 0 ? "+" : ""}${lift.toFixed(1)}%`;
+}
+
+function formatPValue(p: number | null | undefined): string {
+  if (p === null || p === undefined) return "—";
+  return p < 0.001 ? "<0.001" : p.toFixed(3);
+}
+
+function liftColor(lift: number | null | undefined): string {
+  if (!lift) return "text-white/50";
+  return lift > 0 ? "text-emerald-400/80" : "text-red-400/80";
+}
+
+export function AnalyticsTable({ variants, holdout, metric }: AnalyticsTableProps) {
   const [sortKey, setSortKey] = useState<SortKey>("total_views");
   const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
 
   const sorted = [...variants].sort((a, b) => {
-    const diff = (a[sortKey] || 0) - (b[sortKey] || 0);
+    const diff = sortValue(a, sortKey) - sortValue(b, sortKey);
     return sortDir === "desc" ? -diff : diff;
   });
 
@@ -52,8 +163,8 @@ export function AnalyticsTable({ variants }: AnalyticsTableProps) {
 
   // Find max values for relative bars
   const maxViews = Math.max(...variants.map((v) => v.total_views || 0), 1);
-  const bestRate = Math.max(
-    ...variants.map((v) => v.completion_rate || 0),
+  const bestProb = Math.max(
+    ...variants.map((v) => significanceOf(v)?.probBest ?? 0),
     0
   );
 
@@ -61,6 +172,9 @@ export function AnalyticsTable({ variants }: AnalyticsTableProps) {
     return null;
   }
 
+  const extraColumns = valueColumns(metric);
+  const currency = metric?.currency ?? null;
+
   return (
     <div className="rounded-xl border border-white/10 bg-white/[0.02] overflow-hidden">
       <div className="overflow-x-auto">
@@ -71,50 +185,72 @@ export function AnalyticsTable({ variants }: AnalyticsTableProps) {
                 Variant
               </th>
               {columns.map((col) => (
-                <th
+                <SortableHeader
                   key={col.key}
+                  label={col.label}
+                  short={col.short}
+                  active={sortKey === col.key}
+                  dir={sortDir}
                   onClick={() => handleSort(col.key)}
-                  className="cursor-pointer px-3 py-3 text-right text-[11px] font-medium uppercase tracking-wider text-white/30 transition-colors hover:text-white/50"
-                >
-                  <span className="inline-flex items-center gap-1">
-                    {col.short}
-                    {sortKey === col.key && (
-                      <svg
-                        className={`h-3 w-3 transition-transform ${sortDir === "asc" ? "rotate-180" : ""}`}
-                        fill="none"
-                        viewBox="0 0 24 24"
-                        stroke="currentColor"
-                        strokeWidth={2}
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          d="M19 9l-7 7-7-7"
-                        />
-                      </svg>
-                    )}
-                  </span>
-                </th>
+                />
+              ))}
+              {extraColumns.map((col) => (
+                <SortableHeader
+                  key={col.key}
+                  label={col.label}
+                  short={col.short}
+                  active={sortKey === col.key}
+                  dir={sortDir}
+                  onClick={() => handleSort(col.key)}
+                />
+              ))}
+              <th className="px-3 py-3 text-right text-[11px] font-medium uppercase tracking-wider text-white/30">
+                95% CI
+              </th>
+              <th
+                title="Always-valid p-value vs control (safe to check any time)"
+                className="px-3 py-3 text-right text-[11px] font-medium uppercase tracking-wider text-white/30"
+              >
+                Seq. p
+              </th>
+              {significanceColumns.map((col) => (
+                <SortableHeader
+                  key={col.key}
+                  label={col.label}
+                  short={col.short}
+                  active={sortKey === col.key}
+                  dir={sortDir}
+                  onClick={() => handleSort(col.key)}
+                />
               ))}
             </tr>
           </thead>
           <tbody>
             {sorted.map((v) => {
+              const sig = significanceOf(v);
               const isBest =
-                variants.length > 1 && v.completion_rate === bestRate && bestRate > 0;
+                variants.length > 1 && bestProb > 0 && sig?.probBest === bestProb;
+              const isWinner = isBest && sig?.isWinner;
               return (
                 <tr
                   key={v.variant_id}
-                  className="border-b border-white/[0.03] last:border-0 transition-colors hover:bg-white/[0.02]"
+                  className={`border-b border-white/[0.03] last:border-0 transition-colors hover:bg-white/[0.02] ${
+                    sig && !sig.sufficientSample ? "opacity-60" : ""
+                  }`}
                 >
                   <td className="px-4 py-3">
                     <div className="flex items-center gap-2">
                       <span className="text-sm font-medium text-white/70">
                         {v.custom_name || v.variant_code}
                       </span>
+                      {sig?.isControl && (
+                        <span className="rounded bg-white/5 px-1.5 py-0.5 text-[9px] font-medium uppercase tracking-wider text-white/30">
+                          Control
+                        </span>
+                      )}
                       {isBest && (
                         <svg
-                          className="h-3.5 w-3.5 text-amber-400"
+                          className={`h-3.5 w-3.5 ${isWinner ? "text-amber-400" : "text-amber-400/40"}`}
                           fill="currentColor"
                           viewBox="0 0 20 20"
                         >
@@ -142,12 +278,130 @@ export function AnalyticsTable({ variants }: AnalyticsTableProps) {
                         : (v[col.key] || 0).toLocaleString()}
                     </td>
                   ))}
+                  {extraColumns.map((col) => (
+                    <td
+                      key={col.key}
+                      className="px-3 py-3 text-right font-mono text-xs tabular-nums text-white/60"
+                    >
+                      {formatValue(v.value, col.key, currency)}
+                    </td>
+                  ))}
+                  <td className="px-3 py-3 text-right font-mono text-xs tabular-nums text-white/40">
+                    {sig ? `${sig.ciLower}–${sig.ciUpper}%` : "—"}
+                  </td>
+                  <td
+                    title={
+                      sig?.sequential && sig.sequential.fixedPValue !== null
+                        ? `Fixed-horizon p = ${formatPValue(sig.sequential.fixedPValue)} — only valid if checked once`
+                        : undefined
+                    }
+                    className={`px-3 py-3 text-right font-mono text-xs tabular-nums ${
+                      sig?.sequential?.significant ? "text-emerald-400/80" : "text-white/40"
+                    }`}
+                  >
+                    {formatPValue(sig?.sequential?.alwaysValidPValue)}
+                  </td>
+                  <td
+                    className={`px-3 py-3 text-right font-mono text-xs tabular-nums ${liftColor(sig?.lift)}`}
+                  >
+                    {formatLift(sig?.lift)}
+                  </td>
+                  <td className="px-3 py-3 text-right font-mono text-xs tabular-nums text-white/50">
+                    {formatProbability(sig?.probBeatControl)}
+                  </td>
+                  <td
+                    className={`px-3 py-3 text-right font-mono text-xs tabular-nums ${
+                      isWinner ? "text-amber-400" : "text-white/50"
+                    }`}
+                  >
+                    {formatProbability(sig?.probBest)}
+                  </td>
                 </tr>
               );
             })}
+            {holdout && (
+              <tr className="border-t border-white/5 bg-white/[0.01]">
+                <td className="px-4 py-3">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-white/50">
+                      Holdout (no video)
+                    </span>
+                    <span className="rounded bg-white/5 px-1.5 py-0.5 text-[9px] font-medium uppercase tracking-wider text-white/30">
+                      Control
+                    </span>
+                  </div>
+                </td>
+                <td className="px-3 py-3 text-right font-mono text-xs tabular-nums text-white/50">
+                  {holdout.viewers.toLocaleString()}
+                </td>
+                <td
+                  colSpan={columns.length - 1}
+                  className="px-3 py-3 text-right text-[11px] text-white/25"
+                >
+                  {holdout.metric
+                    ? `${holdout.metric.rate}% converted`
+                    : "Select a custom metric to compare against the holdout"}
+                </td>
+                {extraColumns.map((col) => (
+                  <td
+                    key={col.key}
+                    className="px-3 py-3 text-right font-mono text-xs tabular-nums text-white/40"
+                  >
+                    {formatValue(holdout.value, col.key, currency)}
+                  </td>
+                ))}
+                <td className="px-3 py-3 text-right font-mono text-xs tabular-nums text-white/40">
+                  {holdout.metric
+                    ? `${holdout.metric.ciLower}–${holdout.metric.ciUpper}%`
+                    : "—"}
+                </td>
+                <td colSpan={significanceColumns.length + 1} />
+              </tr>
+            )}
           </tbody>
         </table>
       </div>
     </div>
   );
 }
+
+function SortableHeader({
+  label,
+  short,
+  active,
+  dir,
+  onClick,
+}: {
+  label: string;
+  short: string;
+  active: boolean;
+  dir: "asc" | "desc";
+  onClick: () => void;
+}) {
+  return (
+    <th
+      title={label}
+      onClick={onClick}
+      className="cursor-pointer px-3 py-3 text-right text-[11px] font-medium uppercase tracking-wider text-white/30 transition-colors hover:text-white/50"
+    >
+      <span className="inline-flex items-center gap-1">
+        {short}
+        {active && (
+          <svg
+            className={`h-3 w-3 transition-transform ${dir === "asc" ? "rotate-180" : ""}`}
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+            strokeWidth={2}
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              d="M19 9l-7 7-7-7"
+            />
+          </svg>
+        )}
+      </span>
+    </th>
+  );
+}
@@ -0,0 +1,88 @@
+/**
+ * AudienceBreakdown — How each audience responds to its variant pool
+ *
+ * One row per audience (in match order) plus "Everyone else": viewers,
+ * plays, completion rate and the variant completing best for that
+ * audience. Expanding a row lists its variants. Forced (QA) views are
+ * left out, like everywhere else in analytics.
+ */
+
+"use client";
+
+import { useState } from "react";
+import type { AudienceAnalytics } from "@/hooks/use-analytics";
+
+interface AudienceBreakdownProps {
+  audiences: AudienceAnalytics[];
+}
+
+export function AudienceBreakdown({ audiences }: AudienceBreakdownProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/[0.02] p-4">
+      <h4 className="mb-3 text-xs font-medium uppercase tracking-wider text-white/30">
+        Audiences
+      </h4>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-[11px] text-white/30">
+            <th className="pb-2 font-medium">Audience</th>
+            <th className="pb-2 text-right font-medium">Viewers</th>
+            <th className="pb-2 text-right font-medium">Plays</th>
+            <th className="pb-2 text-right font-medium">Completion</th>
+            <th className="pb-2 text-right font-medium">Top variant</th>
+          </tr>
+        </thead>
+        <tbody>
+          {audiences.map((audience) => {
+            const key = audience.id ?? "none";
+            const isOpen = expanded === key;
+            return [
+              <tr
+                key={key}
+                onClick={() => setExpanded(isOpen ? null : key)}
+                className="cursor-pointer border-t border-white/5 hover:bg-white/[0.02]"
+              >
+                <td className="py-2 text-white/70">
+                  <span className="mr-1.5 text-white/20">{isOpen ? "▾" : "▸"}</span>
+                  {audience.name}
+                </td>
+                <td className="py-2 text-right font-mono tabular-nums text-white/50">
+                  {audience.viewers.toLocaleString()}
+                </td>
+                <td className="py-2 text-right font-mono tabular-nums text-white/50">
+                  {audience.plays.toLocaleString()}
+                </td>
+                <td className="py-2 text-right font-mono tabular-nums text-white/70">
+                  {audience.plays > 0 ? `${audience.completionRate}%` : "—"}
+                </td>
+                <td className="py-2 text-right font-mono text-xs text-amber-400/80">
+                  {audience.topVariantCode ?? "—"}
+                </td>
+              </tr>,
+              ...(isOpen
+                ? audience.variants.map((v) => (
+                    <tr key={`${key}-${v.variantId}`} className="text-xs">
+                      <td className="py-1 pl-6 font-mono text-white/40">{v.variantCode}</td>
+                      <td className="py-1 text-right font-mono tabular-nums text-white/30">
+                        {v.viewers.toLocaleString()}
+                      </td>
+                      <td className="py-1 text-right font-mono tabular-nums text-white/30">
+                        {v.plays.toLocaleString()}
+                      </td>
+                      <td className="py-1 text-right font-mono tabular-nums text-white/40">
+                        {v.plays > 0 ? `${v.completionRate}%` : "—"}
+                      </td>
+                      <td />
+                    </tr>
+                  ))
+                : []),
+            ];
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
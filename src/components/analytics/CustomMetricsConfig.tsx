@@ -2,7 +2,18 @@
  * CustomMetricsConfig — Dialog for managing custom conversion metrics
  *
  * Lists existing metrics, lets users add URL rules or webhooks,
- * edit, delete, and copy webhook URLs.
+ * edit, delete, and copy webhook URLs. Each metric is measured as a
+ * count of conversions, unique converting viewers, or revenue (the sum of
+ * the values passed with conversions, in the metric's currency).
+ *
+ * Conversion rules: a dedup field (a metadata key such as order_id) or
+ * "once per viewer" drops repeat conversions, and an attribution window
+ * only credits a variant for conversions within that long of the viewer's
+ * first exposure. Conversions outside it are kept and counted separately
+ * as unattributed.
+ *
+ * Webhook metrics can require signed requests. The list shows the signing
+ * secret (hidden until revealed) with copy and rotate actions.
  */
 
 "use client";
@@ -18,9 +29,39 @@ interface CustomMetric {
   match_type: "contains" | "exact" | "regex";
   webhook_key: string | null;
   description: string | null;
+  value_type: ValueType;
+  currency: string | null;
+  idempotency_field: string | null;
+  count_once: boolean;
+  attribution_window_hours: number | null;
+  signing_secret: string | null;
+  event_count: number;
+  unattributed_count: number;
   created_at: string;
 }
 
+type ValueType = "count" | "unique" | "revenue";
+
+const valueTypeLabels: Record<ValueType, string> = {
+  count: "Count",
+  unique: "Unique viewers",
+  revenue: "Revenue",
+};
+
+const attributionWindows: { hours: number | null; label: string }[] = [
+  { hours: null, label: "None" },
+  { hours: 24, label: "24h" },
+  { hours: 24 * 7, label: "7d" },
+  { hours: 24 * 30, label: "30d" },
+  { hours: 24 * 90, label: "90d" },
+];
+
+function windowLabel(hours: number): string {
+  const preset = attributionWindows.find((w) => w.hours === hours);
+  if (preset) return preset.label;
+  return hours % 24 === 0 ? `${hours / 24}d` : `${hours}h`;
+}
+
 interface CustomMetricsConfigProps {
   projectId: string;
   open: boolean;
@@ -33,6 +74,12 @@ type MetricForm = {
   url_pattern: string;
   match_type: "contains" | "exact" | "regex";
   description: string;
+  value_type: ValueType;
+  currency: string;
+  idempotency_field: string;
+  count_once: boolean;
+  attribution_window_hours: number | null;
+  signing_enabled: boolean;
 };
 
 const emptyForm: MetricForm = {
@@ -41,6 +88,12 @@ const emptyForm: MetricForm = {
   url_pattern: "",
   match_type: "contains",
   description: "",
+  value_type: "count",
+  currency: "USD",
+  idempotency_field: "",
+  count_once: false,
+  attribution_window_hours: null,
+  signing_enabled: false,
 };
 
 function useCustomMetrics(projectId: string) {
@@ -67,6 +120,7 @@ export function CustomMetricsConfig({
   const [form, setForm] = useState<MetricForm>(emptyForm);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [copied, setCopied] = useState<string | null>(null);
+  const [revealedId, setRevealedId] = useState<string | null>(null);
 
   const invalidate = useCallback(() => {
     queryClient.invalidateQueries({ queryKey: ["custom-metrics", projectId] });
@@ -90,7 +144,13 @@ export function CustomMetricsConfig({
   });
 
   const updateMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: Partial<MetricForm> }) => {
+    mutationFn: async ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: Partial<MetricForm> & { rotate_signing_secret?: boolean };
+    }) => {
       const res = await fetch(`/api/projects/${projectId}/metrics/${id}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
@@ -134,6 +194,12 @@ export function CustomMetricsConfig({
       url_pattern: m.url_pattern || "",
       match_type: m.match_type || "contains",
       description: m.description || "",
+      value_type: m.value_type || "count",
+      currency: m.currency || "USD",
+      idempotency_field: m.idempotency_field || "",
+      count_once: m.count_once,
+      attribution_window_hours: m.attribution_window_hours,
+      signing_enabled: !!m.signing_secret,
     });
     setEditingId(m.id);
     setView("edit");
@@ -146,6 +212,23 @@ export function CustomMetricsConfig({
     setTimeout(() => setCopied(null), 2000);
   }
 
+  function copySecret(secret: string) {
+    navigator.clipboard.writeText(secret);
+    setCopied(secret);
+    setTimeout(() => setCopied(null), 2000);
+  }
+
+  function rotateSecret(m: CustomMetric) {
+    if (
+      confirm(
+        `Rotate the signing secret for "${m.name}"? Requests signed with the current secret will be rejected immediately.`
+      )
+    ) {
+      updateMutation.mutate({ id: m.id, data: { rotate_signing_secret: true } });
+      setRevealedId(m.id);
+    }
+  }
+
   if (!open) return null;
 
   const isSaving = createMutation.isPending || updateMutation.isPending;
@@ -222,6 +305,13 @@ export function CustomMetricsConfig({
                           >
                             {m.metric_type === "webhook" ? "Webhook" : "URL Rule"}
                           </span>
+                          {m.value_type && m.value_type !== "count" && (
+                            <span className="rounded-full bg-emerald-500/10 px-1.5 py-0.5 text-[10px] font-medium text-emerald-400/80">
+                              {m.value_type === "revenue"
+                                ? `Revenue · ${m.currency}`
+                                : valueTypeLabels[m.value_type]}
+                            </span>
+                          )}
                         </div>
 
                         {m.metric_type === "url_rule" && m.url_pattern && (
@@ -246,11 +336,55 @@ export function CustomMetricsConfig({
                           </button>
                         )}
 
+                        {m.metric_type === "webhook" && m.signing_secret && (
+                          <div className="mt-1 flex items-center gap-2 text-[11px]">
+                            <code className="min-w-0 truncate rounded bg-white/5 px-1 py-0.5 font-mono text-white/40">
+                              {revealedId === m.id
+                                ? m.signing_secret
+                                : `${m.signing_secret.slice(0, 6)}${"•".repeat(12)}`}
+                            </code>
+                            <button
+                              onClick={() => setRevealedId(revealedId === m.id ? null : m.id)}
+                              className="shrink-0 text-white/25 transition-colors hover:text-white/50"
+                            >
+                              {revealedId === m.id ? "Hide" : "Reveal"}
+                            </button>
+                            <button
+                              onClick={() => copySecret(m.signing_secret!)}
+                              className="shrink-0 text-white/25 transition-colors hover:text-white/50"
+                            >
+                              {copied === m.signing_secret ? (
+                                <span className="text-emerald-400">Copied!</span>
+                              ) : (
+                                "Copy"
+                              )}
+                            </button>
+                            <button
+                              onClick={() => rotateSecret(m)}
+                              disabled={updateMutation.isPending}
+                              className="shrink-0 text-white/25 transition-colors hover:text-amber-400/70 disabled:opacity-40"
+                            >
+                              Rotate
+                            </button>
+                          </div>
+                        )}
+
                         {m.description && (
                           <p className="mt-1 text-[11px] text-white/20">
                             {m.description}
                           </p>
                         )}
+
+                        <p className="mt-1 text-[10px] text-white/20">
+                          {m.event_count.toLocaleString()} conversions
+                          {m.unattributed_count > 0 &&
+                            ` · ${m.unattributed_count.toLocaleString()} unattributed`}
+                          {m.count_once
+                            ? " · once per viewer"
+                            : m.idempotency_field && ` · dedup by ${m.idempotency_field}`}
+                          {m.attribution_window_hours !== null &&
+                            ` · ${windowLabel(m.attribution_window_hours)} window`}
+                        </p>
                       </div>
 
                       {/* Actions */}
@@ -381,13 +515,135 @@ export function CustomMetricsConfig({
                     A unique webhook URL will be generated when you save this metric.
                     Send a POST request to it with a JSON body containing{" "}
                     <code className="rounded bg-white/5 px-1 py-0.5 text-[11px] text-white/50">
-                      {"{ \"viewerId\": \"...\" }"}
+                      {form.value_type === "revenue"
+                        ? "{ \"viewerId\": \"...\", \"value\": 49.99 }"
+                        : "{ \"viewerId\": \"...\" }"}
+                    </code>{" "}
+                    to record a conversion. On pages with the embed script, the
+                    viewer ID is in the{" "}
+                    <code className="rounded bg-white/5 px-1 py-0.5 text-[11px] text-white/50">
+                      wai_vid
                     </code>{" "}
-                    to record a conversion.
+                    cookie.
                   </p>
+                  <label className="mt-3 flex items-center gap-2 text-xs text-white/40">
+                    <input
+                      type="checkbox"
+                      checked={form.signing_enabled}
+                      onChange={(e) => setForm((f) => ({ ...f, signing_enabled: e.target.checked }))}
+                      className="rounded border-white/20 bg-white/5"
+                    />
+                    Require signed requests
+                  </label>
+                  {form.signing_enabled && (
+                    <p className="mt-1 text-[10px] text-white/20">
+                      Each request must send{" "}
+                      <code className="font-mono">X-Wai-Signature: t=&lt;unix time&gt;,v1=&lt;HMAC-SHA256&gt;</code>,
+                      the hex HMAC of &quot;t.body&quot; with the metric&apos;s secret, within 5 minutes
+                      of sending. Unsigned or replayed requests are rejected.
+                    </p>
+                  )}
                 </div>
               )}
 
+              {/* Value type */}
+              <div>
+                <label className="block text-[11px] font-medium uppercase tracking-wider text-white/30 mb-1.5">
+                  Measure
+                </label>
+                <div className="flex items-center gap-2">
+                  <div className="flex flex-1 rounded-lg border border-white/10 p-0.5">
+                    {(["count", "unique", "revenue"] as const).map((type) => (
+                      <button
+                        key={type}
+                        type="button"
+                        onClick={() => setForm((f) => ({ ...f, value_type: type }))}
+                        className={`flex-1 rounded-md px-3 py-1.5 text-xs font-medium transition-colors ${
+                          form.value_type === type
+                            ? "bg-white/10 text-white/80"
+                            : "text-white/30 hover:text-white/50"
+                        }`}
+                      >
+                        {valueTypeLabels[type]}
+                      </button>
+                    ))}
+                  </div>
+                  {form.value_type === "revenue" && (
+                    <input
+                      type="text"
+                      value={form.currency}
+                      onChange={(e) =>
+                        setForm((f) => ({ ...f, currency: e.target.value.toUpperCase() }))
+                      }
+                      maxLength={3}
+                      placeholder="USD"
+                      className="w-16 rounded-lg border border-white/10 bg-white/5 px-2 py-2 text-center font-mono text-xs text-white/80 placeholder:text-white/15 focus:border-white/20 focus:outline-none"
+                    />
+                  )}
+                </div>
+                {form.value_type === "revenue" && (
+                  <p className="mt-1 text-[10px] text-white/20">
+                    Sums the value sent with each conversion, e.g.
+                    wai(&apos;convert&apos;, &apos;{form.name || "Purchase"}&apos;, {"{ value: 49 }"})
+                  </p>
+                )}
+              </div>
+
+              {/* Conversion rules */}
+              <div>
+                <label className="block text-[11px] font-medium uppercase tracking-wider text-white/30 mb-1.5">
+                  Dedup Field
+                  <span className="ml-1 text-white/15">(optional)</span>
+                </label>
+                <input
+                  type="text"
+                  value={form.idempotency_field}
+                  onChange={(e) => setForm((f) => ({ ...f, idempotency_field: e.target.value.trim() }))}
+                  placeholder="order_id"
+                  disabled={form.count_once}
+                  className="w-full rounded-lg border border-white/10 bg-white/5 px-3 py-2 font-mono text-sm text-white/80 placeholder:text-white/15 focus:border-white/20 focus:outline-none focus:ring-1 focus:ring-white/10 disabled:opacity-40"
+                />
+                <p className="mt-1 text-[10px] text-white/20">
+                  Conversions whose metadata repeats this key&apos;s value are counted once
+                </p>
+                <label className="mt-2 flex items-center gap-2 text-xs text-white/40">
+                  <input
+                    type="checkbox"
+                    checked={form.count_once}
+                    onChange={(e) => setForm((f) => ({ ...f, count_once: e.target.checked }))}
+                    className="rounded border-white/20 bg-white/5"
+                  />
+                  Count once per viewer
+                </label>
+              </div>
+
+              <div>
+                <label className="block text-[11px] font-medium uppercase tracking-wider text-white/30 mb-1.5">
+                  Attribution Window
+                </label>
+                <div className="flex rounded-lg border border-white/10 p-0.5">
+                  {attributionWindows.map((w) => (
+                    <button
+                      key={w.label}
+                      type="button"
+                      onClick={() => setForm((f) => ({ ...f, attribution_window_hours: w.hours }))}
+                      className={`flex-1 rounded-md px-3 py-1.5 text-xs font-medium transition-colors ${
+                        form.attribution_window_hours === w.hours
+                          ? "bg-white/10 text-white/80"
+                          : "text-white/30 hover:text-white/50"
+                      }`}
+                    >
+                      {w.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-1 text-[10px] text-white/20">
+                  {form.attribution_window_hours === null
+                    ? "Conversions are credited to the viewer's variant however long after they watched"
+                    : `Conversions more than ${windowLabel(form.attribution_window_hours)} after the viewer's first view are stored as unattributed`}
+                </p>
+              </div>
+
               {/* Description */}
               <div>
                 <label className="block text-[11px] font-medium uppercase tracking-wider text-white/30 mb-1.5">
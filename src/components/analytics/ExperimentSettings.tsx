@@ -0,0 +1,256 @@
+/**
+ * ExperimentSettings — Schedule, monitor and end split-test experiments
+ *
+ * Shows the open experiment (scheduled or running) with its stop rules,
+ * and buttons to stop it or conclude it now. With nothing open, offers a
+ * form to schedule one: start time, optional stop time and per-variant
+ * sample-size target, auto-conclude on a clear winner, and the deciding
+ * metric. Concluding promotes the winner to 100% of traffic. Past
+ * experiments are listed below with their outcome.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { Database } from "@/lib/supabase/types";
+
+type Experiment = Database["public"]["Tables"]["experiments"]["Row"] & {
+  winner_code: string | null;
+};
+
+interface ExperimentSettingsProps {
+  projectId: string;
+  metrics: { id: string; name: string }[];
+}
+
+const REASON_LABELS: Record<string, string> = {
+  winner: "clear winner",
+  sample_size: "sample size reached",
+  end_time: "stop time reached",
+  manual: "concluded by hand",
+};
+
+const EMPTY_FORM = {
+  startsAt: "",
+  endsAt: "",
+  targetSampleSize: "",
+  autoConclude: true,
+  metricId: "",
+};
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export function ExperimentSettings({ projectId, metrics }: ExperimentSettingsProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data } = useQuery<{ experiments: Experiment[] }>({
+    queryKey: ["experiments", projectId],
+    queryFn: async () => {
+      const res = await fetch(`/api/projects/${projectId}/experiments`);
+      if (!res.ok) throw new Error("Failed to fetch experiments");
+      return res.json();
+    },
+    refetchInterval: 60_000,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["experiments", projectId] });
+    queryClient.invalidateQueries({ queryKey: ["allocation", projectId] });
+    queryClient.invalidateQueries({ queryKey: ["analytics", projectId] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/projects/${projectId}/experiments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : undefined,
+          endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : null,
+          targetSampleSize: form.targetSampleSize ? Number(form.targetSampleSize) : null,
+          autoConclude: form.autoConclude,
+          metricId: form.metricId || null,
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error || "Failed to schedule experiment");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      setForm(EMPTY_FORM);
+      invalidate();
+    },
+  });
+
+  const endMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "stop" | "conclude" }) => {
+      const res = await fetch(`/api/projects/${projectId}/experiments/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      if (!res.ok) throw new Error("Failed to end experiment");
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  if (!data) return null;
+
+  const open = data.experiments.find(
+    (e) => e.status === "scheduled" || e.status === "running"
+  );
+  const past = data.experiments.filter((e) => e !== open).slice(0, 5);
+  const metricName = (id: string | null) =>
+    id ? (metrics.find((m) => m.id === id)?.name ?? "Custom metric") : "Completion";
+
+  const inputClass =
+    "rounded-md border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/70 focus:outline-none";
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/[0.02] p-4">
+      <h4 className="text-[11px] font-medium uppercase tracking-wider text-white/30">
+        Experiment
+      </h4>
+
+      {open ? (
+        <div className="mt-3 space-y-3">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-white/50">
+            <span
+              className={`rounded-md px-2 py-0.5 text-[11px] font-medium ${
+                open.status === "running"
+                  ? "bg-emerald-400/10 text-emerald-400"
+                  : "bg-sky-400/10 text-sky-400"
+              }`}
+            >
+              {open.status === "running" ? "Running" : "Scheduled"}
+            </span>
+            <span>
+              {open.status === "running" ? "Started" : "Starts"} {formatDate(open.starts_at)}
+            </span>
+            {open.ends_at && <span>Stops {formatDate(open.ends_at)}</span>}
+            {open.target_sample_size && (
+              <span>{open.target_sample_size.toLocaleString()} viewers per variant</span>
+            )}
+            <span>Decided on {metricName(open.metric_id)}</span>
+            {open.auto_conclude && <span>Ends early on a clear winner</span>}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => endMutation.mutate({ id: open.id, action: "conclude" })}
+              disabled={endMutation.isPending}
+              className="rounded-md bg-white/10 px-3 py-1.5 text-xs font-medium text-white/80 transition-colors hover:bg-white/15"
+            >
+              Conclude &amp; promote leader
+            </button>
+            <button
+              onClick={() => endMutation.mutate({ id: open.id, action: "stop" })}
+              disabled={endMutation.isPending}
+              className="rounded-md px-3 py-1.5 text-xs font-medium text-white/30 transition-colors hover:text-white/50"
+            >
+              Stop without promoting
+            </button>
+          </div>
+        </div>
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+          className="mt-3 flex flex-wrap items-center gap-2"
+        >
+          <span className="text-[11px] text-white/30">Start</span>
+          <input
+            type="datetime-local"
+            value={form.startsAt}
+            onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+            className={inputClass}
+          />
+          <span className="text-[11px] text-white/30">Stop</span>
+          <input
+            type="datetime-local"
+            value={form.endsAt}
+            onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min={10}
+            value={form.targetSampleSize}
+            onChange={(e) => setForm({ ...form, targetSampleSize: e.target.value })}
+            placeholder="Viewers / variant"
+            className={`${inputClass} w-32`}
+          />
+          <select
+            value={form.metricId}
+            onChange={(e) => setForm({ ...form, metricId: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">Completion</option>
+            {metrics.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.name}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1.5 text-[11px] text-white/40">
+            <input
+              type="checkbox"
+              checked={form.autoConclude}
+              onChange={(e) => setForm({ ...form, autoConclude: e.target.checked })}
+            />
+            End early on a clear winner
+          </label>
+          <button
+            type="submit"
+            disabled={createMutation.isPending}
+            className="rounded-md bg-white/10 px-3 py-1.5 text-xs font-medium text-white/80 transition-colors hover:bg-white/15"
+          >
+            {createMutation.isPending ? "Scheduling..." : "Schedule"}
+          </button>
+          {createMutation.error && (
+            <span className="w-full text-[11px] text-red-400">
+              {createMutation.error.message}
+            </span>
+          )}
+        </form>
+      )}
+
+      {past.length > 0 && (
+        <div className="mt-4 space-y-1 border-t border-white/5 pt-3">
+          {past.map((e) => (
+            <div key={e.id} className="flex items-center gap-3 text-[11px] text-white/40">
+              <span className="w-28 shrink-0">{formatDate(e.starts_at)}</span>
+              {e.status === "stopped" ? (
+                <span>Stopped</span>
+              ) : (
+                <span>
+                  {e.winner_code ? (
+                    <>
+                      <span className="font-mono text-white/60">{e.winner_code}</span> promoted
+                    </>
+                  ) : (
+                    "No winner"
+                  )}
+                  {e.conclusion_reason && ` — ${REASON_LABELS[e.conclusion_reason]}`}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+/**
+ * FactorialAnalysis — Main effects and interactions for the project's slots
+ *
+ * Shows how much each hook, body and CTA (or segment of any other slot,
+ * including "Skipped" for optional slots) moves the conversion rate on its
+ * own (percentage points vs. the average, with a 95% interval), and a grid
+ * per factor pair showing where two pieces work better or worse together
+ * than their main effects predict. Significant effects are highlighted.
+ * Fractional-design projects show main effects only (interactions are
+ * aliased in that design).
+ */
+
+"use client";
+
+import {
+  useFactorialAnalysis,
+  type FactorType,
+  type FactorialLevelEffect,
+} from "@/hooks/use-analytics";
+import { slotColor } from "@/components/project/slot-colors";
+import type { SegmentSlot } from "@/lib/supabase/types";
+
+interface FactorialAnalysisProps {
+  projectId: string;
+  slots: SegmentSlot[];
+  startDate: string | null;
+  endDate: string | null;
+  metricId: string | null;
+}
+
+function formatEffect(n: number): string {
+  return `${n > 0 ? "+" : ""}${n.toFixed(1)}`;
+}
+
+export function FactorialAnalysis({
+  projectId,
+  slots,
+  startDate,
+  endDate,
+  metricId,
+}: FactorialAnalysisProps) {
+  const { data, isLoading } = useFactorialAnalysis({
+    projectId,
+    startDate,
+    endDate,
+    metricId,
+  });
+
+  if (isLoading) {
+    return <div className="h-48 animate-pulse rounded-xl bg-white/5" />;
+  }
+
+  const analysis = data?.analysis;
+  const colorOf = (type: FactorType) =>
+    slotColor(slots.findIndex((slot) => slot.key === type));
+  const labelOf = (type: FactorType) =>
+    analysis?.factors.find((f) => f.type === type)?.label ?? type;
+  if (!analysis) {
+    return (
+      <div className="rounded-xl border border-white/10 bg-white/[0.02] px-4 py-8 text-center text-xs text-white/30">
+        Not enough data yet to separate hook, body and CTA effects
+      </div>
+    );
+  }
+
+  // Shared scale so effects are comparable across factors
+  const maxAbs = Math.max(
+    ...analysis.factors.flatMap((f) =>
+      f.levels.map((l) => Math.max(Math.abs(l.ciLower), Math.abs(l.ciUpper)))
+    ),
+    1
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-xl border border-white/10 bg-white/[0.02] p-4">
+        <div className="mb-4 flex items-baseline justify-between">
+          <h4 className="text-[11px] font-medium uppercase tracking-wider text-white/30">
+            Main Effects
+          </h4>
+          <span className="text-[11px] text-white/25">
+            Average{" "}
+            <span className="font-mono tabular-nums text-white/50">
+              {analysis.grandMean}%
+            </span>{" "}
+            · {analysis.totalTrials.toLocaleString()} viewers
+          </span>
+        </div>
+
+        <div className="space-y-5">
+          {analysis.factors.map((factor) => (
+            <div key={factor.type}>
+              <p
+                className={`mb-2 text-xs font-medium uppercase tracking-wider ${colorOf(factor.type).text}`}
+              >
+                {factor.label}
+              </p>
+              <div className="space-y-2">
+                {factor.levels.map((level) => (
+                  <EffectRow
+                    key={level.segmentId}
+                    level={level}
+                    maxAbs={maxAbs}
+                    barClass={colorOf(factor.type).bar}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {analysis.model === "interactions" ? (
+        <div className="grid gap-3 lg:grid-cols-3">
+          {analysis.interactions.map((pair) => {
+            const [f1, f2] = pair.factors;
+            const rows = Array.from(new Set(pair.terms.map((t) => t.labels[0])));
+            const cols = Array.from(new Set(pair.terms.map((t) => t.labels[1])));
+            return (
+              <div
+                key={`${f1}-${f2}`}
+                className="rounded-xl border border-white/10 bg-white/[0.02] p-4"
+              >
+                <h4 className="mb-3 text-[11px] font-medium uppercase tracking-wider text-white/30">
+                  {labelOf(f1)} × {labelOf(f2)}
+                </h4>
+                <table className="w-full text-right">
+                  <thead>
+                    <tr>
+                      <th />
+                      {cols.map((c) => (
+                        <th
+                          key={c}
+                          className="px-1 pb-1 text-[10px] font-normal text-white/30"
+                        >
+                          {c}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((r) => (
+                      <tr key={r}>
+                        <td className="pr-2 text-left text-[10px] text-white/30">
+                          {r}
+                        </td>
+                        {cols.map((c) => {
+                          const term = pair.terms.find(
+                            (t) => t.labels[0] === r && t.labels[1] === c
+                          );
+                          if (!term) return <td key={c} />;
+                          return (
+                            <td
+                              key={c}
+                              title={`${formatEffect(term.ciLower)} to ${formatEffect(term.ciUpper)} pts · ${term.trials} viewers`}
+                              className={`px-1 py-1 font-mono text-[11px] tabular-nums ${
+                                !term.significant
+                                  ? "text-white/25"
+                                  : term.effect > 0
+                                    ? "text-emerald-400"
+                                    : "text-red-400"
+                              }`}
+                            >
+                              {formatEffect(term.effect)}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-[11px] text-white/25">
+          {analysis.design === "fractional"
+            ? "This project uses a fractional design — interactions can't be separated from main effects"
+            : "Interactions need viewers on more combinations before they can be estimated"}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function EffectRow({
+  level,
+  maxAbs,
+  barClass,
+}: {
+  level: FactorialLevelEffect;
+  maxAbs: number;
+  barClass: string;
+}) {
+  // Diverging bar around the center line, with the 95% interval as a whisker
+  const toPct = (v: number) => 50 + (v / maxAbs) * 50;
+  const barLeft = Math.min(toPct(0), toPct(level.effect));
+  const barWidth = Math.abs(toPct(level.effect) - toPct(0));
+
+  return (
+    <div className="flex items-center gap-3">
+      <span className="w-28 truncate text-sm text-white/70">{level.label}</span>
+      <div className="relative h-3 flex-1">
+        <div className="absolute inset-y-0 left-1/2 w-px bg-white/10" />
+        <div
+          className={`absolute top-1 h-1 rounded-full ${barClass}`}
+          style={{ left: `${barLeft}%`, width: `${barWidth}%` }}
+        />
+        <div
+          className="absolute top-1/2 h-px bg-white/30"
+          style={{
+            left: `${toPct(level.ciLower)}%`,
+            width: `${toPct(level.ciUpper) - toPct(level.ciLower)}%`,
+          }}
+        />
+      </div>
+      <span
+        className={`w-14 text-right font-mono text-xs tabular-nums ${
+          !level.significant
+            ? "text-white/40"
+            : level.effect > 0
+              ? "text-emerald-400"
+              : "text-red-400"
+        }`}
+        title={`${formatEffect(level.ciLower)} to ${formatEffect(level.ciUpper)} pts`}
+      >
+        {formatEffect(level.effect)}
+      </span>
+      <span className="w-14 text-right font-mono text-[11px] tabular-nums text-white/30">
+        {level.estimatedRate}%
+      </span>
+    </div>
+  );
+}
@@ -1,65 +1,70 @@
 /**
  * SegmentComparison — Compares segments of the same type side-by-side
  *
- * Shows which hook/body/CTA is winning based on completion rate
- * of variants that use each segment.
+ * Shows which segment of one slot (hook, body, CTA, ...) is winning based
+ * on completion rate
+ * of variants that use each segment — or, when a revenue metric is
+ * selected, on revenue per viewer.
  */
 
 "use client";
 
-import { useAnalytics } from "@/hooks/use-analytics";
+import { useAnalytics, type SegmentAnalytics } from "@/hooks/use-analytics";
+import { formatMoney } from "@/lib/analytics/revenue";
+import { slotColor } from "@/components/project/slot-colors";
+import type { SegmentSlot } from "@/lib/supabase/types";
 
 interface SegmentComparisonProps {
   projectId: string;
-  segmentType: "hook" | "body" | "cta";
+  slot: SegmentSlot;
+  /** Position of the slot in the project's slots (picks its color) */
+  slotIndex: number;
   startDate: string | null;
   endDate: string | null;
+  /** Custom metric selected on the dashboard */
+  metricId?: string | null;
 }
 
-const typeLabels = {
-  hook: "Hooks",
-  body: "Bodies",
-  cta: "CTAs",
-};
-
-const typeColors = {
-  hook: { bar: "bg-sky-400/60", text: "text-sky-400" },
-  body: { bar: "bg-emerald-400/60", text: "text-emerald-400" },
-  cta: { bar: "bg-violet-400/60", text: "text-violet-400" },
-};
-
 export function SegmentComparison({
   projectId,
-  segmentType,
+  slot,
+  slotIndex,
   startDate,
   endDate,
+  metricId = null,
 }: SegmentComparisonProps) {
   const { data: analytics } = useAnalytics({
     projectId,
-    segmentType,
+    segmentType: slot.key,
     startDate,
     endDate,
+    metricId,
   });
 
   const segments = analytics?.segmentAnalytics;
   if (!segments || segments.length < 2) return null;
 
-  const maxRate = Math.max(...segments.map((s) => s.completion_rate || 0), 1);
+  const metric = analytics.summary.metric;
+  const byRevenue = metric?.valueType === "revenue";
+  const score = (s: SegmentAnalytics) =>
+    byRevenue ? (s.value?.revenuePerViewer ?? 0) : s.completion_rate || 0;
+
+  const maxScore = Math.max(...segments.map(score), byRevenue ? 0.01 : 1);
   const bestId = segments.reduce((best, s) =>
-    (s.completion_rate || 0) > (best.completion_rate || 0) ? s : best
+    score(s) > score(best) ? s : best
   ).segment_id;
 
-  const colors = typeColors[segmentType];
+  const colors = slotColor(slotIndex);
 
   return (
     <div className="rounded-xl border border-white/10 bg-white/[0.02] p-4">
       <h4 className={`text-xs font-medium uppercase tracking-wider ${colors.text} mb-3`}>
-        {typeLabels[segmentType]} Comparison
+        {slot.label} Comparison
       </h4>
 
       <div className="space-y-3">
         {segments.map((seg) => {
-          const isBest = seg.segment_id === bestId && seg.completion_rate > 0;
+          const isBest = seg.segment_id === bestId && score(seg) > 0;
 
           return (
             <div key={seg.segment_id}>
@@ -75,14 +80,16 @@ export function SegmentComparison({
                   )}
                 </div>
                 <span className="font-mono text-xs tabular-nums text-white/50">
-                  {seg.completion_rate}%
+                  {byRevenue
+                    ? `${formatMoney(seg.value?.revenuePerViewer ?? null, metric.currency)} / viewer`
+                    : `${seg.completion_rate}%`}
                 </span>
               </div>
               <div className="h-2 w-full rounded-full bg-white/5 overflow-hidden">
                 <div
                   className={`h-full rounded-full transition-all duration-500 ${colors.bar}`}
                   style={{
-                    width: `${((seg.completion_rate || 0) / maxRate) * 100}%`,
+                    width: `${(score(seg) / maxScore) * 100}%`,
                   }}
                 />
               </div>
@@ -90,6 +97,13 @@ export function SegmentComparison({
                 <span>{seg.total_views} views</span>
                 <span>{seg.unique_viewers} unique</span>
                 <span>{seg.complete_count} completions</span>
+                {seg.value && metric && (
+                  <span>
+                    {byRevenue
+                      ? `${formatMoney(seg.value.revenue, metric.currency)} revenue`
+                      : `${metric.valueType === "unique" ? seg.value.converters : seg.value.conversions} ${metric.name}`}
+                  </span>
+                )}
               </div>
             </div>
           );
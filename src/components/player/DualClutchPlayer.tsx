@@ -2,7 +2,8 @@
  * DualClutchPlayer.tsx — Seamless single-video player using combined HLS manifests
  *
  * PURPOSE:
- *   Plays hook → body → CTA through a SINGLE <video> element by loading a
+ *   Plays a variant's segments (hook → body → CTA, or the project's own
+ *   slots) through a SINGLE <video> element by loading a
  *   combined HLS manifest with #EXT-X-DISCONTINUITY tags between segments.
  *   hls.js handles decoder reinitialization at boundaries and buffers ahead
  *   automatically — like a dual-clutch transmission pre-spooling the next gear.
@@ -13,6 +14,12 @@
  *   - Single <video> element (simplest possible player)
  *   - hls.js pre-buffers the next segment automatically
  *   - Seek/scrub works across segment boundaries natively
+ *
+ * BOUNDARY MARKERS:
+ *   Placed where the picture changes to the next segment. For a variant
+ *   rendered with overlapping transitions (crossfades, J/L-cuts — see
+ *   lib/video/transitions.ts) that's earlier than the sum of the segment
+ *   durations, so pass the transitions along with the durations.
  */
 
 "use client";
@@ -20,6 +27,8 @@
 import { useState, useRef, useEffect, useCallback } from "react";
 import { useHls } from "./useHls";
 import { PlayerControls } from "./PlayerControls";
+import { transitionTimeline } from "@/lib/video/transitions";
+import type { SegmentTransition } from "@/lib/supabase/types";
 
 const WAI_DC_VERSION = "dualclutch-1.0";
 
@@ -29,8 +38,12 @@ interface DualClutchPlayerProps {
   posterUrl?: string;
   variantId: string;
   projectSlug: string;
-  /** Segment durations in ms: [hook, body, cta] — used for boundary markers */
+  /** Segment durations in ms, in playback order — used for boundary markers */
   segmentDurationsMs?: number[];
+  /** Slot label per segment ("Hook", "Story", ...), same order as the durations */
+  segmentLabels?: string[];
+  /** Transition at each boundary, when the manifest is a rendered variant's */
+  transitions?: SegmentTransition[];
 }
 
 export function DualClutchPlayer({
@@ -40,6 +53,8 @@ export function DualClutchPlayer({
   variantId,
   projectSlug,
   segmentDurationsMs,
+  segmentLabels,
+  transitions,
 }: DualClutchPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [hasInteracted, setHasInteracted] = useState(false);
@@ -161,17 +176,15 @@ export function DualClutchPlayer({
     video.currentTime = time;
   }, []);
 
-  // Build segment boundary markers from durations
+  // Build segment boundary markers from durations (less transition overlaps)
   const segmentBoundaries = segmentDurationsMs
     ? (() => {
-        const boundaries: { time: number; label: string }[] = [];
-        const labels = ["Hook", "Body", "CTA"];
-        let cumulative = 0;
-        for (let i = 0; i < segmentDurationsMs.length - 1; i++) {
-          cumulative += segmentDurationsMs[i] / 1000;
-          boundaries.push({ time: cumulative, label: `${labels[i]} → ${labels[i + 1]}` });
-        }
-        return boundaries;
+        const labels = segmentLabels ?? segmentDurationsMs.map((_, i) => `Part ${i + 1}`);
+        const { cutsMs } = transitionTimeline(segmentDurationsMs, transitions ?? []);
+        return cutsMs.map((ms, i) => ({
+          time: ms / 1000,
+          label: `${labels[i]} → ${labels[i + 1]}`,
+        }));
       })()
     : undefined;
 
@@ -14,6 +14,9 @@ interface PlayerControlsProps {
   onSeek: (time: number) => void;
   onTogglePlay: () => void;
   segmentBoundaries?: SegmentBoundary[];
+  /** Captions shown — the CC button appears only with onToggleCaptions */
+  captionsOn?: boolean;
+  onToggleCaptions?: () => void;
 }
 
 function formatTime(seconds: number): string {
@@ -29,6 +32,8 @@ export function PlayerControls({
   onSeek,
   onTogglePlay,
   segmentBoundaries,
+  captionsOn = false,
+  onToggleCaptions,
 }: PlayerControlsProps) {
   const [isVisible, setIsVisible] = useState(true);
   const [isDragging, setIsDragging] = useState(false);
@@ -274,16 +279,38 @@ export function PlayerControls({
           )}
         </button>
 
-        <span
-          style={{
-            color: "rgba(255,255,255,0.8)",
-            fontSize: 12,
-            fontFamily: "monospace",
-            letterSpacing: "0.02em",
-          }}
-        >
-          {formatTime(currentTime)} / {formatTime(duration)}
-        </span>
+        <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
+          {onToggleCaptions && (
+            <button
+              onClick={onToggleCaptions}
+              aria-pressed={captionsOn}
+              title={captionsOn ? "Hide captions" : "Show captions"}
+              style={{
+                background: captionsOn ? "#fff" : "none",
+                color: captionsOn ? "#000" : "rgba(255,255,255,0.8)",
+                border: "1.5px solid rgba(255,255,255,0.8)",
+                borderRadius: 3,
+                cursor: "pointer",
+                padding: "0 4px",
+                fontSize: 10,
+                fontWeight: 700,
+                lineHeight: "14px",
+              }}
+            >
+              CC
+            </button>
+          )}
+          <span
+            style={{
+              color: "rgba(255,255,255,0.8)",
+              fontSize: 12,
+              fontFamily: "monospace",
+              letterSpacing: "0.02em",
+            }}
+          >
+            {formatTime(currentTime)} / {formatTime(duration)}
+          </span>
+        </div>
       </div>
     </div>
   );
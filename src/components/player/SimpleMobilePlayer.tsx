@@ -14,6 +14,7 @@
  *   - Stall recovery (detect buffering, show spinner, auto-recover)
  *   - Resume on return (localStorage — pick up where you left off)
  *   - Tracking events (play, progress milestones, complete)
+ *   - Captions (the variant's <track>, CC button once playing — useCaptions)
  *
  * CANVAS POSTER BRIDGE:
  *   Instead of a CSS background-image overlay that causes a visible flash
@@ -36,6 +37,7 @@
 
 import { useRef, useState, useEffect, useCallback } from "react";
 import { useHls } from "./useHls";
+import { useCaptions } from "./useCaptions";
 
 const WAI_VERSION = "mobile-2.0";
 const MICRO_SEGMENT_DURATION_SEC = 1.5;
@@ -46,8 +48,16 @@ interface SimpleMobilePlayerProps {
   posterUrl?: string;
   variantId: string;
   projectSlug: string;
+  /** QA view forced via ?wai_variant= — sent with every tracked event */
+  forced?: boolean;
+  /** Audience pool the variant was served from — sent with every tracked event */
+  audienceId?: string | null;
+  /** Viewer the variant was assigned to — sent with every tracked event */
+  viewerId?: string | null;
   microSegmentUrl?: string;
   hlsManifestUrl?: string;
+  /** The variant's WebVTT captions */
+  captionsUrl?: string;
 }
 
 /** localStorage key for resume position */
@@ -60,12 +70,17 @@ export function SimpleMobilePlayer({
   posterUrl,
   variantId,
   projectSlug,
+  forced = false,
+  audienceId = null,
+  viewerId = null,
   microSegmentUrl,
   hlsManifestUrl,
+  captionsUrl,
 }: SimpleMobilePlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const { attachHls, detachHls } = useHls();
+  const { trackUrl, captionsOn, toggleCaptions } = useCaptions(captionsUrl, videoRef);
 
   const [hasInteracted, setHasInteracted] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -228,7 +243,7 @@ export function SimpleMobilePlayer({
       for (const milestone of [25, 50, 75]) {
         if (pct >= milestone && !progressFiredRef.current.has(milestone)) {
           progressFiredRef.current.add(milestone);
-          trackEvent(`progress_${milestone}`, variantId, projectSlug);
+          trackEvent(`progress_${milestone}`, variantId, projectSlug, forced, audienceId, viewerId);
         }
       }
     };
@@ -242,7 +257,7 @@ export function SimpleMobilePlayer({
       }
 
       setIsPlaying(false);
-      trackEvent("complete", variantId, projectSlug);
+      trackEvent("complete", variantId, projectSlug, forced, audienceId, viewerId);
       try {
         localStorage.removeItem(resumeKey(variantId));
       } catch {
@@ -295,7 +310,7 @@ export function SimpleMobilePlayer({
       video.removeEventListener("waiting", onWaitingRecovery);
       if (stallTimer) clearTimeout(stallTimer);
     };
-  }, [variantId, projectSlug, canvasBridgeActive, fullVideoUrl]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [variantId, projectSlug, forced, audienceId, viewerId, canvasBridgeActive, fullVideoUrl]); // eslint-disable-line react-hooks/exhaustive-deps
 
   /**
    * Turbo swap: transition from micro-segment to full video.
@@ -386,7 +401,7 @@ export function SimpleMobilePlayer({
         if (hlsManifestUrl) {
           attachHls(video, hlsManifestUrl, fullVideoUrl, resumePos).then(() => {
             video.play().then(() => {
-              trackEvent("play", variantId, projectSlug);
+              trackEvent("play", variantId, projectSlug, forced, audienceId, viewerId);
             }).catch(() => setHasInteracted(false));
           });
           return;
@@ -398,7 +413,7 @@ export function SimpleMobilePlayer({
         // Normal first play with HLS (no turbo, no resume)
         attachHls(video, hlsManifestUrl, fullVideoUrl).then(() => {
           video.play().then(() => {
-            trackEvent("play", variantId, projectSlug);
+            trackEvent("play", variantId, projectSlug, forced, audienceId, viewerId);
           }).catch(() => setHasInteracted(false));
         });
         return;
@@ -407,7 +422,7 @@ export function SimpleMobilePlayer({
       video
         .play()
         .then(() => {
-          trackEvent("play", variantId, projectSlug);
+          trackEvent("play", variantId, projectSlug, forced, audienceId, viewerId);
         })
         .catch(() => {
           setHasInteracted(false);
@@ -424,7 +439,7 @@ export function SimpleMobilePlayer({
       setIsPlaying(false);
       flashTapIcon("pause");
     }
-  }, [hasInteracted, variantId, projectSlug, flashTapIcon, fullVideoUrl, hlsManifestUrl, attachHls]);
+  }, [hasInteracted, variantId, projectSlug, forced, audienceId, viewerId, flashTapIcon, fullVideoUrl, hlsManifestUrl, attachHls]);
 
   // ─── Cleanup HLS instance on unmount ───
   useEffect(() => {
@@ -461,7 +476,9 @@ export function SimpleMobilePlayer({
           height: "100%",
           objectFit: "contain",
         }}
-      />
+      >
+        {trackUrl && <track kind="captions" src={trackUrl} label="Captions" />}
+      </video>
 
       {/* Canvas poster bridge — seamless poster → video transition.
           Draws poster image initially, then draws first video frame
@@ -550,6 +567,33 @@ export function SimpleMobilePlayer({
         </div>
       )}
 
+      {/* CC toggle — once playback has started */}
+      {trackUrl && hasInteracted && !showPlayButton && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            toggleCaptions();
+          }}
+          aria-pressed={captionsOn}
+          title={captionsOn ? "Hide captions" : "Show captions"}
+          style={{
+            position: "absolute",
+            top: 10,
+            right: 10,
+            zIndex: 11,
+            background: captionsOn ? "#fff" : "rgba(0,0,0,0.5)",
+            color: captionsOn ? "#000" : "#fff",
+            border: "1.5px solid rgba(255,255,255,0.8)",
+            borderRadius: 4,
+            padding: "2px 6px",
+            fontSize: 12,
+            fontWeight: 700,
+          }}
+        >
+          CC
+        </button>
+      )}
+
       {/* Tap feedback — brief play/pause icon flash */}
       {tapIcon && (
         <div
@@ -600,12 +644,22 @@ export function SimpleMobilePlayer({
   );
 }
 
-function trackEvent(event: string, variantId: string, projectSlug: string) {
+function trackEvent(
+  event: string,
+  variantId: string,
+  projectSlug: string,
+  forced: boolean,
+  audienceId: string | null,
+  viewerId: string | null
+) {
   try {
     const body = JSON.stringify({
       event,
       variantId,
       projectSlug,
+      forced,
+      audienceId,
+      viewerId,
       timestamp: Date.now(),
     });
 
@@ -12,12 +12,18 @@
  *   Using opacity:0 causes browsers to throttle the hidden video's decoder.
  *   With z-index stacking, both videos are "visible" to the browser, so both
  *   get full decoder priority. The hook simply covers the full video visually.
+ *
+ * CAPTIONS:
+ *   With captionsUrl both videos get the variant's caption <track> (the
+ *   hook clip starts at 0:00 like the full video, so cue times line up)
+ *   and the controls show a CC toggle — see useCaptions.
  */
 
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
 import { useSmartSync } from "./useSmartSync";
+import { useCaptions } from "./useCaptions";
 import { PlayerControls } from "./PlayerControls";
 
 // Version tag — check browser console or inspect data-wai-version to verify deploy
@@ -30,10 +36,18 @@ interface SmartSyncPlayerProps {
   posterUrl?: string;
   variantId: string;
   projectSlug: string;
+  /** QA view forced via ?wai_variant= — sent with every tracked event */
+  forced?: boolean;
+  /** Audience pool the variant was served from — sent with every tracked event */
+  audienceId?: string | null;
+  /** Viewer the variant was assigned to — sent with every tracked event */
+  viewerId?: string | null;
   /** Whether the hook clip has been fully preloaded as a blob */
   hookPreloaded?: boolean;
   /** HLS manifest URL for adaptive streaming (full video only) */
   hlsManifestUrl?: string;
+  /** The variant's WebVTT captions */
+  captionsUrl?: string;
 }
 
 export function SmartSyncPlayer({
@@ -43,8 +57,12 @@ export function SmartSyncPlayer({
   posterUrl,
   variantId,
   projectSlug,
+  forced = false,
+  audienceId = null,
+  viewerId = null,
   hookPreloaded,
   hlsManifestUrl,
+  captionsUrl,
 }: SmartSyncPlayerProps) {
   const [hasInteracted, setHasInteracted] = useState(false);
   // Keep poster overlay visible until the hook video has decoded its first frame
@@ -66,18 +84,20 @@ export function SmartSyncPlayer({
       hookPreloaded,
       hlsManifestUrl,
       onPlay: () => {
-        trackEvent("play", variantId, projectSlug);
+        trackEvent("play", variantId, projectSlug, forced, audienceId, viewerId);
       },
       onProgress: (pct) => {
         if (pct === 25 || pct === 50 || pct === 75) {
-          trackEvent(`progress_${pct}`, variantId, projectSlug);
+          trackEvent(`progress_${pct}`, variantId, projectSlug, forced, audienceId, viewerId);
         }
       },
       onComplete: () => {
-        trackEvent("complete", variantId, projectSlug);
+        trackEvent("complete", variantId, projectSlug, forced, audienceId, viewerId);
       },
     });
 
+  const { trackUrl, captionsOn, toggleCaptions } = useCaptions(captionsUrl, fullRef, hookRef);
+
   // Detect when the hook video has decoded its first frame — only then hide poster
   useEffect(() => {
     const hook = hookRef.current;
@@ -143,7 +163,9 @@ export function SmartSyncPlayer({
           height: "100%",
           objectFit: "contain",
         }}
-      />
+      >
+        {trackUrl && <track kind="captions" src={trackUrl} label="Captions" />}
+      </video>
 
       {/* Hook clip player — z-index managed by useSmartSync via DOM */}
       <video
@@ -158,7 +180,9 @@ export function SmartSyncPlayer({
           height: "100%",
           objectFit: "contain",
         }}
-      />
+      >
+        {trackUrl && <track kind="captions" src={trackUrl} label="Captions" />}
+      </video>
 
       {/* Play button overlay — stays on top until first frame is decoded */}
       {showPoster && (
@@ -216,6 +240,8 @@ export function SmartSyncPlayer({
           isPlaying={isPlaying}
           onSeek={handleSeek}
           onTogglePlay={togglePlay}
+          captionsOn={captionsOn}
+          onToggleCaptions={trackUrl ? toggleCaptions : undefined}
         />
       )}
 
@@ -226,12 +252,22 @@ export function SmartSyncPlayer({
 }
 
 // Simple event tracking (same as EmbedPlayer)
-function trackEvent(event: string, variantId: string, projectSlug: string) {
+function trackEvent(
+  event: string,
+  variantId: string,
+  projectSlug: string,
+  forced: boolean,
+  audienceId: string | null,
+  viewerId: string | null
+) {
   try {
     const body = JSON.stringify({
       event,
       variantId,
       projectSlug,
+      forced,
+      audienceId,
+      viewerId,
       timestamp: Date.now(),
     });
 
@@ -0,0 +1,94 @@
+/**
+ * useCaptions.ts — Variant captions as a <track>, with an on/off toggle
+ *
+ * PURPOSE:
+ *   Shows the variant's WebVTT captions (composed at render time) in the
+ *   embed players. Handles:
+ *   - Loading: the captions live on the CDN; a cross-origin <track> would
+ *     need the <video> itself in CORS mode, so the file is fetched once
+ *     and handed to <track src> as a same-origin blob URL
+ *   - Toggling: only our <track> is ever shown. hls.js and Safari also
+ *     expose the HLS subtitles rendition as a text track; it's kept
+ *     disabled so captions never render twice
+ *   - SmartSync: the hook clip and the full video share a timeline, so
+ *     both get the track and the toggle applies to both
+ *
+ * API:
+ *   const { trackUrl, captionsOn, toggleCaptions } = useCaptions(url, fullRef, hookRef?);
+ *   <video ref={fullRef}>{trackUrl && <track kind="captions" src={trackUrl} label="Captions" />}</video>
+ *
+ * USED BY:
+ *   - SimpleMobilePlayer.tsx, SmartSyncPlayer.tsx
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState, type RefObject } from "react";
+
+interface UseCaptionsReturn {
+  /** Blob URL for <track src>, null until loaded (or without captions) */
+  trackUrl: string | null;
+  captionsOn: boolean;
+  toggleCaptions: () => void;
+}
+
+/** Show our <track>'s cues (or none) on one video element */
+function applyCaptions(video: HTMLVideoElement | null, on: boolean) {
+  if (!video) return;
+  const ours = video.querySelector("track")?.track ?? null;
+  for (const track of Array.from(video.textTracks)) {
+    track.mode = on && track === ours ? "showing" : "disabled";
+  }
+}
+
+export function useCaptions(
+  captionsUrl: string | undefined,
+  videoRef: RefObject<HTMLVideoElement | null>,
+  secondaryRef?: RefObject<HTMLVideoElement | null>
+): UseCaptionsReturn {
+  const [trackUrl, setTrackUrl] = useState<string | null>(null);
+  const [captionsOn, setCaptionsOn] = useState(false);
+
+  useEffect(() => {
+    if (!captionsUrl) return;
+    let blobUrl: string | null = null;
+    let cancelled = false;
+
+    fetch(captionsUrl)
+      .then((r) => {
+        if (!r.ok) throw new Error(`Captions request failed (${r.status})`);
+        return r.text();
+      })
+      .then((vtt) => {
+        if (cancelled) return;
+        blobUrl = URL.createObjectURL(new Blob([vtt], { type: "text/vtt" }));
+        setTrackUrl(blobUrl);
+      })
+      .catch(() => {
+        // No captions — the CC toggle stays hidden
+      });
+
+    return () => {
+      cancelled = true;
+      if (blobUrl) URL.revokeObjectURL(blobUrl);
+      setTrackUrl(null);
+    };
+  }, [captionsUrl]);
+
+  // Re-apply when toggled and whenever a text track appears (our <track>
+  // mounting, or hls.js adding the subtitles rendition)
+  useEffect(() => {
+    const videos = [videoRef.current, secondaryRef?.current ?? null];
+    const apply = () => videos.forEach((video) => applyCaptions(video, captionsOn));
+    apply();
+
+    for (const video of videos) video?.textTracks.addEventListener("addtrack", apply);
+    return () => {
+      for (const video of videos) video?.textTracks.removeEventListener("addtrack", apply);
+    };
+  }, [captionsOn, trackUrl, videoRef, secondaryRef]);
+
+  const toggleCaptions = useCallback(() => setCaptionsOn((on) => !on), []);
+
+  return { trackUrl, captionsOn, toggleCaptions };
+}
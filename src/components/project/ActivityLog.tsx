@@ -34,6 +34,10 @@ const EVENT_COLORS: Record<string, string> = {
   variant_failed: "bg-red-400",
   segment_failed: "bg-red-400",
   project_ready: "bg-primary",
+  run_rolled_back: "bg-amber-400",
+  experiment_started: "bg-sky-400",
+  experiment_concluded: "bg-primary",
+  experiment_stopped: "bg-zinc-400",
 };
 
 export function ActivityLog({ projectId }: ActivityLogProps) {
@@ -0,0 +1,224 @@
+/**
+ * AssignmentOverrides — QA links and personalization rules for the embed
+ *
+ * Two cards on the embed page:
+ *   - QA Preview: one link per live variant using ?wai_variant=<code>.
+ *     Views through these links are flagged as forced and left out of
+ *     analytics, so the team can check any variant without skewing results.
+ *   - Personalization Rules: map a URL parameter value (industry=saas) to a
+ *     hook. Viewers arriving with that parameter — on the embed URL or the
+ *     host page when using embed.js — see one of that hook's variants.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { toast } from "sonner";
+import { FORCE_VARIANT_PARAM } from "@/lib/variant/assignment";
+import { projectSlots } from "@/lib/variant/slots";
+import type { Database } from "@/lib/supabase/types";
+
+type AssignmentRule = Database["public"]["Tables"]["assignment_rules"]["Row"];
+
+interface AssignmentOverridesProps {
+  projectId: string;
+  directUrl: string;
+}
+
+export function AssignmentOverrides({
+  projectId,
+  directUrl,
+}: AssignmentOverridesProps) {
+  const [variantCodes, setVariantCodes] = useState<string[]>([]);
+  const [hooks, setHooks] = useState<{ id: string; label: string }[]>([]);
+  const [rules, setRules] = useState<AssignmentRule[]>([]);
+  const [form, setForm] = useState({ paramName: "", paramValue: "", hookSegmentId: "" });
+  const [saving, setSaving] = useState(false);
+  const supabase = createClient();
+
+  const load = useCallback(async () => {
+    const [variantsRes, projectRes, segmentsRes, rulesRes] = await Promise.all([
+      supabase
+        .from("variants")
+        .select("variant_code")
+        .eq("project_id", projectId)
+        .eq("status", "rendered")
+        .order("variant_code"),
+      supabase.from("projects").select("slots").eq("id", projectId).single(),
+      supabase
+        .from("segments")
+        .select("id, label, type")
+        .eq("project_id", projectId)
+        .order("sort_order"),
+      fetch(`/api/projects/${projectId}/assignment-rules`).then((r) =>
+        r.ok ? r.json() : { rules: [] }
+      ),
+    ]);
+    setVariantCodes((variantsRes.data || []).map((v) => v.variant_code));
+    // Rules pick among the opening slot's segments
+    const hookType = projectSlots(projectRes.data || {})[0].key;
+    setHooks((segmentsRes.data || []).filter((s) => s.type === hookType));
+    setRules(rulesRes.rules || []);
+  }, [projectId, supabase]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function handleAddRule(e: React.FormEvent) {
+    e.preventDefault();
+    if (!form.paramName.trim() || !form.paramValue.trim() || !form.hookSegmentId) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/assignment-rules`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error || "Failed to add rule");
+      }
+      setForm({ paramName: "", paramValue: "", hookSegmentId: "" });
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to add rule");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDeleteRule(ruleId: string) {
+    const res = await fetch(
+      `/api/projects/${projectId}/assignment-rules/${ruleId}`,
+      { method: "DELETE" }
+    );
+    if (!res.ok) {
+      toast.error("Failed to delete rule");
+      return;
+    }
+    setRules((prev) => prev.filter((r) => r.id !== ruleId));
+  }
+
+  function copyQaLink(code: string) {
+    navigator.clipboard.writeText(`${directUrl}?${FORCE_VARIANT_PARAM}=${code}`);
+    toast.success(`QA link for ${code} copied to clipboard`);
+  }
+
+  const hookLabel = (id: string) => hooks.find((h) => h.id === id)?.label ?? "Deleted hook";
+
+  return (
+    <>
+      <Card className="border-border bg-card">
+        <CardHeader>
+          <CardTitle className="text-[15px] font-medium text-foreground">
+            QA Preview
+          </CardTitle>
+          <CardDescription>
+            Links that always show one variant. Views from these links are
+            excluded from analytics.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {variantCodes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No live variants yet</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {variantCodes.map((code) => (
+                <Button
+                  key={code}
+                  variant="outline"
+                  size="sm"
+                  className="font-mono text-xs"
+                  onClick={() => copyQaLink(code)}
+                >
+                  {code}
+                </Button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-border bg-card">
+        <CardHeader>
+          <CardTitle className="text-[15px] font-medium text-foreground">
+            Personalization Rules
+          </CardTitle>
+          <CardDescription>
+            Show a specific hook to viewers whose URL has a matching parameter,
+            e.g. ?industry=saas
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {rules.length > 0 && (
+            <div className="divide-y divide-border rounded-xl border border-border">
+              {rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className="flex items-center justify-between gap-3 px-4 py-2.5 text-sm"
+                >
+                  <span className="min-w-0 truncate">
+                    <code className="text-primary">
+                      {rule.param_name}={rule.param_value}
+                    </code>
+                    <span className="mx-2 text-muted-foreground">→</span>
+                    <span className="text-foreground/80">{hookLabel(rule.hook_segment_id)}</span>
+                  </span>
+                  <button
+                    onClick={() => handleDeleteRule(rule.id)}
+                    className="text-xs text-muted-foreground transition-colors hover:text-red-400"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleAddRule} className="flex flex-wrap items-center gap-2">
+            <Input
+              value={form.paramName}
+              onChange={(e) => setForm({ ...form, paramName: e.target.value })}
+              placeholder="industry"
+              className="w-32"
+            />
+            <span className="text-muted-foreground">=</span>
+            <Input
+              value={form.paramValue}
+              onChange={(e) => setForm({ ...form, paramValue: e.target.value })}
+              placeholder="saas"
+              className="w-32"
+            />
+            <span className="text-muted-foreground">→</span>
+            <select
+              value={form.hookSegmentId}
+              onChange={(e) => setForm({ ...form, hookSegmentId: e.target.value })}
+              className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+            >
+              <option value="">Select hook</option>
+              {hooks.map((h) => (
+                <option key={h.id} value={h.id}>
+                  {h.label}
+                </option>
+              ))}
+            </select>
+            <Button type="submit" variant="outline" size="sm" disabled={saving}>
+              {saving ? "Adding..." : "Add rule"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,284 @@
+/**
+ * AudiencePools — Audience-targeted variant pools for the embed
+ *
+ * Card on the embed page listing the project's audiences in match order.
+ * Each audience matches viewers by referrer domain, UTM parameters, device
+ * and country (every criterion set must match; first match wins) and
+ * restricts them to a chosen set of live variants. Viewers matching no
+ * audience get the project's normal assignment.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { toast } from "sonner";
+import { combinationKey } from "@/lib/variant/combinations";
+import type { Database } from "@/lib/supabase/types";
+
+type Audience = Database["public"]["Tables"]["audiences"]["Row"];
+
+interface LiveVariant {
+  id: string;
+  code: string;
+  key: string;
+}
+
+interface AudiencePoolsProps {
+  projectId: string;
+}
+
+const EMPTY_FORM = {
+  name: "",
+  referrerDomain: "",
+  utmSource: "",
+  utmMedium: "",
+  utmCampaign: "",
+  device: "",
+  country: "",
+};
+
+/** "utm_source=google · mobile · US" */
+function describeCriteria(audience: Audience): string {
+  return [
+    audience.referrer_domain && `from ${audience.referrer_domain}`,
+    audience.utm_source && `utm_source=${audience.utm_source}`,
+    audience.utm_medium && `utm_medium=${audience.utm_medium}`,
+    audience.utm_campaign && `utm_campaign=${audience.utm_campaign}`,
+    audience.device,
+    audience.country,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export function AudiencePools({ projectId }: AudiencePoolsProps) {
+  const [variants, setVariants] = useState<LiveVariant[]>([]);
+  const [audiences, setAudiences] = useState<Audience[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+  const supabase = createClient();
+
+  const load = useCallback(async () => {
+    const [variantsRes, audiencesRes] = await Promise.all([
+      supabase
+        .from("variants")
+        .select("id, variant_code, segment_ids")
+        .eq("project_id", projectId)
+        .eq("status", "rendered")
+        .order("variant_code"),
+      fetch(`/api/projects/${projectId}/audiences`).then((r) =>
+        r.ok ? r.json() : { audiences: [] }
+      ),
+    ]);
+    setVariants(
+      (variantsRes.data || []).map((v) => ({
+        id: v.id,
+        code: v.variant_code,
+        key: combinationKey(v.segment_ids),
+      }))
+    );
+    setAudiences(audiencesRes.audiences || []);
+  }, [projectId, supabase]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  function toggleVariant(id: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    if (!form.name.trim() || selected.size === 0) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/audiences`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name,
+          referrerDomain: form.referrerDomain || null,
+          utmSource: form.utmSource || null,
+          utmMedium: form.utmMedium || null,
+          utmCampaign: form.utmCampaign || null,
+          device: form.device || null,
+          country: form.country || null,
+          variantIds: Array.from(selected),
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error || "Failed to add audience");
+      }
+      setForm(EMPTY_FORM);
+      setSelected(new Set());
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to add audience");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(audienceId: string) {
+    const res = await fetch(
+      `/api/projects/${projectId}/audiences/${audienceId}`,
+      { method: "DELETE" }
+    );
+    if (!res.ok) {
+      toast.error("Failed to delete audience");
+      return;
+    }
+    setAudiences((prev) => prev.filter((a) => a.id !== audienceId));
+  }
+
+  /** Codes of the live variants in the audience's pool */
+  const poolCodes = (audience: Audience) => {
+    const keys = new Set(audience.variant_keys);
+    return variants.filter((v) => keys.has(v.key)).map((v) => v.code);
+  };
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <CardTitle className="text-[15px] font-medium text-foreground">
+          Audiences
+        </CardTitle>
+        <CardDescription>
+          Serve a different set of variants by referrer, UTM parameters, device
+          or country. Audiences are checked top to bottom; the first match wins.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {audiences.length > 0 && (
+          <div className="divide-y divide-border rounded-xl border border-border">
+            {audiences.map((audience) => {
+              const codes = poolCodes(audience);
+              return (
+                <div
+                  key={audience.id}
+                  className="flex items-center justify-between gap-3 px-4 py-2.5 text-sm"
+                >
+                  <div className="min-w-0">
+                    <p className="truncate text-foreground/80">
+                      {audience.name}
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {describeCriteria(audience)}
+                      </span>
+                    </p>
+                    <p className="truncate font-mono text-xs text-primary">
+                      {codes.length > 0 ? codes.join(", ") : "No live variants in pool"}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(audience.id)}
+                    className="shrink-0 text-xs text-muted-foreground transition-colors hover:text-red-400"
+                  >
+                    Remove
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <form onSubmit={handleAdd} className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Paid search"
+              className="w-40"
+            />
+            <Input
+              value={form.referrerDomain}
+              onChange={(e) => setForm({ ...form, referrerDomain: e.target.value })}
+              placeholder="Referrer (google.com)"
+              className="w-44"
+            />
+            <Input
+              value={form.utmSource}
+              onChange={(e) => setForm({ ...form, utmSource: e.target.value })}
+              placeholder="utm_source"
+              className="w-32"
+            />
+            <Input
+              value={form.utmMedium}
+              onChange={(e) => setForm({ ...form, utmMedium: e.target.value })}
+              placeholder="utm_medium"
+              className="w-32"
+            />
+            <Input
+              value={form.utmCampaign}
+              onChange={(e) => setForm({ ...form, utmCampaign: e.target.value })}
+              placeholder="utm_campaign"
+              className="w-32"
+            />
+            <select
+              value={form.device}
+              onChange={(e) => setForm({ ...form, device: e.target.value })}
+              className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+            >
+              <option value="">Any device</option>
+              <option value="mobile">Mobile</option>
+              <option value="desktop">Desktop</option>
+            </select>
+            <Input
+              value={form.country}
+              onChange={(e) => setForm({ ...form, country: e.target.value })}
+              placeholder="US"
+              maxLength={2}
+              className="w-16 uppercase"
+            />
+          </div>
+
+          {variants.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No live variants yet</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {variants.map((v) => (
+                <label
+                  key={v.id}
+                  className="flex cursor-pointer items-center gap-1.5 rounded-md border border-border px-2 py-1 font-mono text-xs"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(v.id)}
+                    onChange={() => toggleVariant(v.id)}
+                  />
+                  {v.code}
+                </label>
+              ))}
+            </div>
+          )}
+
+          <Button
+            type="submit"
+            variant="outline"
+            size="sm"
+            disabled={saving || !form.name.trim() || selected.size === 0}
+          >
+            {saving ? "Adding..." : "Add audience"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,330 @@
+/**
+ * OutgoingWebhooks — Webhook subscriptions and their delivery log
+ *
+ * Card on the embed page. Each subscription POSTs the events it lists
+ * (project_ready, variant_failed, conversion_recorded, ...) to a URL,
+ * signed with its own secret, which is shown here with copy and rotate
+ * actions. Expanding a subscription shows its recent deliveries with
+ * each one's latest response, and a Redeliver button per delivery.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { toast } from "sonner";
+import {
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_EVENT_TYPES,
+  type WebhookEventType,
+} from "@/lib/webhooks/events";
+import type { Database } from "@/lib/supabase/types";
+
+type Webhook = Database["public"]["Tables"]["webhook_subscriptions"]["Row"];
+type Delivery = Database["public"]["Tables"]["webhook_deliveries"]["Row"];
+
+interface OutgoingWebhooksProps {
+  projectId: string;
+}
+
+/** Pre-checked for a new subscription: the events teams poll for today */
+const DEFAULT_EVENTS: WebhookEventType[] = [
+  "project_ready",
+  "variant_failed",
+  "segment_failed",
+  "experiment_concluded",
+];
+
+const STATUS_STYLES: Record<Delivery["status"], string> = {
+  pending: "bg-amber-500/10 text-amber-400",
+  succeeded: "bg-emerald-500/10 text-emerald-400",
+  failed: "bg-red-500/10 text-red-400",
+};
+
+export function OutgoingWebhooks({ projectId }: OutgoingWebhooksProps) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<Set<WebhookEventType>>(new Set(DEFAULT_EVENTS));
+  const [saving, setSaving] = useState(false);
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+
+  const base = `/api/projects/${projectId}/webhooks`;
+
+  const load = useCallback(async () => {
+    const res = await fetch(base);
+    const body = res.ok ? await res.json() : { webhooks: [] };
+    setWebhooks(body.webhooks || []);
+  }, [base]);
+
+  const loadDeliveries = useCallback(
+    async (webhookId: string) => {
+      const res = await fetch(`${base}/${webhookId}/deliveries`);
+      const body = res.ok ? await res.json() : { deliveries: [] };
+      setDeliveries(body.deliveries || []);
+    },
+    [base]
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (expandedId) loadDeliveries(expandedId);
+  }, [expandedId, loadDeliveries]);
+
+  function toggleEvent(type: WebhookEventType) {
+    setEvents((prev) => {
+      const next = new Set(prev);
+      if (next.has(type)) next.delete(type);
+      else next.add(type);
+      return next;
+    });
+  }
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    if (!url.trim() || events.size === 0) return;
+    setSaving(true);
+    try {
+      const res = await fetch(base, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url: url.trim(), eventTypes: Array.from(events) }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error || "Failed to add webhook");
+      }
+      setUrl("");
+      setEvents(new Set(DEFAULT_EVENTS));
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to add webhook");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function update(webhookId: string, changes: Record<string, unknown>) {
+    const res = await fetch(`${base}/${webhookId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes),
+    });
+    if (!res.ok) {
+      toast.error("Failed to update webhook");
+      return;
+    }
+    const { webhook } = await res.json();
+    setWebhooks((prev) => prev.map((w) => (w.id === webhookId ? webhook : w)));
+  }
+
+  function handleRotate(webhook: Webhook) {
+    if (
+      confirm(
+        "Rotate this webhook's signing secret? Deliveries are signed with the new secret from now on."
+      )
+    ) {
+      update(webhook.id, { rotateSecret: true });
+      setRevealedId(webhook.id);
+    }
+  }
+
+  async function handleDelete(webhookId: string) {
+    if (!confirm("Delete this webhook and its delivery log?")) return;
+    const res = await fetch(`${base}/${webhookId}`, { method: "DELETE" });
+    if (!res.ok) {
+      toast.error("Failed to delete webhook");
+      return;
+    }
+    setWebhooks((prev) => prev.filter((w) => w.id !== webhookId));
+    if (expandedId === webhookId) setExpandedId(null);
+  }
+
+  async function handleRedeliver(webhookId: string, deliveryId: string) {
+    const res = await fetch(
+      `${base}/${webhookId}/deliveries/${deliveryId}/redeliver`,
+      { method: "POST" }
+    );
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      toast.error(body?.error || "Failed to redeliver");
+      return;
+    }
+    toast.success("Redelivery queued");
+    await loadDeliveries(webhookId);
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader>
+        <CardTitle className="text-[15px] font-medium text-foreground">
+          Webhooks
+        </CardTitle>
+        <CardDescription>
+          Get a signed POST when the project is ready, a render fails, a
+          conversion is recorded or an experiment concludes. Verify the{" "}
+          <code className="text-xs">X-Wai-Signature</code> header
+          (t=&lt;unix time&gt;,v1=&lt;HMAC-SHA256 of &quot;t.body&quot;&gt;) with the
+          webhook&apos;s secret.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {webhooks.length > 0 && (
+          <div className="divide-y divide-border rounded-xl border border-border">
+            {webhooks.map((webhook) => (
+              <div key={webhook.id} className="space-y-2 px-4 py-2.5 text-sm">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p
+                      className={`truncate font-mono text-xs ${
+                        webhook.active ? "text-foreground/80" : "text-muted-foreground line-through"
+                      }`}
+                    >
+                      {webhook.url}
+                    </p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {webhook.event_types.join(", ")}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-3 text-xs">
+                    <button
+                      onClick={() => setExpandedId(expandedId === webhook.id ? null : webhook.id)}
+                      className="text-muted-foreground transition-colors hover:text-foreground"
+                    >
+                      {expandedId === webhook.id ? "Hide log" : "Deliveries"}
+                    </button>
+                    <button
+                      onClick={() => update(webhook.id, { active: !webhook.active })}
+                      className="text-muted-foreground transition-colors hover:text-foreground"
+                    >
+                      {webhook.active ? "Disable" : "Enable"}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(webhook.id)}
+                      className="text-muted-foreground transition-colors hover:text-red-400"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2 text-xs">
+                  <code className="min-w-0 truncate rounded bg-muted px-1.5 py-0.5 font-mono text-muted-foreground">
+                    {revealedId === webhook.id
+                      ? webhook.secret
+                      : `${webhook.secret.slice(0, 6)}${"•".repeat(12)}`}
+                  </code>
+                  <button
+                    onClick={() => setRevealedId(revealedId === webhook.id ? null : webhook.id)}
+                    className="shrink-0 text-muted-foreground transition-colors hover:text-foreground"
+                  >
+                    {revealedId === webhook.id ? "Hide" : "Reveal"}
+                  </button>
+                  <button
+                    onClick={() => {
+                      navigator.clipboard.writeText(webhook.secret);
+                      toast.success("Secret copied");
+                    }}
+                    className="shrink-0 text-muted-foreground transition-colors hover:text-foreground"
+                  >
+                    Copy
+                  </button>
+                  <button
+                    onClick={() => handleRotate(webhook)}
+                    className="shrink-0 text-muted-foreground transition-colors hover:text-amber-400"
+                  >
+                    Rotate
+                  </button>
+                </div>
+
+                {expandedId === webhook.id && (
+                  <div className="rounded-lg border border-border">
+                    {deliveries.length === 0 ? (
+                      <p className="px-3 py-2 text-xs text-muted-foreground">No deliveries yet</p>
+                    ) : (
+                      deliveries.map((delivery) => (
+                        <div
+                          key={delivery.id}
+                          className="flex items-center justify-between gap-3 border-b border-border px-3 py-1.5 text-xs last:border-b-0"
+                        >
+                          <div className="flex min-w-0 items-center gap-2">
+                            <span
+                              className={`rounded-md px-1.5 py-0.5 font-medium ${STATUS_STYLES[delivery.status]}`}
+                            >
+                              {delivery.status}
+                            </span>
+                            <span className="text-foreground/80">{delivery.event_type}</span>
+                            <span className="truncate text-muted-foreground">
+                              {new Date(delivery.created_at).toLocaleString()}
+                              {delivery.attempts > 0 &&
+                                ` · ${delivery.attempts} attempt${delivery.attempts === 1 ? "" : "s"}`}
+                              {delivery.error
+                                ? ` · ${delivery.error}`
+                                : delivery.response_status !== null &&
+                                  ` · HTTP ${delivery.response_status}`}
+                            </span>
+                          </div>
+                          <button
+                            onClick={() => handleRedeliver(webhook.id, delivery.id)}
+                            disabled={delivery.status === "pending" || !webhook.active}
+                            className="shrink-0 text-muted-foreground transition-colors hover:text-foreground disabled:opacity-40"
+                          >
+                            Redeliver
+                          </button>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleAdd} className="space-y-3">
+          <Input
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/hooks/webinar"
+            className="font-mono"
+          />
+          <div className="flex flex-wrap gap-2">
+            {WEBHOOK_EVENT_TYPES.map((type) => (
+              <label
+                key={type}
+                className="flex cursor-pointer items-center gap-1.5 rounded-md border border-border px-2 py-1 text-xs"
+              >
+                <input
+                  type="checkbox"
+                  checked={events.has(type)}
+                  onChange={() => toggleEvent(type)}
+                />
+                {WEBHOOK_EVENT_LABELS[type]}
+              </label>
+            ))}
+          </div>
+          <Button
+            type="submit"
+            variant="outline"
+            size="sm"
+            disabled={saving || !url.trim() || events.size === 0}
+          >
+            {saving ? "Adding..." : "Add webhook"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
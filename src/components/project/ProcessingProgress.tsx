@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useCallback, useMemo } from "react";
+import { useEffect, useState, useCallback, useMemo, useRef } from "react";
 import { createClient } from "@/lib/supabase/client";
 import { Progress } from "@/components/ui/progress";
 import {
@@ -15,6 +15,11 @@ type Segment = Database["public"]["Tables"]["segments"]["Row"];
 type Variant = Database["public"]["Tables"]["variants"]["Row"];
 type ProcessingJob = Database["public"]["Tables"]["processing_jobs"]["Row"];
 
+// A republish renders into "staged" (not served until the run is published)
+function isRendered(v: Variant): boolean {
+  return v.status === "rendered" || v.status === "staged";
+}
+
 interface ProcessingProgressProps {
   projectId: string;
   onComplete?: () => void;
@@ -58,8 +63,19 @@ export function ProcessingProgress({
     "normalizing"
   );
   const supabase = useMemo(() => createClient(), []);
+  // Only the run being built is tracked — on a republish the live run's
+  // variants belong to the same project but aren't part of this progress
+  const buildingRunVariants = useRef<Set<string>>(new Set());
 
   const fetchData = useCallback(async () => {
+    const { data: run } = await supabase
+      .from("publish_runs")
+      .select("variant_ids")
+      .eq("project_id", projectId)
+      .eq("status", "building")
+      .maybeSingle();
+    buildingRunVariants.current = new Set(run?.variant_ids ?? []);
+
     const [segRes, varRes, jobRes] = await Promise.all([
       supabase
         .from("segments")
@@ -67,11 +83,13 @@ export function ProcessingProgress({
         .eq("project_id", projectId)
         .order("type")
         .order("sort_order"),
-      supabase
-        .from("variants")
-        .select("*")
-        .eq("project_id", projectId)
-        .order("variant_code"),
+      run
+        ? supabase
+            .from("variants")
+            .select("*")
+            .in("id", run.variant_ids)
+            .order("variant_code")
+        : Promise.resolve({ data: [] }),
       supabase
         .from("processing_jobs")
         .select("*")
@@ -119,6 +137,7 @@ export function ProcessingProgress({
         },
         (payload) => {
           if (payload.eventType === "INSERT") {
+            if (!buildingRunVariants.current.has(payload.new.id)) return;
             setVariants((prev) => [...prev, payload.new as Variant]);
           } else if (payload.eventType === "UPDATE") {
             setVariants((prev) =>
@@ -201,7 +220,7 @@ export function ProcessingProgress({
     return total / totalSegments;
   }, [segments, totalSegments, jobMap]);
 
-  const renderedCount = variants.filter((v) => v.status === "rendered").length;
+  const renderedCount = variants.filter(isRendered).length;
   const failedVariants = variants.filter((v) => v.status === "failed");
   const totalVariants = variants.length;
 
@@ -209,7 +228,7 @@ export function ProcessingProgress({
     if (totalVariants === 0) return 0;
     let total = 0;
     for (const v of variants) {
-      if (v.status === "rendered") {
+      if (isRendered(v)) {
         total += 100;
       } else if (v.status === "rendering") {
         const job = jobMap.get(v.id);
@@ -421,7 +440,7 @@ export function ProcessingProgress({
               {variants.map((v) => {
                 const job = jobMap.get(v.id);
                 const isProcessing = v.status === "rendering";
-                const isDone = v.status === "rendered";
+                const isDone = isRendered(v);
                 const isFailed = v.status === "failed";
 
                 return (
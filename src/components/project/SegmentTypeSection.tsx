@@ -1,43 +1,21 @@
 /**
- * SegmentTypeSection — Collapsible section showing all segments of one type
+ * SegmentTypeSection — Collapsible section showing all segments of one slot
  *
  * Shows segment count, expand/collapse toggle, and segment detail rows
- * with preview, duration, size, and status.
+ * with preview, duration, loudness, size, and status.
  */
 
 "use client";
 
 import { useState, useCallback } from "react";
 import { SegmentPreviewDialog } from "./SegmentPreviewDialog";
+import { slotColor } from "./slot-colors";
 import { formatDuration, formatFileSize } from "@/lib/utils/format";
-import type { Database } from "@/lib/supabase/types";
+import { formatLufs } from "@/lib/video/loudness";
+import type { Database, SegmentSlot } from "@/lib/supabase/types";
 
 type Segment = Database["public"]["Tables"]["segments"]["Row"];
 
-const typeConfig = {
-  hook: {
-    label: "Hooks",
-    color: "text-sky-400",
-    bg: "bg-sky-500/10",
-    iconBg: "bg-sky-500/15",
-    borderAccent: "border-sky-500/20",
-  },
-  body: {
-    label: "Bodies",
-    color: "text-emerald-400",
-    bg: "bg-emerald-500/10",
-    iconBg: "bg-emerald-500/15",
-    borderAccent: "border-emerald-500/20",
-  },
-  cta: {
-    label: "CTAs",
-    color: "text-violet-400",
-    bg: "bg-violet-500/10",
-    iconBg: "bg-violet-500/15",
-    borderAccent: "border-violet-500/20",
-  },
-} as const;
-
 const statusStyles: Record<string, { dot: string; text: string }> = {
   normalized: { dot: "bg-emerald-400", text: "text-emerald-400" },
   normalizing: { dot: "bg-amber-400 animate-pulse", text: "text-amber-400" },
@@ -47,20 +25,23 @@ const statusStyles: Record<string, { dot: string; text: string }> = {
 };
 
 interface SegmentTypeSectionProps {
-  type: "hook" | "body" | "cta";
+  slot: SegmentSlot;
+  /** Position in the project's slots — picks the slot's color */
+  slotIndex: number;
   segments: Segment[];
   bestSegmentId?: string | null;
 }
 
 export function SegmentTypeSection({
-  type,
+  slot,
+  slotIndex,
   segments,
   bestSegmentId,
 }: SegmentTypeSectionProps) {
   const [expanded, setExpanded] = useState(false);
   const [previewSegment, setPreviewSegment] = useState<Segment | null>(null);
 
-  const config = typeConfig[type];
+  const color = slotColor(slotIndex);
 
   const handlePreview = useCallback((segment: Segment) => {
     setPreviewSegment(segment);
@@ -74,13 +55,18 @@ export function SegmentTypeSection({
           onClick={() => setExpanded(!expanded)}
           className="flex w-full items-center gap-4 px-5 py-4 text-left transition-colors hover:bg-white/[0.02]"
         >
-          <div className={`flex h-9 w-9 items-center justify-center rounded-lg ${config.iconBg}`}>
-            <span className={`text-base font-semibold tabular-nums ${config.color}`}>
+          <div className={`flex h-9 w-9 items-center justify-center rounded-lg ${color.iconBg}`}>
+            <span className={`text-base font-semibold tabular-nums ${color.text}`}>
               {segments.length}
             </span>
           </div>
           <div className="flex-1">
-            <span className="text-sm font-medium text-white/80">{config.label}</span>
+            <span className="text-sm font-medium text-white/80">{slot.label}</span>
+            {!slot.required && (
+              <span className="ml-2 text-[10px] uppercase tracking-wider text-white/25">
+                optional
+              </span>
+            )}
             <span className="ml-2 text-xs text-white/30">
               {segments.length === 1 ? "1 segment" : `${segments.length} segments`}
             </span>
@@ -146,6 +132,20 @@ export function SegmentTypeSection({
                           : "--:--"}
                     </span>
 
+                    {/* Loudness (measured at normalization) */}
+                    {segment.loudness_lufs !== null && (
+                      <span
+                        className="text-xs tabular-nums text-white/25 font-mono"
+                        title={
+                          segment.true_peak_dbtp !== null
+                            ? `True peak ${segment.true_peak_dbtp.toFixed(1)} dBTP`
+                            : undefined
+                        }
+                      >
+                        {formatLufs(segment.loudness_lufs)}
+                      </span>
+                    )}
+
                     {/* Size */}
                     <span className="text-xs tabular-nums text-white/20 font-mono w-16 text-right">
                       {segment.normalized_size_bytes
@@ -173,7 +173,7 @@ export function SegmentTypeSection({
         {expanded && segments.length === 0 && (
           <div className="border-t border-white/5 px-5 py-6 text-center">
             <span className="text-xs text-white/30">
-              No {config.label.toLowerCase()} uploaded yet
+              No {slot.label.toLowerCase()} segments uploaded yet
             </span>
           </div>
         )}
@@ -1,7 +1,13 @@
 /**
  * TopPerformerCard — Highlights the best-performing variant
  *
- * Shows an amber/gold card with the top variant by completion rate.
+ * Shows an amber/gold card with the variant most likely to be best (by
+ * Bayesian P(best) on the selected metric), with its credible interval,
+ * lift over the project's control and P(beat control). The header says "Winner" only once the minimum-sample
+ * guard and winner threshold are met — otherwise "Leading" or "Collecting
+ * data", so nobody calls the test early. Until the always-valid
+ * (sequential) test against the control crosses its boundary, it's also
+ * tagged "Not yet conclusive".
  * Only visible when there are 2+ variants with view data.
  */
 
@@ -24,6 +30,20 @@ export function TopPerformerCard({
   const displayName =
     topPerformer.custom_name || topPerformer.variant_code;
 
+  // Custom metric stats when one is selected, otherwise completion
+  const stats = topPerformer.stats?.metric ?? topPerformer.stats?.completion;
+  const status = !stats
+    ? "Top Performer"
+    : stats.isWinner
+      ? "Winner"
+      : stats.sufficientSample
+        ? "Leading"
+        : "Collecting data";
+  const inconclusive =
+    !!stats?.sequential &&
+    stats.sequential.alwaysValidPValue !== null &&
+    !stats.sequential.significant;
+
   return (
     <div className="rounded-xl border border-amber-500/20 bg-amber-500/5 px-5 py-4">
       <div className="flex items-center gap-3">
@@ -41,11 +61,16 @@ export function TopPerformerCard({
         <div className="flex-1">
           <div className="flex items-center gap-2">
             <span className="text-sm font-medium text-amber-300">
-              Top Performer
+              {status}
             </span>
             <span className="rounded-full bg-amber-500/10 px-2 py-0.5 text-[10px] font-medium text-amber-400/80">
               {displayName}
             </span>
+            {inconclusive && (
+              <span className="rounded-full bg-white/5 px-2 py-0.5 text-[10px] font-medium text-white/40">
+                Not yet conclusive
+              </span>
+            )}
           </div>
           <div className="mt-1 flex items-center gap-4 text-xs text-white/40">
             <span>
@@ -69,6 +94,50 @@ export function TopPerformerCard({
               completions
             </span>
           </div>
+          {stats && (
+            <div className="mt-1 flex items-center gap-4 text-xs text-white/40">
+              <span>
+                <span className="font-mono tabular-nums text-white/60">
+                  {stats.ciLower}–{stats.ciUpper}%
+                </span>{" "}
+                95% interval
+              </span>
+              {stats.probBest !== null && (
+                <>
+                  <span className="text-white/10">|</span>
+                  <span>
+                    <span className="font-mono tabular-nums text-white/60">
+                      {(stats.probBest * 100).toFixed(1)}%
+                    </span>{" "}
+                    chance best
+                  </span>
+                </>
+              )}
+              {stats.lift !== null && (
+                <>
+                  <span className="text-white/10">|</span>
+                  <span>
+                    <span className="font-mono tabular-nums text-white/60">
+                      {stats.lift > 0 ? "+" : ""}
+                      {stats.lift.toFixed(1)}%
+                    </span>{" "}
+                    vs control
+                  </span>
+                </>
+              )}
+              {stats.probBeatControl !== null && (
+                <>
+                  <span className="text-white/10">|</span>
+                  <span>
+                    <span className="font-mono tabular-nums text-white/60">
+                      {(stats.probBeatControl * 100).toFixed(1)}%
+                    </span>{" "}
+                    beats control
+                  </span>
+                </>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
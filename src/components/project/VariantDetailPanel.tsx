@@ -10,21 +10,22 @@
 import { useMemo } from "react";
 import { useAnalytics } from "@/hooks/use-analytics";
 import type { VariantAnalytics } from "@/hooks/use-analytics";
+import { slotColor } from "./slot-colors";
+import type { SlotGroup } from "./layouts/types";
 import type { Database } from "@/lib/supabase/types";
 
 type Variant = Database["public"]["Tables"]["variants"]["Row"];
-type Segment = Database["public"]["Tables"]["segments"]["Row"];
 
 interface VariantDetailPanelProps {
   variant: Variant;
-  segments: Segment[];
+  slotGroups: SlotGroup[];
   projectId: string;
   onClose: () => void;
 }
 
 export function VariantDetailPanel({
   variant,
-  segments,
+  slotGroups,
   projectId,
   onClose,
 }: VariantDetailPanelProps) {
@@ -35,10 +36,12 @@ export function VariantDetailPanel({
     [analytics, variant.id]
   );
 
-  // Find segments used in this variant
-  const hookSegment = segments.find((s) => s.id === variant.hook_segment_id);
-  const bodySegment = segments.find((s) => s.id === variant.body_segment_id);
-  const ctaSegment = segments.find((s) => s.id === variant.cta_segment_id);
+  // The segment this variant uses in each slot (none for a skipped optional slot)
+  const slotSegments = slotGroups.map((g) => ({
+    label: g.slot.label,
+    segment: g.segments.find((s) => variant.segment_ids.includes(s.id)),
+    color: slotColor(g.index).dot,
+  }));
 
   const displayName = variant.custom_name || variant.variant_code;
 
@@ -81,11 +84,7 @@ export function VariantDetailPanel({
               Segments
             </h4>
             <div className="space-y-2">
-              {[
-                { label: "Hook", segment: hookSegment, color: "bg-sky-400" },
-                { label: "Body", segment: bodySegment, color: "bg-emerald-400" },
-                { label: "CTA", segment: ctaSegment, color: "bg-violet-400" },
-              ].map(({ label, segment, color }) => (
+              {slotSegments.map(({ label, segment, color }) => (
                 <div
                   key={label}
                   className="flex items-center gap-3 rounded-lg border border-white/5 bg-white/[0.02] px-3 py-2"
@@ -96,7 +95,7 @@ export function VariantDetailPanel({
                       {label}
                     </span>
                     <p className="truncate text-sm text-white/70">
-                      {segment?.label || "—"}
+                      {segment?.label || (segment ? "—" : "Skipped")}
                     </p>
                   </div>
                   {(segment?.normalized_duration_ms ?? segment?.original_duration_ms) ? (
@@ -13,6 +13,7 @@ import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { ProcessingProgress } from "@/components/project/ProcessingProgress";
 import { SegmentTypeSection } from "@/components/project/SegmentTypeSection";
+import { slotColor } from "@/components/project/slot-colors";
 import { AnalyticsDashboard } from "@/components/analytics/AnalyticsDashboard";
 import { VariantCard } from "@/components/project/VariantCard";
 import { VariantDetailPanel } from "@/components/project/VariantDetailPanel";
@@ -23,6 +24,7 @@ import {
   StatusBadge,
   SplitTestIndicator,
   FailureBanner,
+  LoudnessWarning,
   ProcessButtonSection,
 } from "./shared-parts";
 import type { ProjectLayoutProps } from "./types";
@@ -79,19 +81,18 @@ function BentoCell({
 export function BentoGridLayout(props: ProjectLayoutProps) {
   const {
     project,
-    segments,
     variants,
     analytics,
     projectId,
-    hooks,
-    bodies,
-    ctas,
+    slotGroups,
+    hasRequiredSegments,
     renderedVariants,
     activeVariants,
     failedSegments,
     failedVariants,
     isSplitTest,
     hasFailures,
+    loudnessMismatch,
     bestSegmentIds,
     selectedVariantId,
     onRefresh,
@@ -101,10 +102,7 @@ export function BentoGridLayout(props: ProjectLayoutProps) {
   const [expanded, setExpanded] = useState<ExpandedCell>(null);
 
   const canProcess =
-    hooks.length > 0 &&
-    bodies.length > 0 &&
-    ctas.length > 0 &&
-    project.status === "draft";
+    hasRequiredSegments && project.status === "draft";
 
   const hasAnalyticsData = analytics?.summary && analytics.summary.totalViews > 0;
 
@@ -125,12 +123,18 @@ export function BentoGridLayout(props: ProjectLayoutProps) {
 
         {expanded === "segments" && (
           <div className="space-y-3">
-            <SegmentTypeSection type="hook" segments={hooks} bestSegmentId={bestSegmentIds.hook} />
-            <SegmentTypeSection type="body" segments={bodies} bestSegmentId={bestSegmentIds.body} />
-            <SegmentTypeSection type="cta" segments={ctas} bestSegmentId={bestSegmentIds.cta} />
+            {slotGroups.map((g) => (
+              <SegmentTypeSection
+                key={g.slot.key}
+                slot={g.slot}
+                slotIndex={g.index}
+                segments={g.segments}
+                bestSegmentId={bestSegmentIds[g.slot.key]}
+              />
+            ))}
             <SegmentActionsBar
               projectId={projectId}
-              canReprocess={hooks.length > 0 && bodies.length > 0 && ctas.length > 0 && (project.status === "draft" || project.status === "ready")}
+              canReprocess={hasRequiredSegments && (project.status === "draft" || project.status === "ready")}
               isProcessing={project.status === "processing"}
               onReprocess={onRefresh}
             />
@@ -168,7 +172,11 @@ export function BentoGridLayout(props: ProjectLayoutProps) {
           </div>
         )}
         {expanded === "analytics" && (
-          <AnalyticsDashboard projectId={projectId} isSplitTest={isSplitTest} />
+          <AnalyticsDashboard
+            projectId={projectId}
+            isSplitTest={isSplitTest}
+            slots={slotGroups.map((g) => g.slot)}
+          />
         )}
         {expanded === "processing" && (
           <ProcessingProgress projectId={projectId} onComplete={onRefresh} />
@@ -181,7 +189,7 @@ export function BentoGridLayout(props: ProjectLayoutProps) {
           return (
             <VariantDetailPanel
               variant={selectedVariant}
-              segments={segments}
+              slotGroups={slotGroups}
               projectId={projectId}
               onClose={() => onSelectVariant(null)}
             />
@@ -240,6 +248,14 @@ export function BentoGridLayout(props: ProjectLayoutProps) {
         />
       )}
 
+      {loudnessMismatch && (
+        <LoudnessWarning
+          projectId={projectId}
+          mismatch={loudnessMismatch}
+          targetLufs={project.loudness_target_lufs}
+        />
+      )}
+
       {/* ── Bento Grid ── */}
       <div className="grid grid-cols-3 gap-3">
         {/* Row 1: Key Metrics */}
@@ -319,11 +335,11 @@ export function BentoGridLayout(props: ProjectLayoutProps) {
             Segments
           </p>
           <div className="space-y-2">
-            {[
-              { label: "Hooks", count: hooks.length, dot: "bg-blue-400" },
-              { label: "Bodies", count: bodies.length, dot: "bg-amber-400" },
-              { label: "CTAs", count: ctas.length, dot: "bg-emerald-400" },
-            ].map((s) => (
+            {slotGroups.map((g) => ({
+              label: g.slot.label,
+              count: g.segments.length,
+              dot: slotColor(g.index).dot,
+            })).map((s) => (
               <div key={s.label} className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
                   <span className={`h-1.5 w-1.5 rounded-full ${s.dot}`} />
@@ -427,7 +443,7 @@ export function BentoGridLayout(props: ProjectLayoutProps) {
         return (
           <VariantDetailPanel
             variant={selectedVariant}
-            segments={segments}
+            slotGroups={slotGroups}
             projectId={projectId}
             onClose={() => onSelectVariant(null)}
           />
@@ -24,6 +24,7 @@ import { ActivityLog } from "@/components/project/ActivityLog";
 import {
   StatusBadge,
   FailureBanner,
+  LoudnessWarning,
   ProcessButtonSection,
 } from "./shared-parts";
 import type { ProjectLayoutProps } from "./types";
@@ -42,9 +43,8 @@ export function PipelineStepperLayout(props: ProjectLayoutProps) {
     variants,
     analytics,
     projectId,
-    hooks,
-    bodies,
-    ctas,
+    slotGroups,
+    hasRequiredSegments,
     renderedVariants,
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     activeVariants,
@@ -52,6 +52,7 @@ export function PipelineStepperLayout(props: ProjectLayoutProps) {
     failedVariants,
     isSplitTest,
     hasFailures,
+    loudnessMismatch,
     bestSegmentIds,
     selectedVariantId,
     onRefresh,
@@ -59,7 +60,6 @@ export function PipelineStepperLayout(props: ProjectLayoutProps) {
   } = props;
 
   const totalSegments = segments.length;
-  const hasAllSegmentTypes = hooks.length > 0 && bodies.length > 0 && ctas.length > 0;
   const isProcessing = project.status === "processing";
   const hasRendered = renderedVariants.length > 0;
   const hasAnalytics = analytics?.summary && analytics.summary.totalViews > 0;
@@ -67,13 +67,13 @@ export function PipelineStepperLayout(props: ProjectLayoutProps) {
   // Determine workflow stage
   const steps: Step[] = useMemo(() => {
     // Upload stage
-    const uploadStatus: Step["status"] = hasAllSegmentTypes ? "completed" : "active";
+    const uploadStatus: Step["status"] = hasRequiredSegments ? "completed" : "active";
 
     // Process stage
     let processStatus: Step["status"] = "upcoming";
     if (isProcessing) processStatus = "active";
     else if (hasRendered) processStatus = "completed";
-    else if (hasAllSegmentTypes) processStatus = "active";
+    else if (hasRequiredSegments) processStatus = "active";
 
     // Test stage
     let testStatus: Step["status"] = "upcoming";
@@ -90,7 +90,7 @@ export function PipelineStepperLayout(props: ProjectLayoutProps) {
       { id: "test", label: "Test", description: hasRendered ? `${isSplitTest ? "Split testing" : "Single variant"}` : "A/B test variants", status: testStatus },
       { id: "analyze", label: "Analyze", description: hasAnalytics ? `${analytics!.summary!.totalViews} views` : "Track performance", status: analyzeStatus },
     ];
-  }, [totalSegments, hasAllSegmentTypes, isProcessing, hasRendered, hasAnalytics, renderedVariants.length, isSplitTest, analytics]);
+  }, [totalSegments, hasRequiredSegments, isProcessing, hasRendered, hasAnalytics, renderedVariants.length, isSplitTest, analytics]);
 
   // Which step is currently viewed (user can click any completed/active step)
   const currentActiveStep = steps.find((s) => s.status === "active")?.id || steps[0].id;
@@ -139,6 +139,14 @@ export function PipelineStepperLayout(props: ProjectLayoutProps) {
         />
       )}
 
+      {loudnessMismatch && (
+        <LoudnessWarning
+          projectId={projectId}
+          mismatch={loudnessMismatch}
+          targetLufs={project.loudness_target_lufs}
+        />
+      )}
+
       {/* ── Pipeline Stepper ── */}
       <div className="rounded-xl border border-white/[0.06] bg-white/[0.02] p-5">
         <div className="flex items-center">
@@ -238,12 +246,18 @@ export function PipelineStepperLayout(props: ProjectLayoutProps) {
                 </Button>
               </Link>
             </div>
-            <SegmentTypeSection type="hook" segments={hooks} bestSegmentId={bestSegmentIds.hook} />
-            <SegmentTypeSection type="body" segments={bodies} bestSegmentId={bestSegmentIds.body} />
-            <SegmentTypeSection type="cta" segments={ctas} bestSegmentId={bestSegmentIds.cta} />
+            {slotGroups.map((g) => (
+              <SegmentTypeSection
+                key={g.slot.key}
+                slot={g.slot}
+                slotIndex={g.index}
+                segments={g.segments}
+                bestSegmentId={bestSegmentIds[g.slot.key]}
+              />
+            ))}
             <SegmentActionsBar
               projectId={projectId}
-              canReprocess={hooks.length > 0 && bodies.length > 0 && ctas.length > 0 && (project.status === "draft" || project.status === "ready")}
+              canReprocess={hasRequiredSegments && (project.status === "draft" || project.status === "ready")}
               isProcessing={project.status === "processing"}
               onReprocess={onRefresh}
             />
@@ -266,12 +280,12 @@ export function PipelineStepperLayout(props: ProjectLayoutProps) {
                   Processing complete. View your variants in the Test step.
                 </p>
               </div>
-            ) : hasAllSegmentTypes ? (
+            ) : hasRequiredSegments ? (
               <ProcessButtonSection projectId={projectId} onProcess={onRefresh} />
             ) : (
               <div className="py-8 text-center">
                 <p className="text-sm text-white/30">
-                  Upload at least one hook, one body, and one CTA to start processing.
+                  Upload at least one segment for every required slot to start processing.
                 </p>
                 <Link href={`/projects/${projectId}/upload`} className="mt-3 inline-block">
                   <Button variant="outline" size="sm">Go to Upload</Button>
@@ -345,7 +359,11 @@ export function PipelineStepperLayout(props: ProjectLayoutProps) {
             {hasAnalytics ? (
               <>
                 <AnalyticsSummary summary={analytics!.summary!} />
-                <AnalyticsDashboard projectId={projectId} isSplitTest={isSplitTest} />
+                <AnalyticsDashboard
+                  projectId={projectId}
+                  isSplitTest={isSplitTest}
+                  slots={slotGroups.map((g) => g.slot)}
+                />
               </>
             ) : hasRendered ? (
               <div className="py-8 text-center">
@@ -376,7 +394,7 @@ export function PipelineStepperLayout(props: ProjectLayoutProps) {
         return (
           <VariantDetailPanel
             variant={selectedVariant}
-            segments={segments}
+            slotGroups={slotGroups}
             projectId={projectId}
             onClose={() => onSelectVariant(null)}
           />
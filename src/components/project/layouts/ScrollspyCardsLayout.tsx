@@ -26,6 +26,7 @@ import {
   StatusBadge,
   SplitTestIndicator,
   FailureBanner,
+  LoudnessWarning,
   ProcessButtonSection,
 } from "./shared-parts";
 import type { ProjectLayoutProps } from "./types";
@@ -40,19 +41,18 @@ interface Section {
 export function ScrollspyCardsLayout(props: ProjectLayoutProps) {
   const {
     project,
-    segments,
     variants,
     analytics,
     projectId,
-    hooks,
-    bodies,
-    ctas,
+    slotGroups,
+    hasRequiredSegments,
     renderedVariants,
     activeVariants,
     failedSegments,
     failedVariants,
     isSplitTest,
     hasFailures,
+    loudnessMismatch,
     bestSegmentIds,
     selectedVariantId,
     onRefresh,
@@ -60,10 +60,7 @@ export function ScrollspyCardsLayout(props: ProjectLayoutProps) {
   } = props;
 
   const canProcess =
-    hooks.length > 0 &&
-    bodies.length > 0 &&
-    ctas.length > 0 &&
-    project.status === "draft";
+    hasRequiredSegments && project.status === "draft";
 
   // Build visible sections dynamically
   const sections: Section[] = [
@@ -180,6 +177,14 @@ export function ScrollspyCardsLayout(props: ProjectLayoutProps) {
         />
       )}
 
+      {loudnessMismatch && (
+        <LoudnessWarning
+          projectId={projectId}
+          mismatch={loudnessMismatch}
+          targetLufs={project.loudness_target_lufs}
+        />
+      )}
+
       {/* ── Sticky Navigation ── */}
       <div className="sticky top-0 z-20 -mx-2 px-2 py-2 backdrop-blur-xl bg-[hsl(220_14%_5.5%)]/80">
         <div className="flex items-center gap-1 rounded-xl border border-white/[0.06] bg-white/[0.03] p-1">
@@ -248,12 +253,18 @@ export function ScrollspyCardsLayout(props: ProjectLayoutProps) {
             Segments
           </h2>
           <div className="space-y-3">
-            <SegmentTypeSection type="hook" segments={hooks} bestSegmentId={bestSegmentIds.hook} />
-            <SegmentTypeSection type="body" segments={bodies} bestSegmentId={bestSegmentIds.body} />
-            <SegmentTypeSection type="cta" segments={ctas} bestSegmentId={bestSegmentIds.cta} />
+            {slotGroups.map((g) => (
+              <SegmentTypeSection
+                key={g.slot.key}
+                slot={g.slot}
+                slotIndex={g.index}
+                segments={g.segments}
+                bestSegmentId={bestSegmentIds[g.slot.key]}
+              />
+            ))}
             <SegmentActionsBar
               projectId={projectId}
-              canReprocess={hooks.length > 0 && bodies.length > 0 && ctas.length > 0 && (project.status === "draft" || project.status === "ready")}
+              canReprocess={hasRequiredSegments && (project.status === "draft" || project.status === "ready")}
               isProcessing={project.status === "processing"}
               onReprocess={onRefresh}
             />
@@ -323,7 +334,11 @@ export function ScrollspyCardsLayout(props: ProjectLayoutProps) {
             <h2 className="mb-4 text-sm font-medium uppercase tracking-wider text-emerald-400/60">
               Analytics
             </h2>
-            <AnalyticsDashboard projectId={projectId} isSplitTest={isSplitTest} />
+            <AnalyticsDashboard
+              projectId={projectId}
+              isSplitTest={isSplitTest}
+              slots={slotGroups.map((g) => g.slot)}
+            />
           </div>
         )}
       </div>
@@ -337,7 +352,7 @@ export function ScrollspyCardsLayout(props: ProjectLayoutProps) {
         return (
           <VariantDetailPanel
             variant={selectedVariant}
-            segments={segments}
+            slotGroups={slotGroups}
             projectId={projectId}
             onClose={() => onSelectVariant(null)}
           />
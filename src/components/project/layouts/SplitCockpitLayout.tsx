@@ -13,6 +13,7 @@ import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { ProcessingProgress } from "@/components/project/ProcessingProgress";
 import { SegmentTypeSection } from "@/components/project/SegmentTypeSection";
+import { slotColor } from "@/components/project/slot-colors";
 import { AnalyticsSummary } from "@/components/project/AnalyticsSummary";
 import { TopPerformerCard } from "@/components/project/TopPerformerCard";
 import { AnalyticsDashboard } from "@/components/analytics/AnalyticsDashboard";
@@ -24,6 +25,7 @@ import { ActivityLog } from "@/components/project/ActivityLog";
 import {
   StatusBadge,
   FailureBanner,
+  LoudnessWarning,
   ProcessButtonSection,
 } from "./shared-parts";
 import type { ProjectLayoutProps } from "./types";
@@ -37,15 +39,15 @@ export function SplitCockpitLayout(props: ProjectLayoutProps) {
     variants,
     analytics,
     projectId,
-    hooks,
-    bodies,
-    ctas,
+    slotGroups,
+    hasRequiredSegments,
     renderedVariants,
     activeVariants,
     failedSegments,
     failedVariants,
     isSplitTest,
     hasFailures,
+    loudnessMismatch,
     bestSegmentIds,
     selectedVariantId,
     onRefresh,
@@ -55,10 +57,7 @@ export function SplitCockpitLayout(props: ProjectLayoutProps) {
   const [rightPanel, setRightPanel] = useState<RightPanel>("main");
 
   const canProcess =
-    hooks.length > 0 &&
-    bodies.length > 0 &&
-    ctas.length > 0 &&
-    project.status === "draft";
+    hasRequiredSegments && project.status === "draft";
 
   const totalSegments = segments.length;
 
@@ -138,11 +137,12 @@ export function SplitCockpitLayout(props: ProjectLayoutProps) {
               {totalSegments} total
             </span>
           </div>
-          {[
-            { type: "hook" as const, items: hooks, color: "bg-blue-400", label: "Hooks" },
-            { type: "body" as const, items: bodies, color: "bg-amber-400", label: "Bodies" },
-            { type: "cta" as const, items: ctas, color: "bg-emerald-400", label: "CTAs" },
-          ].map((seg) => (
+          {slotGroups.map((g) => ({
+            type: g.slot.key,
+            items: g.segments,
+            color: slotColor(g.index).dot,
+            label: g.slot.label,
+          })).map((seg) => (
             <button
               key={seg.type}
               onClick={() => setRightPanel("segments")}
@@ -219,6 +219,14 @@ export function SplitCockpitLayout(props: ProjectLayoutProps) {
           />
         )}
 
+        {loudnessMismatch && (
+          <LoudnessWarning
+            projectId={projectId}
+            mismatch={loudnessMismatch}
+            targetLufs={project.loudness_target_lufs}
+          />
+        )}
+
         {/* Panel toggle */}
         <div className="flex items-center gap-2">
           <button
@@ -303,7 +311,11 @@ export function SplitCockpitLayout(props: ProjectLayoutProps) {
 
             {/* Analytics Dashboard */}
             {renderedVariants.length > 0 && (
-              <AnalyticsDashboard projectId={projectId} isSplitTest={isSplitTest} />
+              <AnalyticsDashboard
+                projectId={projectId}
+                isSplitTest={isSplitTest}
+                slots={slotGroups.map((g) => g.slot)}
+              />
             )}
 
             {/* Process Button */}
@@ -315,12 +327,18 @@ export function SplitCockpitLayout(props: ProjectLayoutProps) {
 
         {rightPanel === "segments" && (
           <div className="space-y-3">
-            <SegmentTypeSection type="hook" segments={hooks} bestSegmentId={bestSegmentIds.hook} />
-            <SegmentTypeSection type="body" segments={bodies} bestSegmentId={bestSegmentIds.body} />
-            <SegmentTypeSection type="cta" segments={ctas} bestSegmentId={bestSegmentIds.cta} />
+            {slotGroups.map((g) => (
+              <SegmentTypeSection
+                key={g.slot.key}
+                slot={g.slot}
+                slotIndex={g.index}
+                segments={g.segments}
+                bestSegmentId={bestSegmentIds[g.slot.key]}
+              />
+            ))}
             <SegmentActionsBar
               projectId={projectId}
-              canReprocess={hooks.length > 0 && bodies.length > 0 && ctas.length > 0 && (project.status === "draft" || project.status === "ready")}
+              canReprocess={hasRequiredSegments && (project.status === "draft" || project.status === "ready")}
               isProcessing={project.status === "processing"}
               onReprocess={onRefresh}
             />
@@ -337,7 +355,7 @@ export function SplitCockpitLayout(props: ProjectLayoutProps) {
         return (
           <VariantDetailPanel
             variant={selectedVariant}
-            segments={segments}
+            slotGroups={slotGroups}
             projectId={projectId}
             onClose={() => onSelectVariant(null)}
           />
@@ -13,6 +13,7 @@ import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { ProcessingProgress } from "@/components/project/ProcessingProgress";
 import { SegmentTypeSection } from "@/components/project/SegmentTypeSection";
+import { slotColor } from "@/components/project/slot-colors";
 import { AnalyticsSummary } from "@/components/project/AnalyticsSummary";
 import { TopPerformerCard } from "@/components/project/TopPerformerCard";
 import { AnalyticsDashboard } from "@/components/analytics/AnalyticsDashboard";
@@ -25,6 +26,7 @@ import {
   StatusBadge,
   SplitTestIndicator,
   FailureBanner,
+  LoudnessWarning,
   ProcessButtonSection,
 } from "./shared-parts";
 import type { ProjectLayoutProps } from "./types";
@@ -41,19 +43,18 @@ type TabId = (typeof TABS)[number]["id"];
 export function TabbedFolioLayout(props: ProjectLayoutProps) {
   const {
     project,
-    segments,
     variants,
     analytics,
     projectId,
-    hooks,
-    bodies,
-    ctas,
+    slotGroups,
+    hasRequiredSegments,
     renderedVariants,
     activeVariants,
     failedSegments,
     failedVariants,
     isSplitTest,
     hasFailures,
+    loudnessMismatch,
     bestSegmentIds,
     selectedVariantId,
     onRefresh,
@@ -63,10 +64,7 @@ export function TabbedFolioLayout(props: ProjectLayoutProps) {
   const [activeTab, setActiveTab] = useState<TabId>("overview");
 
   const canProcess =
-    hooks.length > 0 &&
-    bodies.length > 0 &&
-    ctas.length > 0 &&
-    project.status === "draft";
+    hasRequiredSegments && project.status === "draft";
 
   return (
     <div className="space-y-0">
@@ -146,6 +144,16 @@ export function TabbedFolioLayout(props: ProjectLayoutProps) {
         </div>
       )}
 
+      {loudnessMismatch && (
+        <div className="mb-6">
+          <LoudnessWarning
+            projectId={projectId}
+            mismatch={loudnessMismatch}
+            targetLufs={project.loudness_target_lufs}
+          />
+        </div>
+      )}
+
       {/* ── Folder Tabs ── */}
       <div className="relative">
         {/* Tab bar */}
@@ -214,17 +222,17 @@ export function TabbedFolioLayout(props: ProjectLayoutProps) {
               )}
               {/* Quick segment count when not on segments tab */}
               <div className="grid grid-cols-3 gap-3">
-                {[
-                  { type: "Hooks", count: hooks.length, color: "text-blue-400" },
-                  { type: "Bodies", count: bodies.length, color: "text-amber-400" },
-                  { type: "CTAs", count: ctas.length, color: "text-emerald-400" },
-                ].map((s) => (
+                {slotGroups.map((g) => ({
+                  type: g.slot.label,
+                  count: g.segments.length,
+                  color: slotColor(g.index).text,
+                })).map((s) => (
                   <button
                     key={s.type}
                     onClick={() => setActiveTab("segments")}
                     className="rounded-lg border border-white/[0.06] bg-white/[0.02] px-4 py-3 text-left transition hover:bg-white/[0.04]"
                   >
-                    <p className={`text-xs font-medium uppercase tracking-wider ${s.color}/60`}>
+                    <p className={`text-xs font-medium uppercase tracking-wider opacity-60 ${s.color}`}>
                       {s.type}
                     </p>
                     <p className="mt-1 text-2xl font-semibold font-mono text-white/80">
@@ -242,12 +250,18 @@ export function TabbedFolioLayout(props: ProjectLayoutProps) {
           {/* Segments Tab */}
           {activeTab === "segments" && (
             <div className="space-y-3">
-              <SegmentTypeSection type="hook" segments={hooks} bestSegmentId={bestSegmentIds.hook} />
-              <SegmentTypeSection type="body" segments={bodies} bestSegmentId={bestSegmentIds.body} />
-              <SegmentTypeSection type="cta" segments={ctas} bestSegmentId={bestSegmentIds.cta} />
+              {slotGroups.map((g) => (
+                <SegmentTypeSection
+                  key={g.slot.key}
+                  slot={g.slot}
+                  slotIndex={g.index}
+                  segments={g.segments}
+                  bestSegmentId={bestSegmentIds[g.slot.key]}
+                />
+              ))}
               <SegmentActionsBar
                 projectId={projectId}
-                canReprocess={hooks.length > 0 && bodies.length > 0 && ctas.length > 0 && (project.status === "draft" || project.status === "ready")}
+                canReprocess={hasRequiredSegments && (project.status === "draft" || project.status === "ready")}
                 isProcessing={project.status === "processing"}
                 onReprocess={onRefresh}
               />
@@ -302,7 +316,11 @@ export function TabbedFolioLayout(props: ProjectLayoutProps) {
 
           {/* Analytics Tab */}
           {activeTab === "analytics" && renderedVariants.length > 0 && (
-            <AnalyticsDashboard projectId={projectId} isSplitTest={isSplitTest} />
+            <AnalyticsDashboard
+              projectId={projectId}
+              isSplitTest={isSplitTest}
+              slots={slotGroups.map((g) => g.slot)}
+            />
           )}
         </div>
       </div>
@@ -316,7 +334,7 @@ export function TabbedFolioLayout(props: ProjectLayoutProps) {
         return (
           <VariantDetailPanel
             variant={selectedVariant}
-            segments={segments}
+            slotGroups={slotGroups}
             projectId={projectId}
             onClose={() => onSelectVariant(null)}
           />
@@ -12,6 +12,7 @@ import { createClient } from "@/lib/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { VariantCard } from "@/components/project/VariantCard";
+import { formatLufs, LOUDNESS_MISMATCH_LU, type LoudnessMismatch } from "@/lib/video/loudness";
 import type { ProjectLayoutProps } from "./types";
 
 // ─── Status Badge ───────────────────────────────────────────
@@ -248,6 +249,64 @@ export function FailureBanner({
   );
 }
 
+// ─── Loudness Warning ───────────────────────────────────────
+
+export function LoudnessWarning({
+  projectId,
+  mismatch,
+  targetLufs,
+}: {
+  projectId: string;
+  mismatch: LoudnessMismatch;
+  targetLufs: number | null;
+}) {
+  return (
+    <Card className="border-amber-500/20 bg-amber-500/5">
+      <CardContent className="flex items-center justify-between gap-4 p-4">
+        <div className="flex items-center gap-3">
+          <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-lg bg-amber-500/10">
+            <svg
+              className="h-5 w-5 text-amber-400"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+              strokeWidth={1.75}
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                d="M19.114 5.636a9 9 0 010 12.728M16.463 8.288a5.25 5.25 0 010 7.424M6.75 8.25l4.72-4.72a.75.75 0 011.28.53v15.88a.75.75 0 01-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.01 9.01 0 012.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75z"
+              />
+            </svg>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-amber-400">
+              Segment volumes differ by {mismatch.spreadLu.toFixed(1)} LU
+            </p>
+            <p className="mt-0.5 text-xs text-amber-400/70">
+              {mismatch.loudest.label} ({formatLufs(mismatch.loudest.lufs)}) vs{" "}
+              {mismatch.quietest.label} ({formatLufs(mismatch.quietest.lufs)}) — more
+              than {LOUDNESS_MISMATCH_LU} LU apart is noticeable at a cut.{" "}
+              {targetLufs === null
+                ? "Turn on loudness normalization and reprocess."
+                : "Reprocess to normalize them to the project's target."}
+            </p>
+          </div>
+        </div>
+        <Link href={`/projects/${projectId}/upload`}>
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-amber-500/30 text-amber-400 hover:bg-amber-500/10 hover:text-amber-300"
+          >
+            Loudness settings
+          </Button>
+        </Link>
+      </CardContent>
+    </Card>
+  );
+}
+
 function RetryButton({
   projectId,
   onRetry,
@@ -266,7 +325,8 @@ function RetryButton({
         .update({ status: "uploaded", error_message: null })
         .eq("project_id", projectId)
         .in("status", ["failed", "normalizing"]);
-      await supabase.from("variants").delete().eq("project_id", projectId);
+      // The process route discards the failed run's variants; the live run
+      // (if any) keeps serving until the retry publishes
       await supabase
         .from("processing_jobs")
         .delete()
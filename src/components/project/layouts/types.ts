@@ -5,8 +5,9 @@
  * The data-fetching stays in page.tsx; layouts are pure presentation.
  */
 
-import type { Database } from "@/lib/supabase/types";
+import type { Database, SegmentSlot } from "@/lib/supabase/types";
 import type { AnalyticsData } from "@/hooks/use-analytics";
+import type { LoudnessMismatch } from "@/lib/video/loudness";
 
 export type Project = Database["public"]["Tables"]["projects"]["Row"];
 export type Segment = Database["public"]["Tables"]["segments"]["Row"];
@@ -14,6 +15,14 @@ export type Variant = Database["public"]["Tables"]["variants"]["Row"];
 
 export type { AnalyticsData };
 
+/** One of the project's slots with its segments (in upload order) */
+export interface SlotGroup {
+  slot: SegmentSlot;
+  /** Position in the project's slots — picks the slot's color */
+  index: number;
+  segments: Segment[];
+}
+
 export interface ProjectLayoutProps {
   // Core data
   project: Project;
@@ -23,20 +32,19 @@ export interface ProjectLayoutProps {
   projectId: string;
 
   // Derived data (pre-computed in page.tsx)
-  hooks: Segment[];
-  bodies: Segment[];
-  ctas: Segment[];
+  slotGroups: SlotGroup[];
+  /** Every required slot has at least one segment */
+  hasRequiredSegments: boolean;
   renderedVariants: Variant[];
   activeVariants: Variant[];
   failedSegments: Segment[];
   failedVariants: Variant[];
   isSplitTest: boolean;
   hasFailures: boolean;
-  bestSegmentIds: {
-    hook: string | null;
-    body: string | null;
-    cta: string | null;
-  };
+  /** Loudest vs quietest segment, when further apart than the threshold */
+  loudnessMismatch: LoudnessMismatch | null;
+  /** Best segment per slot key (slots with 2+ segments) */
+  bestSegmentIds: Record<string, string | null>;
 
   // State + callbacks
   selectedVariantId: string | null;
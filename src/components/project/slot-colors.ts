@@ -0,0 +1,95 @@
+/**
+ * slot-colors.ts — Accent colors for a project's segment slots
+ *
+ * Slots are project-defined (lib/variant/slots.ts), so colors go by slot
+ * position: hook/body/CTA keep their sky/emerald/violet, further slots
+ * continue through the palette. Class names are written out in full so
+ * Tailwind picks them up.
+ */
+
+export interface SlotColor {
+  /** Accent text (labels, counts) */
+  text: string;
+  /** Solid dot */
+  dot: string;
+  /** Bar fill in comparison charts */
+  bar: string;
+  /** Icon tile background */
+  iconBg: string;
+  /** Soft tile background */
+  softBg: string;
+  /** Border while a drop zone is active */
+  borderActive: string;
+}
+
+const PALETTE: SlotColor[] = [
+  {
+    text: "text-sky-400",
+    dot: "bg-sky-400",
+    bar: "bg-sky-400/60",
+    iconBg: "bg-sky-500/15",
+    softBg: "bg-sky-500/10",
+    borderActive: "border-sky-500/30",
+  },
+  {
+    text: "text-emerald-400",
+    dot: "bg-emerald-400",
+    bar: "bg-emerald-400/60",
+    iconBg: "bg-emerald-500/15",
+    softBg: "bg-emerald-500/10",
+    borderActive: "border-emerald-500/30",
+  },
+  {
+    text: "text-violet-400",
+    dot: "bg-violet-400",
+    bar: "bg-violet-400/60",
+    iconBg: "bg-violet-500/15",
+    softBg: "bg-violet-500/10",
+    borderActive: "border-violet-500/30",
+  },
+  {
+    text: "text-amber-400",
+    dot: "bg-amber-400",
+    bar: "bg-amber-400/60",
+    iconBg: "bg-amber-500/15",
+    softBg: "bg-amber-500/10",
+    borderActive: "border-amber-500/30",
+  },
+  {
+    text: "text-rose-400",
+    dot: "bg-rose-400",
+    bar: "bg-rose-400/60",
+    iconBg: "bg-rose-500/15",
+    softBg: "bg-rose-500/10",
+    borderActive: "border-rose-500/30",
+  },
+  {
+    text: "text-cyan-400",
+    dot: "bg-cyan-400",
+    bar: "bg-cyan-400/60",
+    iconBg: "bg-cyan-500/15",
+    softBg: "bg-cyan-500/10",
+    borderActive: "border-cyan-500/30",
+  },
+  {
+    text: "text-fuchsia-400",
+    dot: "bg-fuchsia-400",
+    bar: "bg-fuchsia-400/60",
+    iconBg: "bg-fuchsia-500/15",
+    softBg: "bg-fuchsia-500/10",
+    borderActive: "border-fuchsia-500/30",
+  },
+  {
+    text: "text-lime-400",
+    dot: "bg-lime-400",
+    bar: "bg-lime-400/60",
+    iconBg: "bg-lime-500/15",
+    softBg: "bg-lime-500/10",
+    borderActive: "border-lime-500/30",
+  },
+];
+
+/** Colors for the slot at this position */
+export function slotColor(index: number): SlotColor {
+  return PALETTE[((index % PALETTE.length) + PALETTE.length) % PALETTE.length];
+}
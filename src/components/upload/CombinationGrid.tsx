@@ -1,61 +1,100 @@
 /**
  * CombinationGrid — Shows all possible variant combinations with deselection
  *
- * Each row shows hook + body + CTA label with a checkbox.
- * Users can uncheck combos to exclude them from processing.
+ * Each row shows one segment label per slot (in the slot's color) with a
+ * checkbox; skipped optional slots are simply absent from the row.
+ * Users can uncheck combos to exclude them from processing. Exclusions are
+ * keyed by segment IDs (combinationKey) and saved on the project by the
+ * upload page; the process route skips them.
+ *
+ * A design toggle switches between the full factorial and the fractional
+ * design (a D-optimal subset that still measures every segment's effect).
+ * In fractional mode the subset is fixed, so rows are previewed read-only.
+ * Past MAX_LISTED combinations the full design isn't listed row by row.
  */
 
 "use client";
 
 import { useMemo } from "react";
-import type { Database } from "@/lib/supabase/types";
+import { slotColor } from "@/components/project/slot-colors";
+import {
+  generateCombinations,
+  fractionalVariantCount,
+  slotLevelCounts,
+  variantCount,
+  combinationKey as comboKey,
+} from "@/lib/variant/combinations";
+import type { Database, DesignMode, SegmentSlot } from "@/lib/supabase/types";
 
 type Segment = Database["public"]["Tables"]["segments"]["Row"];
 
+/** Longer lists are unusable as checkboxes (and slow to build) */
+const MAX_LISTED = 1000;
+
+/** A combination as a grid row: its key and each part's label and color */
+function toRow(combo: { segments: Segment[] }, slots: SegmentSlot[]) {
+  return {
+    key: comboKey(combo.segments.map((s) => s.id)),
+    parts: combo.segments.map((s) => ({
+      id: s.id,
+      label: s.label,
+      color: slotColor(slots.findIndex((slot) => slot.key === s.type)).text,
+    })),
+  };
+}
+
 interface CombinationGridProps {
-  hooks: Segment[];
-  bodies: Segment[];
-  ctas: Segment[];
+  slots: SegmentSlot[];
+  segments: Segment[];
   excluded: Set<string>;
   onToggle: (comboKey: string) => void;
-}
-
-function comboKey(hookId: string, bodyId: string, ctaId: string): string {
-  return `${hookId}|${bodyId}|${ctaId}`;
+  design: DesignMode;
+  onDesignChange: (design: DesignMode) => void;
 }
 
 export function CombinationGrid({
-  hooks,
-  bodies,
-  ctas,
+  slots,
+  segments,
   excluded,
   onToggle,
+  design,
+  onDesignChange,
 }: CombinationGridProps) {
-  const combinations = useMemo(() => {
-    const combos: {
-      key: string;
-      hookLabel: string;
-      bodyLabel: string;
-      ctaLabel: string;
-    }[] = [];
-    for (const h of hooks) {
-      for (const b of bodies) {
-        for (const c of ctas) {
-          combos.push({
-            key: comboKey(h.id, b.id, c.id),
-            hookLabel: h.label,
-            bodyLabel: b.label,
-            ctaLabel: c.label,
-          });
-        }
-      }
-    }
-    return combos;
-  }, [hooks, bodies, ctas]);
-
-  const activeCount = combinations.filter((c) => !excluded.has(c.key)).length;
-
-  if (combinations.length === 0) return null;
+  const levelCounts = useMemo(() => slotLevelCounts(slots, segments), [slots, segments]);
+  const totalCount = variantCount(levelCounts);
+  const fractionalCount = fractionalVariantCount(levelCounts);
+  const isFractional = design === "fractional";
+
+  const combinations = useMemo(
+    () =>
+      totalCount > 0 && totalCount <= MAX_LISTED
+        ? generateCombinations(slots, segments, "full").map((c) => toRow(c, slots))
+        : [],
+    [slots, segments, totalCount]
+  );
+
+  // Combos the fractional design would render
+  const fractional = useMemo(
+    () =>
+      totalCount > 0
+        ? generateCombinations(slots, segments, "fractional").map((c) => toRow(c, slots))
+        : [],
+    [slots, segments, totalCount]
+  );
+  const fractionalKeys = useMemo(
+    () => new Set(fractional.map((c) => c.key)),
+    [fractional]
+  );
+
+  const listable = totalCount <= MAX_LISTED;
+  const rows = listable ? combinations : isFractional ? fractional : [];
+  const isIncluded = (key: string) =>
+    isFractional ? fractionalKeys.has(key) : !excluded.has(key);
+  const activeCount = isFractional
+    ? fractionalCount
+    : combinations.filter((c) => isIncluded(c.key)).length;
+
+  if (totalCount === 0) return null;
 
   return (
     <div className="rounded-xl border border-white/10 bg-white/[0.02] overflow-hidden">
@@ -65,48 +104,89 @@ export function CombinationGrid({
             Variant Combinations
           </h3>
           <p className="text-xs text-white/30 mt-0.5">
-            {activeCount} of {combinations.length} selected
+            {!listable && !isFractional
+              ? `${totalCount.toLocaleString()} combinations`
+              : `${activeCount} of ${totalCount} selected`}
           </p>
         </div>
-        <button
-          onClick={() => {
-            // Toggle all: if any excluded, select all; if all selected, deselect all
-            if (excluded.size > 0) {
-              // Clear all exclusions
-              excluded.forEach((key) => onToggle(key));
-            } else {
-              // Exclude all
-              combinations.forEach((c) => onToggle(c.key));
-            }
-          }}
-          className="text-xs text-primary hover:text-primary/80 transition-colors"
-        >
-          {excluded.size > 0 ? "Select All" : "Deselect All"}
-        </button>
+        <div className="flex items-center gap-3">
+          <div className="flex rounded-lg border border-white/10 p-0.5">
+            {(["full", "fractional"] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => onDesignChange(mode)}
+                disabled={mode === "fractional" && fractionalCount >= totalCount}
+                className={`rounded-md px-2.5 py-1 text-xs font-medium transition-colors disabled:opacity-30 ${
+                  design === mode
+                    ? "bg-white/10 text-white/80"
+                    : "text-white/30 hover:text-white/50"
+                }`}
+              >
+                {mode === "full"
+                  ? `Full (${totalCount.toLocaleString()})`
+                  : `Fractional (${fractionalCount})`}
+              </button>
+            ))}
+          </div>
+          {!isFractional && listable && (
+            <button
+              onClick={() => {
+                // Toggle all: if any excluded, select all; if all selected, deselect all
+                if (excluded.size > 0) {
+                  // Clear all exclusions
+                  excluded.forEach((key) => onToggle(key));
+                } else {
+                  // Exclude all
+                  combinations.forEach((c) => onToggle(c.key));
+                }
+              }}
+              className="text-xs text-primary hover:text-primary/80 transition-colors"
+            >
+              {excluded.size > 0 ? "Select All" : "Deselect All"}
+            </button>
+          )}
+        </div>
       </div>
 
+      {isFractional && (
+        <p className="px-5 py-2 text-[11px] text-white/30 border-b border-white/5">
+          Renders {fractionalCount} of {totalCount.toLocaleString()} combinations —
+          every segment is still measured, but interactions between them
+          can&apos;t be estimated.
+        </p>
+      )}
+
+      {!listable && !isFractional && (
+        <p className="px-5 py-2 text-[11px] text-white/30 border-b border-white/5">
+          Too many combinations to pick individually — all of them will be
+          rendered. Switch to the fractional design to render {fractionalCount}.
+        </p>
+      )}
+
       <div className="max-h-64 overflow-y-auto">
-        {combinations.map((combo) => {
-          const isExcluded = excluded.has(combo.key);
+        {rows.map((combo) => {
+          const isExcluded = !isIncluded(combo.key);
           return (
             <label
               key={combo.key}
-              className={`flex items-center gap-3 px-5 py-2.5 cursor-pointer transition-colors hover:bg-white/[0.02] border-b border-white/[0.03] last:border-0 ${
-                isExcluded ? "opacity-40" : ""
-              }`}
+              className={`flex items-center gap-3 px-5 py-2.5 transition-colors hover:bg-white/[0.02] border-b border-white/[0.03] last:border-0 ${
+                isFractional ? "cursor-default" : "cursor-pointer"
+              } ${isExcluded ? "opacity-40" : ""}`}
             >
               <input
                 type="checkbox"
                 checked={!isExcluded}
+                disabled={isFractional}
                 onChange={() => onToggle(combo.key)}
                 className="h-3.5 w-3.5 rounded border-white/20 bg-transparent accent-primary"
               />
               <span className="flex items-center gap-1.5 text-xs text-white/60 min-w-0">
-                <span className="text-sky-400 truncate">{combo.hookLabel}</span>
-                <span className="text-white/15">+</span>
-                <span className="text-emerald-400 truncate">{combo.bodyLabel}</span>
-                <span className="text-white/15">+</span>
-                <span className="text-violet-400 truncate">{combo.ctaLabel}</span>
+                {combo.parts.map((part, i) => (
+                  <span key={part.id} className="flex items-center gap-1.5 min-w-0">
+                    {i > 0 && <span className="text-white/15">+</span>}
+                    <span className={`${part.color} truncate`}>{part.label}</span>
+                  </span>
+                ))}
               </span>
             </label>
           );
@@ -0,0 +1,88 @@
+/**
+ * LoudnessSettings — Pick the project's loudness target on the upload page
+ *
+ * Every segment's audio is normalized to this integrated loudness (EBU
+ * R128, lib/video/loudness.ts) so a phone-recorded hook and a studio body
+ * play at the same volume. "Off" keeps each segment's own level. Saving a
+ * new target sends already-normalized segments back for re-normalization
+ * on the next processing run.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { LOUDNESS_TARGETS } from "@/lib/video/loudness";
+
+interface LoudnessSettingsProps {
+  projectId: string;
+  /** Current target (LUFS), null when loudness normalization is off */
+  targetLufs: number | null;
+  /** Segments already normalized — they're re-normalized on a change */
+  normalizedCount: number;
+  onSaved: (targetLufs: number | null) => void;
+}
+
+export function LoudnessSettings({
+  projectId,
+  targetLufs,
+  normalizedCount,
+  onSaved,
+}: LoudnessSettingsProps) {
+  const [saving, setSaving] = useState(false);
+
+  // A target set outside the presets (e.g. via the API) stays selectable
+  const options: { lufs: number; label: string }[] = [...LOUDNESS_TARGETS];
+  if (targetLufs !== null && !options.some((o) => o.lufs === targetLufs)) {
+    options.push({ lufs: targetLufs, label: `${targetLufs} LUFS` });
+  }
+
+  async function handleChange(value: string) {
+    const next = value === "off" ? null : Number(value);
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ loudnessTargetLufs: next }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.error || "Failed to save loudness target");
+      onSaved(body.loudnessTargetLufs);
+      toast.success(
+        normalizedCount > 0
+          ? "Loudness target saved — segments are re-normalized on the next processing run"
+          : "Loudness target saved"
+      );
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save loudness target");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-border bg-card px-5 py-3.5">
+      <div>
+        <p className="text-sm font-medium text-foreground">Loudness</p>
+        <p className="mt-0.5 text-xs text-muted-foreground">
+          Every segment is normalized to the same volume (EBU R128), so parts
+          recorded on different devices play evenly.
+        </p>
+      </div>
+      <select
+        value={targetLufs === null ? "off" : String(targetLufs)}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={saving}
+        className="rounded-md border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/70 focus:outline-none disabled:opacity-50"
+      >
+        {options.map((option) => (
+          <option key={option.lufs} value={option.lufs}>
+            {option.label}
+          </option>
+        ))}
+        <option value="off">Off — keep original levels</option>
+      </select>
+    </div>
+  );
+}
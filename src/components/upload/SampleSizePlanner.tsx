@@ -0,0 +1,164 @@
+/**
+ * SampleSizePlanner — How long will this test take?
+ *
+ * Sits next to the CombinationGrid on the upload page. Given the number of
+ * selected variants, a baseline rate and the smallest lift worth detecting,
+ * shows viewers needed per variant, in total, and the days that takes at
+ * the project's recent traffic. Recalculates server-side as combos are
+ * toggled or the design changes. Baseline and daily views default to the
+ * project's own history and can be overridden (e.g. for a new project).
+ */
+
+"use client";
+
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+
+interface SampleSizePlannerProps {
+  projectId: string;
+  variantCount: number;
+}
+
+interface PlannerData {
+  history: {
+    days: number;
+    dailyViews: number;
+    completionRate: number | null;
+  };
+  plan: {
+    perVariant: number;
+    total: number;
+    days: number | null;
+    comparisons: number;
+  } | null;
+}
+
+/** Relative lifts offered in the picker */
+const MDE_OPTIONS = [0.05, 0.1, 0.2, 0.3, 0.5];
+
+function formatDuration(days: number): string {
+  if (days <= 1) return "about a day";
+  if (days < 14) return `about ${days} days`;
+  if (days < 60) return `about ${Math.round(days / 7)} weeks`;
+  return `about ${Math.round(days / 30)} months`;
+}
+
+export function SampleSizePlanner({ projectId, variantCount }: SampleSizePlannerProps) {
+  // Percent strings as typed; empty means "use the project's history"
+  const [baseline, setBaseline] = useState("");
+  const [mde, setMde] = useState(0.1);
+  const [dailyViews, setDailyViews] = useState("");
+
+  const { data } = useQuery<PlannerData>({
+    queryKey: ["sample-size", projectId, variantCount, baseline, mde, dailyViews],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        variantCount: String(variantCount),
+        mde: String(mde),
+      });
+      if (Number(baseline) > 0) params.set("baselineRate", String(Number(baseline) / 100));
+      if (dailyViews !== "") params.set("dailyViews", dailyViews);
+      const res = await fetch(`/api/projects/${projectId}/sample-size?${params}`);
+      if (!res.ok) throw new Error("Failed to plan sample size");
+      return res.json();
+    },
+    placeholderData: keepPreviousData,
+    enabled: variantCount > 0,
+  });
+
+  const history = data?.history;
+  const plan = data?.plan;
+  const inputClass =
+    "w-20 rounded-md border border-white/10 bg-white/5 px-2 py-1 text-right text-xs text-white/70 focus:outline-none";
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/[0.02] p-5">
+      <h3 className="text-sm font-medium text-white/80">Test Duration</h3>
+      <p className="mt-0.5 text-xs text-white/30">
+        {variantCount} variant{variantCount !== 1 ? "s" : ""} selected
+      </p>
+
+      <div className="mt-4 space-y-2.5">
+        <label className="flex items-center justify-between gap-3 text-[11px] text-white/40">
+          Baseline rate (%)
+          <input
+            type="number"
+            min={0.1}
+            max={99}
+            step={0.1}
+            value={baseline}
+            onChange={(e) => setBaseline(e.target.value)}
+            placeholder={
+              history && history.completionRate !== null
+                ? String(Math.round(history.completionRate * 1000) / 10)
+                : "30"
+            }
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center justify-between gap-3 text-[11px] text-white/40">
+          Detect a lift of
+          <select
+            value={mde}
+            onChange={(e) => setMde(Number(e.target.value))}
+            className="rounded-md border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/70 focus:outline-none"
+          >
+            {MDE_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                +{Math.round(option * 100)}%
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-3 text-[11px] text-white/40">
+          Plays per day
+          <input
+            type="number"
+            min={0}
+            value={dailyViews}
+            onChange={(e) => setDailyViews(e.target.value)}
+            placeholder={history ? String(history.dailyViews) : ""}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div className="mt-4 border-t border-white/5 pt-4">
+        {variantCount < 2 ? (
+          <p className="text-xs text-white/30">Select 2+ variants to run a test</p>
+        ) : !plan ? (
+          <p className="text-xs text-white/30">
+            Enter a baseline rate to estimate the test length
+          </p>
+        ) : (
+          <div className="space-y-1">
+            <p className="text-lg font-semibold tabular-nums text-white/80">
+              {plan.days === null ? "—" : formatDuration(plan.days)}
+            </p>
+            <p className="text-xs text-white/40">
+              <span className="font-mono tabular-nums text-white/60">
+                {plan.perVariant.toLocaleString()}
+              </span>{" "}
+              viewers per variant ·{" "}
+              <span className="font-mono tabular-nums text-white/60">
+                {plan.total.toLocaleString()}
+              </span>{" "}
+              total
+            </p>
+            {plan.days === null && (
+              <p className="text-[11px] text-white/25">
+                Enter expected plays per day to estimate the duration
+              </p>
+            )}
+          </div>
+        )}
+        {history && history.days > 0 && (
+          <p className="mt-3 text-[10px] text-white/20">
+            Defaults from the last {history.days} day{history.days !== 1 ? "s" : ""} of
+            traffic · 95% confidence, 80% power
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,15 @@
  * SegmentUploader.tsx — Drag-and-drop video segment upload component
  *
  * PURPOSE:
- *   Provides the upload interface for a single segment type (hook, body, or CTA).
- *   Three of these are rendered side-by-side on the upload page, one per type.
+ *   Provides the upload interface for a single segment slot (hook, body,
+ *   CTA, or whatever slots the project defines). The upload page renders
+ *   one per slot, side-by-side in slot order.
+ *
+ * CAPTIONS:
+ *   Each uploaded segment has a CC button for attaching an SRT/VTT file
+ *   (validated and converted to WebVTT by the segment captions route).
+ *   The button is highlighted while the segment has captions; the × next
+ *   to it removes them.
  *
  * UPLOAD STRATEGY:
  *   - Small files (<100MB): Direct browser-to-R2 upload via presigned URL (fast, simple)
@@ -17,15 +24,19 @@ import { useCallback, useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
+import { toast } from "sonner";
 import { SegmentPreviewDialog } from "@/components/project/SegmentPreviewDialog";
+import { slotColor } from "@/components/project/slot-colors";
 import { formatFileSize, formatDuration } from "@/lib/utils/format";
-import type { SegmentType, Database } from "@/lib/supabase/types";
+import type { Database, SegmentSlot } from "@/lib/supabase/types";
 
 type Segment = Database["public"]["Tables"]["segments"]["Row"];
 
 interface SegmentUploaderProps {
   projectId: string;
-  type: SegmentType;
+  slot: SegmentSlot;
+  /** Position in the project's slots (picks the accent color) */
+  slotIndex: number;
   segments: Segment[];
   onUploadComplete: () => void;
 }
@@ -39,30 +50,6 @@ interface UploadState {
   segmentId?: string;
 }
 
-const typeConfig = {
-  hook: {
-    title: "Hooks",
-    description: "Opening segments that grab attention",
-    color: "text-sky-400",
-    borderActive: "border-sky-500/30",
-    iconBg: "bg-sky-500/10",
-  },
-  body: {
-    title: "Bodies",
-    description: "Main content segments",
-    color: "text-emerald-400",
-    borderActive: "border-emerald-500/30",
-    iconBg: "bg-emerald-500/10",
-  },
-  cta: {
-    title: "CTAs",
-    description: "Call-to-action closing segments",
-    color: "text-violet-400",
-    borderActive: "border-violet-500/30",
-    iconBg: "bg-violet-500/10",
-  },
-};
-
 const statusBadge: Record<string, string> = {
   normalized: "bg-emerald-500/10 text-emerald-400",
   failed: "bg-red-500/10 text-red-400",
@@ -150,7 +137,8 @@ async function chunkedUpload(
 
 export function SegmentUploader({
   projectId,
-  type,
+  slot,
+  slotIndex,
   segments,
   onUploadComplete,
 }: SegmentUploaderProps) {
@@ -158,7 +146,14 @@ export function SegmentUploader({
   const [dragOver, setDragOver] = useState(false);
   const [deleting, setDeleting] = useState<Set<string>>(new Set());
   const [previewSegment, setPreviewSegment] = useState<Segment | null>(null);
-  const config = typeConfig[type];
+  const color = slotColor(slotIndex);
+  const type = slot.key;
+  const description =
+    slotIndex === 0
+      ? "Opening segments that grab attention"
+      : slot.required
+        ? "Every variant includes one of these"
+        : "Optional — variants are also built without this part";
   const xhrMap = useRef<Map<File, XMLHttpRequest>>(new Map());
   const abortMap = useRef<Map<File, AbortController>>(new Map());
 
@@ -331,6 +326,35 @@ export function SegmentUploader({
     setUploads((prev) => prev.filter((u) => u.file !== file));
   }
 
+  async function uploadCaptions(segmentId: string, file: File) {
+    try {
+      const res = await fetch(
+        `/api/projects/${projectId}/segments/${segmentId}/captions`,
+        { method: "PUT", headers: { "Content-Type": "text/plain" }, body: await file.text() }
+      );
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error || "Failed to upload captions");
+      }
+      toast.success("Captions added");
+      onUploadComplete();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to upload captions");
+    }
+  }
+
+  async function removeCaptions(segmentId: string) {
+    const res = await fetch(
+      `/api/projects/${projectId}/segments/${segmentId}/captions`,
+      { method: "DELETE" }
+    );
+    if (!res.ok) {
+      toast.error("Failed to remove captions");
+      return;
+    }
+    onUploadComplete();
+  }
+
   async function deleteSegment(segmentId: string) {
     setDeleting((prev) => new Set(prev).add(segmentId));
     try {
@@ -363,13 +387,13 @@ export function SegmentUploader({
 
   return (
     <Card
-      className={`border-border bg-card transition-colors ${dragOver ? config.borderActive : ""}`}
+      className={`border-border bg-card transition-colors ${dragOver ? color.borderActive : ""}`}
     >
       <CardHeader className="pb-3">
-        <CardTitle className={`text-[15px] font-medium ${config.color}`}>
-          {config.title}
+        <CardTitle className={`text-[15px] font-medium ${color.text}`}>
+          {slot.label}
         </CardTitle>
-        <p className="text-xs text-muted-foreground">{config.description}</p>
+        <p className="text-xs text-muted-foreground">{description}</p>
       </CardHeader>
       <CardContent className="space-y-2.5">
         {/* Existing segments */}
@@ -403,6 +427,36 @@ export function SegmentUploader({
                   </svg>
                 </button>
               )}
+              {/* Captions: upload/replace, and remove when present */}
+              <label
+                className={`cursor-pointer rounded-md border px-1 text-[10px] font-bold leading-4 transition-colors ${
+                  seg.captions_storage_key
+                    ? "border-primary/60 bg-primary/10 text-primary"
+                    : "border-border text-muted-foreground hover:text-foreground"
+                }`}
+                title={seg.captions_storage_key ? "Replace captions (SRT/VTT)" : "Add captions (SRT/VTT)"}
+              >
+                CC
+                <input
+                  type="file"
+                  accept=".srt,.vtt,text/vtt"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) uploadCaptions(seg.id, file);
+                  }}
+                />
+              </label>
+              {seg.captions_storage_key && (
+                <button
+                  onClick={() => removeCaptions(seg.id)}
+                  className="-ml-1.5 text-[11px] text-muted-foreground transition-colors hover:text-red-400"
+                  title="Remove captions"
+                >
+                  ×
+                </button>
+              )}
               <span
                 className={`inline-flex items-center rounded-full px-2 py-0.5 text-[11px] font-medium ${statusBadge[seg.status] || statusBadge.uploaded}`}
               >
@@ -510,10 +564,10 @@ export function SegmentUploader({
           }`}
         >
           <div
-            className={`mb-2.5 flex h-9 w-9 items-center justify-center rounded-lg ${config.iconBg}`}
+            className={`mb-2.5 flex h-9 w-9 items-center justify-center rounded-lg ${color.softBg}`}
           >
             <svg
-              className={`h-4 w-4 ${config.color}`}
+              className={`h-4 w-4 ${color.text}`}
               fill="none"
               viewBox="0 0 24 24"
               stroke="currentColor"
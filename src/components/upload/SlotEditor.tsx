@@ -0,0 +1,193 @@
+/**
+ * SlotEditor — Edit the project's segment slots on the upload page
+ *
+ * Slots are the parts every variant is built from, in playback order
+ * (lib/variant/slots.ts). Users rename, reorder, add and remove slots and
+ * mark them optional, then save — the project PATCH route validates the
+ * list and refuses changes that would strand uploaded segments or break
+ * rendered variants.
+ *
+ * A slot's key is derived from its label when it's added and never
+ * changes afterwards: segments.type points at it. A slot that still has
+ * segments can't be removed here.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { slotColor } from "@/components/project/slot-colors";
+import { MAX_SLOTS, slotKeyFromLabel, validateSlots } from "@/lib/variant/slots";
+import type { SegmentSlot } from "@/lib/supabase/types";
+
+interface SlotEditorProps {
+  projectId: string;
+  slots: SegmentSlot[];
+  /** Segments per slot key — slots with segments can't be removed */
+  segmentCounts: Record<string, number>;
+  onSaved: (slots: SegmentSlot[]) => void;
+}
+
+/** A key for a new slot that no other slot uses yet */
+function uniqueKey(label: string, slots: SegmentSlot[]): string {
+  const base = slotKeyFromLabel(label).slice(0, 21);
+  let key = base;
+  for (let n = 2; slots.some((s) => s.key === key); n++) key = `${base}_${n}`;
+  return key;
+}
+
+export function SlotEditor({ projectId, slots, segmentCounts, onSaved }: SlotEditorProps) {
+  const [draft, setDraft] = useState<SegmentSlot[]>(slots);
+  const [newLabel, setNewLabel] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(slots);
+  }, [slots]);
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(slots);
+  const invalid = validateSlots(draft);
+
+  function update(index: number, changes: Partial<SegmentSlot>) {
+    setDraft((prev) => prev.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+  }
+
+  function move(index: number, by: number) {
+    setDraft((prev) => {
+      const next = [...prev];
+      const [slot] = next.splice(index, 1);
+      next.splice(index + by, 0, slot);
+      return next;
+    });
+  }
+
+  function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    const label = newLabel.trim();
+    if (!label || draft.length >= MAX_SLOTS) return;
+    setDraft((prev) => [...prev, { key: uniqueKey(label, prev), label, required: false }]);
+    setNewLabel("");
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ slots: draft }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.error || "Failed to save slots");
+      onSaved(body.slots);
+      toast.success("Slots saved");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save slots");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-[15px] font-medium text-foreground">
+          Video Structure
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          The parts every variant is built from, in playback order. Optional
+          parts are tested both with and without.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2.5">
+        {draft.map((slot, i) => {
+          const count = segmentCounts[slot.key] ?? 0;
+          return (
+            <div
+              key={slot.key}
+              className="flex items-center gap-2 rounded-lg border border-border px-3 py-2"
+            >
+              <span className={`h-2 w-2 shrink-0 rounded-full ${slotColor(i).dot}`} />
+              <Input
+                value={slot.label}
+                onChange={(e) => update(i, { label: e.target.value })}
+                maxLength={40}
+                className="h-8 flex-1"
+              />
+              <span className="w-20 shrink-0 text-right text-xs text-muted-foreground">
+                {count} segment{count !== 1 ? "s" : ""}
+              </span>
+              <label className="flex shrink-0 items-center gap-1.5 text-xs text-white/60">
+                <input
+                  type="checkbox"
+                  checked={slot.required}
+                  disabled={i === 0}
+                  onChange={(e) => update(i, { required: e.target.checked })}
+                />
+                Required
+              </label>
+              <button
+                onClick={() => move(i, -1)}
+                disabled={i === 0}
+                className="rounded-md px-1.5 text-xs text-muted-foreground transition-colors hover:text-foreground disabled:opacity-30"
+                title="Move up"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => move(i, 1)}
+                disabled={i === draft.length - 1}
+                className="rounded-md px-1.5 text-xs text-muted-foreground transition-colors hover:text-foreground disabled:opacity-30"
+                title="Move down"
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => setDraft((prev) => prev.filter((_, j) => j !== i))}
+                disabled={count > 0 || draft.length === 1}
+                className="rounded-md px-1.5 text-xs text-muted-foreground transition-colors hover:text-red-400 disabled:opacity-30"
+                title={count > 0 ? "Remove its segments first" : "Remove slot"}
+              >
+                Remove
+              </button>
+            </div>
+          );
+        })}
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <form onSubmit={handleAdd} className="flex items-center gap-2">
+            <Input
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              placeholder="Testimonial"
+              maxLength={40}
+              className="h-8 w-44"
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              size="sm"
+              disabled={!newLabel.trim() || draft.length >= MAX_SLOTS}
+            >
+              Add slot
+            </Button>
+          </form>
+          <div className="flex items-center gap-3">
+            {dirty && invalid && <span className="text-xs text-red-400">{invalid}</span>}
+            {dirty && (
+              <Button variant="ghost" size="sm" onClick={() => setDraft(slots)}>
+                Reset
+              </Button>
+            )}
+            <Button size="sm" onClick={handleSave} disabled={!dirty || !!invalid || saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
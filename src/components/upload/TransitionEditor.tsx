@@ -0,0 +1,170 @@
+/**
+ * TransitionEditor — Set how each segment boundary is crossed
+ *
+ * One row per boundary between consecutive slots: cut, crossfade, fade
+ * through black, J-cut or L-cut, with a duration for anything but a cut
+ * (lib/video/transitions.ts). A transition belongs to the slot it leads
+ * into, so it also applies when an optional slot before it is skipped.
+ * Saved on the project; the next processing run re-renders the variants
+ * whose boundaries changed.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { slotColor } from "@/components/project/slot-colors";
+import {
+  CUT,
+  DEFAULT_TRANSITION_MS,
+  MAX_TRANSITION_MS,
+  MIN_TRANSITION_MS,
+  TRANSITION_OPTIONS,
+  sanitizeTransitions,
+  validateTransitions,
+} from "@/lib/video/transitions";
+import type {
+  CompositionMode,
+  ProjectTransitions,
+  SegmentSlot,
+  TransitionType,
+} from "@/lib/supabase/types";
+
+interface TransitionEditorProps {
+  projectId: string;
+  slots: SegmentSlot[];
+  transitions: ProjectTransitions;
+  composition: CompositionMode;
+  onSaved: (transitions: ProjectTransitions) => void;
+}
+
+export function TransitionEditor({
+  projectId,
+  slots,
+  transitions,
+  composition,
+  onSaved,
+}: TransitionEditorProps) {
+  const [draft, setDraft] = useState<ProjectTransitions>(transitions);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(transitions);
+  }, [transitions]);
+
+  const cleaned = sanitizeTransitions(draft, slots);
+  const dirty = JSON.stringify(cleaned) !== JSON.stringify(sanitizeTransitions(transitions, slots));
+  const invalid = validateTransitions(cleaned, slots);
+
+  function setType(key: string, type: TransitionType) {
+    setDraft((prev) => ({
+      ...prev,
+      [key]: {
+        type,
+        durationMs: type === "cut" ? 0 : prev[key]?.durationMs || DEFAULT_TRANSITION_MS,
+      },
+    }));
+  }
+
+  function setDuration(key: string, seconds: string) {
+    setDraft((prev) => ({
+      ...prev,
+      [key]: { ...(prev[key] ?? CUT), durationMs: Math.round(Number(seconds) * 1000) },
+    }));
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ transitions: cleaned }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.error || "Failed to save transitions");
+      onSaved(body.transitions);
+      toast.success("Transitions saved");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save transitions");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (slots.length < 2) return null;
+
+  return (
+    <Card className="border-border bg-card">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-[15px] font-medium text-foreground">
+          Transitions
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          How each part leads into the next.
+          {composition === "dynamic" &&
+            " Variants composed on request always use cuts — transitions apply to rendered variants."}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2.5">
+        {slots.slice(1).map((slot, i) => {
+          const transition = draft[slot.key] ?? CUT;
+          const option = TRANSITION_OPTIONS.find((o) => o.type === transition.type);
+          return (
+            <div
+              key={slot.key}
+              className="flex flex-wrap items-center gap-2 rounded-lg border border-border px-3 py-2"
+            >
+              <span className="flex min-w-40 flex-1 items-center gap-1.5 text-xs text-white/60">
+                <span className={`h-2 w-2 shrink-0 rounded-full ${slotColor(i).dot}`} />
+                {slots[i].label}
+                <span className="text-white/30">→</span>
+                <span className={`h-2 w-2 shrink-0 rounded-full ${slotColor(i + 1).dot}`} />
+                {slot.label}
+              </span>
+              <select
+                value={transition.type}
+                onChange={(e) => setType(slot.key, e.target.value as TransitionType)}
+                title={option?.hint}
+                className="rounded-md border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/70 focus:outline-none"
+              >
+                {TRANSITION_OPTIONS.map((o) => (
+                  <option key={o.type} value={o.type}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1.5 text-xs text-white/40">
+                <input
+                  type="number"
+                  min={MIN_TRANSITION_MS / 1000}
+                  max={MAX_TRANSITION_MS / 1000}
+                  step={0.1}
+                  value={transition.type === "cut" ? "" : transition.durationMs / 1000}
+                  onChange={(e) => setDuration(slot.key, e.target.value)}
+                  disabled={transition.type === "cut"}
+                  className="w-16 rounded-md border border-white/10 bg-white/5 px-2 py-1 text-right text-xs text-white/70 focus:outline-none disabled:opacity-30"
+                />
+                s
+              </label>
+            </div>
+          );
+        })}
+
+        <div className="flex items-center justify-end gap-3">
+          {dirty && invalid && <span className="text-xs text-red-400">{invalid}</span>}
+          {dirty && (
+            <Button variant="ghost" size="sm" onClick={() => setDraft(transitions)}>
+              Reset
+            </Button>
+          )}
+          <Button size="sm" onClick={handleSave} disabled={!dirty || !!invalid || saving}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
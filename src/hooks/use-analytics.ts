@@ -1,13 +1,37 @@
 /**
  * use-analytics.ts — TanStack Query hook for project analytics
  *
- * Fetches variant-level and segment-level analytics from the API.
+ * Fetches variant-level and segment-level analytics from the API, and the
+ * factorial (main effect + interaction) analysis for the Factorial tab.
  * Auto-refreshes every 30 seconds when the window is focused.
  */
 
 "use client";
 
 import { useQuery } from "@tanstack/react-query";
+import type { MetricValues } from "@/lib/analytics/revenue";
+
+/** Bayesian significance stats for one variant (see lib/analytics/bayesian.ts) */
+export interface VariantSignificance {
+  trials: number;
+  successes: number;
+  rate: number;
+  ciLower: number;
+  ciUpper: number;
+  probBeatControl: number | null;
+  /** Relative lift over the control's rate, percent */
+  lift: number | null;
+  probBest: number | null;
+  isControl: boolean;
+  sufficientSample: boolean;
+  isWinner: boolean;
+  /** p-values vs the control (see lib/analytics/sequential.ts) */
+  sequential: {
+    fixedPValue: number | null;
+    alwaysValidPValue: number | null;
+    significant: boolean;
+  } | null;
+}
 
 export interface VariantAnalytics {
   variant_id: string;
@@ -21,6 +45,12 @@ export interface VariantAnalytics {
   progress_75_count: number;
   complete_count: number;
   completion_rate: number;
+  stats: {
+    completion: VariantSignificance | null;
+    metric: VariantSignificance | null;
+  };
+  /** Conversions and revenue figures for the selected custom metric */
+  value: MetricValues | null;
 }
 
 export interface SegmentAnalytics {
@@ -30,6 +60,8 @@ export interface SegmentAnalytics {
   unique_viewers: number;
   complete_count: number;
   completion_rate: number;
+  /** Set when a custom metric is selected */
+  value?: MetricValues;
 }
 
 export interface DailyView {
@@ -40,11 +72,52 @@ export interface DailyView {
   completions: number;
 }
 
+export interface AudienceAnalytics {
+  /** Null for viewers who matched no audience ("Everyone else") */
+  id: string | null;
+  name: string;
+  viewers: number;
+  plays: number;
+  completions: number;
+  completionRate: number;
+  topVariantCode: string | null;
+  variants: {
+    variantId: string;
+    variantCode: string;
+    viewers: number;
+    plays: number;
+    completions: number;
+    completionRate: number;
+  }[];
+}
+
 export interface AnalyticsSummary {
   totalViews: number;
   totalCompletions: number;
   overallCompletionRate: number;
   topPerformer: VariantAnalytics | null;
+  metricId: string | null;
+  /** The selected custom metric, for labels and currency formatting */
+  metric: {
+    id: string;
+    name: string;
+    valueType: "count" | "unique" | "revenue";
+    currency: string | null;
+  } | null;
+  minSampleSize: number;
+  winnerProbability: number;
+  /** Null when there's nothing to compare (no stats or no control) */
+  sequential: {
+    alpha: number;
+    boundary: number;
+    comparisons: number;
+    conclusive: boolean;
+  } | null;
+  control: {
+    type: "variant" | "holdout";
+    variantId: string | null;
+    share: number | null;
+  };
 }
 
 export interface AnalyticsData {
@@ -52,13 +125,64 @@ export interface AnalyticsData {
   variants: VariantAnalytics[];
   dailyViews: DailyView[];
   segmentAnalytics: SegmentAnalytics[] | null;
+  /** The "no video" control bucket, when the project has one */
+  holdout: {
+    viewers: number;
+    metric: VariantSignificance | null;
+    value: MetricValues | null;
+  } | null;
+  /** Per-audience breakdown, when the project has audiences */
+  audiences: AudienceAnalytics[] | null;
+}
+
+export interface FactorialLevelEffect {
+  segmentId: string;
+  label: string;
+  trials: number;
+  estimatedRate: number;
+  effect: number;
+  ciLower: number;
+  ciUpper: number;
+  significant: boolean;
+}
+
+export interface FactorialInteractionEffect {
+  segmentIds: [string, string];
+  labels: [string, string];
+  trials: number;
+  effect: number;
+  ciLower: number;
+  ciUpper: number;
+  significant: boolean;
+}
+
+/** A slot key — "hook" | "body" | "cta" by default */
+export type FactorType = string;
+
+export interface FactorialAnalysis {
+  design: "full" | "fractional";
+  model: "interactions" | "main_effects";
+  totalTrials: number;
+  grandMean: number;
+  factors: { type: FactorType; label: string; levels: FactorialLevelEffect[] }[];
+  interactions: {
+    factors: [FactorType, FactorType];
+    terms: FactorialInteractionEffect[];
+  }[];
+}
+
+export interface FactorialData {
+  metricId: string | null;
+  analysis: FactorialAnalysis | null;
 }
 
 interface UseAnalyticsOptions {
   projectId: string;
   startDate?: string | null;
   endDate?: string | null;
-  segmentType?: "hook" | "body" | "cta" | null;
+  /** Slot key to include segment analytics for */
+  segmentType?: string | null;
+  metricId?: string | null;
   enabled?: boolean;
 }
 
@@ -67,11 +191,13 @@ async function fetchAnalytics({
   startDate,
   endDate,
   segmentType,
+  metricId,
 }: UseAnalyticsOptions): Promise<AnalyticsData> {
   const params = new URLSearchParams();
   if (startDate) params.set("startDate", startDate);
   if (endDate) params.set("endDate", endDate);
   if (segmentType) params.set("segmentType", segmentType);
+  if (metricId) params.set("metricId", metricId);
 
   const qs = params.toString();
   const url = `/api/projects/${projectId}/analytics${qs ? `?${qs}` : ""}`;
@@ -88,14 +214,45 @@ export function useAnalytics({
   startDate = null,
   endDate = null,
   segmentType = null,
+  metricId = null,
   enabled = true,
 }: UseAnalyticsOptions) {
   return useQuery<AnalyticsData>({
-    queryKey: ["analytics", projectId, startDate, endDate, segmentType],
+    queryKey: ["analytics", projectId, startDate, endDate, segmentType, metricId],
     queryFn: () =>
-      fetchAnalytics({ projectId, startDate, endDate, segmentType }),
+      fetchAnalytics({ projectId, startDate, endDate, segmentType, metricId }),
     enabled,
     refetchInterval: 30_000, // Auto-refresh every 30s
     refetchIntervalInBackground: false, // Only when tab is focused
   });
 }
+
+export function useFactorialAnalysis({
+  projectId,
+  startDate = null,
+  endDate = null,
+  metricId = null,
+  enabled = true,
+}: Omit<UseAnalyticsOptions, "segmentType">) {
+  return useQuery<FactorialData>({
+    queryKey: ["factorial", projectId, startDate, endDate, metricId],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (startDate) params.set("startDate", startDate);
+      if (endDate) params.set("endDate", endDate);
+      if (metricId) params.set("metricId", metricId);
+
+      const qs = params.toString();
+      const res = await fetch(
+        `/api/projects/${projectId}/analytics/factorial${qs ? `?${qs}` : ""}`
+      );
+      if (!res.ok) {
+        throw new Error("Failed to fetch factorial analysis");
+      }
+      return res.json();
+    },
+    enabled,
+    refetchInterval: 30_000,
+    refetchIntervalInBackground: false,
+  });
+}
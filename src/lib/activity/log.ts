@@ -4,9 +4,12 @@
  * Append-only ledger of project management events.
  * Fire-and-forget: never throws, never blocks the calling operation.
  * Works from both Next.js API routes and the standalone worker.
+ * Each event is also dispatched to the project's outgoing webhook
+ * subscriptions (lib/webhooks/dispatch.ts).
  */
 
 import type { SupabaseClient } from "@supabase/supabase-js";
+import { dispatchWebhookEvent } from "../webhooks/dispatch";
 
 export type ActivityEventType =
   | "segment_uploaded"
@@ -17,7 +20,11 @@ export type ActivityEventType =
   | "variant_rendered"
   | "variant_failed"
   | "segment_failed"
-  | "project_ready";
+  | "project_ready"
+  | "run_rolled_back"
+  | "experiment_started"
+  | "experiment_concluded"
+  | "experiment_stopped";
 
 interface LogActivityParams {
   supabase: SupabaseClient;
@@ -44,6 +51,11 @@ export async function logActivity({
       detail: detail ?? null,
       metadata: metadata ?? {},
     });
+    await dispatchWebhookEvent(supabase, projectId, eventType, {
+      title,
+      detail: detail ?? null,
+      ...metadata,
+    });
   } catch (err) {
     console.error(
       `[activity] Failed to log "${eventType}" for ${projectId}:`,
@@ -0,0 +1,191 @@
+/**
+ * bayesian.ts — Bayesian winner detection for split tests
+ *
+ * PURPOSE:
+ *   Picking the variant with the highest raw completion rate crowns winners
+ *   on noise — 2 completions out of 3 views "beats" 400 out of 1000. This
+ *   module turns per-variant trial/success counts into numbers that say how
+ *   sure we actually are, so tests don't get called early.
+ *
+ * HOW IT WORKS:
+ *   Each variant gets a Beta(1 + successes, 1 + failures) posterior over its
+ *   conversion rate (uniform prior). We draw jointly from every posterior
+ *   and read off:
+ *     - 95% credible interval: 2.5th / 97.5th percentile of its draws
+ *     - P(beat control): share of draws where it beats the control's draw
+ *     - P(best): share of draws where it beats every other active variant
+ *     - Lift: observed rate relative to the control's observed rate
+ *
+ *   The control is the project's designated control — a variant, or the
+ *   holdout bucket (HOLDOUT_ARM_ID), which never competes for P(best).
+ *   Without a designation it's the first active arm.
+ *
+ *   Minimum-sample guard: a variant is only eligible to be declared the
+ *   winner once it AND every other active variant have MIN_SAMPLE_SIZE
+ *   trials, and its P(best) is at least WINNER_PROBABILITY. Until then the
+ *   dashboard shows it as "leading", never as the winner.
+ *
+ * ARCHITECTURE:
+ *   - Pure math, no I/O — counts come from the get_variant_conversion_stats RPC
+ *   - Shares the Beta sampler with the bandit (variant/bandit.ts)
+ *   - Fixed-horizon and always-valid (sequential) p-values against the same
+ *     control live in sequential.ts
+ *   - Used by: /api/projects/[projectId]/analytics, variant/experiment.ts
+ */
+
+import { sampleBeta } from "../variant/bandit";
+
+/** Arm ID for the holdout bucket (the conversion-stats row with no variant) */
+export const HOLDOUT_ARM_ID = "holdout";
+
+export interface ConversionArm {
+  variantId: string;
+  trials: number;
+  successes: number;
+  /** Still receiving traffic (weight > 0). Disabled arms don't compete for P(best). */
+  active: boolean;
+}
+
+export interface BayesianVariantStats {
+  trials: number;
+  successes: number;
+  /** Observed conversion rate, percent (2 decimals) */
+  rate: number;
+  /** 95% credible interval bounds, percent (2 decimals) */
+  ciLower: number;
+  ciUpper: number;
+  /** 0–1. Null for the control itself, or when there's no control. */
+  probBeatControl: number | null;
+  /**
+   * Relative lift of the observed rate over the control's, percent
+   * (1 decimal). Null for the control itself, or when there's no control
+   * or it hasn't converted anyone yet.
+   */
+  lift: number | null;
+  /** 0–1. Null for disabled variants. */
+  probBest: number | null;
+  isControl: boolean;
+  sufficientSample: boolean;
+  isWinner: boolean;
+}
+
+/** Trials (distinct viewers who pressed play) before a variant can win. */
+export const MIN_SAMPLE_SIZE = 100;
+
+/** P(best) a variant needs before it's declared the winner. */
+export const WINNER_PROBABILITY = 0.95;
+
+/** Monte Carlo draws. 4000 keeps probability error under ~1%. */
+const DEFAULT_DRAWS = 4000;
+
+const round = (n: number, places: number) =>
+  Math.round(n * 10 ** places) / 10 ** places;
+
+function quantile(sorted: Float64Array, q: number): number {
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.floor(q * sorted.length)));
+  return sorted[idx];
+}
+
+/**
+ * Index of the control arm, or -1 for none. `controlId` undefined (or not
+ * among the arms) falls back to the first active arm; null means no control.
+ */
+export function resolveControlIndex(
+  arms: ConversionArm[],
+  controlId?: string | null
+): number {
+  if (controlId === null || arms.length === 0) return -1;
+  const byId = arms.findIndex((a) => a.variantId === controlId);
+  if (byId >= 0) return byId;
+  const firstActive = arms.findIndex((a) => a.active);
+  return firstActive >= 0 ? firstActive : 0;
+}
+
+/**
+ * Compute posterior stats for every arm. Returns variantId → stats.
+ *
+ * `controlId` picks the control arm. Left undefined (or not among the
+ * arms), the control is the first active arm in the given order — callers
+ * pass variants sorted by variant_code, so that's the baseline combination.
+ * Null means there's no meaningful control (e.g. completion rate against a
+ * holdout that saw no video): P(beat control) and lift are null throughout.
+ */
+export function computeBayesianStats(
+  arms: ConversionArm[],
+  controlId?: string | null,
+  draws: number = DEFAULT_DRAWS
+): Map<string, BayesianVariantStats> {
+  const result = new Map<string, BayesianVariantStats>();
+  if (arms.length === 0) return result;
+
+  const controlIdx = resolveControlIndex(arms, controlId);
+
+  const params = arms.map((a) => {
+    const trials = Math.max(0, a.trials);
+    const successes = Math.max(0, Math.min(a.successes, trials));
+    return { trials, successes, alpha: 1 + successes, beta: 1 + trials - successes };
+  });
+
+  const samples = arms.map(() => new Float64Array(draws));
+  const bestWins = new Array<number>(arms.length).fill(0);
+  const controlWins = new Array<number>(arms.length).fill(0);
+
+  for (let d = 0; d < draws; d++) {
+    let best = -1;
+    let bestDraw = -1;
+    for (let i = 0; i < arms.length; i++) {
+      const draw = sampleBeta(params[i].alpha, params[i].beta);
+      samples[i][d] = draw;
+      if (arms[i].active && draw > bestDraw) {
+        bestDraw = draw;
+        best = i;
+      }
+    }
+    if (best >= 0) bestWins[best]++;
+    if (controlIdx < 0) continue;
+    const controlDraw = samples[controlIdx][d];
+    for (let i = 0; i < arms.length; i++) {
+      if (samples[i][d] > controlDraw) controlWins[i]++;
+    }
+  }
+
+  // A lone active variant has nothing to beat — never call it a winner
+  const canDeclareWinner =
+    arms.filter((a) => a.active).length > 1 &&
+    arms.every((a, i) => !a.active || params[i].trials >= MIN_SAMPLE_SIZE);
+
+  const rateOf = (i: number) =>
+    params[i].trials > 0 ? params[i].successes / params[i].trials : 0;
+  const controlRate = controlIdx >= 0 ? rateOf(controlIdx) : 0;
+
+  arms.forEach((arm, i) => {
+    const { trials, successes } = params[i];
+    const isControl = i === controlIdx;
+    const sorted = samples[i].sort();
+    const sufficientSample = trials >= MIN_SAMPLE_SIZE;
+    const probBest = arm.active ? round(bestWins[i] / draws, 4) : null;
+
+    result.set(arm.variantId, {
+      trials,
+      successes,
+      rate: trials > 0 ? round((successes / trials) * 100, 2) : 0,
+      ciLower: round(quantile(sorted, 0.025) * 100, 2),
+      ciUpper: round(quantile(sorted, 0.975) * 100, 2),
+      probBeatControl:
+        isControl || controlIdx < 0 ? null : round(controlWins[i] / draws, 4),
+      lift:
+        isControl || controlIdx < 0 || controlRate === 0
+          ? null
+          : round(((rateOf(i) - controlRate) / controlRate) * 100, 1),
+      probBest,
+      isControl,
+      sufficientSample,
+      isWinner:
+        canDeclareWinner &&
+        probBest !== null &&
+        probBest >= WINNER_PROBABILITY,
+    });
+  });
+
+  return result;
+}
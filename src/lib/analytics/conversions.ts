@@ -0,0 +1,174 @@
+/**
+ * conversions.ts — Recording conversion events
+ *
+ * PURPOSE:
+ *   Webhooks get retried and thank-you pages get reloaded. Without rules,
+ *   every call is another conversion, credited to whatever the viewer saw
+ *   last, however long ago. Each metric can say how its conversions count.
+ *
+ * HOW IT WORKS:
+ *   recordConversion() is the one place conversions are written:
+ *   1. Attribution: the viewer's variant comes from their most recent
+ *      non-forced view event (a held-out viewer's is their "holdout"
+ *      exposure). With an attribution window, the conversion is credited
+ *      only if it happens within that many hours of the viewer's FIRST
+ *      exposure. Conversions outside it — or from viewers with no exposure
+ *      on record — are stored with attributed = false, which the stats
+ *      RPCs ignore.
+ *   2. Dedup: an idempotency key, unique per metric in the table —
+ *        count_once          → "viewer:<viewerId>"
+ *        idempotency_field   → "key:<metadata[field]>"
+ *      count_once wins when both are set (and is skipped for webhook calls
+ *      that don't name a viewer). A conflicting insert (23505)
+ *      means the conversion was already recorded and is reported as a
+ *      duplicate, not an error.
+ *   3. Every stored conversion (attributed or not) is dispatched to the
+ *      project's conversion_recorded webhook subscriptions.
+ *
+ * ARCHITECTURE:
+ *   - Used by: /api/webhook/[webhookKey], /api/track/conversion
+ *   - Takes the admin client; both callers are public endpoints
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../supabase/types";
+import { dispatchWebhookEvent } from "../webhooks/dispatch";
+
+type Metric = Pick<
+  Database["public"]["Tables"]["custom_metrics"]["Row"],
+  "id" | "project_id" | "name" | "idempotency_field" | "count_once" | "attribution_window_hours"
+>;
+
+export interface ConversionInput {
+  viewerId: string;
+  sessionId: string | null;
+  metadata: Record<string, unknown>;
+  value: number | null;
+}
+
+export type ConversionResult = "recorded" | "unattributed" | "duplicate";
+
+/** Column list recordConversion() needs from custom_metrics */
+export const CONVERSION_METRIC_COLUMNS =
+  "id, project_id, name, idempotency_field, count_once, attribution_window_hours";
+
+/** Viewer ID webhooks record when the caller doesn't send one */
+export const UNKNOWN_VIEWER = "unknown";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Longest attribution window a metric can have (one year) */
+export const MAX_ATTRIBUTION_WINDOW_HOURS = 24 * 365;
+
+/** Whole hours between 1 and MAX_ATTRIBUTION_WINDOW_HOURS */
+export function isAttributionWindow(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 1 &&
+    value <= MAX_ATTRIBUTION_WINDOW_HOURS
+  );
+}
+
+/** Metadata key a dedup field may name, e.g. "order_id" */
+export function isIdempotencyField(value: unknown): value is string {
+  return typeof value === "string" && /^[A-Za-z0-9_.-]{1,64}$/.test(value);
+}
+
+/** Dedup key for this conversion, or null when the metric doesn't dedupe */
+export function idempotencyKey(
+  metric: Pick<Metric, "idempotency_field" | "count_once">,
+  viewerId: string,
+  metadata: Record<string, unknown>
+): string | null {
+  if (metric.count_once && viewerId !== UNKNOWN_VIEWER) return `viewer:${viewerId}`;
+  if (!metric.idempotency_field) return null;
+  const raw = metadata[metric.idempotency_field];
+  if ((typeof raw !== "string" && typeof raw !== "number") || raw === "") return null;
+  return `key:${String(raw).slice(0, 200)}`;
+}
+
+/** Whether a conversion at `now` falls inside the window after first exposure */
+export function withinAttributionWindow(
+  firstExposureAt: string,
+  windowHours: number | null,
+  now = Date.now()
+): boolean {
+  if (windowHours === null) return true;
+  return now - Date.parse(firstExposureAt) <= windowHours * HOUR_MS;
+}
+
+/**
+ * Attribute and store one conversion for `metric`. Never throws on a
+ * duplicate; other insert errors are thrown for the caller to swallow.
+ */
+export async function recordConversion(
+  admin: SupabaseClient<Database>,
+  metric: Metric,
+  input: ConversionInput
+): Promise<ConversionResult> {
+  const { viewerId } = input;
+
+  // Latest exposure decides the variant; the first starts the window.
+  // Webhooks without a viewer have no exposures to look up.
+  let latest: { variant_id: string | null; event_type: string } | null = null;
+  let first: { created_at: string } | null = null;
+  if (viewerId !== UNKNOWN_VIEWER) {
+    [{ data: latest }, { data: first }] = await Promise.all([
+      admin
+        .from("view_events")
+        .select("variant_id, event_type")
+        .eq("project_id", metric.project_id)
+        .eq("viewer_id", viewerId)
+        .eq("is_forced", false)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      admin
+        .from("view_events")
+        .select("created_at")
+        .eq("project_id", metric.project_id)
+        .eq("viewer_id", viewerId)
+        .eq("is_forced", false)
+        .order("created_at", { ascending: true })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+  }
+
+  const variantId = latest?.variant_id ?? null;
+  const isHoldout = latest?.event_type === "holdout";
+  const attributed =
+    (variantId !== null || isHoldout) &&
+    !!first &&
+    withinAttributionWindow(first.created_at, metric.attribution_window_hours);
+
+  const { error } = await admin.from("custom_metric_events").insert({
+    metric_id: metric.id,
+    project_id: metric.project_id,
+    variant_id: variantId,
+    viewer_id: viewerId,
+    session_id: input.sessionId,
+    metadata: input.metadata,
+    is_holdout: isHoldout,
+    value: input.value,
+    idempotency_key: idempotencyKey(metric, viewerId, input.metadata),
+    attributed,
+  });
+
+  if (error?.code === "23505") return "duplicate";
+  if (error) throw error;
+
+  await dispatchWebhookEvent(admin, metric.project_id, "conversion_recorded", {
+    metric_id: metric.id,
+    metric_name: metric.name,
+    viewer_id: viewerId,
+    variant_id: variantId,
+    is_holdout: isHoldout,
+    attributed,
+    value: input.value,
+    metadata: input.metadata,
+  });
+
+  return attributed ? "recorded" : "unattributed";
+}
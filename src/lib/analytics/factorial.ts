@@ -0,0 +1,361 @@
+/**
+ * factorial.ts — Factorial main-effect and interaction analysis
+ *
+ * PURPOSE:
+ *   Variants are a factorial design across the project's slots (hooks ×
+ *   bodies × CTAs by default), so we can ask a sharper question than "which
+ *   variant won": which HOOK is pulling its weight, independent of the body
+ *   and CTA it was paired with? And does a hook only work with a particular
+ *   CTA? That's what tells you which piece to re-shoot.
+ *
+ *   Averaging the rates of every variant containing a segment (what
+ *   get_segment_analytics does) is biased as soon as traffic is uneven —
+ *   e.g. under bandit allocation a hook looks good just because it was
+ *   mostly paired with a strong CTA. A regression model separates the two.
+ *
+ * HOW IT WORKS:
+ *   Linear probability model fit by weighted least squares on the variant
+ *   cells (weight = viewers in the cell, response = conversion rate):
+ *
+ *     rate = μ + hook_i + body_j + cta_k
+ *              + (hook×body)_ij + (hook×cta)_ik + (body×cta)_jk
+ *
+ *   — one main effect per slot and one interaction per pair of slots. An
+ *   optional slot's "skipped" level is a level like any other
+ *   (SKIPPED_LEVEL_ID), so the model also says what leaving it out costs.
+ *
+ *   Factors use effect (sum-to-zero) coding, so each main effect is the
+ *   level's deviation from the grand mean in percentage points, and each
+ *   interaction is the extra lift of a pair beyond their main effects.
+ *   Standard errors use the pooled Bernoulli variance p̄(1 − p̄); 95%
+ *   intervals are ±1.96 SE. Every reported number is a linear contrast
+ *   cᵀβ with variance cᵀΣc, which covers the implied last level too.
+ *
+ *   If there isn't enough data to estimate the interaction terms (too few
+ *   cells with viewers), we fall back to a main-effects-only model. For
+ *   fractional designs we never fit interactions: they're aliased with the
+ *   main effects, so any estimate would be confounded.
+ *
+ * ARCHITECTURE:
+ *   - Pure math, no I/O — cells come from get_variant_conversion_stats
+ *     joined with each variant's segment IDs
+ *   - Used by: /api/projects/[projectId]/analytics/factorial
+ */
+
+import type { DesignMode } from "../supabase/types";
+
+/** A slot key (projects.slots) — "hook" | "body" | "cta" by default */
+export type FactorType = string;
+
+/** Level ID of an optional slot left out of a variant */
+export const SKIPPED_LEVEL_ID = "";
+
+export interface FactorialFactorInput {
+  type: FactorType;
+  label: string;
+  /** Every level in display order (segments, then SKIPPED_LEVEL_ID if used) */
+  levels: FactorialLevelInput[];
+}
+
+export interface FactorialCell {
+  /** Level ID per factor type */
+  levels: Record<FactorType, string>;
+  trials: number;
+  successes: number;
+}
+
+export interface FactorialLevelInput {
+  id: string;
+  label: string;
+}
+
+export interface LevelEffect {
+  segmentId: string;
+  label: string;
+  trials: number;
+  /** Estimated conversion rate with this level, averaged over the others (%) */
+  estimatedRate: number;
+  /** Deviation from the grand mean, percentage points */
+  effect: number;
+  ciLower: number;
+  ciUpper: number;
+  /** 95% interval excludes zero */
+  significant: boolean;
+}
+
+export interface InteractionEffect {
+  segmentIds: [string, string];
+  labels: [string, string];
+  trials: number;
+  effect: number;
+  ciLower: number;
+  ciUpper: number;
+  significant: boolean;
+}
+
+export interface FactorialResult {
+  design: DesignMode;
+  model: "interactions" | "main_effects";
+  totalTrials: number;
+  grandMean: number;
+  factors: { type: FactorType; label: string; levels: LevelEffect[] }[];
+  interactions: { factors: [FactorType, FactorType]; terms: InteractionEffect[] }[];
+}
+
+const Z_95 = 1.96;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ─── Linear algebra ───
+
+/** Gauss-Jordan inverse with partial pivoting. Null if singular. */
+function invert(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [
+    ...row,
+    ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)),
+  ]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-9) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const div = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= div;
+
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = a[r][col];
+      if (factor === 0) continue;
+      for (let j = 0; j < 2 * n; j++) a[r][j] -= factor * a[col][j];
+    }
+  }
+
+  return a.map((row) => row.slice(n));
+}
+
+/** Effect coding for level ℓ of a k-level factor: unit vector, or all −1 for the last level. */
+function effectCode(levelIndex: number, levelCount: number): number[] {
+  const k = levelCount - 1;
+  if (levelIndex === k) return new Array(k).fill(-1);
+  return Array.from({ length: k }, (_, i) => (i === levelIndex ? 1 : 0));
+}
+
+function kron(a: number[], b: number[]): number[] {
+  const out: number[] = [];
+  for (const x of a) for (const y of b) out.push(x * y);
+  return out;
+}
+
+// ─── Model ───
+
+interface ColumnLayout {
+  size: number;
+  main: Partial<Record<FactorType, number>>;
+  pair: Map<string, number>;
+}
+
+/** Every pair of factors, in slot order */
+function pairsOf(factors: FactorType[]): [FactorType, FactorType][] {
+  return factors.flatMap((f1, i) =>
+    factors.slice(i + 1).map((f2): [FactorType, FactorType] => [f1, f2])
+  );
+}
+
+function layoutColumns(
+  active: FactorType[],
+  levelCounts: Record<FactorType, number>,
+  withInteractions: boolean
+): ColumnLayout {
+  let offset = 1; // intercept
+  const main: Partial<Record<FactorType, number>> = {};
+  for (const f of active) {
+    main[f] = offset;
+    offset += levelCounts[f] - 1;
+  }
+  const pair = new Map<string, number>();
+  if (withInteractions) {
+    for (const [f1, f2] of pairsOf(active)) {
+      pair.set(`${f1}:${f2}`, offset);
+      offset += (levelCounts[f1] - 1) * (levelCounts[f2] - 1);
+    }
+  }
+  return { size: offset, main, pair };
+}
+
+function designRow(
+  levelIdx: Record<FactorType, number>,
+  active: FactorType[],
+  levelCounts: Record<FactorType, number>,
+  layout: ColumnLayout
+): number[] {
+  const row = new Array<number>(layout.size).fill(0);
+  row[0] = 1;
+  for (const f of active) {
+    const code = effectCode(levelIdx[f], levelCounts[f]);
+    code.forEach((v, i) => (row[layout.main[f]! + i] = v));
+  }
+  for (const [f1, f2] of pairsOf(active)) {
+    const start = layout.pair.get(`${f1}:${f2}`);
+    if (start === undefined) continue;
+    const code = kron(
+      effectCode(levelIdx[f1], levelCounts[f1]),
+      effectCode(levelIdx[f2], levelCounts[f2])
+    );
+    code.forEach((v, i) => (row[start + i] = v));
+  }
+  return row;
+}
+
+function fit(
+  cells: { row: number[]; n: number; rate: number }[],
+  size: number
+): { beta: number[]; xtwxInv: number[][] } | null {
+  const xtwx = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+  const xtwy = new Array<number>(size).fill(0);
+
+  for (const { row, n, rate } of cells) {
+    for (let i = 0; i < size; i++) {
+      if (row[i] === 0) continue;
+      xtwy[i] += row[i] * n * rate;
+      for (let j = 0; j < size; j++) xtwx[i][j] += row[i] * n * row[j];
+    }
+  }
+
+  const xtwxInv = invert(xtwx);
+  if (!xtwxInv) return null;
+
+  const beta = xtwxInv.map((r) => r.reduce((s, v, j) => s + v * xtwy[j], 0));
+  return { beta, xtwxInv };
+}
+
+/**
+ * Run the factorial analysis. `factors` lists the project's slots in order,
+ * each with its levels; factors with a single level are treated as constant.
+ * `design` is the project's design_mode — fractional designs get a
+ * main-effects-only model. Returns null when there's nothing to analyze
+ * (no viewers, or no factor with 2+ levels).
+ */
+export function analyzeFactorial(
+  factors: FactorialFactorInput[],
+  cells: FactorialCell[],
+  design: DesignMode = "full"
+): FactorialResult | null {
+  const levels = Object.fromEntries(factors.map((f) => [f.type, f.levels]));
+  const active = factors.filter((f) => f.levels.length > 1).map((f) => f.type);
+  const observed = cells.filter((c) => c.trials > 0);
+  const totalTrials = observed.reduce((s, c) => s + c.trials, 0);
+  if (active.length === 0 || totalTrials === 0) return null;
+
+  const levelCounts = Object.fromEntries(factors.map((f) => [f.type, f.levels.length]));
+  const indexOf = (f: FactorType, id: string | undefined) =>
+    levels[f].findIndex((l) => l.id === (id ?? SKIPPED_LEVEL_ID));
+
+  const prepared = observed
+    .map((c) => ({
+      idx: Object.fromEntries(factors.map((f) => [f.type, indexOf(f.type, c.levels[f.type])])),
+      n: c.trials,
+      rate: Math.min(c.successes, c.trials) / c.trials,
+    }))
+    .filter((c) => Object.values(c.idx).every((i) => i >= 0));
+
+  // Interactions first (full designs only); drop to main effects if they
+  // aren't estimable
+  let model: FactorialResult["model"] = "interactions";
+  let layout = layoutColumns(active, levelCounts, design === "full");
+  let result = fit(
+    prepared.map((c) => ({ ...c, row: designRow(c.idx, active, levelCounts, layout) })),
+    layout.size
+  );
+  if (!result || layout.pair.size === 0) {
+    model = "main_effects";
+    layout = layoutColumns(active, levelCounts, false);
+    result = fit(
+      prepared.map((c) => ({ ...c, row: designRow(c.idx, active, levelCounts, layout) })),
+      layout.size
+    );
+  }
+  if (!result) return null;
+
+  const { beta, xtwxInv } = result;
+  const pooled =
+    prepared.reduce((s, c) => s + c.rate * c.n, 0) / totalTrials;
+  const sigma2 = Math.max(pooled * (1 - pooled), 1e-6);
+
+  const contrast = (c: number[]) => {
+    let estimate = 0;
+    let variance = 0;
+    for (let i = 0; i < c.length; i++) {
+      if (c[i] === 0) continue;
+      estimate += c[i] * beta[i];
+      for (let j = 0; j < c.length; j++) {
+        if (c[j] !== 0) variance += c[i] * xtwxInv[i][j] * c[j];
+      }
+    }
+    const se = Math.sqrt(Math.max(variance * sigma2, 0));
+    const effect = estimate * 100;
+    const ciLower = (estimate - Z_95 * se) * 100;
+    const ciUpper = (estimate + Z_95 * se) * 100;
+    return {
+      effect: round2(effect),
+      ciLower: round2(ciLower),
+      ciUpper: round2(ciUpper),
+      significant: ciLower > 0 || ciUpper < 0,
+    };
+  };
+
+  const trialsWhere = (pred: (c: (typeof prepared)[number]) => boolean) =>
+    prepared.filter(pred).reduce((s, c) => s + c.n, 0);
+
+  const effects = active.map((f) => ({
+    type: f,
+    label: factors.find((factor) => factor.type === f)!.label,
+    levels: levels[f].map((level, li) => {
+      const c = new Array<number>(layout.size).fill(0);
+      effectCode(li, levelCounts[f]).forEach((v, i) => (c[layout.main[f]! + i] = v));
+      const stats = contrast(c);
+      return {
+        segmentId: level.id,
+        label: level.label,
+        trials: trialsWhere((cell) => cell.idx[f] === li),
+        estimatedRate: round2(beta[0] * 100 + stats.effect),
+        ...stats,
+      };
+    }),
+  }));
+
+  const interactions: FactorialResult["interactions"] = [];
+  for (const [f1, f2] of pairsOf(active)) {
+    const start = layout.pair.get(`${f1}:${f2}`);
+    if (start === undefined) continue;
+    const terms: InteractionEffect[] = [];
+    levels[f1].forEach((l1, i1) => {
+      levels[f2].forEach((l2, i2) => {
+        const c = new Array<number>(layout.size).fill(0);
+        kron(effectCode(i1, levelCounts[f1]), effectCode(i2, levelCounts[f2])).forEach(
+          (v, i) => (c[start + i] = v)
+        );
+        terms.push({
+          segmentIds: [l1.id, l2.id],
+          labels: [l1.label, l2.label],
+          trials: trialsWhere((cell) => cell.idx[f1] === i1 && cell.idx[f2] === i2),
+          ...contrast(c),
+        });
+      });
+    });
+    interactions.push({ factors: [f1, f2], terms });
+  }
+
+  return {
+    design,
+    model,
+    totalTrials,
+    grandMean: round2(beta[0] * 100),
+    factors: effects,
+    interactions,
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * planner.ts — Sample-size and test-duration planning
+ *
+ * PURPOSE:
+ *   Going from 8 to 27 variants triples how long a test takes to say
+ *   anything. Before processing, the team should see what the selected
+ *   combinations cost in traffic and calendar time.
+ *
+ * HOW IT WORKS:
+ *   Classic two-proportion sample size per variant, comparing each variant
+ *   with the control:
+ *
+ *     n = (z(1 − α/2k) + z(power))² · (p₁(1−p₁) + p₂(1−p₂)) / (p₂ − p₁)²
+ *
+ *   where p₁ is the baseline rate, p₂ = p₁ · (1 + MDE) (MDE is relative),
+ *   and α is split across the k = variants − 1 comparisons with the control
+ *   (Bonferroni, same as the sequential boundary in sequential.ts). Traffic
+ *   splits evenly, so the test needs n × variants viewers who press play,
+ *   and days = that total / expected daily plays.
+ *
+ *   This is a planning estimate: the always-valid test the dashboard uses
+ *   lets you stop early on a big effect but typically needs somewhat more
+ *   traffic than this to confirm an effect right at the MDE.
+ *
+ * ARCHITECTURE:
+ *   - Pure math, no I/O
+ *   - Used by: /api/projects/[projectId]/sample-size
+ */
+
+export interface SampleSizeInput {
+  variantCount: number;
+  /** Baseline completion or conversion rate, 0–1 */
+  baselineRate: number;
+  /** Minimum detectable effect, relative to the baseline (0.1 = +10%) */
+  mde: number;
+  /** Expected plays per day across the whole test */
+  dailyViews: number;
+  alpha?: number;
+  power?: number;
+}
+
+export interface SampleSizePlan {
+  /** Viewers each variant needs */
+  perVariant: number;
+  /** Viewers across all variants */
+  total: number;
+  /** Days at the expected daily views. Null without any traffic. */
+  days: number | null;
+  /** Comparisons with the control the alpha is split across */
+  comparisons: number;
+}
+
+export const DEFAULT_PLANNER_ALPHA = 0.05;
+export const DEFAULT_PLANNER_POWER = 0.8;
+
+/**
+ * Inverse standard normal CDF (Acklam's rational approximation, relative
+ * error under 1.2e-9 — plenty for sample sizes).
+ */
+export function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Viewers per variant, total viewers and days needed to detect `mde`.
+ * Returns null when there's nothing to compare (fewer than 2 variants) or
+ * the effect is impossible (the improved rate would reach 100%).
+ */
+export function planSampleSize({
+  variantCount,
+  baselineRate,
+  mde,
+  dailyViews,
+  alpha = DEFAULT_PLANNER_ALPHA,
+  power = DEFAULT_PLANNER_POWER,
+}: SampleSizeInput): SampleSizePlan | null {
+  const p1 = baselineRate;
+  const p2 = baselineRate * (1 + mde);
+  if (variantCount < 2 || p1 <= 0 || p1 >= 1 || p2 >= 1 || mde <= 0) {
+    return null;
+  }
+
+  const comparisons = variantCount - 1;
+  const zAlpha = normalQuantile(1 - alpha / (2 * comparisons));
+  const zPower = normalQuantile(power);
+  const perVariant = Math.ceil(
+    ((zAlpha + zPower) ** 2 * (p1 * (1 - p1) + p2 * (1 - p2))) / (p2 - p1) ** 2
+  );
+  const total = perVariant * variantCount;
+
+  return {
+    perVariant,
+    total,
+    days: dailyViews > 0 ? Math.ceil(total / dailyViews) : null,
+    comparisons,
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * revenue.ts — Value metrics for conversion events
+ *
+ * PURPOSE:
+ *   Completion rate says which video people finish; revenue says which one
+ *   pays. For a metric with values (an order total passed by a webhook or
+ *   track.js), the team needs money per unit of traffic to compare
+ *   variants fairly, not just the raw total.
+ *
+ * HOW IT WORKS:
+ *   From a variant's (or segment's) conversion totals and its traffic:
+ *     revenuePerView    = revenue / plays
+ *     revenuePerViewer  = revenue / unique viewers
+ *     averageOrderValue = revenue / conversions that carried a value
+ *   Each is null when its denominator is zero. Segment totals are sums of
+ *   their variants' totals — every viewer sticks to one variant, so
+ *   converters and viewers add up without double counting.
+ *
+ * ARCHITECTURE:
+ *   - Pure math, no I/O; safe to import from client components
+ *   - Totals come from the get_metric_value_stats RPC (migration 019)
+ *   - Used by: /api/projects/[projectId]/analytics, the metrics CRUD
+ *     routes, the conversion endpoints (value parsing), AnalyticsTable,
+ *     SegmentComparison
+ */
+
+import type { MetricValueType } from "../supabase/types";
+
+export const METRIC_VALUE_TYPES: MetricValueType[] = ["count", "unique", "revenue"];
+
+/** Currency used when a revenue metric doesn't name one */
+export const DEFAULT_CURRENCY = "USD";
+
+/** Uppercased ISO 4217 code, or null if it isn't one */
+export function parseCurrency(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const code = value.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+}
+
+/** Largest value custom_metric_events.value (NUMERIC(14,2)) can hold */
+const MAX_VALUE = 999_999_999_999.99;
+
+/**
+ * Conversion value from a webhook or track.js body: a number or numeric
+ * string, rounded to cents. Null when absent or not a usable number.
+ */
+export function parseConversionValue(value: unknown): number | null {
+  if (typeof value !== "number" && typeof value !== "string") return null;
+  if (typeof value === "string" && value.trim() === "") return null;
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || Math.abs(amount) > MAX_VALUE) return null;
+  return Math.round(amount * 100) / 100;
+}
+
+export interface MetricTotals {
+  /** Conversion events */
+  conversions: number;
+  /** Distinct viewers who converted */
+  converters: number;
+  /** Sum of the events' values */
+  revenue: number;
+  /** Events that carried a value */
+  valuedConversions: number;
+}
+
+export interface MetricValues extends MetricTotals {
+  revenuePerView: number | null;
+  revenuePerViewer: number | null;
+  averageOrderValue: number | null;
+}
+
+export const EMPTY_TOTALS: MetricTotals = {
+  conversions: 0,
+  converters: 0,
+  revenue: 0,
+  valuedConversions: 0,
+};
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round((numerator / denominator) * 100) / 100 : null;
+}
+
+export function addTotals(a: MetricTotals, b: MetricTotals): MetricTotals {
+  return {
+    conversions: a.conversions + b.conversions,
+    converters: a.converters + b.converters,
+    revenue: a.revenue + b.revenue,
+    valuedConversions: a.valuedConversions + b.valuedConversions,
+  };
+}
+
+/** Per-view, per-viewer and per-order figures for the given traffic */
+export function metricValues(
+  totals: MetricTotals,
+  views: number,
+  viewers: number
+): MetricValues {
+  return {
+    ...totals,
+    revenue: Math.round(totals.revenue * 100) / 100,
+    revenuePerView: ratio(totals.revenue, views),
+    revenuePerViewer: ratio(totals.revenue, viewers),
+    averageOrderValue: ratio(totals.revenue, totals.valuedConversions),
+  };
+}
+
+/** "$1,234.50" in the metric's currency; plain number without one */
+export function formatMoney(amount: number | null, currency: string | null): string {
+  if (amount === null) return "—";
+  if (!currency) return amount.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  try {
+    return amount.toLocaleString(undefined, { style: "currency", currency });
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * sequential.ts — Always-valid p-values (mSPRT) for peeking-safe testing
+ *
+ * PURPOSE:
+ *   A fixed-horizon p-value is only valid if you look once, at a sample size
+ *   chosen in advance. Refresh the dashboard every hour and stop the first
+ *   time p < 0.05, and the real false-positive rate climbs far past 5%. An
+ *   always-valid p-value can be checked after every single viewer: stopping
+ *   the moment it crosses the boundary keeps the error rate at alpha.
+ *
+ * HOW IT WORKS:
+ *   Each variant is compared with the control on the difference in
+ *   conversion rates, θ = rate(variant) − rate(control). The estimate θ̂
+ *   has variance V = p_v(1−p_v)/n_v + p_c(1−p_c)/n_c, with rates taken as
+ *   posterior means (1+s)/(2+n) so an arm with no conversions yet doesn't
+ *   give V = 0. The mixture sequential probability ratio test (mSPRT) with
+ *   a N(0, τ²) mixing distribution over θ gives the likelihood ratio
+ *
+ *     Λ = sqrt(V / (V + τ²)) · exp(τ² θ̂² / (2V(V + τ²)))
+ *
+ *   and the always-valid p-value is min(1, 1/Λ). Strictly it is the running
+ *   minimum of that over time; we only see today's totals, so we report the
+ *   current value — never smaller than the running minimum, so still valid,
+ *   just slightly conservative.
+ *
+ *   The boundary is alpha split across every comparison with the control
+ *   (Bonferroni), since with 27 variants one of them will cross an
+ *   unadjusted 5% boundary by luck. The test is conclusive once any
+ *   variant's always-valid p-value is at or below it.
+ *
+ *   The fixed-horizon two-proportion z-test p-value is reported alongside
+ *   for reference — it's what most calculators show, and it's the number
+ *   that misleads when read repeatedly.
+ *
+ * ARCHITECTURE:
+ *   - Pure math, no I/O — same arms and control resolution as bayesian.ts
+ *   - Used by: /api/projects/[projectId]/analytics, lib/variant/experiment.ts
+ *     (auto-conclusion)
+ */
+
+import { resolveControlIndex, type ConversionArm } from "./bayesian";
+
+export interface SequentialVariantStats {
+  /** Two-sided fixed-horizon p-value vs the control. Null for the control. */
+  fixedPValue: number | null;
+  /** Always-valid (mSPRT) p-value vs the control. Null for the control. */
+  alwaysValidPValue: number | null;
+  /** The always-valid p-value has crossed the boundary */
+  significant: boolean;
+}
+
+export interface SequentialSummary {
+  alpha: number;
+  /** Per-comparison boundary: alpha / comparisons */
+  boundary: number;
+  /** Active variants compared with the control */
+  comparisons: number;
+  /** Some variant has crossed the boundary */
+  conclusive: boolean;
+}
+
+/** Overall false-positive rate the boundary protects */
+export const SEQUENTIAL_ALPHA = 0.05;
+
+/**
+ * Standard deviation of the mixing distribution over θ. It tunes which
+ * effects the test detects fastest — 0.05 suits differences of a few
+ * percentage points in completion or conversion rate.
+ */
+const MIXTURE_SD = 0.05;
+
+const round = (n: number, places: number) =>
+  Math.round(n * 10 ** places) / 10 ** places;
+
+/** Abramowitz & Stegun 7.1.26 — absolute error under 1.5e-7 */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    t *
+      (0.254829592 +
+        t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+      Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+function fixedHorizonPValue(
+  s1: number,
+  n1: number,
+  s2: number,
+  n2: number
+): number {
+  const pooled = (s1 + s2) / (n1 + n2);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+  if (se === 0) return 1;
+  const z = (s1 / n1 - s2 / n2) / se;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+function alwaysValidPValue(
+  s1: number,
+  n1: number,
+  s2: number,
+  n2: number
+): number {
+  const p1 = (1 + s1) / (2 + n1);
+  const p2 = (1 + s2) / (2 + n2);
+  const v = (p1 * (1 - p1)) / n1 + (p2 * (1 - p2)) / n2;
+  const theta = s1 / n1 - s2 / n2;
+  const tau2 = MIXTURE_SD * MIXTURE_SD;
+  // Log space — the exponent gets large quickly with real traffic
+  const logLambda =
+    0.5 * Math.log(v / (v + tau2)) + (tau2 * theta * theta) / (2 * v * (v + tau2));
+  return Math.min(1, Math.exp(-logLambda));
+}
+
+/**
+ * Fixed-horizon and always-valid p-values for every arm against the
+ * control, plus whether the sequential boundary has been crossed.
+ * `controlId` follows computeBayesianStats(): undefined → first active
+ * arm, null → no control (nothing is ever conclusive).
+ */
+export function computeSequentialStats(
+  arms: ConversionArm[],
+  controlId?: string | null,
+  alpha: number = SEQUENTIAL_ALPHA
+): { variants: Map<string, SequentialVariantStats>; summary: SequentialSummary } {
+  const variants = new Map<string, SequentialVariantStats>();
+  const controlIdx = resolveControlIndex(arms, controlId);
+  const control = controlIdx >= 0 ? arms[controlIdx] : null;
+
+  const comparisons =
+    control === null ? 0 : arms.filter((a, i) => a.active && i !== controlIdx).length;
+  const boundary = alpha / Math.max(comparisons, 1);
+  let conclusive = false;
+
+  arms.forEach((arm, i) => {
+    const n1 = Math.max(0, arm.trials);
+    const s1 = Math.max(0, Math.min(arm.successes, n1));
+    const n2 = control ? Math.max(0, control.trials) : 0;
+    const s2 = control ? Math.max(0, Math.min(control.successes, n2)) : 0;
+
+    if (i === controlIdx || n1 === 0 || n2 === 0) {
+      variants.set(arm.variantId, {
+        fixedPValue: null,
+        alwaysValidPValue: null,
+        significant: false,
+      });
+      return;
+    }
+
+    const avp = alwaysValidPValue(s1, n1, s2, n2);
+    const significant = arm.active && avp <= boundary;
+    if (significant) conclusive = true;
+    variants.set(arm.variantId, {
+      fixedPValue: round(fixedHorizonPValue(s1, n1, s2, n2), 4),
+      alwaysValidPValue: round(avp, 4),
+      significant,
+    });
+  });
+
+  return {
+    variants,
+    summary: { alpha, boundary: round(boundary, 6), comparisons, conclusive },
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * webhook-signature.ts — Signed inbound conversion webhooks
+ *
+ * PURPOSE:
+ *   A webhook URL is the only thing standing between the internet and a
+ *   metric's conversion count, and URLs leak (logs, screenshots, support
+ *   tickets). A metric with a signing secret only accepts calls from a
+ *   sender that holds the secret.
+ *
+ * HOW IT WORKS:
+ *   The sender signs "<timestamp>.<raw body>" with HMAC-SHA256 and sends
+ *     X-Wai-Signature: t=<unix seconds>,v1=<hex digest>
+ *   verifySignature() recomputes the digest (constant-time compare) and
+ *   rejects timestamps more than SIGNATURE_TOLERANCE_SECONDS from our
+ *   clock, so an old captured request is useless. claimSignature() stores
+ *   each accepted signature; a second request with the same one inside the
+ *   tolerance window is a replay and is refused.
+ *
+ *   Sender example (Node):
+ *     const t = Math.floor(Date.now() / 1000);
+ *     const v1 = createHmac("sha256", secret).update(`${t}.${body}`).digest("hex");
+ *     headers["X-Wai-Signature"] = `t=${t},v1=${v1}`;
+ *
+ * ARCHITECTURE:
+ *   - Server-only (node:crypto)
+ *   - Secrets live in custom_metrics.signing_secret; accepted signatures in
+ *     webhook_signatures (migration 021)
+ *   - Used by: /api/webhook/[webhookKey], the metrics CRUD routes
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../supabase/types";
+
+export const SIGNATURE_HEADER = "x-wai-signature";
+
+/** How far a signature's timestamp may be from the server clock */
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export type SignatureCheck =
+  | { ok: true; signature: string }
+  | { ok: false; reason: string };
+
+/** New secret for a metric: "whsec_" + 32 random bytes as hex */
+export function generateSigningSecret(): string {
+  return `whsec_${randomBytes(32).toString("hex")}`;
+}
+
+export function signPayload(secret: string, timestamp: number, rawBody: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${rawBody}`).digest("hex");
+}
+
+/** Timestamp and v1 digests from "t=...,v1=...[,v1=...]" */
+function parseSignatureHeader(header: string): { timestamp: number; digests: string[] } | null {
+  let timestamp: number | null = null;
+  const digests: string[] = [];
+  for (const part of header.split(",")) {
+    const [key, value] = part.trim().split("=", 2);
+    if (key === "t" && /^\d+$/.test(value ?? "")) timestamp = Number(value);
+    else if (key === "v1" && /^[0-9a-f]{64}$/i.test(value ?? "")) digests.push(value.toLowerCase());
+  }
+  return timestamp === null || digests.length === 0 ? null : { timestamp, digests };
+}
+
+export function verifySignature(
+  secret: string,
+  header: string | null,
+  rawBody: string,
+  now = Date.now()
+): SignatureCheck {
+  if (!header) return { ok: false, reason: "Missing signature" };
+  const parsed = parseSignatureHeader(header);
+  if (!parsed) return { ok: false, reason: "Malformed signature" };
+
+  if (Math.abs(now / 1000 - parsed.timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return { ok: false, reason: "Signature timestamp outside tolerance" };
+  }
+
+  const expected = Buffer.from(signPayload(secret, parsed.timestamp, rawBody), "hex");
+  const match = parsed.digests.find((digest) =>
+    timingSafeEqual(Buffer.from(digest, "hex"), expected)
+  );
+  return match
+    ? { ok: true, signature: `${parsed.timestamp}.${match}` }
+    : { ok: false, reason: "Invalid signature" };
+}
+
+/**
+ * Record an accepted signature. False when it was already used (a replay).
+ * Also prunes the metric's signatures that have aged out of the window.
+ */
+export async function claimSignature(
+  admin: SupabaseClient<Database>,
+  metricId: string,
+  signature: string
+): Promise<boolean> {
+  const { error } = await admin
+    .from("webhook_signatures")
+    .insert({ metric_id: metricId, signature });
+  if (error?.code === "23505") return false;
+  if (error) throw error;
+
+  // Twice the tolerance: a timestamp may be that far ahead of our clock
+  const cutoff = new Date(Date.now() - 2 * SIGNATURE_TOLERANCE_SECONDS * 1000).toISOString();
+  await admin
+    .from("webhook_signatures")
+    .delete()
+    .eq("metric_id", metricId)
+    .lt("received_at", cutoff);
+  return true;
+}
@@ -10,20 +10,28 @@
  *   Each job gets a deterministic jobId based on its target (segment or
  *   variant ID). This prevents duplicate jobs — if a normalize job for
  *   segment X is already in the queue, adding another with the same
- *   jobId is a no-op.
+ *   jobId is a no-op. A finished normalize job (kept for a while by
+ *   removeOnComplete / removeOnFail) is removed first, so a segment can be
+ *   normalized again — a replaced upload or a new loudness target.
  *
  * USED BY:
  *   - /api/projects/[id]/process route (enqueues normalize jobs)
  *   - video-processor.ts worker (enqueues render jobs after normalization)
+ *   - /api/projects/[id]/allocation route (immediate bandit recompute)
+ *   - /api/projects/[id]/experiments route (immediate experiment check)
+ *   - lib/webhooks/dispatch.ts and the redeliver route (webhook deliveries)
  */
 
-import { normalizeQueue, renderQueue, hlsPackageQueue, splitQueue, analyzeQueue } from "./queues";
-import type { NormalizeJobData, RenderJobData, HlsPackageJobData, SplitJobData, AnalyzeJobData } from "./types";
+import { normalizeQueue, renderQueue, hlsPackageQueue, splitQueue, analyzeQueue, banditQueue, experimentQueue, webhookQueue } from "./queues";
+import type { NormalizeJobData, RenderJobData, HlsPackageJobData, SplitJobData, AnalyzeJobData, BanditUpdateJobData, ExperimentCheckJobData, WebhookDeliveryJobData } from "./types";
 
 export async function enqueueNormalize(data: NormalizeJobData) {
-  return normalizeQueue.add(`normalize-${data.segmentId}`, data, {
-    jobId: `normalize-${data.segmentId}`,
-  });
+  const jobId = `normalize-${data.segmentId}`;
+  const previous = await normalizeQueue.getJob(jobId);
+  if (previous && ((await previous.isCompleted()) || (await previous.isFailed()))) {
+    await previous.remove();
+  }
+  return normalizeQueue.add(jobId, data, { jobId });
 }
 
 export async function enqueueRender(data: RenderJobData) {
@@ -49,3 +57,22 @@ export async function enqueueAnalyze(data: AnalyzeJobData) {
     jobId: `analyze-${data.splitId}`,
   });
 }
+
+export async function enqueueBanditUpdate(data: BanditUpdateJobData) {
+  return banditQueue.add(`bandit-${data.projectId ?? "all"}`, data, {
+    jobId: `bandit-${data.projectId ?? "all"}-${Date.now()}`,
+  });
+}
+
+export async function enqueueExperimentCheck(data: ExperimentCheckJobData) {
+  return experimentQueue.add(`experiment-${data.experimentId ?? "all"}`, data, {
+    jobId: `experiment-${data.experimentId ?? "all"}-${Date.now()}`,
+  });
+}
+
+// Timestamped so a redelivery isn't deduped against the original job
+export async function enqueueWebhookDelivery(data: WebhookDeliveryJobData) {
+  return webhookQueue.add(`webhook-${data.deliveryId}`, data, {
+    jobId: `webhook-${data.deliveryId}-${Date.now()}`,
+  });
+}
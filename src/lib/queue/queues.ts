@@ -9,6 +9,10 @@
  * QUEUES:
  *   - "normalize": Segment normalization jobs (re-encode to target specs)
  *   - "render": Variant rendering jobs (stitch + extract hook clip)
+ *   - "bandit": Periodic Thompson-sampling weight recompute
+ *   - "experiment": Periodic experiment start / auto-conclude check
+ *   - "webhook": Outgoing webhook deliveries (6 attempts, 30s → 8m backoff,
+ *     so a receiver can be down for ~15 minutes without losing events)
  *
  * JOB OPTIONS:
  *   - 3 retry attempts with exponential backoff (1s, 2s, 4s)
@@ -22,7 +26,7 @@
 
 import { Queue } from "bullmq";
 import { getRedisConnection } from "./connection";
-import type { NormalizeJobData, RenderJobData, HlsPackageJobData, SplitJobData, AnalyzeJobData } from "./types";
+import type { NormalizeJobData, RenderJobData, HlsPackageJobData, SplitJobData, AnalyzeJobData, BanditUpdateJobData, ExperimentCheckJobData, WebhookDeliveryJobData } from "./types";
 
 export const normalizeQueue = new Queue<NormalizeJobData>("normalize", {
   connection: getRedisConnection(),
@@ -73,3 +77,33 @@ export const analyzeQueue = new Queue<AnalyzeJobData>("analyze", {
     removeOnFail: { age: 604800 },
   },
 });
+
+export const banditQueue = new Queue<BanditUpdateJobData>("bandit", {
+  connection: getRedisConnection(),
+  defaultJobOptions: {
+    attempts: 2,
+    backoff: { type: "exponential", delay: 5000 },
+    removeOnComplete: { age: 3600 },
+    removeOnFail: { age: 86400 },
+  },
+});
+
+export const experimentQueue = new Queue<ExperimentCheckJobData>("experiment", {
+  connection: getRedisConnection(),
+  defaultJobOptions: {
+    attempts: 2,
+    backoff: { type: "exponential", delay: 5000 },
+    removeOnComplete: { age: 3600 },
+    removeOnFail: { age: 86400 },
+  },
+});
+
+export const webhookQueue = new Queue<WebhookDeliveryJobData>("webhook", {
+  connection: getRedisConnection(),
+  defaultJobOptions: {
+    attempts: 6,
+    backoff: { type: "exponential", delay: 30000 },
+    removeOnComplete: { age: 86400 },
+    removeOnFail: { age: 604800 },
+  },
+});
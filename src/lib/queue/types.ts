@@ -9,16 +9,31 @@
  *      target specs. Input: original R2 key. Output: normalized R2 key
  *      + metadata (duration, dimensions, codec, file size).
  *
- *   2. RENDER: Stitches three normalized segments (hook + body + CTA) into
- *      a complete variant video, then extracts the hook clip. Input: three
- *      normalized R2 keys + hook duration. Output: video R2 key + hook clip
+ *   2. RENDER: Stitches the variant's normalized segments (one per project
+ *      slot, in order) into a complete video, then extracts the hook clip
+ *      (the opening segment) and composes the variant's captions from the
+ *      segments' caption files. Input: normalized R2 keys, caption keys,
+ *      boundary transitions + opening segment duration. Output: video R2 key + hook clip
  *      R2 key + metadata.
  *
  *   3. HLS_PACKAGE: Packages a rendered variant MP4 into HLS adaptive
  *      bitrate streams (1080p, 720p, 480p). Runs as a separate background
- *      job after render completes. Best-effort — failure doesn't affect
+ *      job after render completes; the variant's captions, if any, become
+ *      a subtitles rendition. Best-effort — failure doesn't affect
  *      the variant's "rendered" status.
  *
+ *   4. BANDIT_UPDATE: Recomputes Thompson-sampling traffic weights for
+ *      projects in "bandit" allocation mode. Runs on a repeating schedule
+ *      (all bandit projects) or on demand for a single project.
+ *
+ *   5. EXPERIMENT_CHECK: Starts scheduled experiments and concludes running
+ *      ones whose stop rule has fired (promoting the winner). Runs on a
+ *      repeating schedule (all open experiments) or on demand for one.
+ *
+ *   6. WEBHOOK_DELIVERY: POSTs one logged outgoing webhook delivery to its
+ *      subscriber, signed. Queued when an event is dispatched and when a
+ *      delivery is redelivered from the dashboard.
+ *
  * USED BY:
  *   - queues.ts (Queue<NormalizeJobData>, Queue<RenderJobData>, Queue<HlsPackageJobData>)
  *   - jobs.ts (enqueueNormalize, enqueueRender, enqueueHlsPackage)
@@ -26,21 +41,27 @@
  *   - process/route.ts API (creates job payloads)
  */
 
+import type { SegmentTransition } from "../supabase/types";
+
 export interface NormalizeJobData {
   projectId: string;
   segmentId: string;
   originalStorageKey: string;
+  /**
+   * The upload is gone (deleted after the first normalization), so
+   * originalStorageKey is the segment's normalized file: its metadata
+   * isn't the original's, and it is not deleted afterwards
+   */
+  renormalize?: boolean;
 }
 
 export interface RenderJobData {
   projectId: string;
   variantId: string;
-  hookSegmentId: string;
-  bodySegmentId: string;
-  ctaSegmentId: string;
-  hookNormalizedKey: string;
-  bodyNormalizedKey: string;
-  ctaNormalizedKey: string;
+  segmentIds: string[]; // playback order; [0] is the opening (hook) segment
+  normalizedKeys: string[]; // same order as segmentIds
+  captionKeys: (string | null)[]; // same order; null where a segment has no captions
+  transitions: SegmentTransition[]; // one per boundary (segmentIds.length - 1)
   hookDurationMs: number;
 }
 
@@ -68,6 +89,7 @@ export interface HlsPackageJobData {
   projectId: string;
   variantId: string;
   videoStorageKey: string;
+  captionsStorageKey: string | null;
 }
 
 export interface HlsPackageJobResult {
@@ -102,3 +124,27 @@ export interface AnalyzeJobResult {
   splitId: string;
   pointCount: number;
 }
+
+export interface BanditUpdateJobData {
+  projectId?: string; // omit to recompute every project in bandit mode
+}
+
+export interface BanditUpdateJobResult {
+  projectCount: number;
+}
+
+export interface ExperimentCheckJobData {
+  experimentId?: string; // omit to check every open experiment
+}
+
+export interface ExperimentCheckJobResult {
+  experimentCount: number;
+}
+
+export interface WebhookDeliveryJobData {
+  deliveryId: string; // webhook_deliveries row; the payload lives there
+}
+
+export interface WebhookDeliveryJobResult {
+  status: "succeeded" | "failed";
+}
@@ -9,16 +9,21 @@
  *
  * KEY STRUCTURE:
  *   projects/{projectId}/segments/{segmentId}/original.mp4
- *   projects/{projectId}/segments/{segmentId}/normalized.mp4
+ *   projects/{projectId}/segments/{segmentId}/normalized/{version}.mp4
+ *   projects/{projectId}/segments/{segmentId}/poster.jpg
+ *   projects/{projectId}/segments/{segmentId}/captions.vtt
+ *   projects/{projectId}/segments/{segmentId}/hls/{version}/playlist.m3u8
+ *   projects/{projectId}/segments/{segmentId}/hls/{version}/init.mp4
+ *   projects/{projectId}/segments/{segmentId}/hls/{version}/seg{index}.m4s
  *   projects/{projectId}/variants/{variantId}/video.mp4
  *   projects/{projectId}/variants/{variantId}/hook-clip.mp4
+ *   projects/{projectId}/variants/{variantId}/captions.vtt
  *   projects/{projectId}/variants/{variantId}/hls/master.m3u8
  *   projects/{projectId}/variants/{variantId}/hls/{rendition}/playlist.m3u8
  *   projects/{projectId}/variants/{variantId}/hls/{rendition}/init.mp4
  *   projects/{projectId}/variants/{variantId}/hls/{rendition}/seg{index}.m4s
- *   projects/{projectId}/variants/{variantId}/dual-clutch/combined.m3u8
- *   projects/{projectId}/variants/{variantId}/dual-clutch/{segment}/init.mp4
- *   projects/{projectId}/variants/{variantId}/dual-clutch/{segment}/seg{index}.m4s
+ *   projects/{projectId}/variants/{variantId}/hls/subtitles/playlist.m3u8
+ *   projects/{projectId}/variants/{variantId}/hls/subtitles/captions.vtt
  *
  * ARCHITECTURE:
  *   - Used by: API routes (when creating segment records), video-processor
@@ -34,11 +39,53 @@ export function originalSegmentKey(
   return `projects/${projectId}/segments/${segmentId}/original${ext}`;
 }
 
+/**
+ * A segment's normalized file. Versioned like its HLS package: composed
+ * variants use it as their hook clip, and keep the version they were
+ * staged with.
+ */
 export function normalizedSegmentKey(
+  projectId: string,
+  segmentId: string,
+  version: string
+): string {
+  return `projects/${projectId}/segments/${segmentId}/normalized/${version}.mp4`;
+}
+
+/** First frame of a segment — the poster of composed variants it opens */
+export function segmentPosterKey(
+  projectId: string,
+  segmentId: string
+): string {
+  return `projects/${projectId}/segments/${segmentId}/poster.jpg`;
+}
+
+/** A segment's captions, converted to WebVTT on upload */
+export function segmentCaptionsKey(
   projectId: string,
   segmentId: string
 ): string {
-  return `projects/${projectId}/segments/${segmentId}/normalized.mp4`;
+  return `projects/${projectId}/segments/${segmentId}/captions.vtt`;
+}
+
+/**
+ * One HLS package of a segment. Each normalization writes a new version,
+ * so manifests composed (and cached) before it keep resolving.
+ */
+export function segmentHlsPrefix(
+  projectId: string,
+  segmentId: string,
+  version: string
+): string {
+  return `projects/${projectId}/segments/${segmentId}/hls/${version}`;
+}
+
+/** Everything stored for one variant — deleted when its publish run is pruned */
+export function variantPrefix(
+  projectId: string,
+  variantId: string
+): string {
+  return `projects/${projectId}/variants/${variantId}/`;
 }
 
 export function variantVideoKey(
@@ -62,6 +109,14 @@ export function variantPosterKey(
   return `projects/${projectId}/variants/${variantId}/poster.jpg`;
 }
 
+/** The variant's captions: its segments' cues on the stitched timeline */
+export function variantCaptionsKey(
+  projectId: string,
+  variantId: string
+): string {
+  return `projects/${projectId}/variants/${variantId}/captions.vtt`;
+}
+
 export function variantMicroSegmentKey(
   projectId: string,
   variantId: string
@@ -118,28 +173,13 @@ export function variantHlsSegmentKey(
   return `${variantHlsPrefix(projectId, variantId)}/${rendition}/seg${padded}.m4s`;
 }
 
-// ─── Dual Clutch player keys ───
-
-export function dualClutchPrefix(
-  projectId: string,
-  variantId: string
-): string {
-  return `projects/${projectId}/variants/${variantId}/dual-clutch`;
-}
-
-export function dualClutchManifestKey(
-  projectId: string,
-  variantId: string
-): string {
-  return `${dualClutchPrefix(projectId, variantId)}/combined.m3u8`;
-}
-
-export function dualClutchSegmentDir(
+/** Files of the HLS subtitles rendition (playlist.m3u8, captions.vtt) */
+export function variantHlsSubtitlesKey(
   projectId: string,
   variantId: string,
-  segmentName: string
+  file: string
 ): string {
-  return `${dualClutchPrefix(projectId, variantId)}/${segmentName}`;
+  return `${variantHlsPrefix(projectId, variantId)}/subtitles/${file}`;
 }
 
 // ─── Splitter keys ───
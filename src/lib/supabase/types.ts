@@ -14,10 +14,15 @@
  *
  * TABLES:
  *   - projects: A/B test projects (owned by a user)
- *   - segments: Video segments (hook, body, or CTA) uploaded to a project
- *   - variants: Pre-rendered combinations of hook + body + CTA
+ *   - segments: Video segments uploaded to a project, one slot each
+ *     (hook, body, CTA, or the project's own slots)
+ *   - variants: Pre-rendered combinations of one segment per slot
  *   - views: Analytics events from embed player views
  *   - processing_jobs: FFmpeg job tracking (normalize + render)
+ *   - assignments: Persisted viewer → variant assignments (sticky A/B buckets)
+ *   - assignment_rules: URL parameter → hook personalization rules
+ *   - publish_runs: One render of a project's variants (building, live, or
+ *     archived for rollback)
  *
  * GENERATION:
  *   Currently manually typed to match supabase/migrations/001_initial_schema.sql.
@@ -31,17 +36,67 @@
 
 export type SplitStatus = "uploaded" | "splitting" | "completed" | "failed";
 export type SplitClipStatus = "pending" | "ready" | "failed";
-export type SegmentType = "hook" | "body" | "cta";
+/** Key of the project slot a segment fills — "hook" | "body" | "cta" by default */
+export type SegmentType = string;
 export type SegmentStatus =
   | "uploading"
   | "uploaded"
   | "normalizing"
   | "normalized"
+  | "stale"
   | "failed";
-export type VariantStatus = "pending" | "rendering" | "rendered" | "failed";
+export type VariantStatus =
+  | "pending"
+  | "rendering"
+  | "rendered"
+  | "failed"
+  | "staged"
+  | "archived";
 export type ProjectStatus = "draft" | "processing" | "ready" | "archived";
 export type MetricType = "url_rule" | "webhook";
 export type MatchType = "contains" | "exact" | "regex";
+export type MetricValueType = "count" | "unique" | "revenue";
+export type AllocationMode = "uniform" | "bandit";
+export type DesignMode = "full" | "fractional";
+export type CompositionMode = "render" | "dynamic";
+/** One slot of a project's segment structure (projects.slots, in playback order) */
+export interface SegmentSlot {
+  key: string;
+  label: string;
+  required: boolean;
+}
+export type TransitionType = "cut" | "crossfade" | "fade_black" | "j_cut" | "l_cut";
+/** How a variant moves from one segment into the next */
+export interface SegmentTransition {
+  type: TransitionType;
+  /** Overlap of the two segments (0 for a cut) */
+  durationMs: number;
+}
+/** projects.transitions — keyed by the slot each boundary leads into */
+export type ProjectTransitions = Record<string, SegmentTransition>;
+export type PublishRunStatus = "building" | "live" | "archived";
+export type ControlType = "variant" | "holdout";
+export type AudienceDevice = "mobile" | "desktop";
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+export type ExperimentStatus = "scheduled" | "running" | "concluded" | "stopped";
+export type ExperimentConclusionReason =
+  | "winner"
+  | "sample_size"
+  | "end_time"
+  | "manual";
+
+/** A segment's packaged HLS playlist (segments.hls_playlist) */
+export interface SegmentPlaylist {
+  targetDuration: number;
+  /** Media segments in order; uri is relative to segments.hls_prefix */
+  entries: { duration: number; uri: string }[];
+}
+
+/** One segment package a composed variant was staged from (variants.composed_parts) */
+export interface ComposedPart {
+  hlsPrefix: string;
+  playlist: SegmentPlaylist;
+}
 
 export interface Database {
   public: {
@@ -60,6 +115,19 @@ export interface Database {
           target_audio_codec: string;
           target_audio_rate: number;
           target_pixel_format: string;
+          loudness_target_lufs: number | null;
+          allocation_mode: AllocationMode;
+          design_mode: DesignMode;
+          composition_mode: CompositionMode;
+          slots: SegmentSlot[];
+          transitions: ProjectTransitions;
+          excluded_combinations: string[];
+          live_run_id: string | null;
+          control_type: ControlType;
+          control_variant_id: string | null;
+          control_share: number | null;
+          bandit_metric_id: string | null;
+          bandit_updated_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -76,6 +144,19 @@ export interface Database {
           target_audio_codec?: string;
           target_audio_rate?: number;
           target_pixel_format?: string;
+          loudness_target_lufs?: number | null;
+          allocation_mode?: AllocationMode;
+          design_mode?: DesignMode;
+          composition_mode?: CompositionMode;
+          slots?: SegmentSlot[];
+          transitions?: ProjectTransitions;
+          excluded_combinations?: string[];
+          live_run_id?: string | null;
+          control_type?: ControlType;
+          control_variant_id?: string | null;
+          control_share?: number | null;
+          bandit_metric_id?: string | null;
+          bandit_updated_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -92,6 +173,19 @@ export interface Database {
           target_audio_codec?: string;
           target_audio_rate?: number;
           target_pixel_format?: string;
+          loudness_target_lufs?: number | null;
+          allocation_mode?: AllocationMode;
+          design_mode?: DesignMode;
+          composition_mode?: CompositionMode;
+          slots?: SegmentSlot[];
+          transitions?: ProjectTransitions;
+          excluded_combinations?: string[];
+          live_run_id?: string | null;
+          control_type?: ControlType;
+          control_variant_id?: string | null;
+          control_share?: number | null;
+          bandit_metric_id?: string | null;
+          bandit_updated_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -115,6 +209,13 @@ export interface Database {
           normalized_storage_key: string | null;
           normalized_size_bytes: number | null;
           normalized_duration_ms: number | null;
+          normalized_at: string | null;
+          hls_prefix: string | null;
+          hls_playlist: SegmentPlaylist | null;
+          captions_storage_key: string | null;
+          captions_updated_at: string | null;
+          loudness_lufs: number | null;
+          true_peak_dbtp: number | null;
           status: SegmentStatus;
           error_message: string | null;
           created_at: string;
@@ -137,6 +238,13 @@ export interface Database {
           normalized_storage_key?: string | null;
           normalized_size_bytes?: number | null;
           normalized_duration_ms?: number | null;
+          normalized_at?: string | null;
+          hls_prefix?: string | null;
+          hls_playlist?: SegmentPlaylist | null;
+          captions_storage_key?: string | null;
+          captions_updated_at?: string | null;
+          loudness_lufs?: number | null;
+          true_peak_dbtp?: number | null;
           status?: SegmentStatus;
           error_message?: string | null;
           created_at?: string;
@@ -159,6 +267,13 @@ export interface Database {
           normalized_storage_key?: string | null;
           normalized_size_bytes?: number | null;
           normalized_duration_ms?: number | null;
+          normalized_at?: string | null;
+          hls_prefix?: string | null;
+          hls_playlist?: SegmentPlaylist | null;
+          captions_storage_key?: string | null;
+          captions_updated_at?: string | null;
+          loudness_lufs?: number | null;
+          true_peak_dbtp?: number | null;
           status?: SegmentStatus;
           error_message?: string | null;
           created_at?: string;
@@ -171,8 +286,8 @@ export interface Database {
           id: string;
           project_id: string;
           hook_segment_id: string;
-          body_segment_id: string;
-          cta_segment_id: string;
+          segment_ids: string[];
+          transitions: SegmentTransition[];
           video_storage_key: string | null;
           video_size_bytes: number | null;
           video_duration_ms: number | null;
@@ -187,8 +302,12 @@ export interface Database {
           hls_status: string | null;
           hls_error_message: string | null;
           dual_clutch_manifest_key: string | null;
+          composed: boolean;
+          composed_parts: ComposedPart[] | null;
+          captions_storage_key: string | null;
           status: VariantStatus;
           error_message: string | null;
+          rendered_at: string | null;
           variant_code: string;
           custom_name: string | null;
           weight: number;
@@ -199,8 +318,8 @@ export interface Database {
           id?: string;
           project_id: string;
           hook_segment_id: string;
-          body_segment_id: string;
-          cta_segment_id: string;
+          segment_ids: string[];
+          transitions?: SegmentTransition[];
           video_storage_key?: string | null;
           video_size_bytes?: number | null;
           video_duration_ms?: number | null;
@@ -215,8 +334,12 @@ export interface Database {
           hls_status?: string | null;
           hls_error_message?: string | null;
           dual_clutch_manifest_key?: string | null;
+          composed?: boolean;
+          composed_parts?: ComposedPart[] | null;
+          captions_storage_key?: string | null;
           status?: VariantStatus;
           error_message?: string | null;
+          rendered_at?: string | null;
           variant_code: string;
           custom_name?: string | null;
           weight?: number;
@@ -227,8 +350,8 @@ export interface Database {
           id?: string;
           project_id?: string;
           hook_segment_id?: string;
-          body_segment_id?: string;
-          cta_segment_id?: string;
+          segment_ids?: string[];
+          transitions?: SegmentTransition[];
           video_storage_key?: string | null;
           video_size_bytes?: number | null;
           video_duration_ms?: number | null;
@@ -243,8 +366,12 @@ export interface Database {
           hls_status?: string | null;
           hls_error_message?: string | null;
           dual_clutch_manifest_key?: string | null;
+          composed?: boolean;
+          composed_parts?: ComposedPart[] | null;
+          captions_storage_key?: string | null;
           status?: VariantStatus;
           error_message?: string | null;
+          rendered_at?: string | null;
           variant_code?: string;
           custom_name?: string | null;
           weight?: number;
@@ -443,7 +570,7 @@ export interface Database {
         Row: {
           id: string;
           project_id: string;
-          variant_id: string;
+          variant_id: string | null;
           viewer_id: string;
           session_id: string;
           event_type: string;
@@ -451,12 +578,14 @@ export interface Database {
           referrer: string | null;
           user_agent: string | null;
           country_code: string | null;
+          is_forced: boolean;
+          audience_id: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           project_id: string;
-          variant_id: string;
+          variant_id: string | null;
           viewer_id: string;
           session_id: string;
           event_type: string;
@@ -464,12 +593,14 @@ export interface Database {
           referrer?: string | null;
           user_agent?: string | null;
           country_code?: string | null;
+          is_forced?: boolean;
+          audience_id?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
           project_id?: string;
-          variant_id?: string;
+          variant_id?: string | null;
           viewer_id?: string;
           session_id?: string;
           event_type?: string;
@@ -477,6 +608,8 @@ export interface Database {
           referrer?: string | null;
           user_agent?: string | null;
           country_code?: string | null;
+          is_forced?: boolean;
+          audience_id?: string | null;
           created_at?: string;
         };
         Relationships: [];
@@ -491,6 +624,17 @@ export interface Database {
           match_type: MatchType | null;
           webhook_key: string | null;
           description: string | null;
+          value_type: MetricValueType;
+          /** ISO 4217; set for revenue metrics */
+          currency: string | null;
+          /** Metadata field whose value dedupes conversions (e.g. order_id) */
+          idempotency_field: string | null;
+          /** At most one conversion per viewer */
+          count_once: boolean;
+          /** Hours after first exposure a conversion is credited; null = no limit */
+          attribution_window_hours: number | null;
+          /** HMAC secret webhook calls must be signed with; null = unsigned allowed */
+          signing_secret: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -503,6 +647,12 @@ export interface Database {
           match_type?: MatchType | null;
           webhook_key?: string | null;
           description?: string | null;
+          value_type?: MetricValueType;
+          currency?: string | null;
+          idempotency_field?: string | null;
+          count_once?: boolean;
+          attribution_window_hours?: number | null;
+          signing_secret?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -515,11 +665,124 @@ export interface Database {
           match_type?: MatchType | null;
           webhook_key?: string | null;
           description?: string | null;
+          value_type?: MetricValueType;
+          currency?: string | null;
+          idempotency_field?: string | null;
+          count_once?: boolean;
+          attribution_window_hours?: number | null;
+          signing_secret?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      webhook_subscriptions: {
+        Row: {
+          id: string;
+          project_id: string;
+          url: string;
+          /** WebhookEventType values (lib/webhooks/events.ts) */
+          event_types: string[];
+          /** HMAC secret deliveries are signed with */
+          secret: string;
+          active: boolean;
+          description: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          url: string;
+          event_types: string[];
+          secret: string;
+          active?: boolean;
+          description?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          url?: string;
+          event_types?: string[];
+          secret?: string;
+          active?: boolean;
+          description?: string | null;
           created_at?: string;
           updated_at?: string;
         };
         Relationships: [];
       };
+      webhook_deliveries: {
+        Row: {
+          id: string;
+          subscription_id: string;
+          project_id: string;
+          /** Shared by every subscription's delivery of the same event */
+          event_id: string;
+          event_type: string;
+          payload: Record<string, unknown>;
+          status: WebhookDeliveryStatus;
+          attempts: number;
+          /** HTTP status of the latest attempt */
+          response_status: number | null;
+          /** Start of the latest response body */
+          response_body: string | null;
+          error: string | null;
+          last_attempt_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          subscription_id: string;
+          project_id: string;
+          event_id: string;
+          event_type: string;
+          payload: Record<string, unknown>;
+          status?: WebhookDeliveryStatus;
+          attempts?: number;
+          response_status?: number | null;
+          response_body?: string | null;
+          error?: string | null;
+          last_attempt_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          subscription_id?: string;
+          project_id?: string;
+          event_id?: string;
+          event_type?: string;
+          payload?: Record<string, unknown>;
+          status?: WebhookDeliveryStatus;
+          attempts?: number;
+          response_status?: number | null;
+          response_body?: string | null;
+          error?: string | null;
+          last_attempt_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      webhook_signatures: {
+        Row: {
+          metric_id: string;
+          signature: string;
+          received_at: string;
+        };
+        Insert: {
+          metric_id: string;
+          signature: string;
+          received_at?: string;
+        };
+        Update: {
+          metric_id?: string;
+          signature?: string;
+          received_at?: string;
+        };
+        Relationships: [];
+      };
       project_activity: {
         Row: {
           id: string;
@@ -550,6 +813,186 @@ export interface Database {
         };
         Relationships: [];
       };
+      assignments: {
+        Row: {
+          id: string;
+          project_id: string;
+          viewer_id: string;
+          variant_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          viewer_id: string;
+          variant_id: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          viewer_id?: string;
+          variant_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      assignment_rules: {
+        Row: {
+          id: string;
+          project_id: string;
+          param_name: string;
+          param_value: string;
+          hook_segment_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          param_name: string;
+          param_value: string;
+          hook_segment_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          param_name?: string;
+          param_value?: string;
+          hook_segment_id?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      publish_runs: {
+        Row: {
+          id: string;
+          project_id: string;
+          status: PublishRunStatus;
+          design_mode: DesignMode;
+          variant_count: number;
+          variant_ids: string[];
+          created_at: string;
+          published_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          status?: PublishRunStatus;
+          design_mode?: DesignMode;
+          variant_count?: number;
+          variant_ids?: string[];
+          created_at?: string;
+          published_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          status?: PublishRunStatus;
+          design_mode?: DesignMode;
+          variant_count?: number;
+          variant_ids?: string[];
+          created_at?: string;
+          published_at?: string | null;
+        };
+        Relationships: [];
+      };
+      audiences: {
+        Row: {
+          id: string;
+          project_id: string;
+          name: string;
+          sort_order: number;
+          referrer_domain: string | null;
+          utm_source: string | null;
+          utm_medium: string | null;
+          utm_campaign: string | null;
+          device: AudienceDevice | null;
+          country: string | null;
+          variant_keys: string[];
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          name: string;
+          sort_order?: number;
+          referrer_domain?: string | null;
+          utm_source?: string | null;
+          utm_medium?: string | null;
+          utm_campaign?: string | null;
+          device?: AudienceDevice | null;
+          country?: string | null;
+          variant_keys: string[];
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          name?: string;
+          sort_order?: number;
+          referrer_domain?: string | null;
+          utm_source?: string | null;
+          utm_medium?: string | null;
+          utm_campaign?: string | null;
+          device?: AudienceDevice | null;
+          country?: string | null;
+          variant_keys?: string[];
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      experiments: {
+        Row: {
+          id: string;
+          project_id: string;
+          status: ExperimentStatus;
+          metric_id: string | null;
+          starts_at: string;
+          ends_at: string | null;
+          target_sample_size: number | null;
+          auto_conclude: boolean;
+          winner_variant_id: string | null;
+          conclusion_reason: ExperimentConclusionReason | null;
+          concluded_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          status?: ExperimentStatus;
+          metric_id?: string | null;
+          starts_at?: string;
+          ends_at?: string | null;
+          target_sample_size?: number | null;
+          auto_conclude?: boolean;
+          winner_variant_id?: string | null;
+          conclusion_reason?: ExperimentConclusionReason | null;
+          concluded_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          status?: ExperimentStatus;
+          metric_id?: string | null;
+          starts_at?: string;
+          ends_at?: string | null;
+          target_sample_size?: number | null;
+          auto_conclude?: boolean;
+          winner_variant_id?: string | null;
+          conclusion_reason?: ExperimentConclusionReason | null;
+          concluded_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
       custom_metric_events: {
         Row: {
           id: string;
@@ -559,6 +1002,13 @@ export interface Database {
           viewer_id: string;
           session_id: string | null;
           metadata: Record<string, unknown>;
+          is_holdout: boolean;
+          /** Numeric value passed with the conversion (e.g. order total) */
+          value: number | null;
+          /** Dedup key, unique per metric (see lib/analytics/conversions.ts) */
+          idempotency_key: string | null;
+          /** False outside the attribution window or with no exposure */
+          attributed: boolean;
           created_at: string;
         };
         Insert: {
@@ -569,6 +1019,10 @@ export interface Database {
           viewer_id: string;
           session_id?: string | null;
           metadata?: Record<string, unknown>;
+          is_holdout?: boolean;
+          value?: number | null;
+          idempotency_key?: string | null;
+          attributed?: boolean;
           created_at?: string;
         };
         Update: {
@@ -579,6 +1033,10 @@ export interface Database {
           viewer_id?: string;
           session_id?: string | null;
           metadata?: Record<string, unknown>;
+          is_holdout?: boolean;
+          value?: number | null;
+          idempotency_key?: string | null;
+          attributed?: boolean;
           created_at?: string;
         };
         Relationships: [];
@@ -622,6 +1080,72 @@ export interface Database {
           completion_rate: number;
         }[];
       };
+      get_bandit_stats: {
+        Args: {
+          p_project_id: string;
+          p_metric_id?: string | null;
+        };
+        Returns: {
+          variant_id: string;
+          trials: number;
+          successes: number;
+        }[];
+      };
+      get_variant_conversion_stats: {
+        Args: {
+          p_project_id: string;
+          p_metric_id?: string | null;
+          p_start_date?: string | null;
+          p_end_date?: string | null;
+        };
+        /** Plus a variant_id null row for the holdout bucket, if any */
+        Returns: {
+          variant_id: string | null;
+          weight: number;
+          trials: number;
+          successes: number;
+        }[];
+      };
+      publish_run: {
+        Args: {
+          p_project_id: string;
+          p_run_id: string;
+        };
+        /** IDs of variants in pruned runs (for storage cleanup) */
+        Returns: string[];
+      };
+      get_metric_value_stats: {
+        Args: {
+          p_project_id: string;
+          p_metric_id: string;
+          p_start_date?: string | null;
+          p_end_date?: string | null;
+        };
+        /** variant_id null = the holdout bucket */
+        Returns: {
+          variant_id: string | null;
+          conversions: number;
+          converters: number;
+          revenue: number;
+          valued_conversions: number;
+        }[];
+      };
+      get_audience_analytics: {
+        Args: {
+          p_project_id: string;
+          p_start_date?: string | null;
+          p_end_date?: string | null;
+        };
+        /** audience_id null = traffic that matched no audience */
+        Returns: {
+          audience_id: string | null;
+          variant_id: string;
+          variant_code: string;
+          unique_viewers: number;
+          play_count: number;
+          complete_count: number;
+        }[];
+      };
       get_daily_views: {
         Args: {
           p_project_id: string;
@@ -638,7 +1162,6 @@ export interface Database {
       };
     };
     Enums: {
-      segment_type: SegmentType;
       segment_status: SegmentStatus;
       variant_status: VariantStatus;
       project_status: ProjectStatus;
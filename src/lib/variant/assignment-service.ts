@@ -0,0 +1,365 @@
+/**
+ * assignment-service.ts — Server-side variant assignment for embed entry points
+ *
+ * PURPOSE:
+ *   The single place that decides which variant a viewer sees. The embed
+ *   page (/e/[slug]) and the embed API (/api/embed/[slug]) both go through
+ *   here, and the middleware preload hints read what it persisted, so the
+ *   three can never disagree.
+ *
+ * HOW IT WORKS:
+ *   0. Only the project's live publish run is served — variants of a run
+ *      that's still rendering are "staged", rollback targets "archived",
+ *      so status "rendered" is exactly the live set
+ *   1. Look up the viewer's persisted row in the assignments table
+ *   2. If it points at a variant that's still rendered and active, use it
+ *   3. Otherwise compute a fresh assignment with assignVariantWeighted()
+ *      (weights, bandit shares and disabled variants all respected) and
+ *      persist it. A control with a fixed traffic share — a control variant
+ *      or the "no video" holdout — takes its share off the top first
+ *      (inControlBucket). Held-out viewers are persisted with a null
+ *      variant and the embed renders nothing for them
+ *
+ *   Overrides (see assignment.ts) come first and are never persisted:
+ *   - ?wai_variant=<code> serves that variant outright and marks the view
+ *     as forced, so its tracking events are excluded from analytics
+ *   - A matching assignment rule (?industry=saas → a hook) buckets the
+ *     viewer among that hook's variants only; their own persisted
+ *     assignment is kept for when they return without the parameter
+ *   - A matching audience (referrer, UTM, device, country — see
+ *     audience.ts) buckets the viewer among that audience's pool, the same
+ *     way. The audience is returned so tracked events can carry it
+ *
+ *   Because the first assignment is stored, adding new variants, changing
+ *   the variant_code sort order, or bandit reweighting never moves an
+ *   existing viewer. Disabling a variant only re-buckets that variant's
+ *   own viewers.
+ *
+ * ARCHITECTURE:
+ *   - assignEmbedVariant(): slug + URL params → project + assigned variant
+ *     (page + API)
+ *   - resolveAssignment(): project + variants → assigned variant
+ *   - The middleware runs on the Edge runtime without the Supabase SDK, so
+ *     it reads the persisted assignment over REST instead of calling this
+ *     module — it never computes one itself.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ControlType, Database } from "../supabase/types";
+import {
+  assignVariantWeighted,
+  inControlBucket,
+  findForcedVariant,
+  matchAssignmentRule,
+  FORCE_VARIANT_PARAM,
+} from "./assignment";
+import { audiencePool, matchAudience, type ViewerContext } from "./audience";
+
+type Variant = Database["public"]["Tables"]["variants"]["Row"];
+
+export type EmbedVariant = Pick<
+  Variant,
+  | "id"
+  | "variant_code"
+  | "weight"
+  | "hook_segment_id"
+  | "segment_ids"
+  | "video_storage_key"
+  | "hook_clip_storage_key"
+  | "hook_end_time_ms"
+  | "video_duration_ms"
+  | "micro_segment_storage_key"
+  | "video_720p_storage_key"
+  | "hls_master_manifest_key"
+  | "hls_status"
+  | "composed"
+  | "captions_storage_key"
+>;
+
+export type EmbedAssignmentResult =
+  | {
+      ok: true;
+      projectId: string;
+      variant: EmbedVariant;
+      holdout: false;
+      forced: boolean;
+      /** Audience whose pool the variant came from, if any */
+      audienceId: string | null;
+    }
+  | {
+      ok: true;
+      projectId: string;
+      variant: null;
+      holdout: true;
+      forced: false;
+      audienceId: null;
+    }
+  | { ok: false; reason: "project_not_ready" | "no_variants" | "all_disabled" };
+
+/** The project's control arm, from projects.control_* */
+export interface ControlConfig {
+  type: ControlType;
+  /** Designated control variant (type "variant") */
+  variantId: string | null;
+  /** Fixed control traffic share (0–1), or null for no fixed share */
+  share: number | null;
+}
+
+/** Returned by resolveAssignment() for viewers in the holdout bucket */
+export const HOLDOUT = "holdout";
+
+/**
+ * Resolve (and persist) the viewer's variant among the given candidates.
+ * Returns HOLDOUT for a held-out viewer (persisted as variant_id NULL),
+ * and null only if every candidate is disabled.
+ *
+ * With a fixed control share (a holdout, or a control variant with a
+ * share), inControlBucket() splits control from treatment first; the
+ * remaining viewers are bucketed among the other variants by weight.
+ */
+export async function resolveAssignment<T extends { id: string; weight: number }>(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  viewerId: string,
+  variants: T[],
+  control?: ControlConfig
+): Promise<T | typeof HOLDOUT | null> {
+  const { data: existing } = await supabase
+    .from("assignments")
+    .select("variant_id")
+    .eq("project_id", projectId)
+    .eq("viewer_id", viewerId)
+    .maybeSingle();
+
+  const share = control?.share ?? null;
+  const holdoutActive = control?.type === "holdout" && share !== null;
+  const pinnedControl =
+    control?.type === "variant" && share !== null
+      ? variants.find((v) => v.id === control.variantId && v.weight > 0)
+      : undefined;
+
+  let assigned: string | null;
+  if (existing && existing.variant_id === null && holdoutActive) {
+    assigned = HOLDOUT;
+  } else if (
+    existing?.variant_id &&
+    variants.some((v) => v.id === existing.variant_id && v.weight > 0)
+  ) {
+    assigned = existing.variant_id;
+  } else if (share !== null && (holdoutActive || pinnedControl)) {
+    if (inControlBucket(viewerId, projectId, share)) {
+      assigned = pinnedControl ? pinnedControl.id : HOLDOUT;
+    } else {
+      const treatments = pinnedControl
+        ? variants.filter((v) => v.id !== pinnedControl.id)
+        : variants;
+      // Only the control is active — it takes all traffic
+      assigned =
+        assignVariantWeighted(viewerId, projectId, treatments) ??
+        pinnedControl?.id ??
+        null;
+    }
+  } else {
+    assigned = assignVariantWeighted(viewerId, projectId, variants);
+  }
+  if (!assigned) return null;
+
+  const assignedVariantId = assigned === HOLDOUT ? null : assigned;
+  if (!existing) {
+    // Concurrent first requests compute the same deterministic bucket,
+    // so losing the insert race is harmless
+    await supabase
+      .from("assignments")
+      .upsert(
+        { project_id: projectId, viewer_id: viewerId, variant_id: assignedVariantId },
+        { onConflict: "project_id,viewer_id", ignoreDuplicates: true }
+      );
+  } else if (existing.variant_id !== assignedVariantId) {
+    // Previous variant was disabled or removed (or the holdout was turned
+    // off) — move this viewer only
+    await supabase
+      .from("assignments")
+      .update({ variant_id: assignedVariantId })
+      .eq("project_id", projectId)
+      .eq("viewer_id", viewerId);
+  }
+
+  if (assigned === HOLDOUT) return HOLDOUT;
+  return variants.find((v) => v.id === assigned) ?? null;
+}
+
+/**
+ * Bucket a viewer within a restricted pool — the variants of the hook an
+ * assignment rule points at, or an audience's pool. Reads the viewer's
+ * persisted assignment for stickiness but doesn't write it. Returns null
+ * if the pool has no active variants.
+ */
+async function resolvePoolAssignment<T extends { id: string; weight: number }>(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  viewerId: string,
+  variants: T[]
+): Promise<T | null> {
+  const { data: existing } = await supabase
+    .from("assignments")
+    .select("variant_id")
+    .eq("project_id", projectId)
+    .eq("viewer_id", viewerId)
+    .maybeSingle();
+
+  const assignedId = assignVariantWeighted(
+    viewerId,
+    projectId,
+    variants,
+    existing?.variant_id
+  );
+  return variants.find((v) => v.id === assignedId) ?? null;
+}
+
+/**
+ * Look up a published project by slug and assign the viewer one of the
+ * rendered variants in its live run. Keeps serving while a republish
+ * renders (project status "processing").
+ *
+ * `params` are the embed URL's query parameters, checked for a forced
+ * variant and for assignment rules. `context` (see buildViewerContext())
+ * is matched against the project's audiences.
+ */
+export async function assignEmbedVariant(
+  supabase: SupabaseClient<Database>,
+  slug: string,
+  viewerId: string,
+  params: Record<string, string | undefined> = {},
+  context?: ViewerContext
+): Promise<EmbedAssignmentResult> {
+  const { data: project, error } = await supabase
+    .from("projects")
+    .select("id, live_run_id, control_type, control_variant_id, control_share")
+    .eq("slug", slug)
+    .single();
+
+  if (error || !project || !project.live_run_id) {
+    return { ok: false, reason: "project_not_ready" };
+  }
+
+  const { data: variants } = await supabase
+    .from("variants")
+    .select(
+      "id, variant_code, weight, hook_segment_id, segment_ids, video_storage_key, hook_clip_storage_key, hook_end_time_ms, video_duration_ms, micro_segment_storage_key, video_720p_storage_key, hls_master_manifest_key, hls_status, composed, captions_storage_key"
+    )
+    .eq("project_id", project.id)
+    .eq("status", "rendered")
+    .order("variant_code");
+
+  if (!variants || variants.length === 0) {
+    return { ok: false, reason: "no_variants" };
+  }
+  const candidates = variants as EmbedVariant[];
+
+  const forced = findForcedVariant(candidates, params[FORCE_VARIANT_PARAM]);
+  if (forced) {
+    return {
+      ok: true,
+      projectId: project.id,
+      variant: forced,
+      holdout: false,
+      forced: true,
+      audienceId: null,
+    };
+  }
+
+  // Only hit the rules table when the URL carries parameters at all
+  if (Object.keys(params).length > 0) {
+    const { data: rules } = await supabase
+      .from("assignment_rules")
+      .select("param_name, param_value, hook_segment_id")
+      .eq("project_id", project.id)
+      .order("created_at");
+
+    const rule = matchAssignmentRule(rules || [], params);
+    if (rule) {
+      const variant = await resolvePoolAssignment(
+        supabase,
+        project.id,
+        viewerId,
+        candidates.filter((v) => v.hook_segment_id === rule.hook_segment_id)
+      );
+      if (variant) {
+        return {
+          ok: true,
+          projectId: project.id,
+          variant,
+          holdout: false,
+          forced: false,
+          audienceId: null,
+        };
+      }
+    }
+  }
+
+  if (context) {
+    const { data: audiences } = await supabase
+      .from("audiences")
+      .select(
+        "id, sort_order, referrer_domain, utm_source, utm_medium, utm_campaign, device, country, variant_keys"
+      )
+      .eq("project_id", project.id)
+      .order("sort_order")
+      .order("created_at");
+
+    const audience = matchAudience(audiences || [], context);
+    if (audience) {
+      const variant = await resolvePoolAssignment(
+        supabase,
+        project.id,
+        viewerId,
+        audiencePool(candidates, audience.variant_keys)
+      );
+      if (variant) {
+        return {
+          ok: true,
+          projectId: project.id,
+          variant,
+          holdout: false,
+          forced: false,
+          audienceId: audience.id,
+        };
+      }
+    }
+  }
+
+  const variant = await resolveAssignment(
+    supabase,
+    project.id,
+    viewerId,
+    candidates,
+    {
+      type: project.control_type,
+      variantId: project.control_variant_id,
+      share: project.control_share === null ? null : Number(project.control_share),
+    }
+  );
+
+  if (!variant) {
+    return { ok: false, reason: "all_disabled" };
+  }
+  if (variant === HOLDOUT) {
+    return {
+      ok: true,
+      projectId: project.id,
+      variant: null,
+      holdout: true,
+      forced: false,
+      audienceId: null,
+    };
+  }
+
+  return {
+    ok: true,
+    projectId: project.id,
+    variant,
+    holdout: false,
+    forced: false,
+    audienceId: null,
+  };
+}
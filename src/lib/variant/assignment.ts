@@ -18,19 +18,34 @@
  *   any personal information — it's a random anonymous identifier solely for
  *   consistent variant assignment.
  *
+ *   Inside an iframe on a customer's site our wai_vid cookie is third-party,
+ *   and browsers increasingly block it. So embed.js mints the ID itself,
+ *   keeps it first-party on the host page (cookie + localStorage) and
+ *   passes it to the iframe as ?wai_vid= — parseViewerId() validates it,
+ *   and it wins over the iframe's cookie. The same ID is what the host
+ *   site sends to the conversion endpoints.
+ *
+ * WEIGHTED ASSIGNMENT:
+ *   variants.weight is a traffic share. 0 means disabled; equal weights
+ *   give an even split; fractional weights (set by the bandit worker, see
+ *   bandit.ts) send proportionally more traffic to likely winners.
+ *
+ * CONTROL AND HOLDOUT:
+ *   A project's control (a variant, or a "no video" holdout bucket) can be
+ *   given a fixed traffic share — see inControlBucket().
+ *
+ * OVERRIDES:
+ *   findForcedVariant() (?wai_variant=<code>, for QA) and
+ *   matchAssignmentRule() (URL parameter → hook, for personalization) narrow
+ *   or replace the candidates before the hash is applied.
+ *
  * ARCHITECTURE:
- *   - Used by: /api/embed/[slug] route (server-side assignment)
- *   - The viewerId is read from a cookie, or generated on first visit
- *   - In Phase 2, this can be extended with weighted assignment for
- *     exploitation (sending more traffic to winning variants)
+ *   - Used by: assignment-service.ts, which persists the first assignment so
+ *     later changes to the variant list never re-bucket existing viewers
+ *   - The viewerId is read from ?wai_vid= (embed.js) or a cookie, or
+ *     generated on first visit
  */
-export function assignVariant(
-  viewerId: string,
-  projectId: string,
-  variantCount: number
-): number {
-  if (variantCount <= 0) return 0;
-
+function hashViewer(viewerId: string, projectId: string): number {
   const input = `${viewerId}:${projectId}`;
   let hash = 0;
   for (let i = 0; i < input.length; i++) {
@@ -38,31 +53,140 @@ export function assignVariant(
     hash = (hash << 5) - hash + char;
     hash |= 0; // Convert to 32-bit integer
   }
+  return hash;
+}
 
-  return Math.abs(hash) % variantCount;
+export function assignVariant(
+  viewerId: string,
+  projectId: string,
+  variantCount: number
+): number {
+  if (variantCount <= 0) return 0;
+  return Math.abs(hashViewer(viewerId, projectId)) % variantCount;
 }
 
 /**
  * assignVariantWeighted — Weight-aware variant assignment
  *
- * Filters out disabled variants (weight === 0), then uses deterministic
- * hashing among the remaining active variants. Returns null if all
- * variants are disabled.
+ * Filters out disabled variants (weight === 0), then picks among the
+ * remaining active variants in proportion to their weights. Returns null
+ * if all variants are disabled.
+ *
+ * STICKINESS:
+ *   When weights change (e.g. a bandit recompute), a viewer's hash bucket
+ *   can move. Pass the viewer's previously served variant as
+ *   `stickyVariantId` — if it's still active, it's returned unchanged.
+ *   When all active weights are equal, the plain modulo bucket from
+ *   assignVariant() is used so uniform tests keep their existing buckets.
  */
 export function assignVariantWeighted(
   viewerId: string,
   projectId: string,
-  variants: { id: string; weight: number }[]
+  variants: { id: string; weight: number }[],
+  stickyVariantId?: string | null
 ): string | null {
   const active = variants.filter((v) => v.weight > 0);
   if (active.length === 0) return null;
 
-  const index = assignVariant(viewerId, projectId, active.length);
-  return active[index].id;
+  if (stickyVariantId && active.some((v) => v.id === stickyVariantId)) {
+    return stickyVariantId;
+  }
+
+  const isUniform = active.every((v) => v.weight === active[0].weight);
+  if (isUniform) {
+    const index = assignVariant(viewerId, projectId, active.length);
+    return active[index].id;
+  }
+
+  // Map the hash onto [0, totalWeight) and walk the cumulative weights
+  const totalWeight = active.reduce((sum, v) => sum + v.weight, 0);
+  const unit = (hashViewer(viewerId, projectId) >>> 0) / 0x100000000;
+  const point = unit * totalWeight;
+
+  let cumulative = 0;
+  for (const v of active) {
+    cumulative += v.weight;
+    if (point < cumulative) return v.id;
+  }
+  return active[active.length - 1].id;
+}
+
+/**
+ * inControlBucket — Fixed control / holdout traffic share
+ *
+ * When a project pins its control to a traffic share, the split between
+ * control and treatment is decided first, independently of the variant
+ * weights: the viewer is hashed with a separate salt onto [0, 1) and lands
+ * in the control bucket if that point is below `share`. Treatment viewers
+ * are then bucketed among the other variants with assignVariantWeighted(),
+ * so the bandit reweighting treatments never moves traffic into or out of
+ * the control.
+ */
+export function inControlBucket(
+  viewerId: string,
+  projectId: string,
+  share: number
+): boolean {
+  const unit = (hashViewer(viewerId, `${projectId}:control`) >>> 0) / 0x100000000;
+  return unit < share;
+}
+
+/** Query parameter that forces a variant by code, e.g. ?wai_variant=h1-b2-c1 */
+export const FORCE_VARIANT_PARAM = "wai_variant";
+
+/**
+ * findForcedVariant — QA override
+ *
+ * Looks up the variant named by ?wai_variant among the candidates. Codes
+ * are matched case-insensitively. Disabled variants (weight 0) can still be
+ * forced, so a variant can be checked before it's switched on. Returns
+ * null for a missing or unknown code — the viewer is then bucketed as usual.
+ */
+export function findForcedVariant<T extends { variant_code: string }>(
+  variants: T[],
+  code: string | null | undefined
+): T | null {
+  const wanted = code?.trim().toLowerCase();
+  if (!wanted) return null;
+  return variants.find((v) => v.variant_code.toLowerCase() === wanted) ?? null;
+}
+
+/**
+ * matchAssignmentRule — Personalization rules
+ *
+ * Returns the first rule whose parameter is present in the embed URL with
+ * the rule's value (values compared case-insensitively, so ?industry=SaaS
+ * matches a "saas" rule). Rules are checked in the order given.
+ */
+export function matchAssignmentRule<
+  R extends { param_name: string; param_value: string },
+>(rules: R[], params: Record<string, string | undefined>): R | null {
+  for (const rule of rules) {
+    const value = params[rule.param_name];
+    if (value !== undefined && value.trim().toLowerCase() === rule.param_value.toLowerCase()) {
+      return rule;
+    }
+  }
+  return null;
+}
+
+/** Query parameter embed.js uses to pass its first-party viewer ID */
+export const VIEWER_ID_PARAM = "wai_vid";
+
+/** "wai_" + lowercase alphanumerics — generateViewerId() and embed.js */
+const VIEWER_ID_PATTERN = /^wai_[a-z0-9]{8,32}$/;
+
+/**
+ * A well-formed viewer ID, or null. Guards the IDs that come from outside
+ * (query string, request bodies) before they're used for assignment.
+ */
+export function parseViewerId(value: unknown): string | null {
+  return typeof value === "string" && VIEWER_ID_PATTERN.test(value) ? value : null;
 }
 
 /**
  * Generate a viewer ID (stored in localStorage/cookie on client).
+ * embed.js mints the same format on the host page.
  */
 export function generateViewerId(): string {
   const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
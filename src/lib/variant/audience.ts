@@ -0,0 +1,153 @@
+/**
+ * audience.ts — Audience matching for targeted variant pools
+ *
+ * PURPOSE:
+ *   Paid and organic traffic often need different hooks. Instead of one
+ *   global pool, a project can define audiences — referrer domain, UTM
+ *   parameters, device, country — each with its own pool of variants.
+ *   A viewer who matches an audience is only ever bucketed among that
+ *   audience's variants.
+ *
+ * HOW IT WORKS:
+ *   buildViewerContext() collects what we know about the request: the
+ *   referrer host (embed.js forwards the host page's referrer as
+ *   ?wai_ref=, since inside the iframe the Referer is the host page
+ *   itself), utm_* parameters, mobile vs desktop from the User-Agent, and
+ *   the country from the CDN's geo header.
+ *
+ *   matchAudience() returns the first audience (by sort_order) whose every
+ *   set criterion matches. Text comparisons are case-insensitive; a
+ *   referrer domain also matches its subdomains.
+ *
+ * ARCHITECTURE:
+ *   - Pure functions, no I/O
+ *   - Used by: assignment-service.ts (pool restriction), the embed page
+ *     and embed API (context), /api/track (country)
+ */
+
+import type { AudienceDevice, Database } from "../supabase/types";
+import { combinationKey } from "./combinations";
+
+type Audience = Database["public"]["Tables"]["audiences"]["Row"];
+
+/** Query parameter embed.js uses to forward the host page's referrer */
+export const REFERRER_PARAM = "wai_ref";
+
+export interface ViewerContext {
+  referrerDomain: string | null;
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  device: AudienceDevice;
+  country: string | null;
+}
+
+const MOBILE_UA = /iPhone|iPad|iPod|Android|webOS|BlackBerry|IEMobile|Opera Mini/i;
+
+/** Same test the embed uses to pick the mobile player and 720p video */
+export function isMobileUserAgent(userAgent: string): boolean {
+  return MOBILE_UA.test(userAgent);
+}
+
+/** Two-letter country code from Vercel's or Cloudflare's geo header */
+export function countryFromHeaders(headers: Headers): string | null {
+  const country = (
+    headers.get("x-vercel-ip-country") ||
+    headers.get("cf-ipcountry") ||
+    ""
+  ).toUpperCase();
+  return /^[A-Z]{2}$/.test(country) ? country : null;
+}
+
+/** Host of a URL or bare hostname, lowercased and without "www." */
+function hostOf(value: string | null | undefined): string | null {
+  if (!value) return null;
+  try {
+    const host = value.includes("://") ? new URL(value).hostname : value;
+    return host.toLowerCase().replace(/^www\./, "") || null;
+  } catch {
+    return null;
+  }
+}
+
+export function buildViewerContext({
+  params,
+  referer,
+  userAgent,
+  headers,
+}: {
+  params: Record<string, string | undefined>;
+  referer: string | null;
+  userAgent: string;
+  headers: Headers;
+}): ViewerContext {
+  return {
+    referrerDomain: hostOf(params[REFERRER_PARAM]) ?? hostOf(referer),
+    utmSource: params.utm_source || null,
+    utmMedium: params.utm_medium || null,
+    utmCampaign: params.utm_campaign || null,
+    device: isMobileUserAgent(userAgent) ? "mobile" : "desktop",
+    country: countryFromHeaders(headers),
+  };
+}
+
+function sameText(expected: string | null, actual: string | null): boolean {
+  return expected === null || expected.toLowerCase() === actual?.toLowerCase();
+}
+
+function matchesReferrer(domain: string | null, host: string | null): boolean {
+  if (domain === null) return true;
+  if (!host) return false;
+  const d = domain.toLowerCase().replace(/^www\./, "");
+  return host === d || host.endsWith(`.${d}`);
+}
+
+/**
+ * First audience (by sort_order, then creation) that the viewer matches,
+ * or null. Audiences with no criteria set never match.
+ */
+export function matchAudience<
+  A extends Pick<
+    Audience,
+    | "sort_order"
+    | "referrer_domain"
+    | "utm_source"
+    | "utm_medium"
+    | "utm_campaign"
+    | "device"
+    | "country"
+  >,
+>(audiences: A[], context: ViewerContext): A | null {
+  const ordered = [...audiences].sort((a, b) => a.sort_order - b.sort_order);
+  for (const audience of ordered) {
+    const hasCriteria = [
+      audience.referrer_domain,
+      audience.utm_source,
+      audience.utm_medium,
+      audience.utm_campaign,
+      audience.device,
+      audience.country,
+    ].some((c) => c !== null);
+    if (
+      hasCriteria &&
+      matchesReferrer(audience.referrer_domain, context.referrerDomain) &&
+      sameText(audience.utm_source, context.utmSource) &&
+      sameText(audience.utm_medium, context.utmMedium) &&
+      sameText(audience.utm_campaign, context.utmCampaign) &&
+      (audience.device === null || audience.device === context.device) &&
+      sameText(audience.country, context.country)
+    ) {
+      return audience;
+    }
+  }
+  return null;
+}
+
+/** The audience's pool among the given variants */
+export function audiencePool<V extends { segment_ids: string[] }>(
+  variants: V[],
+  variantKeys: string[]
+): V[] {
+  const keys = new Set(variantKeys);
+  return variants.filter((v) => keys.has(combinationKey(v.segment_ids)));
+}
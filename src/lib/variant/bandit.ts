@@ -0,0 +1,189 @@
+/**
+ * bandit.ts — Thompson-sampling traffic allocation
+ *
+ * PURPOSE:
+ *   In "bandit" allocation mode, a project stops splitting traffic evenly
+ *   and instead shifts it toward variants that are likely to be winning.
+ *   With 27+ variants, an even split wastes most traffic on obvious losers.
+ *
+ * HOW IT WORKS:
+ *   Each active variant gets a Beta(1 + successes, 1 + failures) posterior,
+ *   where a trial is a distinct viewer who pressed play and a success is a
+ *   distinct viewer who completed the video (or converted on the project's
+ *   chosen custom metric). We draw from every posterior many times and count
+ *   how often each variant has the highest draw — that's its probability of
+ *   being best, which becomes its traffic weight.
+ *
+ *   A minimum weight floor keeps every active variant exploring, and keeps
+ *   weights strictly above 0 (weight 0 means "disabled" in the dashboard).
+ *
+ * ARCHITECTURE:
+ *   - computeThompsonWeights(): pure math, no I/O
+ *   - recomputeBanditWeights(): loads stats via the get_bandit_stats RPC,
+ *     persists weights on the variants table
+ *   - Called by: video-processor worker ("bandit" queue, runs periodically)
+ *   - Weights are consumed by assignVariantWeighted() in assignment.ts
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../supabase/types";
+
+export interface BanditArmStats {
+  variantId: string;
+  trials: number;
+  successes: number;
+}
+
+/** Monte Carlo draws per recompute. 4000 keeps P(best) error under ~1%. */
+const DEFAULT_DRAWS = 4000;
+
+/** Every active variant keeps at least this share of traffic. */
+export const MIN_BANDIT_WEIGHT = 0.01;
+
+/** variants.weight is NUMERIC(5,4) — round to 4 decimal places. */
+const WEIGHT_PRECISION = 10000;
+
+// ─── Random sampling ───
+
+function sampleStandardNormal(): number {
+  // Box-Muller transform
+  let u = 0;
+  while (u === 0) u = Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Marsaglia-Tsang gamma sampler. Valid for shape >= 1, which always holds
+ * here because Beta parameters start at 1 (uniform prior).
+ */
+function sampleGamma(shape: number): number {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleStandardNormal();
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = Math.random();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+export function sampleBeta(alpha: number, beta: number): number {
+  const x = sampleGamma(alpha);
+  const y = sampleGamma(beta);
+  return x / (x + y);
+}
+
+// ─── Weight computation ───
+
+/**
+ * Compute traffic weights from per-variant trial/success counts.
+ * Returns a map of variantId → weight. Weights sum to ~1 and are each
+ * at least MIN_BANDIT_WEIGHT (or 1/n if n is large enough that the floor
+ * would exceed an even split).
+ */
+export function computeThompsonWeights(
+  arms: BanditArmStats[],
+  draws: number = DEFAULT_DRAWS
+): Map<string, number> {
+  const weights = new Map<string, number>();
+  if (arms.length === 0) return weights;
+  if (arms.length === 1) {
+    weights.set(arms[0].variantId, 1);
+    return weights;
+  }
+
+  const params = arms.map((a) => {
+    const successes = Math.max(0, Math.min(a.successes, a.trials));
+    return { alpha: 1 + successes, beta: 1 + Math.max(0, a.trials - successes) };
+  });
+
+  const wins = new Array<number>(arms.length).fill(0);
+  for (let d = 0; d < draws; d++) {
+    let best = 0;
+    let bestDraw = -1;
+    for (let i = 0; i < params.length; i++) {
+      const draw = sampleBeta(params[i].alpha, params[i].beta);
+      if (draw > bestDraw) {
+        bestDraw = draw;
+        best = i;
+      }
+    }
+    wins[best]++;
+  }
+
+  // Apply exploration floor, then renormalize the remaining mass
+  const floor = Math.min(MIN_BANDIT_WEIGHT, 1 / arms.length);
+  const spare = 1 - floor * arms.length;
+  arms.forEach((arm, i) => {
+    const weight = floor + spare * (wins[i] / draws);
+    weights.set(
+      arm.variantId,
+      Math.max(Math.round(weight * WEIGHT_PRECISION) / WEIGHT_PRECISION, 1 / WEIGHT_PRECISION)
+    );
+  });
+
+  return weights;
+}
+
+// ─── Persistence ───
+
+/**
+ * Recompute and persist bandit weights for one project.
+ * Only touches active (weight > 0) rendered variants — disabled variants
+ * stay disabled. Returns the new weights (empty if the project isn't in
+ * bandit mode).
+ */
+export async function recomputeBanditWeights(
+  supabase: SupabaseClient<Database>,
+  projectId: string
+): Promise<Map<string, number>> {
+  const { data: project } = await supabase
+    .from("projects")
+    .select("id, allocation_mode, bandit_metric_id")
+    .eq("id", projectId)
+    .single();
+
+  if (!project || project.allocation_mode !== "bandit") {
+    return new Map();
+  }
+
+  const { data: stats, error } = await supabase.rpc("get_bandit_stats", {
+    p_project_id: projectId,
+    p_metric_id: project.bandit_metric_id,
+  });
+
+  if (error) {
+    throw new Error(`Failed to load bandit stats: ${error.message}`);
+  }
+
+  const weights = computeThompsonWeights(
+    (stats || []).map((s) => ({
+      variantId: s.variant_id,
+      trials: Number(s.trials) || 0,
+      successes: Number(s.successes) || 0,
+    }))
+  );
+
+  for (const [variantId, weight] of Array.from(weights)) {
+    await supabase
+      .from("variants")
+      .update({ weight })
+      .eq("id", variantId)
+      .eq("project_id", projectId)
+      .gt("weight", 0);
+  }
+
+  await supabase
+    .from("projects")
+    .update({ bandit_updated_at: new Date().toISOString() })
+    .eq("id", projectId);
+
+  return weights;
+}
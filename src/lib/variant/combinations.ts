@@ -2,8 +2,9 @@
  * combinations.ts — Cartesian product generator for variant creation
  *
  * PURPOSE:
- *   Given a set of segments (hooks, bodies, CTAs), generates every possible
- *   combination. Each combination becomes a "variant" — a complete video
+ *   Given a project's slots (hook → body → CTA by default, see slots.ts)
+ *   and its segments, generates every possible combination of one segment
+ *   per slot. Each combination becomes a "variant" — a complete video
  *   that will be pre-rendered and served to a subset of viewers.
  *
  * EXAMPLE:
@@ -11,79 +12,371 @@
  *   Each variant gets a code like "h1-b2-c2" for easy identification in
  *   the dashboard and analytics.
  *
+ * OPTIONAL SLOTS:
+ *   A slot marked optional adds one more level: "skipped". 2 intros ×
+ *   3 stories × (2 testimonials + skip) = 18 variants, six of which have
+ *   no testimonial. A skipped slot is left out of the variant's segments
+ *   and its code ("i1-s2-c1" instead of "i1-s2-t1-c1").
+ *
  * SCALING:
  *   The combinatorial growth is multiplicative. This is manageable for
  *   typical A/B tests (3-5 of each type = 27-125 variants). Since
  *   stitching uses stream-copy (no re-encoding), even 125 variants
  *   render in minutes. The system warns users if the count gets high.
  *
+ * FRACTIONAL DESIGN:
+ *   With design "fractional" we render a subset that still estimates every
+ *   segment's main effect — 25 variants instead of 125 for 5×5×5. The run
+ *   count is the product of the two largest level counts (every pairing
+ *   of the two biggest slots appears once), or the number of main-effect
+ *   parameters if that's larger. The other slots are assigned cyclically
+ *   (a Latin square when counts match — an orthogonal array), then
+ *   improved with a Fedorov exchange to maximize det(XᵀX) for the
+ *   main-effects model (D-optimal). Deterministic: the same level counts
+ *   always produce the same subset.
+ *
+ *   The trade-off: interactions (hook × CTA etc.) are aliased with main
+ *   effects, so the factorial analysis drops them for fractional projects.
+ *
+ * EXCLUSIONS:
+ *   Users can uncheck individual combos in the CombinationGrid. Those are
+ *   stored on the project as combinationKey() strings (segment IDs, stable
+ *   across re-ordering) and filtered out with excludeCombinations().
+ *
  * ARCHITECTURE:
  *   - Called by: process API route (to create variant records before processing)
- *   - Returns: Array of {hook, body, cta, variantCode} objects
+ *   - Called by: CombinationGrid (to list combos and preview the fractional subset)
+ *   - Returns: Array of {segments, variantCode} objects
  */
 
+import type { DesignMode, SegmentSlot } from "../supabase/types";
+import { slotCodePrefixes } from "./slots";
+
 interface Segment {
   id: string;
-  type: "hook" | "body" | "cta";
+  type: string;
   label: string;
   sort_order: number;
 }
 
-interface VariantCombination {
-  hook: Segment;
-  body: Segment;
-  cta: Segment;
+export interface VariantCombination<S extends Segment = Segment> {
+  /** One segment per slot in playback order; skipped optional slots omitted */
+  segments: S[];
   variantCode: string;
 }
 
+/** Each slot's segments in upload order */
+export function slotSegments<S extends Segment>(slots: SegmentSlot[], segments: S[]): S[][] {
+  return slots.map((slot) =>
+    segments
+      .filter((s) => s.type === slot.key)
+      .sort((a, b) => a.sort_order - b.sort_order)
+  );
+}
+
+/** Levels per slot: its segments, plus "skipped" if the slot is optional */
+export function slotLevelCounts(slots: SegmentSlot[], segments: Segment[]): number[] {
+  return slotSegments(slots, segments).map(
+    (group, i) => group.length + (slots[i].required ? 0 : 1)
+  );
+}
+
 /**
- * Generate all hook × body × cta combinations.
- * Each variant gets a code like "h1-b2-c1" for easy identification.
+ * Generate one-segment-per-slot combinations — all of them, or the
+ * fractional subset. Each variant gets a code like "h1-b2-c1" for easy
+ * identification (codes are the same in both designs, so h2-b1-c3 is
+ * always the same video).
  */
-export function generateCombinations(
-  segments: Segment[]
-): VariantCombination[] {
-  const hooks = segments
-    .filter((s) => s.type === "hook")
-    .sort((a, b) => a.sort_order - b.sort_order);
-  const bodies = segments
-    .filter((s) => s.type === "body")
-    .sort((a, b) => a.sort_order - b.sort_order);
-  const ctas = segments
-    .filter((s) => s.type === "cta")
-    .sort((a, b) => a.sort_order - b.sort_order);
-
-  if (!hooks.length || !bodies.length || !ctas.length) {
+export function generateCombinations<S extends Segment>(
+  slots: SegmentSlot[],
+  segments: S[],
+  design: DesignMode = "full"
+): VariantCombination<S>[] {
+  const groups = slotSegments(slots, segments);
+
+  const missing = slots.filter((slot, i) => slot.required && groups[i].length === 0);
+  if (missing.length > 0) {
     throw new Error(
-      `Need at least one of each segment type. Got: ${hooks.length} hooks, ${bodies.length} bodies, ${ctas.length} CTAs`
+      `Need at least one segment for every required slot. Missing: ${missing
+        .map((slot) => slot.label)
+        .join(", ")}`
     );
   }
 
-  const combinations: VariantCombination[] = [];
-
-  hooks.forEach((hook, hi) => {
-    bodies.forEach((body, bi) => {
-      ctas.forEach((cta, ci) => {
-        combinations.push({
-          hook,
-          body,
-          cta,
-          variantCode: `h${hi + 1}-b${bi + 1}-c${ci + 1}`,
-        });
-      });
+  const prefixes = slotCodePrefixes(slots);
+  const levels = slotLevelCounts(slots, segments);
+
+  // Level groups[f].length of an optional slot means "skipped"
+  const toCombination = (run: Run): VariantCombination<S> => {
+    const parts: S[] = [];
+    const code: string[] = [];
+    run.forEach((level, f) => {
+      if (level >= groups[f].length) return;
+      parts.push(groups[f][level]);
+      code.push(`${prefixes[f]}${level + 1}`);
     });
+    return { segments: parts, variantCode: code.join("-") };
+  };
+
+  const runs = design === "fractional" ? fractionalRuns(levels) : allRuns(levels);
+  return runs.map(toCombination);
+}
+
+/**
+ * Stable key for a combination: its segment IDs joined with "|" —
+ * "hookId|bodyId|ctaId" for the default slots. This is the format stored
+ * in projects.excluded_combinations.
+ */
+export function combinationKey(segmentIds: string[]): string {
+  return segmentIds.join("|");
+}
+
+/**
+ * Keep only exclusion keys that describe a valid combination of this
+ * project's segments: slots in order, no slot twice, every required slot
+ * present (drops malformed keys and combos whose segments were deleted).
+ */
+export function sanitizeExclusions(
+  keys: string[],
+  slots: SegmentSlot[],
+  segments: Segment[]
+): string[] {
+  return Array.from(new Set(keys)).filter((key) =>
+    isCombination(key.split("|"), slots, segments)
+  );
+}
+
+/** Whether segment IDs, in order, form one valid variant of these slots */
+export function isCombination(
+  segmentIds: string[],
+  slots: SegmentSlot[],
+  segments: Pick<Segment, "id" | "type">[]
+): boolean {
+  const typeOf = new Map(segments.map((s) => [s.id, s.type]));
+  let next = 0;
+  for (const id of segmentIds) {
+    const type = typeOf.get(id);
+    const slot = slots.findIndex((s, i) => i >= next && s.key === type);
+    if (slot < 0) return false;
+    // Every slot passed over must be optional
+    if (slots.slice(next, slot).some((s) => s.required)) return false;
+    next = slot + 1;
+  }
+  return segmentIds.length > 0 && !slots.slice(next).some((s) => s.required);
+}
+
+/**
+ * Drop excluded combos from a generated list.
+ */
+export function excludeCombinations<S extends Segment>(
+  combinations: VariantCombination<S>[],
+  excludedKeys: string[]
+): VariantCombination<S>[] {
+  if (excludedKeys.length === 0) return combinations;
+  const excluded = new Set(excludedKeys);
+  return combinations.filter(
+    (c) => !excluded.has(combinationKey(c.segments.map((s) => s.id)))
+  );
+}
+
+/**
+ * Calculate total variant count from level counts per slot.
+ */
+export function variantCount(levelCounts: number[]): number {
+  return levelCounts.reduce((product, n) => product * n, 1);
+}
+
+/**
+ * Number of variants the fractional design renders for these level counts.
+ */
+export function fractionalVariantCount(levelCounts: number[]): number {
+  const [a = 1, b = 1] = [...levelCounts].sort((x, y) => y - x);
+  const parameters = 1 + levelCounts.reduce((sum, n) => sum + n - 1, 0);
+  return Math.min(Math.max(a * b, parameters), variantCount(levelCounts));
+}
+
+// ─── Fractional design (D-optimal main effects) ───
+
+/** Level index per slot */
+type Run = number[];
+
+/** Exchange passes before we settle — converges in 2-3 for typical sizes. */
+const MAX_EXCHANGE_PASSES = 10;
+
+/**
+ * Above this many candidate runs the exchange only considers an evenly
+ * spaced sample of them — many slots can mean 10⁵+ runs, too many to scan
+ * per swap. The result is still estimable, just not strictly D-optimal.
+ */
+const MAX_EXCHANGE_CANDIDATES = 4096;
+
+/** Ridge added to XᵀX so the exchange can start from a singular design. */
+const RIDGE = 1e-6;
+
+/** Every run of the full factorial, first slot outermost */
+function allRuns(levels: number[]): Run[] {
+  let runs: Run[] = [[]];
+  for (const count of levels) {
+    const next: Run[] = [];
+    for (const run of runs) {
+      for (let level = 0; level < count; level++) next.push([...run, level]);
+    }
+    runs = next;
+  }
+  return runs;
+}
+
+/** Main-effects model row: intercept + effect-coded level of each factor. */
+function modelRow(run: Run, counts: number[]): number[] {
+  const row = [1];
+  run.forEach((level, f) => {
+    for (let i = 0; i < counts[f] - 1; i++) {
+      row.push(level === counts[f] - 1 ? -1 : level === i ? 1 : 0);
+    }
   });
+  return row;
+}
+
+/** Inverse of a symmetric positive-definite matrix plus log-determinant. */
+function invertSpd(m: number[][]): { inv: number[][]; logDet: number } | null {
+  const n = m.length;
+  const a = m.map((row, i) => [
+    ...row,
+    ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)),
+  ]);
+  let logDet = 0;
+  for (let col = 0; col < n; col++) {
+    const pivot = a[col][col];
+    if (!(pivot > 1e-12)) return null;
+    logDet += Math.log(pivot);
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= pivot;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = a[r][col];
+      if (f === 0) continue;
+      for (let j = 0; j < 2 * n; j++) a[r][j] -= f * a[col][j];
+    }
+  }
+  return { inv: a.map((row) => row.slice(n)), logDet };
+}
 
-  return combinations;
+function information(rows: number[][], ridge: number): number[][] {
+  const p = rows[0].length;
+  const m = Array.from({ length: p }, (_, i) =>
+    Array.from({ length: p }, (_, j) => (i === j ? ridge : 0))
+  );
+  for (const x of rows) {
+    for (let i = 0; i < p; i++) {
+      if (x[i] === 0) continue;
+      for (let j = 0; j < p; j++) m[i][j] += x[i] * x[j];
+    }
+  }
+  return m;
+}
+
+function quadForm(inv: number[][], x: number[], y: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < x.length; i++) {
+    if (x[i] === 0) continue;
+    for (let j = 0; j < y.length; j++) sum += x[i] * inv[i][j] * y[j];
+  }
+  return sum;
 }
 
 /**
- * Calculate total variant count from segment counts.
+ * Pick the fractional subset of runs. Falls back to the full factorial when
+ * the subset wouldn't be smaller, or if no estimable subset was found.
  */
-export function variantCount(
-  hookCount: number,
-  bodyCount: number,
-  ctaCount: number
-): number {
-  return hookCount * bodyCount * ctaCount;
+function fractionalRuns(levels: number[]): Run[] {
+  const total = variantCount(levels);
+  const size = fractionalVariantCount(levels);
+  if (size >= total) return allRuns(levels);
+
+  // Runs are numbered in allRuns() order (mixed radix, first slot outermost)
+  const index = (run: Run) => run.reduce((acc, level, f) => acc * levels[f] + level, 0);
+  const runAt = (i: number): Run => {
+    const run = new Array<number>(levels.length);
+    for (let f = levels.length - 1; f >= 0; f--) {
+      run[f] = i % levels[f];
+      i = Math.floor(i / levels[f]);
+    }
+    return run;
+  };
+
+  // Seed: cross the two largest factors, assign the rest cyclically with
+  // a different step each (i + k·j), then top up with the first unused
+  // runs if the model has more parameters than that
+  const order = levels.map((_, f) => f).sort((x, y) => levels[y] - levels[x] || x - y);
+  const [fa, fb, ...rest] = order;
+  const design: number[] = [];
+  for (let i = 0; i < levels[fa]; i++) {
+    for (let j = 0; j < levels[fb]; j++) {
+      const run = new Array<number>(levels.length).fill(0);
+      run[fa] = i;
+      run[fb] = j;
+      rest.forEach((f, k) => {
+        run[f] = (i + (k + 1) * j) % levels[f];
+      });
+      design.push(index(run));
+    }
+  }
+  const seeded = new Set(design);
+  for (let c = 0; design.length < size && c < total; c++) {
+    if (!seeded.has(c)) design.push(c);
+  }
+
+  // Fedorov exchange: swap a design run for a candidate whenever it
+  // increases det(XᵀX) — det ratio Δ = (1 + d(c))(1 − d(r)) + d(r,c)²,
+  // where d(x, y) = xᵀ(XᵀX)⁻¹y
+  const rowCache = new Map<number, number[]>();
+  const row = (i: number) => {
+    let x = rowCache.get(i);
+    if (!x) {
+      x = modelRow(runAt(i), levels);
+      rowCache.set(i, x);
+    }
+    return x;
+  };
+  const pool =
+    total <= MAX_EXCHANGE_CANDIDATES
+      ? Array.from({ length: total }, (_, c) => c)
+      : Array.from({ length: MAX_EXCHANGE_CANDIDATES }, (_, t) =>
+          Math.floor((t * total) / MAX_EXCHANGE_CANDIDATES)
+        );
+  for (let pass = 0; pass < MAX_EXCHANGE_PASSES; pass++) {
+    let improved = false;
+    for (let pos = 0; pos < design.length; pos++) {
+      const current = invertSpd(information(design.map(row), RIDGE));
+      if (!current) break;
+      const inDesign = new Set(design);
+      const xr = row(design[pos]);
+      const dr = quadForm(current.inv, xr, xr);
+
+      let bestGain = 1 + 1e-9;
+      let best = -1;
+      for (const c of pool) {
+        if (inDesign.has(c)) continue;
+        const xc = row(c);
+        const dc = quadForm(current.inv, xc, xc);
+        const drc = quadForm(current.inv, xr, xc);
+        const gain = (1 + dc) * (1 - dr) + drc * drc;
+        if (gain > bestGain) {
+          bestGain = gain;
+          best = c;
+        }
+      }
+      if (best >= 0) {
+        design[pos] = best;
+        improved = true;
+      }
+    }
+    if (!improved) break;
+  }
+
+  // Every main effect must be estimable without the ridge
+  if (!invertSpd(information(design.map(row), 0))) {
+    return allRuns(levels);
+  }
+
+  return design.sort((x, y) => x - y).map(runAt);
 }
@@ -0,0 +1,135 @@
+/**
+ * compose.ts — Staging variants without rendering them
+ *
+ * PURPOSE:
+ *   In a project with composition_mode = 'dynamic', a variant is nothing
+ *   more than its list of segments (one per slot): its manifest is
+ *   composed on request from the segments' HLS packages
+ *   (lib/video/composed-manifest.ts). Once all of them are packaged there
+ *   is nothing left to render, so the variant can be staged straight away.
+ *
+ * HOW IT WORKS:
+ *   stageComposedVariants() marks each pending variant whose segments all
+ *   have an HLS package as staged + composed, filling in what the players
+ *   need from the segments themselves:
+ *     - hook clip       = the opening segment's normalized MP4 (the first
+ *                         hook-length seconds of the variant ARE the hook)
+ *     - hook_end_time   = the opening segment's duration
+ *     - video duration  = the sum of the playlists' durations
+ *     - composed_parts  = each segment's current HLS package (prefix and
+ *                         playlist). The variant's manifest is composed
+ *                         from these, and the hook clip key is versioned
+ *                         too, so a later re-normalization reaches viewers
+ *                         only through a new variant in a new run
+ *     - captions        = the segments' cues shifted by the playlist
+ *                         durations before them (captions.ts
+ *                         composeCaptions), written to the variant's own
+ *                         VTT — best-effort, a failure leaves the variant
+ *                         without captions rather than unstaged
+ *   Variants with an unpackaged segment are left pending for the caller to
+ *   render the usual way.
+ *
+ * ARCHITECTURE:
+ *   - Used by: video-processor.ts (checkAndEnqueueRenders),
+ *     /api/projects/[projectId]/process (segments already normalized)
+ *   - The caller publishes the run once nothing is left to render, and
+ *     passes its own storage access (the worker and the API routes each
+ *     have their R2 client)
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../supabase/types";
+import { playlistDurationMs } from "../video/composed-manifest";
+import { composeCaptions, parseCaptions, toWebVtt } from "../video/captions";
+import { variantCaptionsKey } from "../storage/keys";
+
+type Segment = Database["public"]["Tables"]["segments"]["Row"];
+type Variant = Database["public"]["Tables"]["variants"]["Row"];
+
+/** Object storage the captions are read from and written to */
+export interface ComposeStorage {
+  download(key: string): Promise<Buffer>;
+  upload(key: string, body: Buffer, contentType: string): Promise<void>;
+}
+
+/**
+ * Write a composed variant's captions: each segment's cues offset by the
+ * playlist durations before it. Null when no segment has captions.
+ */
+async function composeVariantCaptions(
+  storage: ComposeStorage,
+  variant: Pick<Variant, "id" | "project_id">,
+  parts: Segment[]
+): Promise<string | null> {
+  if (!parts.some((part) => part.captions_storage_key)) return null;
+
+  const cues = await Promise.all(
+    parts.map(async (part) =>
+      part.captions_storage_key
+        ? parseCaptions((await storage.download(part.captions_storage_key)).toString("utf8"))
+        : null
+    )
+  );
+  const composed = composeCaptions(
+    parts.map((part, i) => ({
+      cues: cues[i],
+      durationMs: playlistDurationMs(part.hls_playlist!),
+    }))
+  );
+
+  const key = variantCaptionsKey(variant.project_id, variant.id);
+  await storage.upload(key, Buffer.from(toWebVtt(composed), "utf8"), "text/vtt");
+  return key;
+}
+
+/** Stage the variants that can be composed; returns their IDs */
+export async function stageComposedVariants(
+  supabase: SupabaseClient<Database>,
+  storage: ComposeStorage,
+  variants: Pick<Variant, "id" | "project_id" | "segment_ids">[],
+  segmentMap: Map<string, Segment>
+): Promise<string[]> {
+  const staged: string[] = [];
+
+  for (const variant of variants) {
+    const parts = variant.segment_ids.map((id) => segmentMap.get(id));
+    const hook = parts[0];
+    if (
+      !parts.every((part) => part?.hls_prefix && part.hls_playlist) ||
+      !hook?.hls_playlist ||
+      !hook.normalized_storage_key
+    ) {
+      continue;
+    }
+
+    const hookMs = playlistDurationMs(hook.hls_playlist);
+    const captionsKey = await composeVariantCaptions(storage, variant, parts as Segment[]).catch(
+      () => null
+    );
+    const { error } = await supabase
+      .from("variants")
+      .update({
+        status: "staged",
+        composed: true,
+        rendered_at: new Date().toISOString(),
+        video_duration_ms: parts.reduce(
+          (sum, part) => sum + playlistDurationMs(part!.hls_playlist!),
+          0
+        ),
+        hook_clip_storage_key: hook.normalized_storage_key,
+        hook_clip_size_bytes: hook.normalized_size_bytes,
+        hook_clip_duration_ms: hook.normalized_duration_ms ?? hookMs,
+        hook_end_time_ms: hook.normalized_duration_ms ?? hookMs,
+        captions_storage_key: captionsKey,
+        composed_parts: parts.map((part) => ({
+          hlsPrefix: part!.hls_prefix!,
+          playlist: part!.hls_playlist!,
+        })),
+      })
+      .eq("id", variant.id)
+      .eq("status", "pending");
+    if (!error) staged.push(variant.id);
+  }
+
+  return staged;
+}
@@ -0,0 +1,316 @@
+/**
+ * experiment.ts — Experiment lifecycle: start, auto-conclude, promote winner
+ *
+ * PURPOSE:
+ *   A split test shouldn't need someone watching the dashboard to end it.
+ *   An experiment record says when the test starts, when it should stop
+ *   (a stop time and/or a per-variant sample-size target), and whether it
+ *   may end early once there's a clear winner. When it concludes, the
+ *   winner takes all the traffic.
+ *
+ * HOW IT WORKS:
+ *   Stats cover the experiment window only (starts_at → ends_at) and come
+ *   from the same Bayesian model and sequential test as the analytics
+ *   dashboard. A running experiment concludes on the first rule that
+ *   fires, in this order:
+ *     1. winner      — auto_conclude is on and a variant passes the winner
+ *                      guard (minimum sample + P(best) ≥ 95%) AND has
+ *                      crossed the sequential boundary against the control
+ *                      (analytics/sequential.ts). The sweep looks every few
+ *                      minutes; P(best) alone would stop on the first lucky
+ *                      streak, the always-valid p-value keeps the error
+ *                      rate at alpha however often it's checked. The
+ *                      control itself can't cross it, so it only wins on
+ *                      the rules below
+ *     2. end_time    — the stop time has passed
+ *     3. sample_size — every active variant has target_sample_size trials
+ *   For end_time and sample_size the winner is the leader (highest P(best))
+ *   — the test ran its planned course, so it ships its best guess. With no
+ *   trials at all there's no leader and nothing is promoted.
+ *
+ *   Promoting sets the winner's weight to 1 and every other live variant's
+ *   to 0, switches the project back to an even split (so the bandit doesn't
+ *   redistribute traffic) and drops a pinned control share, so every viewer
+ *   sees the winner.
+ *
+ * ARCHITECTURE:
+ *   - decideExperiment(): pure, no I/O
+ *   - checkExperiment(): starts / evaluates one experiment, persists
+ *   - concludeExperiment() / stopExperiment(): state changes + activity log
+ *   - Called by: video-processor worker ("experiment" queue, runs
+ *     periodically) and /api/projects/[projectId]/experiments/[experimentId]
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, ExperimentConclusionReason } from "../supabase/types";
+import { computeBayesianStats, type BayesianVariantStats } from "../analytics/bayesian";
+import { computeSequentialStats, type SequentialVariantStats } from "../analytics/sequential";
+import { logActivity } from "../activity/log";
+
+type Experiment = Database["public"]["Tables"]["experiments"]["Row"];
+
+export type ExperimentDecision =
+  | { action: "none" }
+  | {
+      action: "conclude";
+      reason: ExperimentConclusionReason;
+      winnerVariantId: string | null;
+    };
+
+export interface ExperimentStats {
+  bayesian: Map<string, BayesianVariantStats>;
+  /** Each variant vs the project's control (always-valid p-values) */
+  sequential: Map<string, SequentialVariantStats>;
+}
+
+const REASON_LABELS: Record<ExperimentConclusionReason, string> = {
+  winner: "Clear winner found",
+  sample_size: "Sample size target reached",
+  end_time: "Scheduled stop time reached",
+  manual: "Concluded by hand",
+};
+
+// ─── Decision ───
+
+/** Active variant with the highest P(best) and at least one trial */
+export function experimentLeader(
+  stats: Map<string, BayesianVariantStats>
+): string | null {
+  let leader: string | null = null;
+  let best = -1;
+  for (const [variantId, s] of Array.from(stats)) {
+    if (s.probBest === null || s.trials === 0) continue;
+    if (s.probBest > best) {
+      best = s.probBest;
+      leader = variantId;
+    }
+  }
+  return leader;
+}
+
+/**
+ * Decide whether a running experiment should conclude, given its window's
+ * stats. Rules are checked in priority order (see header).
+ */
+export function decideExperiment(
+  experiment: Experiment,
+  { bayesian: stats, sequential }: ExperimentStats,
+  now: Date
+): ExperimentDecision {
+  if (experiment.auto_conclude) {
+    for (const [variantId, s] of Array.from(stats)) {
+      if (s.isWinner && sequential.get(variantId)?.significant) {
+        return { action: "conclude", reason: "winner", winnerVariantId: variantId };
+      }
+    }
+  }
+
+  if (experiment.ends_at && now.getTime() >= Date.parse(experiment.ends_at)) {
+    return {
+      action: "conclude",
+      reason: "end_time",
+      winnerVariantId: experimentLeader(stats),
+    };
+  }
+
+  const target = experiment.target_sample_size;
+  if (target) {
+    const active = Array.from(stats.values()).filter((s) => s.probBest !== null);
+    if (active.length > 0 && active.every((s) => s.trials >= target)) {
+      return {
+        action: "conclude",
+        reason: "sample_size",
+        winnerVariantId: experimentLeader(stats),
+      };
+    }
+  }
+
+  return { action: "none" };
+}
+
+// ─── Persistence ───
+
+/**
+ * Bayesian and sequential stats for the experiment's window and metric.
+ * The holdout row is left out — it never competes to be the winner. The
+ * control is the project's control variant, else the first active one
+ * (as on the analytics dashboard).
+ */
+export async function loadExperimentStats(
+  supabase: SupabaseClient<Database>,
+  experiment: Experiment
+): Promise<ExperimentStats> {
+  const [{ data, error }, { data: project }] = await Promise.all([
+    supabase.rpc("get_variant_conversion_stats", {
+      p_project_id: experiment.project_id,
+      p_metric_id: experiment.metric_id,
+      p_start_date: experiment.starts_at,
+      p_end_date: experiment.ends_at,
+    }),
+    supabase
+      .from("projects")
+      .select("control_type, control_variant_id")
+      .eq("id", experiment.project_id)
+      .single(),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to load experiment stats: ${error.message}`);
+  }
+
+  const arms = (data || []).flatMap((row) =>
+    row.variant_id === null
+      ? []
+      : [
+          {
+            variantId: row.variant_id,
+            trials: Number(row.trials) || 0,
+            successes: Number(row.successes) || 0,
+            active: Number(row.weight) > 0,
+          },
+        ]
+  );
+  const controlId =
+    project?.control_type === "variant" ? (project.control_variant_id ?? undefined) : undefined;
+
+  return {
+    bayesian: computeBayesianStats(arms, controlId),
+    sequential: computeSequentialStats(arms, controlId).variants,
+  };
+}
+
+/**
+ * Conclude an open experiment and promote its winner (if any). Returns
+ * false when the experiment was no longer open — e.g. the sweep and a
+ * manual conclude raced — in which case nothing is changed.
+ */
+export async function concludeExperiment(
+  supabase: SupabaseClient<Database>,
+  experiment: Experiment,
+  reason: ExperimentConclusionReason,
+  winnerVariantId: string | null
+): Promise<boolean> {
+  const { data: concluded } = await supabase
+    .from("experiments")
+    .update({
+      status: "concluded",
+      conclusion_reason: reason,
+      winner_variant_id: winnerVariantId,
+      concluded_at: new Date().toISOString(),
+    })
+    .eq("id", experiment.id)
+    .in("status", ["scheduled", "running"])
+    .select("id");
+  if (!concluded || concluded.length === 0) return false;
+
+  let winnerCode: string | null = null;
+  if (winnerVariantId) {
+    const { data: winner } = await supabase
+      .from("variants")
+      .select("variant_code")
+      .eq("id", winnerVariantId)
+      .single();
+    winnerCode = winner?.variant_code ?? null;
+
+    await supabase
+      .from("variants")
+      .update({ weight: 0 })
+      .eq("project_id", experiment.project_id)
+      .eq("status", "rendered")
+      .neq("id", winnerVariantId);
+    await supabase
+      .from("variants")
+      .update({ weight: 1 })
+      .eq("id", winnerVariantId)
+      .eq("project_id", experiment.project_id);
+    await supabase
+      .from("projects")
+      .update({ allocation_mode: "uniform", control_type: "variant", control_share: null })
+      .eq("id", experiment.project_id);
+  }
+
+  await logActivity({
+    supabase,
+    projectId: experiment.project_id,
+    eventType: "experiment_concluded",
+    title: winnerCode
+      ? `Experiment concluded — ${winnerCode} promoted`
+      : "Experiment concluded with no winner",
+    detail: REASON_LABELS[reason],
+    metadata: { experimentId: experiment.id, reason, winnerVariantId },
+  });
+
+  return true;
+}
+
+/** End an open experiment without promoting anything. */
+export async function stopExperiment(
+  supabase: SupabaseClient<Database>,
+  experiment: Experiment
+): Promise<boolean> {
+  const { data: stopped } = await supabase
+    .from("experiments")
+    .update({ status: "stopped", concluded_at: new Date().toISOString() })
+    .eq("id", experiment.id)
+    .in("status", ["scheduled", "running"])
+    .select("id");
+  if (!stopped || stopped.length === 0) return false;
+
+  await logActivity({
+    supabase,
+    projectId: experiment.project_id,
+    eventType: "experiment_stopped",
+    title: "Experiment stopped",
+    detail: "Traffic allocation left unchanged",
+    metadata: { experimentId: experiment.id },
+  });
+
+  return true;
+}
+
+/**
+ * Advance one experiment: start it if it's scheduled and due, then
+ * conclude it if a rule fires. Returns the experiment's resulting status.
+ */
+export async function checkExperiment(
+  supabase: SupabaseClient<Database>,
+  experiment: Experiment,
+  now: Date = new Date()
+): Promise<Experiment["status"]> {
+  if (experiment.status === "scheduled") {
+    if (now.getTime() < Date.parse(experiment.starts_at)) return "scheduled";
+
+    const { data: started } = await supabase
+      .from("experiments")
+      .update({ status: "running" })
+      .eq("id", experiment.id)
+      .eq("status", "scheduled")
+      .select("id");
+    if (!started || started.length === 0) return experiment.status;
+
+    await logActivity({
+      supabase,
+      projectId: experiment.project_id,
+      eventType: "experiment_started",
+      title: "Experiment started",
+      detail: experiment.ends_at
+        ? `Runs until ${new Date(experiment.ends_at).toUTCString()}`
+        : null,
+      metadata: { experimentId: experiment.id },
+    });
+  } else if (experiment.status !== "running") {
+    return experiment.status;
+  }
+
+  const stats = await loadExperimentStats(supabase, experiment);
+  const decision = decideExperiment(experiment, stats, now);
+  if (decision.action === "none") return "running";
+
+  const concluded = await concludeExperiment(
+    supabase,
+    experiment,
+    decision.reason,
+    decision.winnerVariantId
+  );
+  return concluded ? "concluded" : "running";
+}
@@ -0,0 +1,99 @@
+/**
+ * rerender-plan.ts — Diff desired combinations against the live variants
+ *
+ * PURPOSE:
+ *   Re-processing a project shouldn't re-render what's already live. Adding
+ *   one hook to a 2×3×2 project needs 6 new renders, not 18 — and the 12
+ *   unchanged variants should keep their IDs so their analytics history
+ *   (view events, assignments, weights) carries over.
+ *
+ * HOW IT WORKS:
+ *   For each desired combination, look for a live variant with the same
+ *   segment IDs in the same order. It's reusable if it was rendered after
+ *   all of its segments were last normalized and their captions last
+ *   changed (segments.normalized_at / captions_updated_at vs.
+ *   variants.rendered_at), and with the transitions its boundaries have
+ *   now (variants.transitions vs. projects.transitions — composed variants
+ *   are always joined with cuts, so they're exempt). A segment waiting to
+ *   be (re-)normalized — new or replaced upload, or "stale" after a
+ *   loudness target change — is never fresh. Reusable variants are carried
+ *   into the new publish run as-is; everything else is rendered.
+ *
+ *   Carried variants take the combination's current variant code, since
+ *   codes are positional ("h2-b1-c1") and shift when segments are
+ *   re-ordered.
+ *
+ * ARCHITECTURE:
+ *   - Pure function, no I/O
+ *   - Used by: /api/projects/[projectId]/process
+ */
+
+import type { Database, ProjectTransitions } from "../supabase/types";
+import { sameTransitions, variantTransitions } from "../video/transitions";
+import { combinationKey } from "./combinations";
+
+type Variant = Database["public"]["Tables"]["variants"]["Row"];
+type Segment = Database["public"]["Tables"]["segments"]["Row"];
+
+interface PlannedCombination {
+  segments: { id: string }[];
+  variantCode: string;
+}
+
+export interface RerenderPlan<C extends PlannedCombination> {
+  /** Live variants reused unchanged, with the code they should carry */
+  carried: { variant: Variant; variantCode: string }[];
+  /** Combinations that need a new variant record and a render */
+  toRender: C[];
+}
+
+function isFresh(
+  variant: Variant,
+  segments: Map<string, Segment>,
+  transitions: ProjectTransitions
+): boolean {
+  if (variant.status !== "rendered" || !variant.rendered_at) return false;
+  if (!variant.composed) {
+    const types = variant.segment_ids.map((id) => segments.get(id)?.type ?? "");
+    if (!sameTransitions(variant.transitions ?? [], variantTransitions(transitions, types))) {
+      return false;
+    }
+  }
+  const renderedAt = Date.parse(variant.rendered_at);
+  return variant.segment_ids.every((id) => {
+    const segment = segments.get(id);
+    return (
+      segment?.status === "normalized" &&
+      !!segment.normalized_at &&
+      Date.parse(segment.normalized_at) <= renderedAt &&
+      (!segment.captions_updated_at ||
+        Date.parse(segment.captions_updated_at) <= renderedAt)
+    );
+  });
+}
+
+export function planRerender<C extends PlannedCombination>(
+  combinations: C[],
+  liveVariants: Variant[],
+  segments: Segment[],
+  transitions: ProjectTransitions = {}
+): RerenderPlan<C> {
+  const segmentMap = new Map(segments.map((s) => [s.id, s]));
+  const reusable = new Map<string, Variant>();
+  for (const v of liveVariants) {
+    if (isFresh(v, segmentMap, transitions)) {
+      reusable.set(combinationKey(v.segment_ids), v);
+    }
+  }
+
+  const plan: RerenderPlan<C> = { carried: [], toRender: [] };
+  for (const combo of combinations) {
+    const variant = reusable.get(combinationKey(combo.segments.map((s) => s.id)));
+    if (variant) {
+      plan.carried.push({ variant, variantCode: combo.variantCode });
+    } else {
+      plan.toRender.push(combo);
+    }
+  }
+  return plan;
+}
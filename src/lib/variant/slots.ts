@@ -0,0 +1,89 @@
+/**
+ * slots.ts — A project's segment structure
+ *
+ * PURPOSE:
+ *   A variant is one segment per slot, played in slot order. The classic
+ *   structure is hook → body → CTA, but a webinar might be intro → story →
+ *   offer → testimonial → close. Each project stores its own ordered slot
+ *   list (projects.slots); everything that used to assume three slots —
+ *   combinations, variant codes, render jobs, analytics, the upload UI —
+ *   reads it from there.
+ *
+ * RULES:
+ *   - Keys are short identifiers (segments.type holds them), unique per
+ *     project
+ *   - The first slot is required: it opens every variant, so it is what
+ *     the hook clip, hook personalization rules and audience pools use
+ *   - Optional slots may be skipped — the fractional/full design treats
+ *     "skip" as one more level of that slot
+ *
+ * VARIANT CODES:
+ *   Each slot contributes "<prefix><n>" where the prefix is the shortest
+ *   start of its key no other key shares — h/b/c for the default slots,
+ *   so existing codes ("h1-b2-c1") are unchanged. Skipped slots contribute
+ *   nothing.
+ *
+ * ARCHITECTURE:
+ *   - Pure, no I/O; safe to import from client components
+ *   - Used by: combinations.ts, the project/process/segments/analytics
+ *     routes, video-processor.ts, the upload and project pages
+ */
+
+import type { SegmentSlot } from "../supabase/types";
+
+export const DEFAULT_SLOTS: SegmentSlot[] = [
+  { key: "hook", label: "Hook", required: true },
+  { key: "body", label: "Body", required: true },
+  { key: "cta", label: "CTA", required: true },
+];
+
+export const SLOT_KEY_PATTERN = /^[a-z][a-z0-9_]{0,23}$/;
+
+/** More slots than this and even the fractional design gets unwieldy */
+export const MAX_SLOTS = 8;
+
+/** The project's slots, or the defaults for rows written before slots existed */
+export function projectSlots(project: { slots?: SegmentSlot[] | null }): SegmentSlot[] {
+  return project.slots && project.slots.length > 0 ? project.slots : DEFAULT_SLOTS;
+}
+
+/** Why a slot list can't be used, or null if it's valid */
+export function validateSlots(slots: SegmentSlot[]): string | null {
+  if (slots.length === 0) return "Define at least one slot";
+  if (slots.length > MAX_SLOTS) return `At most ${MAX_SLOTS} slots`;
+  if (!slots[0].required) return "The first slot must be required";
+
+  const seen = new Set<string>();
+  for (const slot of slots) {
+    if (!SLOT_KEY_PATTERN.test(slot.key)) {
+      return `Invalid slot key "${slot.key}" (lowercase letters, digits and _)`;
+    }
+    if (seen.has(slot.key)) return `Duplicate slot key "${slot.key}"`;
+    if (!slot.label.trim()) return `Slot "${slot.key}" needs a label`;
+    seen.add(slot.key);
+  }
+  return null;
+}
+
+/** Variant-code prefix per slot: the shortest unique start of each key */
+export function slotCodePrefixes(slots: SegmentSlot[]): string[] {
+  return slots.map((slot) => {
+    const others = slots.filter((s) => s.key !== slot.key);
+    for (let len = 1; len < slot.key.length; len++) {
+      const prefix = slot.key.slice(0, len);
+      if (!others.some((s) => s.key.startsWith(prefix))) return prefix;
+    }
+    return slot.key;
+  });
+}
+
+/** Turn a label into a slot key ("Social proof" → "social_proof") */
+export function slotKeyFromLabel(label: string): string {
+  const key = label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^[^a-z]+/, "")
+    .slice(0, 24)
+    .replace(/_+$/, "");
+  return key || "slot";
+}
@@ -0,0 +1,144 @@
+/**
+ * captions.ts — Segment captions and their per-variant composition
+ *
+ * PURPOSE:
+ *   Each segment can carry a captions file (SRT or WebVTT). Uploads are
+ *   parsed, validated and stored as WebVTT; when a variant is rendered its
+ *   captions are the segments' cues laid end to end, each segment's cues
+ *   shifted by the duration of the segments before it.
+ *
+ * HOW IT WORKS:
+ *   1. parseCaptions() reads SRT or WebVTT (detected by the WEBVTT header)
+ *      into cues, throwing with the offending cue number on bad input
+ *   2. composeCaptions() offsets every part's cues by the running total of
+ *      the normalized segment durations — the stitched video's timeline —
+ *      less any transition overlaps (lib/video/transitions.ts). Cues
+ *      running past the point where the next segment starts are clipped
+ *      so captions never overlap.
+ *   3. toWebVtt() writes the result back out as a .vtt file
+ *
+ * ARCHITECTURE:
+ *   - Pure, no I/O
+ *   - Used by: the segment captions API route (upload validation),
+ *     video-processor.ts (processRender — per-variant captions)
+ */
+
+export interface CaptionCue {
+  startMs: number;
+  endMs: number;
+  /** Cue payload, possibly several lines */
+  text: string;
+  /** WebVTT cue settings ("line:85% align:center"), kept as-is */
+  settings?: string;
+}
+
+/** Captions files larger than this are rejected on upload */
+export const MAX_CAPTIONS_BYTES = 512 * 1024;
+
+const TIMESTAMP = /^(?:(\d+):)?(\d{2}):(\d{2})[.,](\d{3})$/;
+
+function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(TIMESTAMP);
+  if (!match) return null;
+  const [, hours, minutes, seconds, millis] = match;
+  if (Number(minutes) > 59 || Number(seconds) > 59) return null;
+  return (
+    (Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000 +
+    Number(millis)
+  );
+}
+
+function formatTimestamp(ms: number): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor((total % 3_600_000) / 60_000);
+  const seconds = Math.floor((total % 60_000) / 1000);
+  const millis = total % 1000;
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(millis, 3)}`;
+}
+
+/**
+ * Parse an SRT or WebVTT file into cues. Throws an Error describing the
+ * first problem found (unreadable timing, end before start, no cues).
+ */
+export function parseCaptions(content: string): CaptionCue[] {
+  const text = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  const isVtt = /^WEBVTT(?:[ \t].*)?(?:\n|$)/.test(text);
+  const blocks = text.split(/\n{2,}/).map((block) => block.trim()).filter(Boolean);
+
+  // WebVTT: the first block is the header; NOTE/STYLE/REGION blocks carry no cues
+  const cueBlocks = isVtt
+    ? blocks.slice(1).filter((block) => !/^(NOTE|STYLE|REGION)(\s|$)/.test(block))
+    : blocks;
+
+  const cues: CaptionCue[] = [];
+  cueBlocks.forEach((block, i) => {
+    const lines = block.split("\n");
+    // Optional cue identifier (SRT's counter, or a WebVTT cue ID)
+    const timingIndex = lines[0].includes("-->") ? 0 : 1;
+    const timing = lines[timingIndex];
+    if (!timing?.includes("-->")) {
+      throw new Error(`Cue ${i + 1}: missing "start --> end" timing line`);
+    }
+
+    const [startPart, rest] = timing.split("-->");
+    const [endPart, ...settings] = rest.trim().split(/\s+/);
+    const startMs = parseTimestamp(startPart);
+    const endMs = parseTimestamp(endPart ?? "");
+    if (startMs === null || endMs === null) {
+      throw new Error(`Cue ${i + 1}: unreadable timestamp in "${timing.trim()}"`);
+    }
+    if (endMs <= startMs) {
+      throw new Error(`Cue ${i + 1}: ends before it starts`);
+    }
+
+    const payload = lines.slice(timingIndex + 1).join("\n").trim();
+    if (!payload) return;
+    cues.push({
+      startMs,
+      endMs,
+      text: payload,
+      ...(isVtt && settings.length > 0 ? { settings: settings.join(" ") } : {}),
+    });
+  });
+
+  if (cues.length === 0) throw new Error("No captions found in the file");
+  return cues;
+}
+
+/** Write cues as a WebVTT file */
+export function toWebVtt(cues: CaptionCue[]): string {
+  const body = cues.map(
+    (cue) =>
+      `${formatTimestamp(cue.startMs)} --> ${formatTimestamp(cue.endMs)}${
+        cue.settings ? ` ${cue.settings}` : ""
+      }\n${cue.text}`
+  );
+  return ["WEBVTT", ...body].join("\n\n") + "\n";
+}
+
+/**
+ * Lay the parts' cues out on the stitched video's timeline. Parts are in
+ * playback order; a part without captions still advances the offset.
+ * overlapMs is how far the next part starts before this one ends.
+ */
+export function composeCaptions(
+  parts: { cues: CaptionCue[] | null; durationMs: number; overlapMs?: number }[]
+): CaptionCue[] {
+  const composed: CaptionCue[] = [];
+  let offsetMs = 0;
+  for (const part of parts) {
+    const visibleMs = part.durationMs - (part.overlapMs ?? 0);
+    for (const cue of part.cues ?? []) {
+      if (cue.startMs >= visibleMs) continue;
+      composed.push({
+        ...cue,
+        startMs: cue.startMs + offsetMs,
+        endMs: Math.min(cue.endMs, visibleMs) + offsetMs,
+      });
+    }
+    offsetMs += visibleMs;
+  }
+  return composed;
+}
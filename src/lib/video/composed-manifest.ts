@@ -0,0 +1,106 @@
+/**
+ * composed-manifest.ts — HLS manifests for segment combinations, built on request
+ *
+ * PURPOSE:
+ *   Each normalized segment is packaged as HLS exactly once. A variant's
+ *   manifest is just its segment playlists chained together, so it
+ *   doesn't need to exist as a file: /api/compose/... builds it from the
+ *   playlists stored on the segments whenever a player asks. Any
+ *   combination is playable the moment its segments are packaged — render
+ *   cost is H+B+C instead of H×B×C.
+ *
+ * HOW IT WORKS:
+ *   1. parseSegmentPlaylist() reads the packager's playlist.m3u8 into
+ *      { targetDuration, entries } (stored in segments.hls_playlist)
+ *   2. buildComposedManifest() writes one VOD playlist: each part gets its
+ *      own #EXT-X-MAP (init segment), parts are separated by
+ *      #EXT-X-DISCONTINUITY, and URIs are absolute so the manifest can be
+ *      served from anywhere
+ *   3. hls.js (or Safari natively) reinitializes the decoder at each
+ *      discontinuity — instant, since every segment shares the project's
+ *      normalized specs
+ *
+ * ARCHITECTURE:
+ *   - Pure, no I/O; safe to import from client components
+ *   - Used by: video-processor.ts (processNormalize), /api/compose/[...],
+ *     the embed page and API, the preview page
+ */
+
+import type { SegmentPlaylist } from "../supabase/types";
+
+/** Parse an HLS media playlist into its target duration and media segments */
+export function parseSegmentPlaylist(content: string): SegmentPlaylist {
+  const lines = content.split("\n").map((line) => line.trim());
+  let targetDuration = 0;
+  const entries: SegmentPlaylist["entries"] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.startsWith("#EXT-X-TARGETDURATION:")) {
+      targetDuration = parseInt(line.slice("#EXT-X-TARGETDURATION:".length), 10) || 0;
+    } else if (line.startsWith("#EXTINF:")) {
+      const duration = parseFloat(line.slice("#EXTINF:".length));
+      // The next non-tag line is the media segment's URI
+      const uri = lines[i + 1];
+      if (uri && !uri.startsWith("#") && Number.isFinite(duration)) {
+        entries.push({ duration, uri: uri.split("/").pop()! });
+        i++;
+      }
+    }
+  }
+
+  return { targetDuration, entries };
+}
+
+/** Total duration of a playlist in milliseconds */
+export function playlistDurationMs(playlist: SegmentPlaylist): number {
+  return Math.round(playlist.entries.reduce((sum, e) => sum + e.duration, 0) * 1000);
+}
+
+/**
+ * Chain segment playlists into one VOD manifest. `baseUrl` is where the
+ * part's init.mp4 and media segments live (no trailing slash).
+ */
+export function buildComposedManifest(
+  parts: { baseUrl: string; playlist: SegmentPlaylist }[]
+): string {
+  const targetDuration = Math.max(
+    6,
+    ...parts.map((p) => p.playlist.targetDuration),
+    ...parts.flatMap((p) => p.playlist.entries.map((e) => Math.ceil(e.duration)))
+  );
+
+  const lines = [
+    "#EXTM3U",
+    "#EXT-X-VERSION:7",
+    `#EXT-X-TARGETDURATION:${targetDuration}`,
+    "#EXT-X-PLAYLIST-TYPE:VOD",
+  ];
+
+  parts.forEach(({ baseUrl, playlist }, i) => {
+    if (i > 0) lines.push("#EXT-X-DISCONTINUITY");
+    lines.push(`#EXT-X-MAP:URI="${baseUrl}/init.mp4"`);
+    for (const entry of playlist.entries) {
+      lines.push(`#EXTINF:${entry.duration.toFixed(6)},`);
+      lines.push(`${baseUrl}/${entry.uri}`);
+    }
+  });
+
+  lines.push("#EXT-X-ENDLIST");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Path of the composed manifest for a variant's segments, in playback
+ * order. With a variantId it's composed from the packages that variant was
+ * staged with (variants.composed_parts) rather than the segments' current
+ * ones.
+ */
+export function composedManifestPath(
+  projectId: string,
+  segmentIds: string[],
+  variantId?: string
+): string {
+  const path = `/api/compose/${projectId}/${segmentIds.join("/")}`;
+  return variantId ? `${path}?variant=${variantId}` : path;
+}
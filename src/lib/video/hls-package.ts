@@ -21,8 +21,15 @@
  *     1080p/playlist.m3u8, init.mp4, seg000.m4s, seg001.m4s, ...
  *     720p/playlist.m3u8, init.mp4, seg000.m4s, seg001.m4s, ...
  *     480p/playlist.m3u8, init.mp4, seg000.m4s, seg001.m4s, ...
+ *     subtitles/playlist.m3u8, captions.vtt  (only if the variant has captions)
  *     master.m3u8  (generated by generateMasterPlaylist)
  *
+ * SUBTITLES:
+ *   A captioned variant gets a WebVTT rendition: the whole captions file as
+ *   one subtitle segment, listed in the master playlist as the "subs"
+ *   group. It's off by default (DEFAULT=NO, AUTOSELECT=NO) — the players
+ *   have their own CC toggle.
+ *
  * USED BY:
  *   - video-processor.ts (processHlsPackage job handler)
  */
@@ -162,22 +169,62 @@ export async function packageRendition(
   await runFFmpeg(args, timeout);
 }
 
+/** Directory (and URI prefix) of the subtitles rendition */
+export const HLS_SUBTITLES_DIR = "subtitles";
+
+/**
+ * Write the subtitles rendition: the WebVTT file plus a media playlist
+ * that lists it as a single segment spanning the whole video.
+ */
+export async function writeSubtitlesRendition(
+  outputDir: string,
+  webVtt: string,
+  durationMs: number
+): Promise<void> {
+  const dir = path.join(outputDir, HLS_SUBTITLES_DIR);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, "captions.vtt"), webVtt);
+
+  const seconds = durationMs / 1000;
+  const playlist = [
+    "#EXTM3U",
+    "#EXT-X-VERSION:3",
+    `#EXT-X-TARGETDURATION:${Math.ceil(seconds)}`,
+    "#EXT-X-MEDIA-SEQUENCE:0",
+    "#EXT-X-PLAYLIST-TYPE:VOD",
+    `#EXTINF:${seconds.toFixed(3)},`,
+    "captions.vtt",
+    "#EXT-X-ENDLIST",
+  ];
+  await fs.writeFile(path.join(dir, "playlist.m3u8"), playlist.join("\n") + "\n");
+}
+
 /**
  * Generate the HLS master playlist (master.m3u8) referencing all renditions.
  *
  * The master playlist tells the player which quality levels are available
  * and their bandwidth requirements. The player selects the best one based
- * on current network conditions.
+ * on current network conditions. With subtitles (written by
+ * writeSubtitlesRendition) every rendition references the "subs" group.
  */
 export async function generateMasterPlaylist(
   outputDir: string,
-  renditions: HlsRendition[]
+  renditions: HlsRendition[],
+  subtitles?: { name: string }
 ): Promise<string> {
   const lines: string[] = ["#EXTM3U", "#EXT-X-VERSION:7"];
 
+  if (subtitles) {
+    lines.push(
+      `#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="${subtitles.name}",DEFAULT=NO,AUTOSELECT=NO,URI="${HLS_SUBTITLES_DIR}/playlist.m3u8"`
+    );
+  }
+
   for (const r of renditions) {
     lines.push(
-      `#EXT-X-STREAM-INF:BANDWIDTH=${r.bandwidth},RESOLUTION=${r.width}x${r.height},CODECS="avc1.640028,mp4a.40.2"`
+      `#EXT-X-STREAM-INF:BANDWIDTH=${r.bandwidth},RESOLUTION=${r.width}x${r.height},CODECS="avc1.640028,mp4a.40.2"${
+        subtitles ? ',SUBTITLES="subs"' : ""
+      }`
     );
     lines.push(`${r.name}/playlist.m3u8`);
   }
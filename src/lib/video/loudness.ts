@@ -0,0 +1,178 @@
+/**
+ * loudness.ts — EBU R128 loudness targets, measurements and mismatch checks
+ *
+ * PURPOSE:
+ *   Segments are recorded on different devices — a hook on a phone, a body
+ *   in a studio — and play at very different volumes once stitched.
+ *   normalize.ts runs FFmpeg's loudnorm filter in two passes to bring every
+ *   segment to the project's integrated loudness target; this module holds
+ *   the pure parts of that: the filter settings, parsing loudnorm's
+ *   measurement, and the dashboard's "these segments don't match" check.
+ *
+ * HOW IT WORKS:
+ *   1. Pass 1 (measure): loudnorm with print_format=json analyses the
+ *      segment's audio; parseLoudnormOutput() reads the JSON it prints
+ *   2. needsLoudnessCorrection() skips pass 2 for audio already on target
+ *   3. Pass 2 (correct): loudnormFilter() feeds the pass-1 measurement back
+ *      in so loudnorm can apply one linear gain instead of its dynamic mode
+ *      (which pumps on speech). It falls back to dynamic mode on its own
+ *      when linear gain would push peaks over the ceiling.
+ *   4. The delivered levels (pass 2's output, or the measurement when no
+ *      correction ran) are stored on the segment: loudness_lufs and
+ *      true_peak_dbtp. loudnessMismatch() compares them across segments.
+ *
+ * ARCHITECTURE:
+ *   - Pure, no I/O — safe to import from client components
+ *   - Used by: normalize.ts (FFmpeg passes), the project PATCH route (target
+ *     validation), upload and project pages (settings, mismatch warning)
+ */
+
+export interface LoudnessLevels {
+  /** Integrated loudness (LUFS) */
+  integratedLufs: number;
+  /** True peak (dBTP) */
+  truePeakDbtp: number;
+}
+
+/** Everything loudnorm's second pass needs from the first */
+export interface LoudnessMeasurement extends LoudnessLevels {
+  /** Loudness range (LU) */
+  lra: number;
+  /** Gating threshold (LUFS) */
+  threshold: number;
+  /** Offset gain loudnorm suggests for the second pass (LU) */
+  targetOffset: number;
+}
+
+/** Presets offered in the dashboard; any value in range is accepted */
+export const LOUDNESS_TARGETS = [
+  { lufs: -14, label: "-14 LUFS (YouTube, social)" },
+  { lufs: -16, label: "-16 LUFS (web, podcasts)" },
+  { lufs: -23, label: "-23 LUFS (EBU R128 broadcast)" },
+] as const;
+
+export const DEFAULT_LOUDNESS_TARGET = -16;
+export const MIN_LOUDNESS_TARGET = -30;
+export const MAX_LOUDNESS_TARGET = -10;
+
+/** Maximum true peak after correction (dBTP) — headroom for AAC encoding */
+export const TRUE_PEAK_CEILING = -1.5;
+
+/** Loudness range target (LU) — EBU R128's default */
+const LRA_TARGET = 11;
+
+/** Audio within this of the target isn't re-processed (LU) */
+const TARGET_TOLERANCE = 0.5;
+
+/** Segments further apart than this get a dashboard warning (LU) */
+export const LOUDNESS_MISMATCH_LU = 3;
+
+/** loudnorm arguments for the measurement pass */
+export function loudnormMeasureFilter(targetLufs: number): string {
+  return `loudnorm=I=${targetLufs}:TP=${TRUE_PEAK_CEILING}:LRA=${LRA_TARGET}:print_format=json`;
+}
+
+/** loudnorm arguments for the correction pass, from pass 1's measurement */
+export function loudnormFilter(targetLufs: number, measured: LoudnessMeasurement): string {
+  return [
+    `loudnorm=I=${targetLufs}`,
+    `TP=${TRUE_PEAK_CEILING}`,
+    `LRA=${LRA_TARGET}`,
+    `measured_I=${measured.integratedLufs}`,
+    `measured_TP=${measured.truePeakDbtp}`,
+    `measured_LRA=${measured.lra}`,
+    `measured_thresh=${measured.threshold}`,
+    `offset=${measured.targetOffset}`,
+    "linear=true",
+    "print_format=json",
+  ].join(":");
+}
+
+/**
+ * Read the JSON block loudnorm prints at the end of FFmpeg's stderr.
+ * Returns the input measurement (pass 1) and the output levels (pass 2).
+ * Null when there's no block, or the audio is silent (loudness -inf).
+ */
+export function parseLoudnormOutput(
+  stderr: string
+): { input: LoudnessMeasurement; output: LoudnessLevels } | null {
+  const start = stderr.lastIndexOf("{");
+  const end = stderr.lastIndexOf("}");
+  if (start === -1 || end < start) return null;
+
+  let stats: Record<string, string>;
+  try {
+    stats = JSON.parse(stderr.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  const values = [
+    stats.input_i,
+    stats.input_tp,
+    stats.input_lra,
+    stats.input_thresh,
+    stats.target_offset,
+    stats.output_i,
+    stats.output_tp,
+  ].map(Number);
+  if (!values.every(Number.isFinite)) return null;
+
+  const [inputI, inputTp, inputLra, inputThresh, offset, outputI, outputTp] = values;
+  return {
+    input: {
+      integratedLufs: inputI,
+      truePeakDbtp: inputTp,
+      lra: inputLra,
+      threshold: inputThresh,
+      targetOffset: offset,
+    },
+    output: { integratedLufs: outputI, truePeakDbtp: outputTp },
+  };
+}
+
+/** Whether measured audio is off target (or peaking over the ceiling) */
+export function needsLoudnessCorrection(measured: LoudnessLevels, targetLufs: number): boolean {
+  return (
+    Math.abs(measured.integratedLufs - targetLufs) > TARGET_TOLERANCE ||
+    measured.truePeakDbtp > TRUE_PEAK_CEILING
+  );
+}
+
+export interface LoudnessMismatch {
+  /** Loudest minus quietest integrated loudness (LU) */
+  spreadLu: number;
+  quietest: { id: string; label: string; lufs: number };
+  loudest: { id: string; label: string; lufs: number };
+}
+
+/**
+ * The loudest and quietest measured segments, when they're more than
+ * LOUDNESS_MISMATCH_LU apart. Segments without a measurement (no audio,
+ * silent, or normalized before measurements existed) are left out.
+ */
+export function loudnessMismatch(
+  segments: { id: string; label: string; loudness_lufs: number | null }[]
+): LoudnessMismatch | null {
+  const measured = segments.filter(
+    (s): s is typeof s & { loudness_lufs: number } => s.loudness_lufs !== null
+  );
+  if (measured.length < 2) return null;
+
+  const sorted = [...measured].sort((a, b) => a.loudness_lufs - b.loudness_lufs);
+  const quietest = sorted[0];
+  const loudest = sorted[sorted.length - 1];
+  const spreadLu = loudest.loudness_lufs - quietest.loudness_lufs;
+  if (spreadLu <= LOUDNESS_MISMATCH_LU) return null;
+
+  return {
+    spreadLu,
+    quietest: { id: quietest.id, label: quietest.label, lufs: quietest.loudness_lufs },
+    loudest: { id: loudest.id, label: loudest.label, lufs: loudest.loudness_lufs },
+  };
+}
+
+/** "-16.2 LUFS" */
+export function formatLufs(lufs: number): string {
+  return `${lufs.toFixed(1)} LUFS`;
+}
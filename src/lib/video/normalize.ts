@@ -20,6 +20,15 @@
  *              3×3×3 = 27 variant stitches (free, stream-copy).
  *              Without normalization: 27 full re-encodes. Much worse.
  *
+ * LOUDNESS (EBU R128):
+ *   Codec, sample rate and channels matching isn't enough: a phone-recorded
+ *   hook and a studio body still play at very different volumes. With a
+ *   project loudness target, the worker measures each segment first
+ *   (measureLoudness — loudnorm pass 1) and passes the measurement in here,
+ *   where loudnorm's second pass brings the audio to the target. Segments
+ *   whose video already matches the spec only get their audio re-encoded
+ *   (normalizeLoudness). Filter settings and parsing live in loudness.ts.
+ *
  * EDGE CASES HANDLED:
  *   - No audio track → generates silent audio so concat doesn't fail
  *   - Non-16:9 aspect ratios → letterbox/pillarbox with black bars
@@ -28,18 +37,101 @@
  *
  * ARCHITECTURE:
  *   - Called by: video-processor.ts worker (normalize job handler)
- *   - Depends on: commands.ts (FFmpeg execution), ffprobe.ts (metadata), specs.ts (target spec)
+ *   - Depends on: commands.ts (FFmpeg execution), ffprobe.ts (metadata), specs.ts (target spec),
+ *     loudness.ts (loudnorm settings)
  *   - Output: A normalized .mp4 file ready for stream-copy concatenation
  */
 
 import { runFFmpeg } from "./commands";
 import { probeVideo } from "./ffprobe";
+import {
+  loudnormFilter,
+  loudnormMeasureFilter,
+  parseLoudnormOutput,
+  type LoudnessLevels,
+  type LoudnessMeasurement,
+} from "./loudness";
 import type { NormalizationSpec } from "./specs";
+
+/** A loudnorm correction pass: the target and the pass-1 measurement */
+export interface LoudnessCorrection {
+  targetLufs: number;
+  measured: LoudnessMeasurement;
+}
+
+/**
+ * Loudnorm pass 1: measure the first audio stream. Null when the audio is
+ * silent (loudnorm reports -inf) or no measurement could be read.
+ */
+export async function measureLoudness(
+  inputPath: string,
+  targetLufs: number
+): Promise<LoudnessMeasurement | null> {
+  const { stderr } = await runFFmpeg([
+    "-hide_banner",
+    "-nostats",
+    "-i",
+    inputPath,
+    "-map",
+    "0:a:0",
+    "-af",
+    loudnormMeasureFilter(targetLufs),
+    "-f",
+    "null",
+    "-",
+  ]);
+  return parseLoudnormOutput(stderr)?.input ?? null;
+}
+
+/**
+ * Loudnorm pass 2 without a video re-encode — for segments whose video
+ * already matches the spec. Returns the corrected audio's levels.
+ */
+export async function normalizeLoudness(
+  inputPath: string,
+  outputPath: string,
+  spec: NormalizationSpec,
+  loudness: LoudnessCorrection
+): Promise<LoudnessLevels | null> {
+  const { stderr } = await runFFmpeg([
+    "-hide_banner",
+    "-nostats",
+    "-i",
+    inputPath,
+    "-map",
+    "0:v:0",
+    "-map",
+    "0:a:0",
+    "-c:v",
+    "copy",
+    "-af",
+    loudnormFilter(loudness.targetLufs, loudness.measured),
+    "-c:a",
+    spec.audioCodec,
+    "-b:a",
+    "96k",
+    "-ar",
+    String(spec.audioRate),
+    "-ac",
+    String(spec.audioChannels),
+    "-movflags",
+    "+faststart",
+    "-y",
+    outputPath,
+  ]);
+  return parseLoudnormOutput(stderr)?.output ?? null;
+}
+
+/**
+ * Re-encode to the spec. With a loudness correction, the audio also goes
+ * through loudnorm pass 2 and the corrected levels are returned.
+ */
 export async function normalizeVideo(
   inputPath: string,
   outputPath: string,
-  spec: NormalizationSpec
-): Promise<void> {
+  spec: NormalizationSpec,
+  loudness?: LoudnessCorrection | null
+): Promise<LoudnessLevels | null> {
   const metadata = await probeVideo(inputPath);
 
   const args: string[] = [];
@@ -67,6 +159,12 @@ export async function normalizeVideo(
 
   args.push("-vf", videoFilter);
 
+  // Loudness correction (loudnorm pass 2) — only for real audio; the
+  // generated silence has nothing to correct
+  if (loudness && metadata.has_audio) {
+    args.push("-af", loudnormFilter(loudness.targetLufs, loudness.measured));
+  }
+
   // Video codec settings
   // Limit threads to prevent OOM on containers (Railway defaults to all host cores)
   args.push("-threads", "4");
@@ -124,5 +222,6 @@ export async function normalizeVideo(
   // Output options
   args.push("-movflags", "+faststart", "-y", outputPath);
 
-  await runFFmpeg(args);
+  const { stderr } = await runFFmpeg(args);
+  return loudness && metadata.has_audio ? (parseLoudnormOutput(stderr)?.output ?? null) : null;
 }
@@ -14,6 +14,22 @@
  *   was nearly instant but produced PTS discontinuities at segment joins. These
  *   caused browsers to stutter/replay ~1 second at each transition point.
  *
+ * TRANSITIONS:
+ *   With the project's boundary transitions (transitions.ts), segments are
+ *   chained pairwise instead of in one concat:
+ *     - cut:        concat (video and audio)
+ *     - crossfade:  xfade=fade + acrossfade over the overlap
+ *     - fade_black: xfade=fadeblack + acrossfade over the overlap
+ *     - j_cut:      acrossfade; the next segment's first <overlap> of
+ *                   picture is trimmed so the current picture plays out
+ *     - l_cut:      acrossfade; the current segment's last <overlap> of
+ *                   picture is trimmed so the next picture comes in early
+ *   Overlaps come from transitionTimeline(), which is also returned — the
+ *   worker uses it for the hook clip end and captions offsets. Each input
+ *   gets a common timebase/fps and audio format first: xfade and
+ *   acrossfade refuse mismatched streams, and segments whose specs
+ *   already matched were only remuxed, not re-encoded.
+ *
  * PERFORMANCE:
  *   Re-encoding takes ~3-5 minutes for a 30-minute video (vs ~2 seconds for
  *   stream-copy). This is acceptable because seamless playback is the #1
@@ -22,20 +38,83 @@
  *
  * ARCHITECTURE:
  *   - Called by: video-processor.ts worker (render job handler)
- *   - Depends on: commands.ts (FFmpeg execution), specs.ts (encoding params)
- *   - Input: Array of normalized .mp4 file paths (in playback order) + spec
- *   - Output: A single .mp4 file containing all segments seamlessly joined
+ *   - Depends on: commands.ts (FFmpeg execution), ffprobe.ts (segment durations),
+ *     specs.ts (encoding params), transitions.ts (timeline)
+ *   - Input: Array of normalized .mp4 file paths (in playback order) + spec,
+ *     and the transition at each boundary (defaults to cuts)
+ *   - Output: A single .mp4 file containing all segments joined, and its timeline
  */
 
 import { runFFmpeg } from "./commands";
+import { probeVideo } from "./ffprobe";
+import { transitionTimeline, type TransitionTimeline } from "./transitions";
+import type { SegmentTransition } from "../supabase/types";
 import type { NormalizationSpec } from "./specs";
 
+const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+/** Pairwise filter graph for boundaries that overlap (see TRANSITIONS) */
+function buildTransitionFilter(
+  durationsMs: number[],
+  transitions: SegmentTransition[],
+  timeline: TransitionTimeline,
+  spec: NormalizationSpec
+): string {
+  const layout = spec.audioChannels === 2 ? "stereo" : "mono";
+  const parts = durationsMs.map(
+    (_, i) =>
+      `[${i}:v]settb=AVTB,setpts=PTS-STARTPTS,fps=${spec.fps},format=${spec.pixelFormat}[v${i}in];` +
+      `[${i}:a]aformat=sample_rates=${spec.audioRate}:channel_layouts=${layout},asetpts=PTS-STARTPTS[a${i}in]`
+  );
+
+  let video = "[v0in]";
+  let audio = "[a0in]";
+  for (let i = 1; i < durationsMs.length; i++) {
+    const type = transitions[i - 1]?.type ?? "cut";
+    const overlap = timeline.overlapsMs[i - 1];
+    const nextVideo = `[v${i}in]`;
+    const nextAudio = `[a${i}in]`;
+    const outVideo = i === durationsMs.length - 1 ? "[v]" : `[v${i}]`;
+    const outAudio = i === durationsMs.length - 1 ? "[a]" : `[a${i}]`;
+
+    if (type === "cut" || overlap === 0) {
+      parts.push(`${video}${nextVideo}concat=n=2:v=1:a=0${outVideo}`);
+      parts.push(`${audio}${nextAudio}concat=n=2:v=0:a=1${outAudio}`);
+    } else {
+      if (type === "crossfade" || type === "fade_black") {
+        // The running stream ends where the next segment starts + overlap
+        parts.push(
+          `${video}${nextVideo}xfade=transition=${type === "crossfade" ? "fade" : "fadeblack"}` +
+            `:duration=${seconds(overlap)}:offset=${seconds(timeline.startsMs[i])}${outVideo}`
+        );
+      } else if (type === "j_cut") {
+        parts.push(`${nextVideo}trim=start=${seconds(overlap)},setpts=PTS-STARTPTS[v${i}trim]`);
+        parts.push(`${video}[v${i}trim]concat=n=2:v=1:a=0${outVideo}`);
+      } else {
+        parts.push(`${video}trim=duration=${seconds(timeline.startsMs[i])},setpts=PTS-STARTPTS[v${i}trim]`);
+        parts.push(`[v${i}trim]${nextVideo}concat=n=2:v=1:a=0${outVideo}`);
+      }
+      parts.push(`${audio}${nextAudio}acrossfade=d=${seconds(overlap)}${outAudio}`);
+    }
+    video = outVideo;
+    audio = outAudio;
+  }
+
+  return parts.join(";");
+}
+
 export async function stitchSegments(
   segmentPaths: string[],
   outputPath: string,
   _workDir: string,
-  spec: NormalizationSpec
-): Promise<void> {
+  spec: NormalizationSpec,
+  transitions: SegmentTransition[] = []
+): Promise<TransitionTimeline> {
+  const durationsMs = await Promise.all(
+    segmentPaths.map(async (path) => (await probeVideo(path)).duration_ms)
+  );
+  const timeline = transitionTimeline(durationsMs, transitions);
+
   // Build inputs and filter_complex for N segments
   const inputs: string[] = [];
   const filterParts: string[] = [];
@@ -45,7 +124,10 @@ export async function stitchSegments(
     filterParts.push(`[${i}:v][${i}:a]`);
   }
 
-  const filterComplex = `${filterParts.join("")}concat=n=${segmentPaths.length}:v=1:a=1[v][a]`;
+  // All cuts: one concat over every segment
+  const filterComplex = timeline.overlapsMs.some((ms) => ms > 0)
+    ? buildTransitionFilter(durationsMs, transitions, timeline, spec)
+    : `${filterParts.join("")}concat=n=${segmentPaths.length}:v=1:a=1[v][a]`;
 
   const args = [
     ...inputs,
@@ -99,4 +181,5 @@ export async function stitchSegments(
   console.log(`[stitch] Filter: ${filterComplex}`);
 
   await runFFmpeg(args);
+  return timeline;
 }
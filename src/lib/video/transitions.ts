@@ -0,0 +1,177 @@
+/**
+ * transitions.ts — Transitions between stitched segments
+ *
+ * PURPOSE:
+ *   A hard cut from a selfie hook into a slide-deck body looks amateurish.
+ *   Each project sets how every segment boundary is crossed
+ *   (projects.transitions): a cut, a crossfade, a fade through black, or an
+ *   audio-only J-cut (the next segment's audio leads in under the current
+ *   picture) or L-cut (the current audio trails over the next picture).
+ *
+ * HOW IT WORKS:
+ *   - Transitions are keyed by the slot a boundary leads INTO, so a
+ *     skipped optional slot doesn't shift them: a variant without the
+ *     "testimonial" slot crosses into "close" with close's transition
+ *   - Every transition but a cut overlaps the two segments by its
+ *     duration, clamped to half of the shorter segment. transitionTimeline()
+ *     turns segment durations into the stitched video's timeline: where
+ *     each segment starts, and where the picture actually changes (the
+ *     player's boundary markers)
+ *   - stitch.ts builds the FFmpeg filter graph from the same timeline, so
+ *     the hook clip end, captions offsets and markers all agree with it
+ *   - A variant records the transitions it was rendered with
+ *     (variants.transitions); it's re-rendered when they no longer match
+ *     the project's (lib/variant/rerender-plan.ts)
+ *
+ * LIMITATION:
+ *   Composed variants (dynamic composition) join segment packages with
+ *   hard cuts — a manifest can't overlap two segments.
+ *
+ * ARCHITECTURE:
+ *   - Pure, no I/O — safe to import from client components
+ *   - Used by: stitch.ts, video-processor.ts (render), the process and
+ *     project routes, rerender-plan.ts, DualClutchPlayer, the upload page
+ */
+
+import type {
+  ProjectTransitions,
+  SegmentSlot,
+  SegmentTransition,
+  TransitionType,
+} from "../supabase/types";
+
+export const CUT: SegmentTransition = { type: "cut", durationMs: 0 };
+
+export const MIN_TRANSITION_MS = 100;
+export const MAX_TRANSITION_MS = 3000;
+export const DEFAULT_TRANSITION_MS = 500;
+
+export const TRANSITION_OPTIONS: { type: TransitionType; label: string; hint: string }[] = [
+  { type: "cut", label: "Cut", hint: "Straight cut, no overlap" },
+  { type: "crossfade", label: "Crossfade", hint: "Picture and sound blend into the next segment" },
+  { type: "fade_black", label: "Fade through black", hint: "Fade out to black, then in" },
+  { type: "j_cut", label: "J-cut", hint: "Next segment's audio starts under the current picture" },
+  { type: "l_cut", label: "L-cut", hint: "Current audio carries on over the next picture" },
+];
+
+const TRANSITION_TYPES = new Set(TRANSITION_OPTIONS.map((o) => o.type));
+
+/** The transition at each boundary of a variant, from its segments' slot keys */
+export function variantTransitions(
+  transitions: ProjectTransitions | null | undefined,
+  segmentTypes: string[]
+): SegmentTransition[] {
+  return segmentTypes.slice(1).map((type) => transitions?.[type] ?? CUT);
+}
+
+function sameTransition(a: SegmentTransition, b: SegmentTransition): boolean {
+  return a.type === b.type && (a.type === "cut" || a.durationMs === b.durationMs);
+}
+
+/** Whether two variants' boundaries are crossed the same way (missing = cut) */
+export function sameTransitions(a: SegmentTransition[], b: SegmentTransition[]): boolean {
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (!sameTransition(a[i] ?? CUT, b[i] ?? CUT)) return false;
+  }
+  return true;
+}
+
+/** Whether any boundary overlaps its segments */
+export function hasOverlaps(transitions: SegmentTransition[]): boolean {
+  return transitions.some((t) => t.type !== "cut");
+}
+
+/** Error message for an invalid transitions map, or null */
+export function validateTransitions(
+  transitions: ProjectTransitions,
+  slots: SegmentSlot[]
+): string | null {
+  for (const [key, transition] of Object.entries(transitions)) {
+    const index = slots.findIndex((s) => s.key === key);
+    if (index === -1) return `Unknown slot "${key}"`;
+    if (index === 0) return `${slots[0].label} opens every variant — there's nothing to transition from`;
+    if (!TRANSITION_TYPES.has(transition.type)) return `Unknown transition "${transition.type}"`;
+    if (
+      transition.type !== "cut" &&
+      (transition.durationMs < MIN_TRANSITION_MS || transition.durationMs > MAX_TRANSITION_MS)
+    ) {
+      return `Transition into ${slots[index].label} must last ${MIN_TRANSITION_MS}-${MAX_TRANSITION_MS}ms`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Drop transitions for slots that no longer exist (or now open the
+ * variant) and cuts, which are the default anyway.
+ */
+export function sanitizeTransitions(
+  transitions: ProjectTransitions | null | undefined,
+  slots: SegmentSlot[]
+): ProjectTransitions {
+  const keys = new Set(slots.slice(1).map((s) => s.key));
+  return Object.fromEntries(
+    Object.entries(transitions ?? {}).filter(
+      ([key, transition]) => keys.has(key) && transition.type !== "cut"
+    )
+  );
+}
+
+export interface TransitionTimeline {
+  /** Where each segment starts in the stitched video (ms) */
+  startsMs: number[];
+  /** How much each boundary overlaps its two segments (ms, after clamping) */
+  overlapsMs: number[];
+  /** Where the picture changes to the next segment, per boundary (ms) */
+  cutsMs: number[];
+  /** Length of the stitched video (ms) */
+  durationMs: number;
+}
+
+/**
+ * Lay segments of the given durations out with their boundary transitions.
+ * An overlap never exceeds half of either segment, so two transitions
+ * around a short segment can't consume it.
+ */
+export function transitionTimeline(
+  durationsMs: number[],
+  transitions: SegmentTransition[]
+): TransitionTimeline {
+  const startsMs = [0];
+  const overlapsMs: number[] = [];
+  const cutsMs: number[] = [];
+
+  for (let i = 0; i < durationsMs.length - 1; i++) {
+    const transition = transitions[i] ?? CUT;
+    const overlap =
+      transition.type === "cut"
+        ? 0
+        : Math.max(
+            0,
+            Math.min(
+              transition.durationMs,
+              Math.floor(durationsMs[i] / 2),
+              Math.floor(durationsMs[i + 1] / 2)
+            )
+          );
+    const next = startsMs[i] + durationsMs[i] - overlap;
+    startsMs.push(next);
+    overlapsMs.push(overlap);
+
+    // J-cut: the current picture plays out under the incoming audio.
+    // L-cut: the picture changes first. Fades change mid-way.
+    if (transition.type === "j_cut") cutsMs.push(next + overlap);
+    else if (transition.type === "crossfade" || transition.type === "fade_black") {
+      cutsMs.push(next + overlap / 2);
+    } else cutsMs.push(next);
+  }
+
+  const last = durationsMs.length - 1;
+  return {
+    startsMs,
+    overlapsMs,
+    cutsMs,
+    durationMs: last >= 0 ? startsMs[last] + durationsMs[last] : 0,
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * deliver.ts — One outgoing webhook delivery attempt
+ *
+ * PURPOSE:
+ *   Runs inside the worker's "webhook" queue. POSTs a logged delivery to
+ *   its subscription's URL, signed, and records how it went.
+ *
+ * HOW IT WORKS:
+ *   The body is the stored payload. Headers:
+ *     X-Wai-Event:     event type
+ *     X-Wai-Delivery:  delivery ID (stable across retries)
+ *     X-Wai-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *   signed with the subscription's secret — the scheme inbound metric
+ *   webhooks use (lib/analytics/webhook-signature.ts).
+ *
+ *   Any 2xx within WEBHOOK_TIMEOUT_MS is success. Otherwise the row keeps
+ *   the response status (plus the start of a non-2xx body) or error and
+ *   stays "pending" while BullMQ has retries left, then turns "failed";
+ *   the thrown error is what triggers the retry. A delivery whose
+ *   subscription was disabled fails without a request.
+ *
+ *   The URL is re-checked before every attempt, and the connection's own
+ *   DNS lookup refuses internal addresses (url-guard.ts publicLookup — its
+ *   host may resolve somewhere else by now, or between a check and the
+ *   request). Requests go through node:https, which never follows
+ *   redirects. Successful response bodies aren't kept: the log is not a
+ *   way to read what an endpoint returns.
+ *
+ * ARCHITECTURE:
+ *   - Used by: video-processor.ts (processWebhookDelivery)
+ *   - Rows are written by dispatch.ts and the redeliver route
+ */
+
+import { request } from "https";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, WebhookDeliveryStatus } from "../supabase/types";
+import { signPayload } from "../analytics/webhook-signature";
+import { assertPublicWebhookUrl, publicLookup } from "./url-guard";
+
+/** Receivers must answer within this long */
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** How much of a non-2xx response body the log keeps */
+const RESPONSE_BODY_LIMIT = 200;
+
+/**
+ * POST the body, connecting only to addresses publicLookup allows. Resolves
+ * with the status, and the start of the body when it isn't a 2xx.
+ */
+function post(
+  url: string,
+  headers: Record<string, string>,
+  body: string
+): Promise<{ status: number; body: string | null }> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      },
+      (res) => {
+        const status = res.statusCode ?? 0;
+        if (status >= 200 && status < 300) {
+          res.destroy();
+          resolve({ status, body: null });
+          return;
+        }
+        let text = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => {
+          text += chunk;
+          if (text.length >= RESPONSE_BODY_LIMIT) res.destroy();
+        });
+        res.on("close", () => resolve({ status, body: text.slice(0, RESPONSE_BODY_LIMIT) || null }));
+      }
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+export async function deliverWebhook(
+  supabase: SupabaseClient<Database>,
+  deliveryId: string,
+  isFinalAttempt: boolean
+): Promise<WebhookDeliveryStatus> {
+  const { data: delivery } = await supabase
+    .from("webhook_deliveries")
+    .select("*")
+    .eq("id", deliveryId)
+    .single();
+  if (!delivery) throw new Error(`Delivery ${deliveryId} not found`);
+
+  const { data: subscription } = await supabase
+    .from("webhook_subscriptions")
+    .select("url, secret, active")
+    .eq("id", delivery.subscription_id)
+    .single();
+
+  const attempt = {
+    attempts: delivery.attempts + 1,
+    last_attempt_at: new Date().toISOString(),
+  };
+
+  if (!subscription?.active) {
+    await supabase
+      .from("webhook_deliveries")
+      .update({ ...attempt, status: "failed", error: "Subscription disabled" })
+      .eq("id", deliveryId);
+    return "failed";
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  try {
+    await assertPublicWebhookUrl(subscription.url);
+    const res = await post(
+      subscription.url,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "webinar.ai-webhooks/1.0",
+        "X-Wai-Event": delivery.event_type,
+        "X-Wai-Delivery": delivery.id,
+        "X-Wai-Signature": `t=${timestamp},v1=${signPayload(subscription.secret, timestamp, body)}`,
+      },
+      body
+    );
+    responseStatus = res.status;
+    if (res.status < 200 || res.status >= 300) {
+      responseBody = res.body;
+      error = `HTTP ${res.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const status: WebhookDeliveryStatus =
+    error === null ? "succeeded" : isFinalAttempt ? "failed" : "pending";
+  await supabase
+    .from("webhook_deliveries")
+    .update({
+      ...attempt,
+      status,
+      response_status: responseStatus,
+      response_body: responseBody,
+      error,
+    })
+    .eq("id", deliveryId);
+
+  if (error !== null) {
+    throw new Error(`Delivery to ${subscription.url} failed: ${error}`);
+  }
+  return status;
+}
@@ -0,0 +1,80 @@
+/**
+ * dispatch.ts — Fan an event out to a project's webhook subscriptions
+ *
+ * PURPOSE:
+ *   Lets a customer's stack react to a project becoming ready, a render
+ *   failing, a conversion or an experiment concluding without polling.
+ *
+ * HOW IT WORKS:
+ *   dispatchWebhookEvent() finds the project's active subscriptions that
+ *   list the event type, writes one webhook_deliveries row per subscription
+ *   (all sharing one event ID, so receivers can dedupe), and queues a
+ *   "webhook" job for each. The worker POSTs and retries (deliver.ts).
+ *
+ *   Payload:
+ *     { "id": "<event id>", "type": "project_ready",
+ *       "created_at": "...", "project_id": "...", "data": { ... } }
+ *
+ *   Like logActivity, it never throws: a webhook problem must never fail
+ *   the render, conversion or experiment that raised the event.
+ *
+ * ARCHITECTURE:
+ *   - Called by: logActivity (every activity event), recordConversion
+ *   - Works from Next.js routes and the worker; the queue module is
+ *     imported lazily so callers that never dispatch don't open Redis
+ */
+
+import { randomUUID } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../supabase/types";
+import type { WebhookEventType } from "./events";
+
+export async function dispatchWebhookEvent(
+  supabase: SupabaseClient<Database>,
+  projectId: string,
+  eventType: WebhookEventType,
+  data: Record<string, unknown>
+) {
+  try {
+    const { data: subscriptions } = await supabase
+      .from("webhook_subscriptions")
+      .select("id")
+      .eq("project_id", projectId)
+      .eq("active", true)
+      .contains("event_types", [eventType]);
+    if (!subscriptions || subscriptions.length === 0) return;
+
+    const eventId = randomUUID();
+    const payload = {
+      id: eventId,
+      type: eventType,
+      created_at: new Date().toISOString(),
+      project_id: projectId,
+      data,
+    };
+
+    const { data: deliveries, error } = await supabase
+      .from("webhook_deliveries")
+      .insert(
+        subscriptions.map((s) => ({
+          subscription_id: s.id,
+          project_id: projectId,
+          event_id: eventId,
+          event_type: eventType,
+          payload,
+        }))
+      )
+      .select("id");
+    if (error) throw error;
+
+    const { enqueueWebhookDelivery } = await import("../queue/jobs");
+    for (const delivery of deliveries || []) {
+      await enqueueWebhookDelivery({ deliveryId: delivery.id });
+    }
+  } catch (err) {
+    console.error(
+      `[webhooks] Failed to dispatch "${eventType}" for ${projectId}:`,
+      err instanceof Error ? err.message : err
+    );
+  }
+}
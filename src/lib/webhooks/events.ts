@@ -0,0 +1,44 @@
+/**
+ * events.ts — Event types outgoing webhooks can subscribe to
+ *
+ * PURPOSE:
+ *   One list of subscribable events, shared by the subscription API
+ *   (validation) and the dashboard (checkboxes). Pure data; safe to import
+ *   from client components.
+ *
+ * EVENTS:
+ *   Every project activity type (lib/activity/log.ts) — processing,
+ *   publish and experiment lifecycle — plus conversion_recorded, which is
+ *   too frequent for the activity feed and only exists as a webhook.
+ */
+
+import type { ActivityEventType } from "../activity/log";
+
+export type WebhookEventType = ActivityEventType | "conversion_recorded";
+
+const ACTIVITY_EVENTS: Record<ActivityEventType, string> = {
+  segment_uploaded: "Segment uploaded",
+  segment_deleted: "Segment deleted",
+  processing_started: "Processing started",
+  processing_restarted: "Processing restarted",
+  segment_normalized: "Segment normalized",
+  variant_rendered: "Variant rendered",
+  variant_failed: "Variant failed",
+  segment_failed: "Segment failed",
+  project_ready: "Project ready",
+  run_rolled_back: "Run rolled back",
+  experiment_started: "Experiment started",
+  experiment_concluded: "Experiment concluded",
+  experiment_stopped: "Experiment stopped",
+};
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  ...ACTIVITY_EVENTS,
+  conversion_recorded: "Conversion recorded",
+};
+
+export const WEBHOOK_EVENT_TYPES = Object.keys(WEBHOOK_EVENT_LABELS) as WebhookEventType[];
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === "string" && value in WEBHOOK_EVENT_LABELS;
+}
@@ -0,0 +1,168 @@
+/**
+ * url-guard.ts — Keep outgoing webhooks off internal networks
+ *
+ * PURPOSE:
+ *   The worker POSTs to whatever URL a project owner subscribes. Without a
+ *   check, that URL could point at localhost, a private network or the
+ *   cloud metadata endpoint — a request made from inside our network on
+ *   the owner's behalf (SSRF).
+ *
+ * HOW IT WORKS:
+ *   - Only https URLs are accepted
+ *   - The host is resolved and EVERY address it resolves to must be
+ *     public: loopback, private, CGNAT, link-local (which includes the
+ *     169.254.169.254 metadata endpoint), unique-local IPv6, multicast and
+ *     reserved ranges are refused, as are IPv6 addresses that carry one of
+ *     them (IPv4-mapped/-compatible, NAT64 64:ff9b::/96, 6to4 2002::/16)
+ *   - Checked when a subscription is created or its URL changes
+ *   - At delivery, publicLookup() is the connection's own DNS lookup: the
+ *     addresses it checks are the ones connected to, so a host can't pass
+ *     the check and then resolve somewhere internal for the request (DNS
+ *     rebinding). Deliveries also never follow redirects (deliver.ts).
+ *
+ * ARCHITECTURE:
+ *   - Server-only (node:dns)
+ *   - Used by: the webhooks API routes, deliver.ts
+ */
+
+import { lookup as lookupCallback, type LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import { isIP, type LookupFunction } from "net";
+
+export class WebhookUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookUrlError";
+  }
+}
+
+/** [first octets, prefix length] of IPv4 ranges webhooks may not reach */
+const BLOCKED_V4: [number[], number][] = [
+  [[0], 8], // "this" network
+  [[10], 8], // private
+  [[100, 64], 10], // carrier-grade NAT
+  [[127], 8], // loopback
+  [[169, 254], 16], // link-local, cloud metadata
+  [[172, 16], 12], // private
+  [[192, 0, 0], 24], // IETF protocol assignments
+  [[192, 168], 16], // private
+  [[198, 18], 15], // benchmarking
+  [[224], 4], // multicast
+  [[240], 4], // reserved, broadcast
+];
+
+function v4ToInt(address: string): number {
+  return address.split(".").reduce((n, octet) => n * 256 + Number(octet), 0);
+}
+
+function isBlockedV4(address: string): boolean {
+  const value = v4ToInt(address);
+  return BLOCKED_V4.some(([octets, bits]) => {
+    const base = v4ToInt([...octets, 0, 0, 0].slice(0, 4).join("."));
+    const size = 2 ** (32 - bits);
+    return value >= base && value < base + size;
+  });
+}
+
+/** The eight 16-bit groups of an IPv6 address (a trailing dotted quad counts as two) */
+function v6Groups(address: string): number[] {
+  let text = address.toLowerCase().split("%")[0];
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const v4 = v4ToInt(dotted[1]);
+    text = `${text.slice(0, -dotted[1].length)}${(v4 >>> 16).toString(16)}:${(v4 & 0xffff).toString(16)}`;
+  }
+  const [head, tail] = text.split("::");
+  const parse = (part?: string) => (part ? part.split(":").map((g) => parseInt(g, 16) || 0) : []);
+  const front = parse(head);
+  const back = parse(tail);
+  const fill = tail === undefined ? [] : new Array(8 - front.length - back.length).fill(0);
+  return [...front, ...fill, ...back];
+}
+
+/** Dotted IPv4 from two 16-bit groups */
+function groupsToV4(high: number, low: number): string {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+function isBlockedV6(address: string): boolean {
+  const g = v6Groups(address);
+  const zeroUntil = (n: number) => g.slice(0, n).every((x) => x === 0);
+
+  // IPv4-compatible (::a.b.c.d) and IPv4-mapped (::ffff:a.b.c.d) are
+  // judged by their IPv4 part — which also catches :: and ::1 (0.0.0.0/8)
+  if (zeroUntil(6) || (zeroUntil(5) && g[5] === 0xffff)) {
+    return isBlockedV4(groupsToV4(g[6], g[7]));
+  }
+
+  // NAT64 (64:ff9b::/96) and 6to4 (2002::/16) carry an IPv4 address that
+  // the gateway connects to; local-use NAT64 (64:ff9b:1::/48) is private
+  if (g[0] === 0x64 && g[1] === 0xff9b) {
+    return g[2] === 1 || isBlockedV4(groupsToV4(g[6], g[7]));
+  }
+  if (g[0] === 0x2002) return isBlockedV4(groupsToV4(g[1], g[2]));
+
+  return (
+    (g[0] & 0xfe00) === 0xfc00 || // unique local fc00::/7 (incl. AWS fd00:ec2::254)
+    (g[0] & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (g[0] & 0xff00) === 0xff00 // multicast ff00::/8
+  );
+}
+
+/** Whether a resolved address is one webhooks may not reach */
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return isBlockedV4(address);
+  if (family === 6) return isBlockedV6(address);
+  return true;
+}
+
+const BLOCKED_MESSAGE =
+  "Webhook URL must point at a public address, not a private or internal network";
+
+/**
+ * DNS lookup for outgoing webhook connections (https.request's `lookup`):
+ * resolves like the default, but fails with WebhookUrlError when any
+ * address is blocked, and the socket connects to exactly what was checked.
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true, verbatim: true }, (err, addresses: LookupAddress[]) => {
+    if (err) return callback(err, "");
+    if (addresses.length === 0 || addresses.some((a) => isBlockedAddress(a.address))) {
+      return callback(new WebhookUrlError(BLOCKED_MESSAGE), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Throws WebhookUrlError unless the URL is https and its host resolves
+ * only to public addresses.
+ */
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new WebhookUrlError("Webhook URL is not a valid URL");
+  }
+  if (parsed.protocol !== "https:") {
+    throw new WebhookUrlError("Webhook URL must use https");
+  }
+
+  // URL keeps IPv6 literals bracketed
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(host)
+      ? [host]
+      : (await lookup(host, { all: true, verbatim: true })).map((a) => a.address);
+  } catch {
+    throw new WebhookUrlError(`Webhook host ${host} could not be resolved`);
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new WebhookUrlError(BLOCKED_MESSAGE);
+  }
+}
@@ -11,6 +11,10 @@
  *   can read it in the same request cycle) and on the RESPONSE (so the
  *   browser stores it for consistent A/B variant assignment on future visits).
  *
+ *   When embed.js passes its first-party viewer ID (?wai_vid=), that ID
+ *   replaces the cookie's — the host page's ID survives third-party cookie
+ *   blocking, so it's the one assignment and tracking must follow.
+ *
  * 103 EARLY HINTS:
  *   For embed pages, adds HTTP Link preload headers to the response. CDNs
  *   like Cloudflare and Vercel cache these headers and send them as HTTP 103
@@ -21,26 +25,50 @@
  *   to Vercel (automatic). First-time visitors still benefit from the
  *   <link rel="preload"> tags in the HTML.
  *
+ *   Hints are only emitted for viewers who already have a persisted
+ *   assignment (see lib/variant/assignment-service.ts). The middleware never
+ *   computes an assignment itself, so it can't hint a different variant
+ *   from the one the page ends up serving. URLs that force a variant
+ *   (?wai_variant=) or match one of the project's assignment rules, and
+ *   projects with audiences, get no hints for the same reason. Any other
+ *   parameter — UTM tags, ad click IDs, whatever else embed.js forwards
+ *   from the host page — doesn't affect assignment and is ignored.
+ *
  * ARCHITECTURE:
  *   - Delegates to: lib/supabase/middleware.ts (session refresh + auth guard)
  *   - Runs on: Every non-static request
- *   - Skips: _next/static, _next/image, favicon, embed scripts, image files
+ *   - Skips: _next/static, _next/image, favicon, embed and tracking scripts,
+ *     image files
  */
 
 import { type NextRequest } from "next/server";
 import { updateSession } from "@/lib/supabase/middleware";
-import { generateViewerId, assignVariant } from "@/lib/variant/assignment";
+import {
+  FORCE_VARIANT_PARAM,
+  generateViewerId,
+  matchAssignmentRule,
+  parseViewerId,
+  VIEWER_ID_PARAM,
+} from "@/lib/variant/assignment";
 
 export async function middleware(request: NextRequest) {
   // Generate viewer ID for embed pages so the server component can read it
-  // on the very first visit (before the browser has the cookie)
+  // on the very first visit (before the browser has the cookie). embed.js's
+  // first-party ID, when given, takes the cookie's place.
   let newViewerId: string | null = null;
-  if (
-    request.nextUrl.pathname.startsWith("/e/") &&
-    !request.cookies.get("wai_vid")
-  ) {
-    newViewerId = generateViewerId();
-    request.cookies.set("wai_vid", newViewerId);
+  let isNewViewer = false;
+  if (request.nextUrl.pathname.startsWith("/e/")) {
+    const cookieViewerId = request.cookies.get("wai_vid")?.value;
+    const paramViewerId = parseViewerId(
+      request.nextUrl.searchParams.get(VIEWER_ID_PARAM)
+    );
+    if (paramViewerId && paramViewerId !== cookieViewerId) {
+      newViewerId = paramViewerId;
+    } else if (!cookieViewerId) {
+      newViewerId = generateViewerId();
+      isNewViewer = true;
+    }
+    if (newViewerId) request.cookies.set("wai_vid", newViewerId);
   }
 
   const response = await updateSession(request);
@@ -60,7 +88,7 @@ export async function middleware(request: NextRequest) {
   // CDNs cache these Link headers and send them as HTTP 103 on subsequent
   // requests, so the browser starts fetching video while the origin processes.
   if (request.nextUrl.pathname.startsWith("/e/")) {
-    await addEarlyHints(request, response, newViewerId);
+    await addEarlyHints(request, response, isNewViewer);
   }
 
   return response;
@@ -74,7 +102,7 @@ export async function middleware(request: NextRequest) {
 async function addEarlyHints(
   request: NextRequest,
   response: Response,
-  newViewerId: string | null
+  isNewViewer: boolean
 ) {
   try {
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -85,13 +113,18 @@ async function addEarlyHints(
     const slug = request.nextUrl.pathname.split("/e/")[1]?.split(/[/?#]/)[0];
     if (!slug) return;
 
-    const viewerId =
-      request.cookies.get("wai_vid")?.value || newViewerId;
+    // Brand-new viewers have no assignment yet — the page creates it
+    if (isNewViewer) return;
+
+    // A forced variant (?wai_variant=) bypasses the persisted assignment;
+    // so does a matching assignment rule, checked once the project is known
+    if (request.nextUrl.searchParams.has(FORCE_VARIANT_PARAM)) return;
+    const viewerId = request.cookies.get("wai_vid")?.value;
     if (!viewerId) return;
 
-    // Fetch project by slug
+    // Fetch project by slug (published = has a live run, even mid-republish)
     const projectRes = await fetch(
-      `${supabaseUrl}/rest/v1/projects?slug=eq.${encodeURIComponent(slug)}&status=eq.ready&select=id`,
+      `${supabaseUrl}/rest/v1/projects?slug=eq.${encodeURIComponent(slug)}&live_run_id=not.is.null&select=id,audiences(id),assignment_rules(param_name,param_value)`,
       {
         headers: {
           apikey: serviceKey,
@@ -104,9 +137,23 @@ async function addEarlyHints(
     if (!projects?.[0]?.id) return;
     const projectId = projects[0].id;
 
-    // Fetch rendered variants
-    const variantRes = await fetch(
-      `${supabaseUrl}/rest/v1/variants?project_id=eq.${projectId}&status=eq.rendered&select=id,hook_clip_storage_key&order=variant_code`,
+    // An audience pool (referrer, UTM, device, country) can serve a
+    // different variant than the persisted one
+    if (projects[0].audiences?.length) return;
+
+    if (
+      projects[0].assignment_rules?.length &&
+      matchAssignmentRule(
+        projects[0].assignment_rules,
+        Object.fromEntries(request.nextUrl.searchParams)
+      )
+    ) {
+      return;
+    }
+
+    // Read the viewer's persisted assignment (with the variant's hook clip)
+    const assignmentRes = await fetch(
+      `${supabaseUrl}/rest/v1/assignments?project_id=eq.${projectId}&viewer_id=eq.${encodeURIComponent(viewerId)}&select=variant_id,variants(hook_clip_storage_key,status,weight,composed,hook_segment_id)`,
       {
         headers: {
           apikey: serviceKey,
@@ -114,17 +161,31 @@ async function addEarlyHints(
         },
       }
     );
-    if (!variantRes.ok) return;
-    const variants = await variantRes.json();
-    if (!variants?.length) return;
+    if (!assignmentRes.ok) return;
+    const assignments = await assignmentRes.json();
+    const assignment = assignments?.[0];
+    if (!assignment?.variant_id || !assignment.variants) return;
 
-    // Assign variant (same deterministic hash as page.tsx)
-    const variantIndex = assignVariant(viewerId, projectId, variants.length);
-    const variant = variants[variantIndex];
-    if (!variant) return;
+    // A disabled or no-longer-live (archived) variant will be reassigned by
+    // the page — don't hint it
+    if (
+      assignment.variants.status !== "rendered" ||
+      !(Number(assignment.variants.weight) > 0)
+    ) {
+      return;
+    }
+    const variant = {
+      id: assignment.variant_id as string,
+      hook_clip_storage_key: assignment.variants.hook_clip_storage_key as string | null,
+      composed: assignment.variants.composed === true,
+      hook_segment_id: assignment.variants.hook_segment_id as string,
+    };
 
-    // Build URLs and add Link headers
-    const posterUrl = `${r2PublicUrl}/projects/${projectId}/variants/${variant.id}/poster.jpg`;
+    // Build URLs and add Link headers. A composed variant's poster is its
+    // hook segment's (lib/storage/keys.ts)
+    const posterUrl = variant.composed
+      ? `${r2PublicUrl}/projects/${projectId}/segments/${variant.hook_segment_id}/poster.jpg`
+      : `${r2PublicUrl}/projects/${projectId}/variants/${variant.id}/poster.jpg`;
     response.headers.append(
       "Link",
       `<${posterUrl}>; rel=preload; as=image`
@@ -145,6 +206,6 @@ async function addEarlyHints(
 export const config = {
   matcher: [
     // Match all paths except static files and Next.js internals
-    "/((?!_next/static|_next/image|favicon.ico|embed\\.js|embed-player\\.js|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)",
+    "/((?!_next/static|_next/image|favicon.ico|embed\\.js|embed-player\\.js|track\\.js|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)",
   ],
 };
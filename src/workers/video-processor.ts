@@ -18,20 +18,47 @@
  *      - Downloads original from R2 → probes metadata → checks if normalization needed
  *      - If specs already match: remux with faststart only (near-instant)
  *      - If specs differ: full FFmpeg normalize (minutes for long videos)
+ *      - Loudness: measures the audio (EBU R128, loudnorm pass 1) and, when
+ *        the project has a target it misses, corrects it in the same encode
+ *        (or an audio-only re-encode when the video already matches).
+ *        The delivered loudness and true peak are stored on the segment
  *      - Uploads normalized file back to R2
+ *      - Packages it once as HLS (stream-copy) — the package every
+ *        composed manifest for a variant using this segment points at
  *      - When ALL segments for a project are normalized, automatically
- *        enqueues render jobs for every variant combination
+ *        enqueues render jobs for every variant combination. In a
+ *        dynamic-composition project, variants whose segments are
+ *        packaged are staged directly instead (lib/variant/compose.ts)
  *
  *   2. RENDER — Stitch 3 normalized segments into a complete variant video
  *      - Downloads hook + body + CTA from R2
- *      - Stitches them via FFmpeg concat (stream-copy, near-instant)
- *      - Extracts the hook clip for instant-playback preloading
+ *      - Stitches them via FFmpeg concat (stream-copy, near-instant), with
+ *        the project's transition at each boundary (lib/video/transitions.ts)
+ *      - Extracts the hook clip for instant-playback preloading — it ends
+ *        where the second segment starts, before any transition overlap
+ *      - Composes the variant's captions from its segments' captions,
+ *        shifted by where each segment starts (non-blocking)
  *      - Uploads both to R2
- *      - When ALL variants for a project are rendered, marks project as "ready"
+ *      - When ALL variants in the variant's publish run are rendered, publishes
+ *        the run (atomic swap with the live run) and marks project as "ready"
+ *
+ *   3. BANDIT — Recompute Thompson-sampling traffic weights
+ *      - Runs every BANDIT_INTERVAL_MS for every project in "bandit" mode
+ *      - Also enqueued on demand when a project switches into bandit mode
+ *
+ *   4. EXPERIMENT — Advance experiment lifecycles
+ *      - Runs every EXPERIMENT_INTERVAL_MS over every open experiment
+ *      - Starts scheduled experiments once due; concludes running ones whose
+ *        stop rule fired and promotes the winner to 100% of traffic
+ *
+ *   5. WEBHOOK — Deliver outgoing webhooks
+ *      - POSTs one logged delivery (lib/webhooks/deliver.ts), signed with
+ *        the subscription's secret; BullMQ retries with backoff
  *
  * CONCURRENCY:
  *   - Normalize: 1 job at a time (CPU-intensive, ~200-400MB RAM per encode)
  *   - Render: 1 job at a time (prevents memory pressure from concurrent downloads)
+ *   - Webhook: 5 at a time (waiting on receivers, not CPU)
  *
  * ERROR HANDLING:
  *   - BullMQ retries failed jobs 3 times with exponential backoff
@@ -49,8 +76,8 @@
  *     → normalizes all segments
  *     → automatically enqueues render jobs
  *     → renders all variants
- *     → marks project as "ready"
- *     → embed player can now serve variants
+ *     → publishes the run, marks project as "ready"
+ *     → embed player now serves the new run's variants
  */
 
 // Catch ALL uncaught errors — log them before the process dies
@@ -67,12 +94,14 @@ process.on("unhandledRejection", (reason) => {
 // the Docker image because v17 auto-patches process.env and shadows them.
 import { Worker, Job } from "bullmq";
 import { createClient } from "@supabase/supabase-js";
-import { S3Client, GetObjectCommand, PutObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { S3Client, GetObjectCommand, PutObjectCommand, DeleteObjectCommand, ListObjectsV2Command } from "@aws-sdk/client-s3";
 import { mkdir, writeFile, readFile, rm, readdir, stat } from "fs/promises";
 import { join } from "path";
 import { tmpdir } from "os";
-import { normalizeVideo } from "../lib/video/normalize";
+import { measureLoudness, normalizeLoudness, normalizeVideo, type LoudnessCorrection } from "../lib/video/normalize";
+import { DEFAULT_LOUDNESS_TARGET, needsLoudnessCorrection, type LoudnessLevels } from "../lib/video/loudness";
 import { stitchSegments } from "../lib/video/stitch";
+import { variantTransitions } from "../lib/video/transitions";
 import { extractHookClip } from "../lib/video/extract-hook";
 import { probeVideo } from "../lib/video/ffprobe";
 import { DEFAULT_SPEC, needsNormalization } from "../lib/video/specs";
@@ -81,21 +110,30 @@ import { runFFmpeg } from "../lib/video/commands";
 import { findOptimalCrf } from "../lib/video/vmaf";
 import { extractMicroSegment } from "../lib/video/extract-micro-segment";
 import { encode720p } from "../lib/video/encode-720p";
-import { packageRendition, generateMasterPlaylist, HLS_RENDITIONS } from "../lib/video/hls-package";
-import { packageSegmentHls, generateCombinedManifest } from "../lib/video/dual-clutch-package";
+import {
+  packageRendition, generateMasterPlaylist, writeSubtitlesRendition,
+  HLS_RENDITIONS, HLS_SUBTITLES_DIR,
+} from "../lib/video/hls-package";
+import { parseCaptions, composeCaptions, toWebVtt } from "../lib/video/captions";
+import { packageSegmentHls } from "../lib/video/dual-clutch-package";
+import { parseSegmentPlaylist } from "../lib/video/composed-manifest";
 import {
   normalizedSegmentKey, variantVideoKey, variantHookClipKey, variantPosterKey,
-  variantMicroSegmentKey, variant720pVideoKey,
+  variantMicroSegmentKey, variant720pVideoKey, variantPrefix,
   variantHlsMasterKey, variantHlsRenditionPlaylistKey,
-  variantHlsInitSegmentKey, variantHlsSegmentKey,
-  dualClutchManifestKey, dualClutchSegmentDir,
+  variantHlsInitSegmentKey, variantHlsSegmentKey, variantHlsSubtitlesKey,
+  variantCaptionsKey, segmentHlsPrefix, segmentPosterKey,
 } from "../lib/storage/keys";
 import { getRedisConnection } from "../lib/queue/connection";
 import { splitVideoClip } from "../lib/video/split";
 import { detectSceneChanges, detectSilence, deduplicatePoints } from "../lib/video/scene-detect";
-import type { NormalizeJobData, RenderJobData, HlsPackageJobData, SplitJobData, AnalyzeJobData } from "../lib/queue/types";
+import type { NormalizeJobData, RenderJobData, HlsPackageJobData, SplitJobData, AnalyzeJobData, BanditUpdateJobData, ExperimentCheckJobData, WebhookDeliveryJobData } from "../lib/queue/types";
 import { logActivity } from "../lib/activity/log";
-import type { Database } from "../lib/supabase/types";
+import { recomputeBanditWeights } from "../lib/variant/bandit";
+import { stageComposedVariants, type ComposeStorage } from "../lib/variant/compose";
+import { checkExperiment } from "../lib/variant/experiment";
+import { deliverWebhook, WEBHOOK_TIMEOUT_MS } from "../lib/webhooks/deliver";
+import type { Database, SegmentPlaylist } from "../lib/supabase/types";
 
 type Project = Database["public"]["Tables"]["projects"]["Row"];
 type Segment = Database["public"]["Tables"]["segments"]["Row"];
@@ -156,6 +194,15 @@ const RENDER_TIMEOUT_MS = 10 * 60 * 1000;
 const HLS_PACKAGE_TIMEOUT_MS = 30 * 60 * 1000;
 const SPLIT_TIMEOUT_MS = 20 * 60 * 1000;
 const ANALYZE_TIMEOUT_MS = 10 * 60 * 1000;
+const BANDIT_TIMEOUT_MS = 5 * 60 * 1000;
+const EXPERIMENT_TIMEOUT_MS = 5 * 60 * 1000;
+const WEBHOOK_JOB_TIMEOUT_MS = WEBHOOK_TIMEOUT_MS + 30 * 1000;
+
+// How often bandit-mode projects get their traffic weights recomputed
+const BANDIT_INTERVAL_MS = 15 * 60 * 1000;
+
+// How often open experiments are started / checked for conclusion
+const EXPERIMENT_INTERVAL_MS = 5 * 60 * 1000;
 
 // ──────────────────────────────────────────
 // Helper: Structured logging with timing
@@ -220,6 +267,37 @@ async function uploadToR2(
   return buffer.length;
 }
 
+// ──────────────────────────────────────────
+// Helper: Buffer access for lib/variant/compose.ts (composed captions)
+// ──────────────────────────────────────────
+
+const composeStorage: ComposeStorage = {
+  async download(key) {
+    const response = await r2.send(new GetObjectCommand({ Bucket: BUCKET, Key: key }));
+    return Buffer.from(await response.Body!.transformToByteArray());
+  },
+  async upload(key, body, contentType) {
+    await r2.send(new PutObjectCommand({ Bucket: BUCKET, Key: key, Body: body, ContentType: contentType }));
+  },
+};
+
+// ──────────────────────────────────────────
+// Helper: Delete everything under an R2 prefix
+// ──────────────────────────────────────────
+
+async function deleteR2Prefix(prefix: string): Promise<void> {
+  let continuationToken: string | undefined;
+  do {
+    const list = await r2.send(
+      new ListObjectsV2Command({ Bucket: BUCKET, Prefix: prefix, ContinuationToken: continuationToken })
+    );
+    for (const obj of list.Contents || []) {
+      if (obj.Key) await r2.send(new DeleteObjectCommand({ Bucket: BUCKET, Key: obj.Key }));
+    }
+    continuationToken = list.IsTruncated ? list.NextContinuationToken : undefined;
+  } while (continuationToken);
+}
+
 // ──────────────────────────────────────────
 // Helper: Remux with faststart (no re-encoding)
 // Used when video already matches target specs
@@ -251,7 +329,7 @@ async function updateJobProgress(targetId: string, jobType: string, progress: nu
 // ──────────────────────────────────────────
 
 async function processNormalize(job: Job<NormalizeJobData>) {
-  const { projectId, segmentId, originalStorageKey } = job.data;
+  const { projectId, segmentId, originalStorageKey, renormalize = false } = job.data;
   const workDir = join(tmpdir(), `wai-normalize-${job.id}`);
   const startTime = Date.now();
 
@@ -279,17 +357,20 @@ async function processNormalize(job: Job<NormalizeJobData>) {
     log("info", "normalize", job.id, `Probing segment ${segmentId}`);
     const metadata = await probeVideo(inputPath);
 
-    // Update segment with original metadata
-    await supabase
-      .from("segments")
-      .update({
-        original_duration_ms: metadata.duration_ms,
-        original_width: metadata.width,
-        original_height: metadata.height,
-        original_fps: metadata.fps,
-        original_codec: metadata.video_codec,
-      })
-      .eq("id", segmentId);
+    // Update segment with original metadata (a re-normalization's input is
+    // the previous output, so the original's metadata stays as recorded)
+    if (!renormalize) {
+      await supabase
+        .from("segments")
+        .update({
+          original_duration_ms: metadata.duration_ms,
+          original_width: metadata.width,
+          original_height: metadata.height,
+          original_fps: metadata.fps,
+          original_codec: metadata.video_codec,
+        })
+        .eq("id", segmentId);
+    }
 
     await job.updateProgress(30);
     await updateJobProgress(segmentId, "normalize", 30);
@@ -315,6 +396,27 @@ async function processNormalize(job: Job<NormalizeJobData>) {
         }
       : DEFAULT_SPEC;
 
+    // Loudness pass 1: measure, and plan a correction if the project has a
+    // target the audio misses. A failed measurement only skips correction.
+    const loudnessTarget = project ? project.loudness_target_lufs : DEFAULT_LOUDNESS_TARGET;
+    let levels: LoudnessLevels | null = null;
+    let loudness: LoudnessCorrection | null = null;
+    if (metadata.has_audio) {
+      try {
+        const measured = await measureLoudness(inputPath, loudnessTarget ?? DEFAULT_LOUDNESS_TARGET);
+        levels = measured;
+        if (measured && loudnessTarget !== null && needsLoudnessCorrection(measured, loudnessTarget)) {
+          loudness = { targetLufs: loudnessTarget, measured };
+        }
+        log("info", "normalize", job.id, `Loudness for ${segmentId}: ${measured ? `${measured.integratedLufs} LUFS, ${measured.truePeakDbtp} dBTP` : "silent"}`, {
+          targetLufs: loudnessTarget,
+          correcting: !!loudness,
+        });
+      } catch (loudnessErr) {
+        log("warn", "normalize", job.id, `Loudness measurement skipped (non-blocking): ${loudnessErr instanceof Error ? loudnessErr.message : String(loudnessErr)}`);
+      }
+    }
+
     // Probe-first: check if normalization is actually needed
     const check = needsNormalization(metadata, spec);
     const outputPath = join(workDir, "normalized.mp4");
@@ -348,7 +450,11 @@ async function processNormalize(job: Job<NormalizeJobData>) {
         log("warn", "normalize", job.id, `VMAF optimization skipped, using default CRF ${spec.crf}: ${vmafErr instanceof Error ? vmafErr.message : String(vmafErr)}`);
       }
 
-      await normalizeVideo(inputPath, outputPath, optimizedSpec);
+      const corrected = await normalizeVideo(inputPath, outputPath, optimizedSpec, loudness);
+      if (loudness) levels = corrected;
+    } else if (loudness) {
+      log("info", "normalize", job.id, `Specs match — re-encoding audio only for loudness (${segmentId})`);
+      levels = await normalizeLoudness(inputPath, outputPath, spec, loudness);
     } else {
       log("info", "normalize", job.id, `Specs match — remuxing only (skipping re-encode) for ${segmentId}`, {
         durationMs: metadata.duration_ms,
@@ -361,10 +467,58 @@ async function processNormalize(job: Job<NormalizeJobData>) {
     // Probe normalized output
     const normalizedMeta = await probeVideo(outputPath);
 
-    // Upload normalized
-    const storageKey = normalizedSegmentKey(projectId, segmentId);
+    // Upload normalized. Each normalization is a new version (as is its HLS
+    // package): composed variants already staged keep playing the old one.
+    const version = String(Date.now());
+    const storageKey = normalizedSegmentKey(projectId, segmentId, version);
     log("info", "normalize", job.id, `Uploading normalized to ${storageKey}`);
     const sizeBytes = await uploadToR2(outputPath, storageKey);
+    await job.updateProgress(85);
+    await updateJobProgress(segmentId, "normalize", 85);
+
+    // Best-effort: package the segment as HLS once (stream-copy, instant).
+    // Manifests for every variant that uses it are composed from this one
+    // package on request. Without it, dynamic projects render the variant.
+    let hlsPrefix: string | null = null;
+    let hlsPlaylist: SegmentPlaylist | null = null;
+    try {
+      const hlsDir = join(workDir, "hls");
+      await packageSegmentHls(outputPath, hlsDir, "segment");
+
+      const segDir = join(hlsDir, "segment");
+      const prefix = segmentHlsPrefix(projectId, segmentId, version);
+      const files = await readdir(segDir);
+      const uploadBatch: Promise<number>[] = [];
+      for (const file of files) {
+        const localPath = join(segDir, file);
+        const fileStat = await stat(localPath);
+        if (!fileStat.isFile()) continue;
+
+        const contentType = file.endsWith(".m3u8")
+          ? "application/vnd.apple.mpegurl"
+          : "video/mp4";
+        uploadBatch.push(uploadToR2(localPath, `${prefix}/${file}`, contentType));
+
+        if (uploadBatch.length >= 20) {
+          await Promise.all(uploadBatch);
+          uploadBatch.length = 0;
+        }
+      }
+      await Promise.all(uploadBatch);
+
+      const playlist = parseSegmentPlaylist(await readFile(join(segDir, "playlist.m3u8"), "utf-8"));
+      if (playlist.entries.length === 0) throw new Error("Packaged playlist has no media segments");
+      hlsPrefix = prefix;
+      hlsPlaylist = playlist;
+      log("info", "normalize", job.id, `Packaged HLS for ${segmentId}: ${playlist.entries.length} segments at ${prefix}`);
+
+      // Poster for composed variants this segment opens
+      const posterPath = join(workDir, "poster.jpg");
+      await extractPosterFrame(outputPath, posterPath);
+      await uploadToR2(posterPath, segmentPosterKey(projectId, segmentId), "image/jpeg");
+    } catch (hlsErr) {
+      log("warn", "normalize", job.id, `HLS packaging skipped (non-blocking): ${hlsErr instanceof Error ? hlsErr.message : String(hlsErr)}`);
+    }
     await job.updateProgress(90);
     await updateJobProgress(segmentId, "normalize", 90);
 
@@ -376,6 +530,13 @@ async function processNormalize(job: Job<NormalizeJobData>) {
         normalized_storage_key: storageKey,
         normalized_size_bytes: sizeBytes,
         normalized_duration_ms: normalizedMeta.duration_ms,
+        // Variants rendered before this are stale (incremental re-render)
+        normalized_at: new Date().toISOString(),
+        // A failed packaging must not leave the previous version in place
+        hls_prefix: hlsPrefix,
+        hls_playlist: hlsPlaylist,
+        loudness_lufs: levels?.integratedLufs ?? null,
+        true_peak_dbtp: levels?.truePeakDbtp ?? null,
       })
       .eq("id", segmentId);
 
@@ -392,12 +553,21 @@ async function processNormalize(job: Job<NormalizeJobData>) {
 
     await job.updateProgress(95);
 
-    // Clean up original upload from R2 (normalized version is now the source of truth)
-    if (originalStorageKey !== storageKey) {
+    // Clean up original upload from R2 (normalized version is now the source
+    // of truth). Clearing the key sends later re-normalizations to the
+    // normalized file instead.
+    if (!renormalize && originalStorageKey !== storageKey) {
       log("info", "normalize", job.id, `Deleting original ${originalStorageKey}`);
-      await r2.send(new DeleteObjectCommand({ Bucket: BUCKET, Key: originalStorageKey })).catch((err) => {
-        log("warn", "normalize", job.id, `Failed to delete original: ${err.message}`);
-      });
+      try {
+        await r2.send(new DeleteObjectCommand({ Bucket: BUCKET, Key: originalStorageKey }));
+        await supabase
+          .from("segments")
+          .update({ original_storage_key: null })
+          .eq("id", segmentId)
+          .eq("original_storage_key", originalStorageKey);
+      } catch (err) {
+        log("warn", "normalize", job.id, `Failed to delete original: ${err instanceof Error ? err.message : String(err)}`);
+      }
     }
 
     await job.updateProgress(100);
@@ -489,28 +659,55 @@ async function checkAndEnqueueRenders(projectId: string) {
 
   log("info", "normalize", undefined, `All segments normalized for project ${projectId}. Enqueueing renders...`);
 
-  // Get pending variants
+  // Only the building run's new or changed combinations are pending —
+  // variants carried over from the live run are already rendered
+  const { data: run } = await supabase
+    .from("publish_runs")
+    .select("variant_ids")
+    .eq("project_id", projectId)
+    .eq("status", "building")
+    .maybeSingle();
+  if (!run) return;
+
   const { data: rawVariants } = await supabase
     .from("variants")
     .select("*")
-    .eq("project_id", projectId)
+    .in("id", run.variant_ids)
     .eq("status", "pending");
 
   if (!rawVariants || rawVariants.length === 0) return;
-  const variants = rawVariants as Variant[];
+  let variants = rawVariants as Variant[];
 
   const segmentMap = new Map(segments.map((s) => [s.id, s]));
 
+  // Dynamic composition: variants whose segments are all packaged need no
+  // render — they're staged here and served from composed manifests
+  const { data: project } = await supabase
+    .from("projects")
+    .select("composition_mode, transitions")
+    .eq("id", projectId)
+    .single();
+  if (project?.composition_mode === "dynamic") {
+    const composed = new Set(
+      await stageComposedVariants(supabase, composeStorage, variants, segmentMap)
+    );
+    log("info", "normalize", undefined, `Composed ${composed.size} of ${variants.length} variants for project ${projectId} without rendering`);
+    variants = variants.filter((v) => !composed.has(v.id));
+    if (variants.length === 0) {
+      await checkRunComplete(projectId, Array.from(composed)[0]);
+      return;
+    }
+  }
+
   // Import render queue dynamically to avoid circular deps at startup
   const { Queue } = await import("bullmq");
   const renderQueue = new Queue("render", { connection: getRedisConnection() });
 
   for (const variant of variants) {
-    const hook = segmentMap.get(variant.hook_segment_id);
-    const body = segmentMap.get(variant.body_segment_id);
-    const cta = segmentMap.get(variant.cta_segment_id);
+    const parts = variant.segment_ids.map((id) => segmentMap.get(id));
+    const hook = parts[0];
 
-    if (!hook?.normalized_storage_key || !body?.normalized_storage_key || !cta?.normalized_storage_key) {
+    if (!hook || !parts.every((part) => part?.normalized_storage_key)) {
       log("error", "render", undefined, `Missing normalized keys for variant ${variant.id}`);
       continue;
     }
@@ -526,12 +723,10 @@ async function checkAndEnqueueRenders(projectId: string) {
     await renderQueue.add(`render-${variant.id}`, {
       projectId,
       variantId: variant.id,
-      hookSegmentId: variant.hook_segment_id,
-      bodySegmentId: variant.body_segment_id,
-      ctaSegmentId: variant.cta_segment_id,
-      hookNormalizedKey: hook.normalized_storage_key,
-      bodyNormalizedKey: body.normalized_storage_key,
-      ctaNormalizedKey: cta.normalized_storage_key,
+      segmentIds: variant.segment_ids,
+      normalizedKeys: parts.map((part) => part!.normalized_storage_key!),
+      captionKeys: parts.map((part) => part!.captions_storage_key),
+      transitions: variantTransitions(project?.transitions, parts.map((part) => part!.type)),
       hookDurationMs: hook.normalized_duration_ms!,
     } satisfies RenderJobData);
   }
@@ -544,14 +739,7 @@ async function checkAndEnqueueRenders(projectId: string) {
 // ──────────────────────────────────────────
 
 async function processRender(job: Job<RenderJobData>) {
-  const {
-    projectId,
-    variantId,
-    hookNormalizedKey,
-    bodyNormalizedKey,
-    ctaNormalizedKey,
-    hookDurationMs,
-  } = job.data;
+  const { projectId, variantId, normalizedKeys, captionKeys = [], transitions = [], hookDurationMs } = job.data;
   const workDir = join(tmpdir(), `wai-render-${job.id}`);
   const startTime = Date.now();
 
@@ -573,17 +761,13 @@ async function processRender(job: Job<RenderJobData>) {
     await job.updateProgress(10);
     await updateJobProgress(variantId, "render", 10);
 
-    // Download all three normalized segments
-    const hookPath = join(workDir, "hook.mp4");
-    const bodyPath = join(workDir, "body.mp4");
-    const ctaPath = join(workDir, "cta.mp4");
-
-    log("info", "render", job.id, `Downloading segments for variant ${variantId}`);
-    await Promise.all([
-      downloadFromR2(hookNormalizedKey, hookPath),
-      downloadFromR2(bodyNormalizedKey, bodyPath),
-      downloadFromR2(ctaNormalizedKey, ctaPath),
-    ]);
+    // Download the variant's normalized segments (one per filled slot)
+    const segmentPaths = normalizedKeys.map((_, i) => join(workDir, `segment-${i}.mp4`));
+
+    log("info", "render", job.id, `Downloading ${normalizedKeys.length} segments for variant ${variantId}`);
+    await Promise.all(
+      normalizedKeys.map((key, i) => downloadFromR2(key, segmentPaths[i]))
+    );
     await job.updateProgress(30);
     await updateJobProgress(variantId, "render", 30);
 
@@ -611,8 +795,10 @@ async function processRender(job: Job<RenderJobData>) {
     // Stitch segments (re-encodes via concat filter for seamless transitions)
     const variantPath = join(workDir, "variant.mp4");
     log("info", "render", job.id, `Stitching variant ${variantId} (re-encode via concat filter, version: ${WORKER_VERSION})`);
-    log("info", "render", job.id, `Stitch spec: ${renderSpec.videoCodec} crf=${renderSpec.crf} ${renderSpec.width}x${renderSpec.height}@${renderSpec.fps}fps`);
-    await stitchSegments([hookPath, bodyPath, ctaPath], variantPath, workDir, renderSpec);
+    log("info", "render", job.id, `Stitch spec: ${renderSpec.videoCodec} crf=${renderSpec.crf} ${renderSpec.width}x${renderSpec.height}@${renderSpec.fps}fps`, {
+      transitions: transitions.map((t) => (t.type === "cut" ? "cut" : `${t.type}:${t.durationMs}ms`)),
+    });
+    const timeline = await stitchSegments(segmentPaths, variantPath, workDir, renderSpec, transitions);
 
     // Verify stitched output
     const stitchedProbe = await probeVideo(variantPath);
@@ -625,7 +811,9 @@ async function processRender(job: Job<RenderJobData>) {
     const hookClipPath = join(workDir, "hook-clip.mp4");
     const posterPath = join(workDir, "poster.jpg");
     log("info", "render", job.id, `Extracting hook clip for variant ${variantId}`);
-    await extractHookClip(variantPath, hookClipPath, hookDurationMs, renderSpec);
+    // The hook clip hands over to the full video before the first
+    // transition's overlap, so the swap never lands mid-transition
+    await extractHookClip(variantPath, hookClipPath, hookDurationMs - (timeline.overlapsMs[0] ?? 0), renderSpec);
     log("info", "render", job.id, `Extracting poster frame for variant ${variantId}`);
     await extractPosterFrame(variantPath, posterPath);
 
@@ -634,6 +822,33 @@ async function processRender(job: Job<RenderJobData>) {
     log("info", "render", job.id, `Extracting micro-segment for variant ${variantId}`);
     await extractMicroSegment(variantPath, microSegmentPath);
 
+    // Best-effort: compose the variant's captions — each segment's cues
+    // shifted to where it starts in the stitched video
+    let captionsKey: string | null = null;
+    if (captionKeys.some(Boolean)) {
+      try {
+        const parts = await Promise.all(
+          segmentPaths.map(async (segmentPath, i) => {
+            const { duration_ms } = await probeVideo(segmentPath);
+            const overlapMs = timeline.overlapsMs[i] ?? 0;
+            const key = captionKeys[i];
+            if (!key) return { cues: null, durationMs: duration_ms, overlapMs };
+            const vttPath = join(workDir, `captions-${i}.vtt`);
+            await downloadFromR2(key, vttPath);
+            return { cues: parseCaptions(await readFile(vttPath, "utf8")), durationMs: duration_ms, overlapMs };
+          })
+        );
+        const captionsPath = join(workDir, "captions.vtt");
+        await writeFile(captionsPath, toWebVtt(composeCaptions(parts)));
+        captionsKey = variantCaptionsKey(projectId, variantId);
+        await uploadToR2(captionsPath, captionsKey, "text/vtt");
+        log("info", "render", job.id, `Uploaded captions to ${captionsKey}`);
+      } catch (captionsErr) {
+        captionsKey = null;
+        log("warn", "render", job.id, `Captions skipped (non-blocking): ${captionsErr instanceof Error ? captionsErr.message : String(captionsErr)}`);
+      }
+    }
+
     await job.updateProgress(60);
     await updateJobProgress(variantId, "render", 60);
 
@@ -668,11 +883,13 @@ async function processRender(job: Job<RenderJobData>) {
     await job.updateProgress(90);
     await updateJobProgress(variantId, "render", 90);
 
-    // Update variant record (mark rendered — core pipeline complete)
+    // Update variant record (mark staged — core pipeline complete; it's
+    // served once publish_run makes its run live)
     await supabase
       .from("variants")
       .update({
-        status: "rendered",
+        status: "staged",
+        rendered_at: new Date().toISOString(),
         video_storage_key: videoKey,
         video_size_bytes: videoSize,
         video_duration_ms: variantMeta.duration_ms,
@@ -681,6 +898,8 @@ async function processRender(job: Job<RenderJobData>) {
         hook_clip_duration_ms: hookClipMeta.duration_ms,
         hook_end_time_ms: hookClipMeta.duration_ms,
         micro_segment_storage_key: microSegmentKey,
+        captions_storage_key: captionsKey,
+        transitions,
       })
       .eq("id", variantId);
 
@@ -729,6 +948,7 @@ async function processRender(job: Job<RenderJobData>) {
         projectId,
         variantId,
         videoStorageKey: videoKey,
+        captionsStorageKey: captionsKey,
       } satisfies HlsPackageJobData, {
         jobId: `hls-package-${variantId}`,
       });
@@ -738,65 +958,6 @@ async function processRender(job: Job<RenderJobData>) {
       log("warn", "render", job.id, `HLS enqueue skipped (non-blocking): ${hlsErr instanceof Error ? hlsErr.message : String(hlsErr)}`);
     }
 
-    // Best-effort: Dual Clutch per-segment HLS packaging (stream-copy, instant)
-    try {
-      const dcDir = join(workDir, "dual-clutch");
-      await mkdir(dcDir, { recursive: true });
-
-      log("info", "render", job.id, `Packaging Dual Clutch segments for variant ${variantId}`);
-      await packageSegmentHls(hookPath, dcDir, "hook");
-      await packageSegmentHls(bodyPath, dcDir, "body");
-      await packageSegmentHls(ctaPath, dcDir, "cta");
-
-      const { manifestPath, segmentDurationsMs } = await generateCombinedManifest(dcDir, ["hook", "body", "cta"]);
-      log("info", "render", job.id, `Dual Clutch manifest: 3 segments, durations: ${segmentDurationsMs.map(d => `${(d / 1000).toFixed(1)}s`).join(" + ")}`);
-
-      // Upload all Dual Clutch files to R2
-      // Upload combined manifest
-      const dcManifestKey = dualClutchManifestKey(projectId, variantId);
-      await uploadToR2(manifestPath, dcManifestKey, "application/vnd.apple.mpegurl");
-
-      // Upload each segment's HLS files (init.mp4, seg*.m4s, playlist.m3u8)
-      for (const segName of ["hook", "body", "cta"]) {
-        const segDir = join(dcDir, segName);
-        const files = await readdir(segDir);
-        const uploadBatch: Promise<number>[] = [];
-
-        for (const file of files) {
-          const localPath = join(segDir, file);
-          const fileStat = await stat(localPath);
-          if (!fileStat.isFile()) continue;
-
-          const r2Key = `${dualClutchSegmentDir(projectId, variantId, segName)}/${file}`;
-          const contentType = file.endsWith(".m3u8")
-            ? "application/vnd.apple.mpegurl"
-            : "video/mp4";
-
-          uploadBatch.push(uploadToR2(localPath, r2Key, contentType));
-
-          if (uploadBatch.length >= 20) {
-            await Promise.all(uploadBatch);
-            uploadBatch.length = 0;
-          }
-        }
-        if (uploadBatch.length > 0) {
-          await Promise.all(uploadBatch);
-        }
-      }
-
-      // Update variant with Dual Clutch manifest key
-      await supabase
-        .from("variants")
-        .update({
-          dual_clutch_manifest_key: dcManifestKey,
-        })
-        .eq("id", variantId);
-
-      log("info", "render", job.id, `Dual Clutch packaging complete for variant ${variantId}`);
-    } catch (dcErr) {
-      log("warn", "render", job.id, `Dual Clutch packaging skipped (non-blocking): ${dcErr instanceof Error ? dcErr.message : String(dcErr)}`);
-    }
-
     // Update processing job
     await supabase
       .from("processing_jobs")
@@ -810,8 +971,8 @@ async function processRender(job: Job<RenderJobData>) {
 
     await job.updateProgress(100);
 
-    // Check if ALL variants rendered → mark project ready
-    await checkProjectComplete(projectId);
+    // Check if ALL variants in this run rendered → publish it
+    await checkRunComplete(projectId, variantId);
 
     const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
     log("info", "render", job.id, `Completed variant ${variantId}`, {
@@ -862,34 +1023,70 @@ async function processRender(job: Job<RenderJobData>) {
 }
 
 // ──────────────────────────────────────────
-// Check if all variants rendered → project ready
+// Check if all variants in the run rendered → publish the run
 // ──────────────────────────────────────────
 
-async function checkProjectComplete(projectId: string) {
+async function checkRunComplete(projectId: string, variantId: string) {
+  const { data: run } = await supabase
+    .from("publish_runs")
+    .select("id, variant_ids")
+    .eq("project_id", projectId)
+    .eq("status", "building")
+    .contains("variant_ids", [variantId])
+    .maybeSingle();
+
+  // No building run has this variant — it was discarded by a newer process
+  // request, or another render job already published it
+  if (!run) return;
+  const runId = run.id;
+
   const { data: rawVariants } = await supabase
     .from("variants")
     .select("status")
-    .eq("project_id", projectId);
+    .in("id", run.variant_ids);
 
   if (!rawVariants) return;
   const variants = rawVariants as Pick<Variant, "status">[];
 
-  const allRendered = variants.every((v) => v.status === "rendered");
-  if (allRendered) {
-    log("info", "render", undefined, `All variants rendered for project ${projectId}. Marking ready.`);
-    await supabase
-      .from("projects")
-      .update({ status: "ready" })
-      .eq("id", projectId);
+  // Carried-over variants are already "rendered" (live), or "archived" if
+  // a rollback swapped them out meanwhile — publish_run restores both; new
+  // ones are "staged"
+  const allRendered =
+    variants.length === run.variant_ids.length &&
+    variants.every(
+      (v) => v.status === "staged" || v.status === "rendered" || v.status === "archived"
+    );
+  if (!allRendered) return;
+
+  // Atomic swap: the previous live run is archived for rollback, anything
+  // older is pruned. Publishing an already-live run is a no-op, so two
+  // render jobs finishing at once is harmless.
+  const { data: prunedVariantIds, error } = await supabase.rpc("publish_run", {
+    p_project_id: projectId,
+    p_run_id: runId,
+  });
+  if (error) {
+    log("error", "render", undefined, `Failed to publish run ${runId} for project ${projectId}: ${error.message}`);
+    return;
+  }
 
-    await logActivity({
-      supabase, projectId,
-      eventType: "project_ready",
-      title: "All variants ready",
-      detail: `${variants.length} variants rendered`,
-      metadata: { variantCount: variants.length },
+  log("info", "render", undefined, `All variants rendered for project ${projectId}. Published run ${runId}.`, {
+    prunedVariants: prunedVariantIds?.length ?? 0,
+  });
+
+  for (const prunedId of prunedVariantIds || []) {
+    await deleteR2Prefix(variantPrefix(projectId, prunedId)).catch((err) => {
+      log("warn", "render", undefined, `Failed to delete files for pruned variant ${prunedId}: ${err instanceof Error ? err.message : String(err)}`);
     });
   }
+
+  await logActivity({
+    supabase, projectId,
+    eventType: "project_ready",
+    title: "All variants ready",
+    detail: `${variants.length} variants published`,
+    metadata: { variantCount: variants.length, runId },
+  });
 }
 
 // ──────────────────────────────────────────
@@ -897,7 +1094,7 @@ async function checkProjectComplete(projectId: string) {
 // ──────────────────────────────────────────
 
 async function processHlsPackage(job: Job<HlsPackageJobData>) {
-  const { projectId, variantId, videoStorageKey } = job.data;
+  const { projectId, variantId, videoStorageKey, captionsStorageKey = null } = job.data;
   const workDir = join(tmpdir(), `wai-hls-${job.id}`);
   const startTime = Date.now();
 
@@ -927,9 +1124,23 @@ async function processHlsPackage(job: Job<HlsPackageJobData>) {
       await job.updateProgress(10 + Math.round(((i + 1) / HLS_RENDITIONS.length) * 60));
     }
 
+    // Subtitles rendition from the variant's captions
+    let hasSubtitles = false;
+    if (captionsStorageKey) {
+      const captionsPath = join(workDir, "captions.vtt");
+      await downloadFromR2(captionsStorageKey, captionsPath);
+      const { duration_ms } = await probeVideo(inputPath);
+      await writeSubtitlesRendition(hlsDir, await readFile(captionsPath, "utf8"), duration_ms);
+      hasSubtitles = true;
+    }
+
     // Generate master playlist
     log("info", "hls-package", job.id, `Generating master playlist for variant ${variantId}`);
-    await generateMasterPlaylist(hlsDir, HLS_RENDITIONS);
+    await generateMasterPlaylist(
+      hlsDir,
+      HLS_RENDITIONS,
+      hasSubtitles ? { name: "Captions" } : undefined
+    );
     await job.updateProgress(75);
 
     // Upload all HLS files to R2
@@ -985,6 +1196,17 @@ async function processHlsPackage(job: Job<HlsPackageJobData>) {
       }
     }
 
+    // Upload the subtitles rendition
+    if (hasSubtitles) {
+      for (const file of ["playlist.m3u8", "captions.vtt"]) {
+        await uploadToR2(
+          join(hlsDir, HLS_SUBTITLES_DIR, file),
+          variantHlsSubtitlesKey(projectId, variantId, file),
+          file.endsWith(".vtt") ? "text/vtt" : "application/vnd.apple.mpegurl"
+        );
+      }
+    }
+
     await job.updateProgress(95);
 
     // Update variant with HLS info
@@ -1185,6 +1407,95 @@ async function processAnalyze(job: Job<AnalyzeJobData>) {
   }
 }
 
+// ──────────────────────────────────────────
+// BANDIT — Thompson-sampling weight recompute
+// ──────────────────────────────────────────
+
+async function processBanditUpdate(job: Job<BanditUpdateJobData>) {
+  const startTime = Date.now();
+
+  let projectIds: string[];
+  if (job.data.projectId) {
+    projectIds = [job.data.projectId];
+  } else {
+    const { data: projects } = await supabase
+      .from("projects")
+      .select("id")
+      .eq("allocation_mode", "bandit")
+      .not("live_run_id", "is", null);
+    projectIds = (projects || []).map((p) => p.id);
+  }
+
+  for (const projectId of projectIds) {
+    try {
+      const weights = await recomputeBanditWeights(supabase, projectId);
+      log("info", "bandit", job.id, `Recomputed weights for project ${projectId}`, {
+        variantCount: weights.size,
+      });
+    } catch (err) {
+      // One project's failure shouldn't block the rest of the sweep
+      log("error", "bandit", job.id, `Bandit recompute failed for project ${projectId}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  log("info", "bandit", job.id, `Bandit sweep complete`, {
+    elapsedSec: elapsed,
+    projectCount: projectIds.length,
+  });
+
+  return { projectCount: projectIds.length };
+}
+
+// ──────────────────────────────────────────
+// EXPERIMENT — Scheduled start, auto-conclude, promote winner
+// ──────────────────────────────────────────
+
+async function processExperimentCheck(job: Job<ExperimentCheckJobData>) {
+  const startTime = Date.now();
+
+  let query = supabase
+    .from("experiments")
+    .select("*")
+    .in("status", ["scheduled", "running"]);
+  if (job.data.experimentId) query = query.eq("id", job.data.experimentId);
+  const { data: experiments } = await query;
+
+  for (const experiment of experiments || []) {
+    try {
+      const status = await checkExperiment(supabase, experiment);
+      if (status !== experiment.status) {
+        log("info", "experiment", job.id, `Experiment ${experiment.id} is now ${status}`, {
+          projectId: experiment.project_id,
+        });
+      }
+    } catch (err) {
+      // One experiment's failure shouldn't block the rest of the sweep
+      log("error", "experiment", job.id, `Experiment check failed for ${experiment.id}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  log("info", "experiment", job.id, `Experiment sweep complete`, {
+    elapsedSec: elapsed,
+    experimentCount: (experiments || []).length,
+  });
+
+  return { experimentCount: (experiments || []).length };
+}
+
+// ──────────────────────────────────────────
+// WEBHOOK — Outgoing webhook delivery
+// ──────────────────────────────────────────
+
+async function processWebhookDelivery(job: Job<WebhookDeliveryJobData>) {
+  // The row only turns "failed" once BullMQ has no retries left
+  const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+  const status = await deliverWebhook(supabase, job.data.deliveryId, isFinalAttempt);
+  log("info", "webhook", job.id, `Delivery ${job.data.deliveryId} ${status}`);
+  return { status };
+}
+
 // ──────────────────────────────────────────
 // Start workers
 // ──────────────────────────────────────────
@@ -1202,7 +1513,7 @@ console.log(`[worker] Redis target: ${redisConn.host}:${redisConn.port} (tls: ${
   // Step 1: Clean stale failed jobs from previous deploys
   try {
     const { Queue } = await import("bullmq");
-    for (const queueName of ["normalize", "render", "hls-package", "split", "analyze"]) {
+    for (const queueName of ["normalize", "render", "hls-package", "split", "analyze", "bandit", "experiment", "webhook"]) {
       const q = new Queue(queueName, { connection: getRedisConnection() });
       const failed = await q.getFailed();
       if (failed.length > 0) {
@@ -1248,6 +1559,52 @@ console.log(`[worker] Redis target: ${redisConn.host}:${redisConn.port} (tls: ${
     lockDuration: ANALYZE_TIMEOUT_MS,
   });
 
+  const banditWorker = new Worker("bandit", processBanditUpdate, {
+    connection: redisConn,
+    concurrency: 1,
+    lockDuration: BANDIT_TIMEOUT_MS,
+  });
+
+  const experimentWorker = new Worker("experiment", processExperimentCheck, {
+    connection: redisConn,
+    concurrency: 1,
+    lockDuration: EXPERIMENT_TIMEOUT_MS,
+  });
+
+  const webhookWorker = new Worker("webhook", processWebhookDelivery, {
+    connection: redisConn,
+    concurrency: 5,
+    lockDuration: WEBHOOK_JOB_TIMEOUT_MS,
+  });
+
+  // Repeating sweep over every bandit-mode project
+  try {
+    const { Queue } = await import("bullmq");
+    const banditQueue = new Queue("bandit", { connection: getRedisConnection() });
+    await banditQueue.upsertJobScheduler(
+      "bandit-sweep",
+      { every: BANDIT_INTERVAL_MS },
+      { name: "bandit-all", data: {} satisfies BanditUpdateJobData }
+    );
+    await banditQueue.close();
+  } catch (err) {
+    console.error("[worker] Failed to schedule bandit sweep:", err);
+  }
+
+  // Repeating sweep over every open experiment
+  try {
+    const { Queue } = await import("bullmq");
+    const experimentQueue = new Queue("experiment", { connection: getRedisConnection() });
+    await experimentQueue.upsertJobScheduler(
+      "experiment-sweep",
+      { every: EXPERIMENT_INTERVAL_MS },
+      { name: "experiment-all", data: {} satisfies ExperimentCheckJobData }
+    );
+    await experimentQueue.close();
+  } catch (err) {
+    console.error("[worker] Failed to schedule experiment sweep:", err);
+  }
+
   normalizeWorker.on("completed", (job) => {
     log("info", "normalize", job.id, "Job completed");
   });
@@ -1308,6 +1665,30 @@ console.log(`[worker] Redis target: ${redisConn.host}:${redisConn.port} (tls: ${
     log("error", "analyze", undefined, `Worker error: ${err.message}`);
   });
 
+  banditWorker.on("failed", (job, err) => {
+    log("error", "bandit", job?.id, `Job failed: ${err.message}`);
+  });
+
+  banditWorker.on("error", (err) => {
+    log("error", "bandit", undefined, `Worker error: ${err.message}`);
+  });
+
+  experimentWorker.on("failed", (job, err) => {
+    log("error", "experiment", job?.id, `Job failed: ${err.message}`);
+  });
+
+  experimentWorker.on("error", (err) => {
+    log("error", "experiment", undefined, `Worker error: ${err.message}`);
+  });
+
+  webhookWorker.on("failed", (job, err) => {
+    log("error", "webhook", job?.id, `Job failed: ${err.message}`);
+  });
+
+  webhookWorker.on("error", (err) => {
+    log("error", "webhook", undefined, `Worker error: ${err.message}`);
+  });
+
   console.log("[worker] Workers started successfully");
 
   // Graceful shutdown
@@ -1318,6 +1699,9 @@ console.log(`[worker] Redis target: ${redisConn.host}:${redisConn.port} (tls: ${
     await hlsPackageWorker.close();
     await splitWorker.close();
     await analyzeWorker.close();
+    await banditWorker.close();
+    await experimentWorker.close();
+    await webhookWorker.close();
     process.exit(0);
   };
 
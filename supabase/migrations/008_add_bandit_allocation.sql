@@ -0,0 +1,65 @@
+-- =============================================================
+-- Migration 008: Thompson-sampling bandit allocation
+--
+-- Adds:
+--   - projects.allocation_mode: 'uniform' (equal split) or 'bandit'
+--   - projects.bandit_metric_id: optional conversion metric used as the
+--     bandit reward (NULL = video completion)
+--   - projects.bandit_updated_at: last time the worker recomputed weights
+--   - RPC get_bandit_stats: per-variant trials/successes (distinct viewers)
+-- =============================================================
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS allocation_mode TEXT NOT NULL DEFAULT 'uniform';  -- 'uniform' | 'bandit'
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS bandit_metric_id UUID REFERENCES custom_metrics(id) ON DELETE SET NULL;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS bandit_updated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_projects_allocation_mode ON projects(allocation_mode);
+
+-- -----------------------------------------------
+-- RPC: get_bandit_stats
+-- Bernoulli trials per variant for the bandit posterior.
+--   trials    = distinct viewers with a 'play' event
+--   successes = distinct viewers who completed (p_metric_id IS NULL)
+--               or converted on the given custom metric
+-- Only active (weight > 0) rendered variants are returned.
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION get_bandit_stats(
+    p_project_id UUID,
+    p_metric_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    variant_id UUID,
+    trials BIGINT,
+    successes BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        v.id AS variant_id,
+        (
+            SELECT COUNT(DISTINCT ve.viewer_id)
+            FROM view_events ve
+            WHERE ve.variant_id = v.id AND ve.event_type = 'play'
+        ) AS trials,
+        CASE
+            WHEN p_metric_id IS NULL THEN (
+                SELECT COUNT(DISTINCT ve.viewer_id)
+                FROM view_events ve
+                WHERE ve.variant_id = v.id AND ve.event_type = 'complete'
+            )
+            ELSE (
+                SELECT COUNT(DISTINCT cme.viewer_id)
+                FROM custom_metric_events cme
+                WHERE cme.variant_id = v.id AND cme.metric_id = p_metric_id
+            )
+        END AS successes
+    FROM variants v
+    WHERE v.project_id = p_project_id
+      AND v.status = 'rendered'
+      AND v.weight > 0
+    ORDER BY v.variant_code;
+END;
+$$;
@@ -0,0 +1,41 @@
+-- =============================================================
+-- Migration 009: Persisted viewer → variant assignments
+--
+-- Every embed entry point (the /e/[slug] page, /api/embed/[slug] and the
+-- middleware preload hints) resolves a viewer's variant through one
+-- assignment service. The first assignment is stored here, so adding,
+-- re-ordering or re-weighting variants never re-buckets existing viewers.
+-- Disabling a variant only moves the viewers who were on that variant.
+-- =============================================================
+
+CREATE TABLE assignments (
+    id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id      UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    viewer_id       TEXT NOT NULL,
+    variant_id      UUID NOT NULL REFERENCES variants(id) ON DELETE CASCADE,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(project_id, viewer_id)
+);
+
+CREATE INDEX idx_assignments_variant ON assignments(variant_id);
+
+ALTER TABLE assignments ENABLE ROW LEVEL SECURITY;
+
+-- Written by the service role only; owners can read for analytics
+CREATE POLICY "Users can view assignments of own projects"
+    ON assignments FOR SELECT USING (
+        project_id IN (SELECT id FROM projects WHERE user_id = auth.uid())
+    );
+
+CREATE TRIGGER set_updated_at_assignments BEFORE UPDATE ON assignments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Backfill: viewers who already watched keep the variant they last saw
+INSERT INTO assignments (project_id, viewer_id, variant_id, created_at)
+SELECT DISTINCT ON (ve.project_id, ve.viewer_id)
+    ve.project_id, ve.viewer_id, ve.variant_id, ve.created_at
+FROM view_events ve
+WHERE ve.viewer_id <> 'anonymous'
+ORDER BY ve.project_id, ve.viewer_id, ve.created_at DESC
+ON CONFLICT (project_id, viewer_id) DO NOTHING;
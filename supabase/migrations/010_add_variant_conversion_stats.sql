@@ -0,0 +1,66 @@
+-- =============================================================
+-- Migration 010: Per-viewer conversion stats for significance testing
+--
+-- get_variant_analytics counts raw events, which double-counts viewers who
+-- replay a video. Bayesian winner detection needs Bernoulli trials, so this
+-- RPC counts distinct viewers instead (like get_bandit_stats), honors the
+-- dashboard date range, and includes disabled variants so their history
+-- still shows up in the analytics table.
+-- =============================================================
+
+-- -----------------------------------------------
+-- RPC: get_variant_conversion_stats
+--   trials    = distinct viewers with a 'play' event
+--   successes = distinct viewers who completed (p_metric_id IS NULL)
+--               or converted on the given custom metric
+-- Ordered by variant_code so the first row is the baseline combination.
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION get_variant_conversion_stats(
+    p_project_id UUID,
+    p_metric_id UUID DEFAULT NULL,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    variant_id UUID,
+    weight NUMERIC,
+    trials BIGINT,
+    successes BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        v.id AS variant_id,
+        v.weight,
+        (
+            SELECT COUNT(DISTINCT ve.viewer_id)
+            FROM view_events ve
+            WHERE ve.variant_id = v.id AND ve.event_type = 'play'
+              AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+              AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+        ) AS trials,
+        CASE
+            WHEN p_metric_id IS NULL THEN (
+                SELECT COUNT(DISTINCT ve.viewer_id)
+                FROM view_events ve
+                WHERE ve.variant_id = v.id AND ve.event_type = 'complete'
+                  AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+                  AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+            )
+            ELSE (
+                SELECT COUNT(DISTINCT cme.viewer_id)
+                FROM custom_metric_events cme
+                WHERE cme.variant_id = v.id AND cme.metric_id = p_metric_id
+                  AND (p_start_date IS NULL OR cme.created_at >= p_start_date)
+                  AND (p_end_date IS NULL OR cme.created_at <= p_end_date)
+            )
+        END AS successes
+    FROM variants v
+    WHERE v.project_id = p_project_id
+      AND v.status = 'rendered'
+    ORDER BY v.variant_code;
+END;
+$$;
@@ -0,0 +1,13 @@
+-- =============================================================
+-- Migration 011: Fractional-factorial variant designs
+--
+-- projects.design_mode records how variants were generated:
+--   'full'       — every hook × body × CTA combination
+--   'fractional' — a D-optimal subset that still estimates every segment's
+--                  main effect (see lib/variant/combinations.ts)
+--
+-- Set by the process route. The factorial analysis reads it, because
+-- interaction terms are aliased with main effects in a fractional design.
+-- =============================================================
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS design_mode TEXT NOT NULL DEFAULT 'full';  -- 'full' | 'fractional'
@@ -0,0 +1,14 @@
+-- =============================================================
+-- Migration 012: Persist deselected variant combinations
+--
+-- projects.excluded_combinations holds the combos a user unchecked in the
+-- CombinationGrid, as "hookSegmentId|bodySegmentId|ctaSegmentId" keys.
+-- Segment IDs (not variant codes like "h1-b2-c1") are stored because codes
+-- shift when segments are added or re-ordered.
+--
+-- The process route skips these combos when creating variant records, so
+-- they're never rendered. Only applies to the full design — a fractional
+-- design's subset is fixed.
+-- =============================================================
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS excluded_combinations TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,425 @@
+-- =============================================================
+-- Migration 013: Publish runs (zero-downtime republish + rollback)
+--
+-- Re-processing a ready project used to delete every variant up front, so
+-- live embeds showed "Video not available" for the whole render. Now every
+-- process request renders into a new publish run:
+--
+--   building  — variants are being rendered; embeds keep serving the
+--               current live run
+--   live      — the run embeds serve (projects.live_run_id)
+--   archived  — the previous live run, kept for rollback (one per project;
+--               older ones are pruned at publish time)
+--
+-- A run lists its variants (publish_runs.variant_ids) rather than each
+-- variant naming its run, so a variant can belong to more than one run
+-- (migration 014 carries unchanged variants into the next run).
+--
+-- When the last variant of a building run renders, the worker calls
+-- publish_run(), which swaps the live pointer in one transaction. Variants
+-- of the archived run get status 'archived', so every query that filters
+-- on status = 'rendered' ignores them. Rolling back is publish_run() on
+-- the archived run.
+--
+-- The analytics RPCs are re-created scoped to the live run, so a run that's
+-- still rendering (or one that was rolled back) never shows up alongside
+-- the live variants.
+-- =============================================================
+
+ALTER TYPE variant_status ADD VALUE IF NOT EXISTS 'archived';
+
+CREATE TABLE publish_runs (
+    id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id      UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    status          TEXT NOT NULL DEFAULT 'building',  -- 'building' | 'live' | 'archived'
+    design_mode     TEXT NOT NULL DEFAULT 'full',
+    variant_count   INT NOT NULL DEFAULT 0,
+    variant_ids     UUID[] NOT NULL DEFAULT '{}',
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    published_at    TIMESTAMPTZ
+);
+
+CREATE INDEX idx_publish_runs_project ON publish_runs(project_id, created_at DESC);
+CREATE UNIQUE INDEX idx_publish_runs_one_live ON publish_runs(project_id) WHERE status = 'live';
+CREATE INDEX idx_publish_runs_variant_ids ON publish_runs USING GIN (variant_ids);
+
+ALTER TABLE publish_runs ENABLE ROW LEVEL SECURITY;
+
+-- Written by the service role only; owners can read for the dashboard
+CREATE POLICY "Users can view publish runs of own projects"
+    ON publish_runs FOR SELECT USING (
+        project_id IN (SELECT id FROM projects WHERE user_id = auth.uid())
+    );
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS live_run_id UUID REFERENCES publish_runs(id) ON DELETE SET NULL;
+
+-- Backfill: existing variants become one run per project — live if the
+-- project is ready, otherwise still building
+INSERT INTO publish_runs (project_id, status, design_mode, variant_count, variant_ids, published_at)
+SELECT
+    p.id,
+    CASE WHEN p.status = 'ready' THEN 'live' ELSE 'building' END,
+    p.design_mode,
+    (SELECT COUNT(*) FROM variants v WHERE v.project_id = p.id),
+    (SELECT ARRAY_AGG(v.id ORDER BY v.variant_code) FROM variants v WHERE v.project_id = p.id),
+    CASE WHEN p.status = 'ready' THEN NOW() END
+FROM projects p
+WHERE EXISTS (SELECT 1 FROM variants v WHERE v.project_id = p.id);
+
+UPDATE projects p SET live_run_id = r.id
+FROM publish_runs r
+WHERE r.project_id = p.id AND r.status = 'live';
+
+-- A combination is no longer unique per project — the live and building
+-- runs both contain h1-b1-c1 while a republish renders
+DO $$
+DECLARE
+    v_constraint TEXT;
+BEGIN
+    SELECT conname INTO v_constraint
+    FROM pg_constraint
+    WHERE conrelid = 'variants'::regclass
+      AND contype = 'u'
+      AND conkey @> ARRAY[
+          (SELECT attnum FROM pg_attribute WHERE attrelid = 'variants'::regclass AND attname = 'project_id'),
+          (SELECT attnum FROM pg_attribute WHERE attrelid = 'variants'::regclass AND attname = 'hook_segment_id')
+      ];
+    IF v_constraint IS NOT NULL THEN
+        EXECUTE format('ALTER TABLE variants DROP CONSTRAINT %I', v_constraint);
+    END IF;
+END;
+$$;
+
+-- -----------------------------------------------
+-- RPC: publish_run
+-- Atomically makes p_run_id the live run:
+--   - a building run must be fully rendered; the project becomes 'ready'
+--   - an archived run (rollback) has its variants restored to 'rendered'
+--   - the current live run is archived (its variants too)
+--   - any other archived run is deleted, with its variants
+-- Returns the IDs of the deleted variants so the caller can clean up their
+-- files in storage. Publishing the run that's already live is a no-op.
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION publish_run(
+    p_project_id UUID,
+    p_run_id UUID
+)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_live UUID;
+    v_status TEXT;
+    v_run_variants UUID[];
+    v_pruned UUID[];
+BEGIN
+    -- Row lock serializes concurrent publishes/rollbacks for the project
+    SELECT live_run_id INTO v_live
+    FROM projects
+    WHERE id = p_project_id
+    FOR UPDATE;
+
+    SELECT status, variant_ids INTO v_status, v_run_variants
+    FROM publish_runs
+    WHERE id = p_run_id AND project_id = p_project_id;
+
+    IF v_status IS NULL THEN
+        RAISE EXCEPTION 'Run % not found for project %', p_run_id, p_project_id;
+    END IF;
+    IF v_status = 'live' THEN
+        RETURN;
+    END IF;
+    IF v_status = 'building' AND EXISTS (
+        SELECT 1 FROM variants WHERE id = ANY(v_run_variants) AND status <> 'rendered'
+    ) THEN
+        RAISE EXCEPTION 'Run % has variants that are not rendered', p_run_id;
+    END IF;
+
+    IF v_live IS NOT NULL THEN
+        UPDATE variants SET status = 'archived'
+        WHERE id = ANY((SELECT variant_ids FROM publish_runs WHERE id = v_live))
+          AND status = 'rendered';
+        UPDATE publish_runs SET status = 'archived' WHERE id = v_live;
+    END IF;
+
+    UPDATE variants SET status = 'rendered'
+    WHERE id = ANY(v_run_variants) AND status = 'archived';
+    UPDATE publish_runs SET status = 'live', published_at = NOW()
+    WHERE id = p_run_id;
+
+    UPDATE projects SET
+        live_run_id = p_run_id,
+        status = CASE WHEN v_status = 'building' THEN 'ready'::project_status ELSE status END
+    WHERE id = p_project_id;
+
+    -- Keep only the run we just archived for rollback
+    SELECT ARRAY_AGG(DISTINCT vid) INTO v_pruned
+    FROM publish_runs r, UNNEST(r.variant_ids) AS vid
+    WHERE r.project_id = p_project_id
+      AND r.status = 'archived'
+      AND r.id IS DISTINCT FROM v_live;
+
+    DELETE FROM publish_runs
+    WHERE project_id = p_project_id
+      AND status = 'archived'
+      AND id IS DISTINCT FROM v_live;
+
+    IF v_pruned IS NOT NULL THEN
+        DELETE FROM variants WHERE id = ANY(v_pruned) AND project_id = p_project_id;
+        RETURN QUERY SELECT UNNEST(v_pruned);
+    END IF;
+END;
+$$;
+
+-- -----------------------------------------------
+-- Analytics RPCs, re-created scoped to the live run
+-- (bodies otherwise unchanged from migrations 005, 008 and 010)
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION get_variant_analytics(
+    p_project_id UUID,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    variant_id UUID,
+    variant_code TEXT,
+    custom_name TEXT,
+    total_views BIGINT,
+    unique_viewers BIGINT,
+    play_count BIGINT,
+    progress_25_count BIGINT,
+    progress_50_count BIGINT,
+    progress_75_count BIGINT,
+    complete_count BIGINT,
+    completion_rate NUMERIC(5,2)
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        v.id AS variant_id,
+        v.variant_code,
+        v.custom_name,
+        COUNT(DISTINCT CASE WHEN ve.event_type = 'play' THEN ve.id END) AS total_views,
+        COUNT(DISTINCT ve.viewer_id) AS unique_viewers,
+        COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END) AS play_count,
+        COUNT(CASE WHEN ve.event_type = 'progress_25' THEN 1 END) AS progress_25_count,
+        COUNT(CASE WHEN ve.event_type = 'progress_50' THEN 1 END) AS progress_50_count,
+        COUNT(CASE WHEN ve.event_type = 'progress_75' THEN 1 END) AS progress_75_count,
+        COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END) AS complete_count,
+        CASE
+            WHEN COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END) > 0
+            THEN ROUND(
+                COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END)::NUMERIC /
+                COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END)::NUMERIC * 100,
+                2
+            )
+            ELSE 0
+        END AS completion_rate
+    FROM variants v
+    LEFT JOIN view_events ve ON ve.variant_id = v.id
+        AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+        AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+    WHERE v.project_id = p_project_id
+      AND v.id IN (
+          SELECT UNNEST(r.variant_ids) FROM publish_runs r
+          JOIN projects p ON p.live_run_id = r.id WHERE p.id = p_project_id
+      )
+      AND v.status = 'rendered'
+    GROUP BY v.id, v.variant_code, v.custom_name
+    ORDER BY total_views DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_segment_analytics(
+    p_project_id UUID,
+    p_segment_type TEXT,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    segment_id UUID,
+    segment_label TEXT,
+    total_views BIGINT,
+    unique_viewers BIGINT,
+    complete_count BIGINT,
+    completion_rate NUMERIC(5,2)
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        s.id AS segment_id,
+        s.label AS segment_label,
+        COUNT(DISTINCT CASE WHEN ve.event_type = 'play' THEN ve.id END) AS total_views,
+        COUNT(DISTINCT ve.viewer_id) AS unique_viewers,
+        COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END) AS complete_count,
+        CASE
+            WHEN COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END) > 0
+            THEN ROUND(
+                COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END)::NUMERIC /
+                COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END)::NUMERIC * 100,
+                2
+            )
+            ELSE 0
+        END AS completion_rate
+    FROM segments s
+    JOIN variants v ON
+        v.id IN (
+            SELECT UNNEST(r.variant_ids) FROM publish_runs r
+            JOIN projects p ON p.live_run_id = r.id WHERE p.id = p_project_id
+        ) AND (
+            (p_segment_type = 'hook' AND v.hook_segment_id = s.id) OR
+            (p_segment_type = 'body' AND v.body_segment_id = s.id) OR
+            (p_segment_type = 'cta' AND v.cta_segment_id = s.id)
+        )
+    LEFT JOIN view_events ve ON ve.variant_id = v.id
+        AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+        AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+    WHERE s.project_id = p_project_id
+      AND s.type = p_segment_type::segment_type
+    GROUP BY s.id, s.label
+    ORDER BY total_views DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_daily_views(
+    p_project_id UUID,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    day DATE,
+    variant_id UUID,
+    variant_code TEXT,
+    views BIGINT,
+    completions BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        ve.created_at::DATE AS day,
+        v.id AS variant_id,
+        v.variant_code,
+        COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END) AS views,
+        COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END) AS completions
+    FROM view_events ve
+    JOIN variants v ON v.id = ve.variant_id
+    WHERE ve.project_id = p_project_id
+        AND v.id IN (
+            SELECT UNNEST(r.variant_ids) FROM publish_runs r
+            JOIN projects p ON p.live_run_id = r.id WHERE p.id = p_project_id
+        )
+        AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+        AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+    GROUP BY ve.created_at::DATE, v.id, v.variant_code
+    ORDER BY day;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_bandit_stats(
+    p_project_id UUID,
+    p_metric_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    variant_id UUID,
+    trials BIGINT,
+    successes BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        v.id AS variant_id,
+        (
+            SELECT COUNT(DISTINCT ve.viewer_id)
+            FROM view_events ve
+            WHERE ve.variant_id = v.id AND ve.event_type = 'play'
+        ) AS trials,
+        CASE
+            WHEN p_metric_id IS NULL THEN (
+                SELECT COUNT(DISTINCT ve.viewer_id)
+                FROM view_events ve
+                WHERE ve.variant_id = v.id AND ve.event_type = 'complete'
+            )
+            ELSE (
+                SELECT COUNT(DISTINCT cme.viewer_id)
+                FROM custom_metric_events cme
+                WHERE cme.variant_id = v.id AND cme.metric_id = p_metric_id
+            )
+        END AS successes
+    FROM variants v
+    WHERE v.project_id = p_project_id
+      AND v.id IN (
+          SELECT UNNEST(r.variant_ids) FROM publish_runs r
+          JOIN projects p ON p.live_run_id = r.id WHERE p.id = p_project_id
+      )
+      AND v.status = 'rendered'
+      AND v.weight > 0
+    ORDER BY v.variant_code;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_variant_conversion_stats(
+    p_project_id UUID,
+    p_metric_id UUID DEFAULT NULL,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    variant_id UUID,
+    weight NUMERIC,
+    trials BIGINT,
+    successes BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        v.id AS variant_id,
+        v.weight,
+        (
+            SELECT COUNT(DISTINCT ve.viewer_id)
+            FROM view_events ve
+            WHERE ve.variant_id = v.id AND ve.event_type = 'play'
+              AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+              AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+        ) AS trials,
+        CASE
+            WHEN p_metric_id IS NULL THEN (
+                SELECT COUNT(DISTINCT ve.viewer_id)
+                FROM view_events ve
+                WHERE ve.variant_id = v.id AND ve.event_type = 'complete'
+                  AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+                  AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+            )
+            ELSE (
+                SELECT COUNT(DISTINCT cme.viewer_id)
+                FROM custom_metric_events cme
+                WHERE cme.variant_id = v.id AND cme.metric_id = p_metric_id
+                  AND (p_start_date IS NULL OR cme.created_at >= p_start_date)
+                  AND (p_end_date IS NULL OR cme.created_at <= p_end_date)
+            )
+        END AS successes
+    FROM variants v
+    WHERE v.project_id = p_project_id
+      AND v.id IN (
+          SELECT UNNEST(r.variant_ids) FROM publish_runs r
+          JOIN projects p ON p.live_run_id = r.id WHERE p.id = p_project_id
+      )
+      AND v.status = 'rendered'
+    ORDER BY v.variant_code;
+END;
+$$;
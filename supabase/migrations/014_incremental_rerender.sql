@@ -0,0 +1,370 @@
+-- =============================================================
+-- Migration 014: Incremental re-render
+--
+-- Re-processing used to render every combination from scratch, so adding
+-- one hook re-rendered the whole project and every variant got a new ID
+-- (losing its analytics history). Now the process route diffs the desired
+-- combinations against the live run: a combination whose live variant was
+-- rendered after all three of its segments were last normalized is
+-- carried into the new run as-is (same variant ID); only new or changed
+-- combinations get new variant records to render.
+--
+-- That means a variant can belong to more than one run (the live run and
+-- the run that's building, or the live run and the archived one) — run
+-- membership is publish_runs.variant_ids (013), which allows it.
+--
+-- Variant status now tracks publication:
+--   staged    — rendered into a building run, not served yet
+--   rendered  — in the live run (served)
+--   archived  — only in the archived run (kept for rollback)
+-- so every query filtering on status = 'rendered' sees exactly the live
+-- set, and the analytics RPCs go back to filtering on status alone.
+--
+-- Freshness inputs:
+--   segments.normalized_at — when the current normalized file was written
+--   variants.rendered_at   — when the variant's video was rendered
+-- =============================================================
+
+ALTER TYPE variant_status ADD VALUE IF NOT EXISTS 'staged';
+
+ALTER TABLE segments ADD COLUMN IF NOT EXISTS normalized_at TIMESTAMPTZ;
+ALTER TABLE variants ADD COLUMN IF NOT EXISTS rendered_at TIMESTAMPTZ;
+
+-- Backfill: best available timestamps for existing files
+UPDATE segments SET normalized_at = updated_at
+WHERE status = 'normalized' AND normalized_at IS NULL;
+
+UPDATE variants SET rendered_at = updated_at
+WHERE status IN ('rendered', 'archived') AND rendered_at IS NULL;
+
+-- (Variants a building run already rendered before this migration stay
+-- 'rendered'; the new enum value can't be used in the same transaction.)
+
+-- -----------------------------------------------
+-- RPC: publish_run (re-created for staged and carried-over variants)
+-- Atomically makes p_run_id the live run:
+--   - a building run must be fully rendered: its staged variants become
+--     'rendered'; the project becomes 'ready'
+--   - an archived run (rollback) has its variants restored to 'rendered'
+--   - live variants not in p_run_id are archived
+--   - any other archived run is deleted, with the variants that no
+--     remaining run uses
+-- Returns the IDs of the deleted variants so the caller can clean up their
+-- files in storage. Publishing the run that's already live is a no-op.
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION publish_run(
+    p_project_id UUID,
+    p_run_id UUID
+)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_live UUID;
+    v_status TEXT;
+    v_run_variants UUID[];
+    v_live_variants UUID[] := '{}';
+    v_pruned UUID[];
+BEGIN
+    -- Row lock serializes concurrent publishes/rollbacks for the project
+    SELECT live_run_id INTO v_live
+    FROM projects
+    WHERE id = p_project_id
+    FOR UPDATE;
+
+    SELECT status, variant_ids INTO v_status, v_run_variants
+    FROM publish_runs
+    WHERE id = p_run_id AND project_id = p_project_id;
+
+    IF v_status IS NULL THEN
+        RAISE EXCEPTION 'Run % not found for project %', p_run_id, p_project_id;
+    END IF;
+    IF v_status = 'live' THEN
+        RETURN;
+    END IF;
+    -- Carried-over variants are 'rendered', or 'archived' when a rollback
+    -- happened while this run was building; both are restored below
+    IF v_status = 'building' AND EXISTS (
+        SELECT 1 FROM variants
+        WHERE id = ANY(v_run_variants) AND status NOT IN ('staged', 'rendered', 'archived')
+    ) THEN
+        RAISE EXCEPTION 'Run % has variants that are not rendered', p_run_id;
+    END IF;
+
+    IF v_live IS NOT NULL THEN
+        SELECT variant_ids INTO v_live_variants FROM publish_runs WHERE id = v_live;
+
+        UPDATE variants SET status = 'archived'
+        WHERE id = ANY(v_live_variants)
+          AND NOT (id = ANY(v_run_variants))
+          AND status = 'rendered';
+        UPDATE publish_runs SET status = 'archived' WHERE id = v_live;
+    END IF;
+
+    UPDATE variants SET status = 'rendered'
+    WHERE id = ANY(v_run_variants) AND status IN ('staged', 'archived');
+    UPDATE publish_runs SET status = 'live', published_at = NOW()
+    WHERE id = p_run_id;
+
+    UPDATE projects SET
+        live_run_id = p_run_id,
+        status = CASE WHEN v_status = 'building' THEN 'ready'::project_status ELSE status END
+    WHERE id = p_project_id;
+
+    -- Keep only the run we just archived for rollback. Variants of older
+    -- runs go too, unless the live or archived run still uses them.
+    SELECT ARRAY_AGG(DISTINCT vid) INTO v_pruned
+    FROM publish_runs r, UNNEST(r.variant_ids) AS vid
+    WHERE r.project_id = p_project_id
+      AND r.status = 'archived'
+      AND r.id IS DISTINCT FROM v_live
+      AND NOT (vid = ANY(v_run_variants))
+      AND NOT (vid = ANY(v_live_variants));
+
+    DELETE FROM publish_runs
+    WHERE project_id = p_project_id
+      AND status = 'archived'
+      AND id IS DISTINCT FROM v_live;
+
+    IF v_pruned IS NOT NULL THEN
+        DELETE FROM variants WHERE id = ANY(v_pruned) AND project_id = p_project_id;
+        RETURN QUERY SELECT UNNEST(v_pruned);
+    END IF;
+END;
+$$;
+
+-- -----------------------------------------------
+-- Analytics RPCs: 'rendered' is exactly the live set again, so these go
+-- back to filtering on status (segment analytics and daily views gain the
+-- filter so archived variants' history stays out)
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION get_variant_analytics(
+    p_project_id UUID,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    variant_id UUID,
+    variant_code TEXT,
+    custom_name TEXT,
+    total_views BIGINT,
+    unique_viewers BIGINT,
+    play_count BIGINT,
+    progress_25_count BIGINT,
+    progress_50_count BIGINT,
+    progress_75_count BIGINT,
+    complete_count BIGINT,
+    completion_rate NUMERIC(5,2)
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        v.id AS variant_id,
+        v.variant_code,
+        v.custom_name,
+        COUNT(DISTINCT CASE WHEN ve.event_type = 'play' THEN ve.id END) AS total_views,
+        COUNT(DISTINCT ve.viewer_id) AS unique_viewers,
+        COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END) AS play_count,
+        COUNT(CASE WHEN ve.event_type = 'progress_25' THEN 1 END) AS progress_25_count,
+        COUNT(CASE WHEN ve.event_type = 'progress_50' THEN 1 END) AS progress_50_count,
+        COUNT(CASE WHEN ve.event_type = 'progress_75' THEN 1 END) AS progress_75_count,
+        COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END) AS complete_count,
+        CASE
+            WHEN COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END) > 0
+            THEN ROUND(
+                COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END)::NUMERIC /
+                COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END)::NUMERIC * 100,
+                2
+            )
+            ELSE 0
+        END AS completion_rate
+    FROM variants v
+    LEFT JOIN view_events ve ON ve.variant_id = v.id
+        AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+        AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+    WHERE v.project_id = p_project_id
+      AND v.status = 'rendered'
+    GROUP BY v.id, v.variant_code, v.custom_name
+    ORDER BY total_views DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_segment_analytics(
+    p_project_id UUID,
+    p_segment_type TEXT,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    segment_id UUID,
+    segment_label TEXT,
+    total_views BIGINT,
+    unique_viewers BIGINT,
+    complete_count BIGINT,
+    completion_rate NUMERIC(5,2)
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        s.id AS segment_id,
+        s.label AS segment_label,
+        COUNT(DISTINCT CASE WHEN ve.event_type = 'play' THEN ve.id END) AS total_views,
+        COUNT(DISTINCT ve.viewer_id) AS unique_viewers,
+        COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END) AS complete_count,
+        CASE
+            WHEN COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END) > 0
+            THEN ROUND(
+                COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END)::NUMERIC /
+                COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END)::NUMERIC * 100,
+                2
+            )
+            ELSE 0
+        END AS completion_rate
+    FROM segments s
+    JOIN variants v ON
+        v.status = 'rendered' AND (
+            (p_segment_type = 'hook' AND v.hook_segment_id = s.id) OR
+            (p_segment_type = 'body' AND v.body_segment_id = s.id) OR
+            (p_segment_type = 'cta' AND v.cta_segment_id = s.id)
+        )
+    LEFT JOIN view_events ve ON ve.variant_id = v.id
+        AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+        AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+    WHERE s.project_id = p_project_id
+      AND s.type = p_segment_type::segment_type
+    GROUP BY s.id, s.label
+    ORDER BY total_views DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_daily_views(
+    p_project_id UUID,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    day DATE,
+    variant_id UUID,
+    variant_code TEXT,
+    views BIGINT,
+    completions BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        ve.created_at::DATE AS day,
+        v.id AS variant_id,
+        v.variant_code,
+        COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END) AS views,
+        COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END) AS completions
+    FROM view_events ve
+    JOIN variants v ON v.id = ve.variant_id
+    WHERE ve.project_id = p_project_id
+        AND v.status = 'rendered'
+        AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+        AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+    GROUP BY ve.created_at::DATE, v.id, v.variant_code
+    ORDER BY day;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_bandit_stats(
+    p_project_id UUID,
+    p_metric_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    variant_id UUID,
+    trials BIGINT,
+    successes BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        v.id AS variant_id,
+        (
+            SELECT COUNT(DISTINCT ve.viewer_id)
+            FROM view_events ve
+            WHERE ve.variant_id = v.id AND ve.event_type = 'play'
+        ) AS trials,
+        CASE
+            WHEN p_metric_id IS NULL THEN (
+                SELECT COUNT(DISTINCT ve.viewer_id)
+                FROM view_events ve
+                WHERE ve.variant_id = v.id AND ve.event_type = 'complete'
+            )
+            ELSE (
+                SELECT COUNT(DISTINCT cme.viewer_id)
+                FROM custom_metric_events cme
+                WHERE cme.variant_id = v.id AND cme.metric_id = p_metric_id
+            )
+        END AS successes
+    FROM variants v
+    WHERE v.project_id = p_project_id
+      AND v.status = 'rendered'
+      AND v.weight > 0
+    ORDER BY v.variant_code;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_variant_conversion_stats(
+    p_project_id UUID,
+    p_metric_id UUID DEFAULT NULL,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    variant_id UUID,
+    weight NUMERIC,
+    trials BIGINT,
+    successes BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        v.id AS variant_id,
+        v.weight,
+        (
+            SELECT COUNT(DISTINCT ve.viewer_id)
+            FROM view_events ve
+            WHERE ve.variant_id = v.id AND ve.event_type = 'play'
+              AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+              AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+        ) AS trials,
+        CASE
+            WHEN p_metric_id IS NULL THEN (
+                SELECT COUNT(DISTINCT ve.viewer_id)
+                FROM view_events ve
+                WHERE ve.variant_id = v.id AND ve.event_type = 'complete'
+                  AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+                  AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+            )
+            ELSE (
+                SELECT COUNT(DISTINCT cme.viewer_id)
+                FROM custom_metric_events cme
+                WHERE cme.variant_id = v.id AND cme.metric_id = p_metric_id
+                  AND (p_start_date IS NULL OR cme.created_at >= p_start_date)
+                  AND (p_end_date IS NULL OR cme.created_at <= p_end_date)
+            )
+        END AS successes
+    FROM variants v
+    WHERE v.project_id = p_project_id
+      AND v.status = 'rendered'
+    ORDER BY v.variant_code;
+END;
+$$;
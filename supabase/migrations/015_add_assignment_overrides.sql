@@ -0,0 +1,275 @@
+-- =============================================================
+-- Migration 015: Viewer-level assignment overrides
+--
+-- Two ways to serve a viewer something other than their A/B bucket:
+--   - QA: /e/[slug]?wai_variant=h1-b2-c1 forces a variant by code. Those
+--     views are flagged with view_events.is_forced and left out of every
+--     aggregate below, so internal testing never pollutes results.
+--   - Personalization: assignment_rules map a URL parameter value
+--     (?industry=saas) to a hook. Matching viewers are bucketed among that
+--     hook's variants only. These are real views and are still counted.
+--
+-- Neither override writes to the assignments table, so the viewer's own
+-- bucket is untouched when they come back without the parameter.
+-- =============================================================
+
+ALTER TABLE view_events ADD COLUMN IF NOT EXISTS is_forced BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE assignment_rules (
+    id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id      UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    param_name      TEXT NOT NULL,
+    param_value     TEXT NOT NULL,
+    hook_segment_id UUID NOT NULL REFERENCES segments(id) ON DELETE CASCADE,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(project_id, param_name, param_value)
+);
+
+CREATE INDEX idx_assignment_rules_project ON assignment_rules(project_id);
+
+ALTER TABLE assignment_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own project assignment rules"
+    ON assignment_rules FOR ALL USING (
+        project_id IN (SELECT id FROM projects WHERE user_id = auth.uid())
+    );
+
+-- -----------------------------------------------
+-- Analytics RPCs: same as 014, minus forced (QA) views
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION get_variant_analytics(
+    p_project_id UUID,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    variant_id UUID,
+    variant_code TEXT,
+    custom_name TEXT,
+    total_views BIGINT,
+    unique_viewers BIGINT,
+    play_count BIGINT,
+    progress_25_count BIGINT,
+    progress_50_count BIGINT,
+    progress_75_count BIGINT,
+    complete_count BIGINT,
+    completion_rate NUMERIC(5,2)
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        v.id AS variant_id,
+        v.variant_code,
+        v.custom_name,
+        COUNT(DISTINCT CASE WHEN ve.event_type = 'play' THEN ve.id END) AS total_views,
+        COUNT(DISTINCT ve.viewer_id) AS unique_viewers,
+        COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END) AS play_count,
+        COUNT(CASE WHEN ve.event_type = 'progress_25' THEN 1 END) AS progress_25_count,
+        COUNT(CASE WHEN ve.event_type = 'progress_50' THEN 1 END) AS progress_50_count,
+        COUNT(CASE WHEN ve.event_type = 'progress_75' THEN 1 END) AS progress_75_count,
+        COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END) AS complete_count,
+        CASE
+            WHEN COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END) > 0
+            THEN ROUND(
+                COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END)::NUMERIC /
+                COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END)::NUMERIC * 100,
+                2
+            )
+            ELSE 0
+        END AS completion_rate
+    FROM variants v
+    LEFT JOIN view_events ve ON ve.variant_id = v.id
+        AND NOT ve.is_forced
+        AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+        AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+    WHERE v.project_id = p_project_id
+      AND v.status = 'rendered'
+    GROUP BY v.id, v.variant_code, v.custom_name
+    ORDER BY total_views DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_segment_analytics(
+    p_project_id UUID,
+    p_segment_type TEXT,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    segment_id UUID,
+    segment_label TEXT,
+    total_views BIGINT,
+    unique_viewers BIGINT,
+    complete_count BIGINT,
+    completion_rate NUMERIC(5,2)
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        s.id AS segment_id,
+        s.label AS segment_label,
+        COUNT(DISTINCT CASE WHEN ve.event_type = 'play' THEN ve.id END) AS total_views,
+        COUNT(DISTINCT ve.viewer_id) AS unique_viewers,
+        COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END) AS complete_count,
+        CASE
+            WHEN COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END) > 0
+            THEN ROUND(
+                COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END)::NUMERIC /
+                COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END)::NUMERIC * 100,
+                2
+            )
+            ELSE 0
+        END AS completion_rate
+    FROM segments s
+    JOIN variants v ON
+        v.status = 'rendered' AND (
+            (p_segment_type = 'hook' AND v.hook_segment_id = s.id) OR
+            (p_segment_type = 'body' AND v.body_segment_id = s.id) OR
+            (p_segment_type = 'cta' AND v.cta_segment_id = s.id)
+        )
+    LEFT JOIN view_events ve ON ve.variant_id = v.id
+        AND NOT ve.is_forced
+        AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+        AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+    WHERE s.project_id = p_project_id
+      AND s.type = p_segment_type::segment_type
+    GROUP BY s.id, s.label
+    ORDER BY total_views DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_daily_views(
+    p_project_id UUID,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    day DATE,
+    variant_id UUID,
+    variant_code TEXT,
+    views BIGINT,
+    completions BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        ve.created_at::DATE AS day,
+        v.id AS variant_id,
+        v.variant_code,
+        COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END) AS views,
+        COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END) AS completions
+    FROM view_events ve
+    JOIN variants v ON v.id = ve.variant_id
+    WHERE ve.project_id = p_project_id
+        AND NOT ve.is_forced
+        AND v.status = 'rendered'
+        AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+        AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+    GROUP BY ve.created_at::DATE, v.id, v.variant_code
+    ORDER BY day;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_bandit_stats(
+    p_project_id UUID,
+    p_metric_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    variant_id UUID,
+    trials BIGINT,
+    successes BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        v.id AS variant_id,
+        (
+            SELECT COUNT(DISTINCT ve.viewer_id)
+            FROM view_events ve
+            WHERE ve.variant_id = v.id AND ve.event_type = 'play'
+              AND NOT ve.is_forced
+        ) AS trials,
+        CASE
+            WHEN p_metric_id IS NULL THEN (
+                SELECT COUNT(DISTINCT ve.viewer_id)
+                FROM view_events ve
+                WHERE ve.variant_id = v.id AND ve.event_type = 'complete'
+                  AND NOT ve.is_forced
+            )
+            ELSE (
+                SELECT COUNT(DISTINCT cme.viewer_id)
+                FROM custom_metric_events cme
+                WHERE cme.variant_id = v.id AND cme.metric_id = p_metric_id
+            )
+        END AS successes
+    FROM variants v
+    WHERE v.project_id = p_project_id
+      AND v.status = 'rendered'
+      AND v.weight > 0
+    ORDER BY v.variant_code;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_variant_conversion_stats(
+    p_project_id UUID,
+    p_metric_id UUID DEFAULT NULL,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    variant_id UUID,
+    weight NUMERIC,
+    trials BIGINT,
+    successes BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        v.id AS variant_id,
+        v.weight,
+        (
+            SELECT COUNT(DISTINCT ve.viewer_id)
+            FROM view_events ve
+            WHERE ve.variant_id = v.id AND ve.event_type = 'play'
+              AND NOT ve.is_forced
+              AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+              AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+        ) AS trials,
+        CASE
+            WHEN p_metric_id IS NULL THEN (
+                SELECT COUNT(DISTINCT ve.viewer_id)
+                FROM view_events ve
+                WHERE ve.variant_id = v.id AND ve.event_type = 'complete'
+                  AND NOT ve.is_forced
+                  AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+                  AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+            )
+            ELSE (
+                SELECT COUNT(DISTINCT cme.viewer_id)
+                FROM custom_metric_events cme
+                WHERE cme.variant_id = v.id AND cme.metric_id = p_metric_id
+                  AND (p_start_date IS NULL OR cme.created_at >= p_start_date)
+                  AND (p_end_date IS NULL OR cme.created_at <= p_end_date)
+            )
+        END AS successes
+    FROM variants v
+    WHERE v.project_id = p_project_id
+      AND v.status = 'rendered'
+    ORDER BY v.variant_code;
+END;
+$$;
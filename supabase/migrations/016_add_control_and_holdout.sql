@@ -0,0 +1,119 @@
+-- =============================================================
+-- Migration 016: Control variant and holdout bucket
+--
+-- Each project can designate its control — the arm every lift and
+-- P(beat control) number is measured against:
+--   - projects.control_type 'variant': control_variant_id, or the first
+--     live variant by code when unset (the previous implicit behavior)
+--   - projects.control_type 'holdout': a "no video" bucket. Held-out
+--     viewers get an empty embed, so lift is measured on conversions
+--     against viewers who saw nothing.
+--   - projects.control_share: fixed traffic share for the control (0–1,
+--     exclusive). NULL lets a control variant take its normal weight;
+--     required for a holdout.
+--
+-- A held-out viewer is persisted as an assignment with variant_id NULL so
+-- they stay held out. Their exposure is tracked as a 'holdout' view event
+-- (variant_id NULL), and conversions they go on to make are flagged with
+-- custom_metric_events.is_holdout.
+-- =============================================================
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS control_type TEXT NOT NULL DEFAULT 'variant'
+    CHECK (control_type IN ('variant', 'holdout'));
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS control_variant_id UUID REFERENCES variants(id) ON DELETE SET NULL;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS control_share NUMERIC(4,3)
+    CHECK (control_share IS NULL OR (control_share > 0 AND control_share < 1));
+ALTER TABLE projects ADD CONSTRAINT projects_holdout_share_required
+    CHECK (control_type <> 'holdout' OR control_share IS NOT NULL);
+
+ALTER TABLE assignments ALTER COLUMN variant_id DROP NOT NULL;
+ALTER TABLE view_events ALTER COLUMN variant_id DROP NOT NULL;
+ALTER TABLE custom_metric_events ADD COLUMN IF NOT EXISTS is_holdout BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_view_events_holdout ON view_events(project_id)
+    WHERE event_type = 'holdout';
+
+-- -----------------------------------------------
+-- Conversion stats: same per-variant rows as 015, plus one row with
+-- variant_id NULL for the holdout bucket when the project has one.
+-- Its weight is the holdout's traffic share. Completion can't be measured
+-- for viewers who saw no video, so its successes are only counted for a
+-- custom metric.
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION get_variant_conversion_stats(
+    p_project_id UUID,
+    p_metric_id UUID DEFAULT NULL,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    variant_id UUID,
+    weight NUMERIC,
+    trials BIGINT,
+    successes BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        v.id AS variant_id,
+        v.weight,
+        (
+            SELECT COUNT(DISTINCT ve.viewer_id)
+            FROM view_events ve
+            WHERE ve.variant_id = v.id AND ve.event_type = 'play'
+              AND NOT ve.is_forced
+              AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+              AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+        ) AS trials,
+        CASE
+            WHEN p_metric_id IS NULL THEN (
+                SELECT COUNT(DISTINCT ve.viewer_id)
+                FROM view_events ve
+                WHERE ve.variant_id = v.id AND ve.event_type = 'complete'
+                  AND NOT ve.is_forced
+                  AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+                  AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+            )
+            ELSE (
+                SELECT COUNT(DISTINCT cme.viewer_id)
+                FROM custom_metric_events cme
+                WHERE cme.variant_id = v.id AND cme.metric_id = p_metric_id
+                  AND (p_start_date IS NULL OR cme.created_at >= p_start_date)
+                  AND (p_end_date IS NULL OR cme.created_at <= p_end_date)
+            )
+        END AS successes
+    FROM variants v
+    WHERE v.project_id = p_project_id
+      AND v.status = 'rendered'
+    ORDER BY v.variant_code;
+
+    RETURN QUERY
+    SELECT
+        NULL::UUID AS variant_id,
+        p.control_share AS weight,
+        (
+            SELECT COUNT(DISTINCT ve.viewer_id)
+            FROM view_events ve
+            WHERE ve.project_id = p_project_id AND ve.event_type = 'holdout'
+              AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+              AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+        ) AS trials,
+        CASE
+            WHEN p_metric_id IS NULL THEN 0::BIGINT
+            ELSE (
+                SELECT COUNT(DISTINCT cme.viewer_id)
+                FROM custom_metric_events cme
+                WHERE cme.project_id = p_project_id AND cme.is_holdout
+                  AND cme.metric_id = p_metric_id
+                  AND (p_start_date IS NULL OR cme.created_at >= p_start_date)
+                  AND (p_end_date IS NULL OR cme.created_at <= p_end_date)
+            )
+        END AS successes
+    FROM projects p
+    WHERE p.id = p_project_id
+      AND p.control_type = 'holdout';
+END;
+$$;
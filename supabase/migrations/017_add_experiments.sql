@@ -0,0 +1,55 @@
+-- =============================================================
+-- Migration 017: Experiment lifecycle
+--
+-- An experiment is one scheduled run of a project's split test:
+--   - starts_at: when it starts counting. Stats are read from this point
+--     on, so traffic from before the test (or a previous test) is ignored.
+--   - ends_at: optional stop time
+--   - target_sample_size: optional trials (distinct viewers who pressed
+--     play) every active variant needs before the test concludes
+--   - auto_conclude: conclude as soon as a variant passes the Bayesian
+--     winner guard and the sequential (always-valid) boundary vs the control
+--   - metric_id: what "winning" means (NULL = completion)
+--
+-- The worker's experiment sweep starts scheduled experiments, checks
+-- running ones against their rules, and on conclusion promotes the winner:
+-- it gets weight 1, every other variant weight 0. Stopping an experiment
+-- by hand ends it without touching weights.
+--
+-- At most one experiment per project is open (scheduled or running).
+-- =============================================================
+
+CREATE TABLE experiments (
+    id                  UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id          UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    status              TEXT NOT NULL DEFAULT 'scheduled'
+                        CHECK (status IN ('scheduled', 'running', 'concluded', 'stopped')),
+    metric_id           UUID REFERENCES custom_metrics(id) ON DELETE SET NULL,
+    starts_at           TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    ends_at             TIMESTAMPTZ,
+    target_sample_size  INTEGER CHECK (target_sample_size IS NULL OR target_sample_size > 0),
+    auto_conclude       BOOLEAN NOT NULL DEFAULT TRUE,
+    winner_variant_id   UUID REFERENCES variants(id) ON DELETE SET NULL,
+    conclusion_reason   TEXT
+                        CHECK (conclusion_reason IN ('winner', 'sample_size', 'end_time', 'manual')),
+    concluded_at        TIMESTAMPTZ,
+    created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (ends_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE INDEX idx_experiments_project ON experiments(project_id, created_at DESC);
+
+-- One open experiment per project; also what the sweep scans
+CREATE UNIQUE INDEX idx_experiments_open ON experiments(project_id)
+    WHERE status IN ('scheduled', 'running');
+
+CREATE TRIGGER set_updated_at_experiments BEFORE UPDATE ON experiments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE experiments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own project experiments"
+    ON experiments FOR ALL USING (
+        project_id IN (SELECT id FROM projects WHERE user_id = auth.uid())
+    );
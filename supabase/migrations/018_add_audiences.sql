@@ -0,0 +1,91 @@
+-- =============================================================
+-- Migration 018: Audience-targeted variant pools
+--
+-- An audience matches viewers by where they came from and what they're on:
+--   - referrer_domain: host of the referring page ("google.com" also
+--     matches "www.google.com"). embed.js forwards the host page's
+--     referrer as ?wai_ref=; direct /e/ loads use the Referer header
+--   - utm_source / utm_medium / utm_campaign: URL parameters
+--   - device: 'mobile' or 'desktop' (same User-Agent test as the player)
+--   - country: ISO 3166-1 alpha-2, from the CDN's geo header
+-- Every criterion that's set must match. Audiences are checked in
+-- sort_order and the first match wins; viewers matching none get the
+-- project's normal assignment.
+--
+-- Each audience has its own pool: the variants its viewers can receive,
+-- stored as combination keys ("hookId|bodyId|ctaId") so the pool survives
+-- a republish that re-renders its variants under new IDs.
+--
+-- view_events.audience_id records which audience a view was served under,
+-- for the per-audience analytics breakdown.
+-- =============================================================
+
+CREATE TABLE audiences (
+    id                  UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id          UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    name                TEXT NOT NULL,
+    sort_order          INTEGER NOT NULL DEFAULT 0,
+    referrer_domain     TEXT,
+    utm_source          TEXT,
+    utm_medium          TEXT,
+    utm_campaign        TEXT,
+    device              TEXT CHECK (device IN ('mobile', 'desktop')),
+    country             TEXT CHECK (country ~ '^[A-Z]{2}$'),
+    variant_keys        TEXT[] NOT NULL CHECK (cardinality(variant_keys) > 0),
+    created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_audiences_project ON audiences(project_id, sort_order);
+
+ALTER TABLE audiences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own project audiences"
+    ON audiences FOR ALL USING (
+        project_id IN (SELECT id FROM projects WHERE user_id = auth.uid())
+    );
+
+ALTER TABLE view_events ADD COLUMN IF NOT EXISTS audience_id UUID REFERENCES audiences(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_view_events_audience ON view_events(project_id, audience_id)
+    WHERE audience_id IS NOT NULL;
+
+-- -----------------------------------------------
+-- Per-audience, per-variant breakdown. audience_id NULL is traffic that
+-- matched no audience (the project's general pool). Excludes forced views.
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION get_audience_analytics(
+    p_project_id UUID,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    audience_id UUID,
+    variant_id UUID,
+    variant_code TEXT,
+    unique_viewers BIGINT,
+    play_count BIGINT,
+    complete_count BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        ve.audience_id,
+        v.id AS variant_id,
+        v.variant_code,
+        COUNT(DISTINCT ve.viewer_id) AS unique_viewers,
+        COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END) AS play_count,
+        COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END) AS complete_count
+    FROM view_events ve
+    JOIN variants v ON v.id = ve.variant_id
+    WHERE ve.project_id = p_project_id
+        AND NOT ve.is_forced
+        AND v.status = 'rendered'
+        AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+        AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+    GROUP BY ve.audience_id, v.id, v.variant_code
+    ORDER BY v.variant_code;
+END;
+$$;
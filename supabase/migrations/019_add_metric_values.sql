@@ -0,0 +1,71 @@
+-- =============================================================
+-- Migration 019: Value-based conversion metrics
+--
+-- custom_metrics.value_type says how a metric is counted:
+--   - 'count':   every conversion event (a viewer can convert twice)
+--   - 'unique':  viewers who converted at least once
+--   - 'revenue': the sum of the events' values, in custom_metrics.currency
+--     (ISO 4217, required for revenue metrics)
+-- Significance (lib/analytics/bayesian.ts) is unchanged: it models whether
+-- a viewer converted, whatever the value type.
+--
+-- custom_metric_events.value is the numeric value a webhook or track.js
+-- call passed (e.g. an order total). Pixel conversions recorded before
+-- this migration kept it in metadata.value — backfilled below.
+-- =============================================================
+
+ALTER TABLE custom_metrics ADD COLUMN IF NOT EXISTS value_type TEXT NOT NULL DEFAULT 'count'
+    CHECK (value_type IN ('count', 'unique', 'revenue'));
+ALTER TABLE custom_metrics ADD COLUMN IF NOT EXISTS currency TEXT
+    CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE custom_metrics ADD CONSTRAINT custom_metrics_revenue_currency
+    CHECK (value_type <> 'revenue' OR currency IS NOT NULL);
+
+ALTER TABLE custom_metric_events ADD COLUMN IF NOT EXISTS value NUMERIC(14,2);
+
+UPDATE custom_metric_events
+SET value = (metadata->>'value')::NUMERIC
+WHERE value IS NULL AND jsonb_typeof(metadata->'value') = 'number';
+
+-- -----------------------------------------------
+-- Per-variant value totals for one metric. A row with variant_id NULL
+-- holds the holdout bucket's conversions, when there are any.
+--   conversions        — events
+--   converters         — distinct viewers
+--   revenue            — sum of values
+--   valued_conversions — events that carried a value (AOV denominator)
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION get_metric_value_stats(
+    p_project_id UUID,
+    p_metric_id UUID,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    variant_id UUID,
+    conversions BIGINT,
+    converters BIGINT,
+    revenue NUMERIC,
+    valued_conversions BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        cme.variant_id,
+        COUNT(*) AS conversions,
+        COUNT(DISTINCT cme.viewer_id) AS converters,
+        COALESCE(SUM(cme.value), 0) AS revenue,
+        COUNT(cme.value) AS valued_conversions
+    FROM custom_metric_events cme
+    LEFT JOIN variants v ON v.id = cme.variant_id
+    WHERE cme.project_id = p_project_id
+      AND cme.metric_id = p_metric_id
+      AND (v.status = 'rendered' OR (cme.variant_id IS NULL AND cme.is_holdout))
+      AND (p_start_date IS NULL OR cme.created_at >= p_start_date)
+      AND (p_end_date IS NULL OR cme.created_at <= p_end_date)
+    GROUP BY cme.variant_id;
+END;
+$$;
@@ -0,0 +1,196 @@
+-- =============================================================
+-- Migration 020: Conversion deduplication and attribution windows
+--
+-- Per metric:
+--   - idempotency_field: metadata field holding a natural key (e.g.
+--     "order_id"). A second conversion with the same key is dropped, so a
+--     retried webhook or a reloaded thank-you page counts once
+--   - count_once: at most one conversion per viewer
+--   - attribution_window_hours: conversions more than this long after the
+--     viewer's first exposure are stored but not credited to a variant.
+--     NULL = no limit (the previous behavior)
+--
+-- Both dedup rules are enforced by the unique (metric_id, idempotency_key)
+-- constraint: the key is "viewer:<viewer_id>" for count-once metrics and
+-- "key:<value>" for an idempotency field (lib/analytics/conversions.ts).
+-- Events without a key (NULL) never conflict.
+--
+-- custom_metric_events.attributed is FALSE for conversions outside the
+-- window or from viewers with no exposure on record. The stats RPCs below
+-- (redefined from 015, 016 and 019) only count attributed conversions.
+-- =============================================================
+
+ALTER TABLE custom_metrics ADD COLUMN IF NOT EXISTS idempotency_field TEXT;
+ALTER TABLE custom_metrics ADD COLUMN IF NOT EXISTS count_once BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE custom_metrics ADD COLUMN IF NOT EXISTS attribution_window_hours INTEGER
+    CHECK (attribution_window_hours IS NULL OR attribution_window_hours > 0);
+
+ALTER TABLE custom_metric_events ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+ALTER TABLE custom_metric_events ADD COLUMN IF NOT EXISTS attributed BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE custom_metric_events ADD CONSTRAINT custom_metric_events_idempotency
+    UNIQUE (metric_id, idempotency_key);
+
+-- First exposure lookups (earliest event per viewer)
+CREATE INDEX IF NOT EXISTS idx_view_events_viewer ON view_events(project_id, viewer_id, created_at);
+
+-- -----------------------------------------------
+-- Stats RPCs: same as before, attributed conversions only
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION get_bandit_stats(
+    p_project_id UUID,
+    p_metric_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    variant_id UUID,
+    trials BIGINT,
+    successes BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        v.id AS variant_id,
+        (
+            SELECT COUNT(DISTINCT ve.viewer_id)
+            FROM view_events ve
+            WHERE ve.variant_id = v.id AND ve.event_type = 'play'
+              AND NOT ve.is_forced
+        ) AS trials,
+        CASE
+            WHEN p_metric_id IS NULL THEN (
+                SELECT COUNT(DISTINCT ve.viewer_id)
+                FROM view_events ve
+                WHERE ve.variant_id = v.id AND ve.event_type = 'complete'
+                  AND NOT ve.is_forced
+            )
+            ELSE (
+                SELECT COUNT(DISTINCT cme.viewer_id)
+                FROM custom_metric_events cme
+                WHERE cme.variant_id = v.id AND cme.metric_id = p_metric_id
+                  AND cme.attributed
+            )
+        END AS successes
+    FROM variants v
+    WHERE v.project_id = p_project_id
+      AND v.status = 'rendered'
+      AND v.weight > 0
+    ORDER BY v.variant_code;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_variant_conversion_stats(
+    p_project_id UUID,
+    p_metric_id UUID DEFAULT NULL,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    variant_id UUID,
+    weight NUMERIC,
+    trials BIGINT,
+    successes BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        v.id AS variant_id,
+        v.weight,
+        (
+            SELECT COUNT(DISTINCT ve.viewer_id)
+            FROM view_events ve
+            WHERE ve.variant_id = v.id AND ve.event_type = 'play'
+              AND NOT ve.is_forced
+              AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+              AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+        ) AS trials,
+        CASE
+            WHEN p_metric_id IS NULL THEN (
+                SELECT COUNT(DISTINCT ve.viewer_id)
+                FROM view_events ve
+                WHERE ve.variant_id = v.id AND ve.event_type = 'complete'
+                  AND NOT ve.is_forced
+                  AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+                  AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+            )
+            ELSE (
+                SELECT COUNT(DISTINCT cme.viewer_id)
+                FROM custom_metric_events cme
+                WHERE cme.variant_id = v.id AND cme.metric_id = p_metric_id
+                  AND cme.attributed
+                  AND (p_start_date IS NULL OR cme.created_at >= p_start_date)
+                  AND (p_end_date IS NULL OR cme.created_at <= p_end_date)
+            )
+        END AS successes
+    FROM variants v
+    WHERE v.project_id = p_project_id
+      AND v.status = 'rendered'
+    ORDER BY v.variant_code;
+
+    RETURN QUERY
+    SELECT
+        NULL::UUID AS variant_id,
+        p.control_share AS weight,
+        (
+            SELECT COUNT(DISTINCT ve.viewer_id)
+            FROM view_events ve
+            WHERE ve.project_id = p_project_id AND ve.event_type = 'holdout'
+              AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+              AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+        ) AS trials,
+        CASE
+            WHEN p_metric_id IS NULL THEN 0::BIGINT
+            ELSE (
+                SELECT COUNT(DISTINCT cme.viewer_id)
+                FROM custom_metric_events cme
+                WHERE cme.project_id = p_project_id AND cme.is_holdout
+                  AND cme.metric_id = p_metric_id AND cme.attributed
+                  AND (p_start_date IS NULL OR cme.created_at >= p_start_date)
+                  AND (p_end_date IS NULL OR cme.created_at <= p_end_date)
+            )
+        END AS successes
+    FROM projects p
+    WHERE p.id = p_project_id
+      AND p.control_type = 'holdout';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_metric_value_stats(
+    p_project_id UUID,
+    p_metric_id UUID,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    variant_id UUID,
+    conversions BIGINT,
+    converters BIGINT,
+    revenue NUMERIC,
+    valued_conversions BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        cme.variant_id,
+        COUNT(*) AS conversions,
+        COUNT(DISTINCT cme.viewer_id) AS converters,
+        COALESCE(SUM(cme.value), 0) AS revenue,
+        COUNT(cme.value) AS valued_conversions
+    FROM custom_metric_events cme
+    LEFT JOIN variants v ON v.id = cme.variant_id
+    WHERE cme.project_id = p_project_id
+      AND cme.metric_id = p_metric_id
+      AND cme.attributed
+      AND (v.status = 'rendered' OR (cme.variant_id IS NULL AND cme.is_holdout))
+      AND (p_start_date IS NULL OR cme.created_at >= p_start_date)
+      AND (p_end_date IS NULL OR cme.created_at <= p_end_date)
+    GROUP BY cme.variant_id;
+END;
+$$;
@@ -0,0 +1,27 @@
+-- =============================================================
+-- Migration 021: Signed inbound webhooks
+--
+-- custom_metrics.signing_secret: when set, /api/webhook/[webhookKey] only
+-- accepts requests carrying a valid X-Wai-Signature header
+--   t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+-- whose timestamp is within five minutes of the server clock
+-- (lib/analytics/webhook-signature.ts). NULL = unsigned calls accepted.
+--
+-- webhook_signatures remembers the signatures accepted inside that
+-- window, so a captured request can't be replayed before its timestamp
+-- expires. Rows older than the window are pruned as new ones arrive.
+-- =============================================================
+
+ALTER TABLE custom_metrics ADD COLUMN IF NOT EXISTS signing_secret TEXT;
+
+CREATE TABLE webhook_signatures (
+    metric_id       UUID NOT NULL REFERENCES custom_metrics(id) ON DELETE CASCADE,
+    signature       TEXT NOT NULL,
+    received_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (metric_id, signature)
+);
+
+CREATE INDEX idx_webhook_signatures_received ON webhook_signatures(metric_id, received_at);
+
+-- Written and read by the service role only
+ALTER TABLE webhook_signatures ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,67 @@
+-- =============================================================
+-- Migration 022: Outgoing webhooks
+--
+-- A project can subscribe URLs to its events instead of polling:
+-- project activity (project_ready, variant_failed, segment_failed,
+-- experiment_concluded, ...) and conversion_recorded. Each subscription
+-- lists the event types it wants and has its own signing secret; every
+-- POST carries X-Wai-Signature (t=<unix seconds>,v1=<hex HMAC-SHA256 of
+-- "<t>.<body>">), the same scheme inbound metric webhooks use.
+--
+-- webhook_deliveries is the delivery log: one row per event per
+-- subscription, written before the job is queued. The worker's
+-- "webhook" queue POSTs it with retries and records the outcome of the
+-- latest attempt. Redelivering resets a row to pending and queues it again.
+-- =============================================================
+
+CREATE TABLE webhook_subscriptions (
+    id                  UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id          UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    url                 TEXT NOT NULL CHECK (url ~ '^https?://'),
+    event_types         TEXT[] NOT NULL CHECK (cardinality(event_types) > 0),
+    secret              TEXT NOT NULL,
+    active              BOOLEAN NOT NULL DEFAULT TRUE,
+    description         TEXT,
+    created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_subscriptions_project ON webhook_subscriptions(project_id)
+    WHERE active;
+
+ALTER TABLE webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own project webhook subscriptions"
+    ON webhook_subscriptions FOR ALL USING (
+        project_id IN (SELECT id FROM projects WHERE user_id = auth.uid())
+    );
+
+CREATE TRIGGER set_updated_at_webhook_subscriptions BEFORE UPDATE ON webhook_subscriptions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TABLE webhook_deliveries (
+    id                  UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    subscription_id     UUID NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+    project_id          UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    event_id            UUID NOT NULL,
+    event_type          TEXT NOT NULL,
+    payload             JSONB NOT NULL,
+    status              TEXT NOT NULL DEFAULT 'pending'
+                            CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts            INTEGER NOT NULL DEFAULT 0,
+    response_status     INTEGER,
+    response_body       TEXT,
+    error               TEXT,
+    last_attempt_at     TIMESTAMPTZ,
+    created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id, created_at DESC);
+
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Written by the service role only; owners can read the log
+CREATE POLICY "Users can view webhook deliveries of own projects"
+    ON webhook_deliveries FOR SELECT USING (
+        project_id IN (SELECT id FROM projects WHERE user_id = auth.uid())
+    );
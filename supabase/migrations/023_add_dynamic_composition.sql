@@ -0,0 +1,35 @@
+-- =============================================================
+-- Migration 023: Dynamic composition from per-segment HLS
+--
+-- Every normalized segment is packaged once as HLS (fMP4, stream-copy).
+-- The segment keeps where its package lives and its parsed playlist, so
+-- the manifest for any hook/body/CTA triple can be generated on request
+-- (/api/compose/...) by chaining the three playlists with
+-- #EXT-X-DISCONTINUITY — no file per combination.
+--
+--   - segments.hls_prefix: storage prefix of the current package
+--     (projects/{p}/segments/{s}/hls/{version}); a new version per
+--     normalization, so cached manifests never point at replaced files
+--   - segments.hls_playlist: { targetDuration, entries: [{ duration, uri }] }
+--     parsed from the package's playlist.m3u8
+--   - projects.composition_mode: 'render' stitches and encodes every
+--     variant (H×B×C encodes); 'dynamic' skips the render step and stages
+--     each variant as soon as its segments are packaged (H+B+C)
+--   - variants.composed: served from the composed manifest; has no
+--     video.mp4 of its own (hook_clip_storage_key is the hook segment's
+--     normalized file, which is versioned per normalization too)
+--   - variants.composed_parts: [{ hlsPrefix, playlist }] per segment, the
+--     packages the variant was staged from. Its manifest is composed from
+--     these, so re-normalizing a segment doesn't change a live variant
+--     before the next run is published, and a rollback brings back the
+--     old media.
+-- =============================================================
+
+ALTER TABLE segments ADD COLUMN IF NOT EXISTS hls_prefix TEXT;
+ALTER TABLE segments ADD COLUMN IF NOT EXISTS hls_playlist JSONB;
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS composition_mode TEXT NOT NULL DEFAULT 'render'
+    CHECK (composition_mode IN ('render', 'dynamic'));
+
+ALTER TABLE variants ADD COLUMN IF NOT EXISTS composed BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE variants ADD COLUMN IF NOT EXISTS composed_parts JSONB;
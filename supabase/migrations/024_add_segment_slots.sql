@@ -0,0 +1,119 @@
+-- =============================================================
+-- Migration 024: Project-defined segment slots
+--
+-- Variants used to be exactly hook + body + CTA. A project now defines
+-- an ordered list of named slots (intro, story, offer, testimonial,
+-- close, ...), each required or optional, and variants are built across
+-- all of them.
+--
+--   - projects.slots: [{ key, label, required }] in playback order. The
+--     first slot is always required — it opens every variant, so it is
+--     what hook clips, hook personalization rules and audience pools
+--     refer to. Defaults to the classic hook/body/CTA definition.
+--   - segments.type: now the key of the slot the segment belongs to
+--     (TEXT instead of the segment_type enum)
+--   - variants.segment_ids: the variant's segments in playback order.
+--     A skipped optional slot is simply absent, so the array is as long
+--     as the video has parts. Replaces body_segment_id/cta_segment_id;
+--     hook_segment_id stays as the opening segment (= segment_ids[1]).
+--   - variants referencing a deleted segment are deleted with it (the
+--     FK on body/cta did this before; an array can't carry an FK)
+--   - get_segment_analytics: p_segment_type is a slot key and matches
+--     any variant containing the segment
+-- =============================================================
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS slots JSONB NOT NULL DEFAULT
+    '[{"key":"hook","label":"Hook","required":true},{"key":"body","label":"Body","required":true},{"key":"cta","label":"CTA","required":true}]'::jsonb;
+
+-- -----------------------------------------------
+-- segments.type: enum → slot key
+-- -----------------------------------------------
+ALTER TABLE segments ALTER COLUMN type TYPE TEXT USING type::TEXT;
+ALTER TABLE segments ADD CONSTRAINT segments_type_slot_key
+    CHECK (type ~ '^[a-z][a-z0-9_]{0,23}$');
+
+-- -----------------------------------------------
+-- variants.segment_ids replaces the body/CTA columns
+-- -----------------------------------------------
+ALTER TABLE variants ADD COLUMN IF NOT EXISTS segment_ids UUID[];
+
+UPDATE variants
+SET segment_ids = ARRAY[hook_segment_id, body_segment_id, cta_segment_id]
+WHERE segment_ids IS NULL;
+
+ALTER TABLE variants ALTER COLUMN segment_ids SET NOT NULL;
+ALTER TABLE variants ADD CONSTRAINT variants_segment_ids_opening
+    CHECK (cardinality(segment_ids) > 0 AND segment_ids[1] = hook_segment_id);
+
+ALTER TABLE variants DROP COLUMN IF EXISTS body_segment_id;
+ALTER TABLE variants DROP COLUMN IF EXISTS cta_segment_id;
+
+CREATE INDEX IF NOT EXISTS idx_variants_segment_ids ON variants USING GIN (segment_ids);
+
+CREATE OR REPLACE FUNCTION delete_variants_with_segment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    DELETE FROM variants WHERE OLD.id = ANY(segment_ids);
+    RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS segments_delete_variants ON segments;
+CREATE TRIGGER segments_delete_variants
+    BEFORE DELETE ON segments
+    FOR EACH ROW EXECUTE FUNCTION delete_variants_with_segment();
+
+-- -----------------------------------------------
+-- RPC: get_segment_analytics (slot key instead of hook/body/cta)
+-- -----------------------------------------------
+CREATE OR REPLACE FUNCTION get_segment_analytics(
+    p_project_id UUID,
+    p_segment_type TEXT,
+    p_start_date TIMESTAMPTZ DEFAULT NULL,
+    p_end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    segment_id UUID,
+    segment_label TEXT,
+    total_views BIGINT,
+    unique_viewers BIGINT,
+    complete_count BIGINT,
+    completion_rate NUMERIC(5,2)
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        s.id AS segment_id,
+        s.label AS segment_label,
+        COUNT(DISTINCT CASE WHEN ve.event_type = 'play' THEN ve.id END) AS total_views,
+        COUNT(DISTINCT ve.viewer_id) AS unique_viewers,
+        COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END) AS complete_count,
+        CASE
+            WHEN COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END) > 0
+            THEN ROUND(
+                COUNT(CASE WHEN ve.event_type = 'complete' THEN 1 END)::NUMERIC /
+                COUNT(CASE WHEN ve.event_type = 'play' THEN 1 END)::NUMERIC * 100,
+                2
+            )
+            ELSE 0
+        END AS completion_rate
+    FROM segments s
+    JOIN variants v ON
+        v.status = 'rendered' AND s.id = ANY(v.segment_ids)
+    LEFT JOIN view_events ve ON ve.variant_id = v.id
+        AND NOT ve.is_forced
+        AND (p_start_date IS NULL OR ve.created_at >= p_start_date)
+        AND (p_end_date IS NULL OR ve.created_at <= p_end_date)
+    WHERE s.project_id = p_project_id
+      AND s.type = p_segment_type
+    GROUP BY s.id, s.label
+    ORDER BY total_views DESC;
+END;
+$$;
+
+DROP TYPE IF EXISTS segment_type;
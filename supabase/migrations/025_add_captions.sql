@@ -0,0 +1,21 @@
+-- =============================================================
+-- Migration 025: Captions
+--
+-- Segments can carry a captions file (SRT or WebVTT, stored as WebVTT).
+-- Rendering a variant lays its segments' cues end to end, shifted by the
+-- normalized segment durations, into one captions file for the variant —
+-- served as a <track> by the embed players and as a subtitles rendition
+-- in the variant's HLS master playlist.
+--
+--   - segments.captions_storage_key: the segment's WebVTT file
+--   - segments.captions_updated_at: when captions were last uploaded or
+--     removed; a variant rendered before this is stale and is re-rendered
+--     on the next processing run
+--   - variants.captions_storage_key: the variant's composed WebVTT file
+--     (NULL when none of its segments has captions)
+-- =============================================================
+
+ALTER TABLE segments ADD COLUMN IF NOT EXISTS captions_storage_key TEXT;
+ALTER TABLE segments ADD COLUMN IF NOT EXISTS captions_updated_at TIMESTAMPTZ;
+
+ALTER TABLE variants ADD COLUMN IF NOT EXISTS captions_storage_key TEXT;
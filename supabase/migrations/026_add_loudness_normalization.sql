@@ -0,0 +1,26 @@
+-- =============================================================
+-- Migration 026: Loudness normalization (EBU R128)
+--
+-- Normalization used to match codec, sample rate and channels only, so
+-- segments recorded on different devices played at different volumes.
+-- The worker now runs a two-pass loudnorm to the project's target and
+-- records each segment's delivered levels.
+--
+--   - projects.loudness_target_lufs: integrated loudness every segment is
+--     normalized to (NULL turns loudness normalization off). Changing it
+--     marks the project's normalized segments 'stale'.
+--   - segment_status 'stale': normalized, but for settings that have
+--     changed since. The next processing run re-normalizes it — from its
+--     normalized file, as the upload is deleted after the first
+--     normalization (segments.original_storage_key is then NULL).
+--   - segments.loudness_lufs: integrated loudness after normalization
+--     (NULL without audio, when silent, or normalized before this)
+--   - segments.true_peak_dbtp: true peak after normalization
+-- =============================================================
+
+ALTER TYPE segment_status ADD VALUE IF NOT EXISTS 'stale';
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS loudness_target_lufs REAL DEFAULT -16;
+
+ALTER TABLE segments ADD COLUMN IF NOT EXISTS loudness_lufs REAL;
+ALTER TABLE segments ADD COLUMN IF NOT EXISTS true_peak_dbtp REAL;
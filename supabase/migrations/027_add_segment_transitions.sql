@@ -0,0 +1,22 @@
+-- =============================================================
+-- Migration 027: Transitions between stitched segments
+--
+-- Segments used to be joined with hard cuts only. A project now sets how
+-- each segment boundary is crossed: cut, crossfade, fade through black,
+-- or an audio-only J-cut / L-cut, each with a duration.
+--
+--   - projects.transitions: { "<slot key>": { type, durationMs } } — the
+--     transition INTO that slot. Slots without an entry are cut into.
+--   - variants.transitions: [{ type, durationMs }] per boundary, as the
+--     variant was rendered. A variant whose boundaries no longer match
+--     the project's transitions is re-rendered on the next processing
+--     run. Existing variants were rendered with cuts: [].
+--
+-- Overlapping transitions shorten the stitched video, so hook_end_time_ms
+-- of variants rendered from now on is where the second segment starts —
+-- before the transition — rather than the hook's full duration.
+-- =============================================================
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS transitions JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE variants ADD COLUMN IF NOT EXISTS transitions JSONB NOT NULL DEFAULT '[]'::jsonb;